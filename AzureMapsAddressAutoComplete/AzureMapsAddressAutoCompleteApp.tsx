@@ -24,6 +24,11 @@ export interface IAzureMapsAddressAutoCompleteAppProps
   context: ComponentFramework.Context<IInputs>;
   /** Unique instance ID for the control. */
   instanceid: string;
+  /**
+   * The control's PCF context service, shared so that `updateView` changes such as a new
+   * additionalParameters JSON reach the UI. Created from `context` when omitted.
+   */
+  pcfContextService?: PcfContextService;
 }
 
 /**
@@ -50,13 +55,15 @@ export class AzureMapsAddressAutoCompleteApp extends React.Component<
 
   constructor(props: IAzureMapsAddressAutoCompleteAppProps) {
     super(props);
-    this.pcfContextService = new PcfContextService({
-      context: props.context,
-      instanceid: props.instanceid,
-      onSelectedValueChange: (value) => {
-        props.onSelect?.(value.address);
-      },
-    });
+    this.pcfContextService =
+      props.pcfContextService ??
+      new PcfContextService({
+        context: props.context,
+        instanceid: props.instanceid,
+        onSelectedValueChange: (value) => {
+          props.onSelect?.(value.address);
+        },
+      });
     
     this.state = {
       initError: null,
@@ -111,7 +118,7 @@ export class AzureMapsAddressAutoCompleteApp extends React.Component<
       return null;
     }
 
-    const { instanceid, context: _context, ...autoCompleteProps } = this.props;
+    const { instanceid, context: _context, pcfContextService: _pcfContextService, ...autoCompleteProps } = this.props;
     const { initError, showErrorDialog } = this.state;
 
     // Get disabled state from pcfContextService
@@ -8,13 +8,17 @@ import {
   type ButtonProps,
 } from "@fluentui/react-components";
 import { Icons } from "../utils/iconRegistry";
+import { parseSearchPattern } from "../utils";
 import { useAzureMapsAddressAutoCompleteStyles } from "../styles";
 import { AzureMapsAddressDialog } from "./AzureMapsAddressDialog";
 import { AzureMapsClearConfirmationDialog } from "./AzureMapsClearConfirmationDialog";
-import { AzureMapsDropdown } from "./AzureMapsDropdown";
-import { useAddressSearch } from "../hooks";
+import { AzureMapsDropdown, getSuggestionOptionId } from "./AzureMapsDropdown";
+import { AzureMapsDuplicateWarning } from "./AzureMapsDuplicateWarning";
+import { AzureMapsBatchGeocodingDialog } from "./AzureMapsBatchGeocodingDialog";
+import { useAddressSearch, useDuplicateAddresses, useLocationBias } from "../hooks";
 import type { AzureMapsSearchResult } from "../services";
 import type { PcfContextService } from "../services/PcfContext/PcfContextService";
+import { GeolocationError, isGeolocationError, type GeolocationErrorCode } from "../types";
 
 // Re-export for backwards compatibility and external use
 export type { AzureMapsSearchResult } from "../services";
@@ -59,6 +63,46 @@ const ClearButton: React.FC<ButtonProps> = (props) => {
   );
 };
 
+/**
+ * Locate button component for suggesting addresses at the current location.
+ */
+const LocateButton: React.FC<ButtonProps> = (props) => {
+  return (
+    <Button
+      {...props}
+      appearance="transparent"
+      icon={<Icons.MyLocationRegular primaryFill="#616161" />}
+      size="small"
+    />
+  );
+};
+
+/**
+ * Resource keys and fallbacks for the localized geolocation error messages.
+ */
+const GEOLOCATION_ERROR_MESSAGES: Record<GeolocationErrorCode, [key: string, fallback: string]> = {
+  PermissionDenied: [
+    "azure-maps-address-auto-complete-location-permission-denied",
+    "Location access was denied. Allow this site to use your location and try again.",
+  ],
+  Timeout: [
+    "azure-maps-address-auto-complete-location-timeout",
+    "Determining your location took too long. Please try again.",
+  ],
+  PositionUnavailable: [
+    "azure-maps-address-auto-complete-location-unavailable",
+    "Your location could not be determined.",
+  ],
+  Unsupported: [
+    "azure-maps-address-auto-complete-location-unsupported",
+    "Your browser does not support location services.",
+  ],
+  NoAddressFound: [
+    "azure-maps-address-auto-complete-location-no-address",
+    "No address was found at your current location.",
+  ],
+};
+
 /**
  * Props for the AzureMapsAddressAutoComplete component.
  */
@@ -75,6 +119,11 @@ export interface IAzureMapsAddressAutoCompleteProps {
   onSelect?: (address: string, result?: AzureMapsSearchResult) => void;
   /** PCF context service for accessing platform context. */
   pcfContext?: PcfContextService;
+  /**
+   * Validation failures of the selected address, as validated by the control.
+   * Shown below the input; set only when the host has no form notifications.
+   */
+  validationMessage?: string;
 }
 
 /**
@@ -94,6 +143,7 @@ export const AzureMapsAddressAutoComplete: React.FC<
     onChange,
     onSelect,
     pcfContext,
+    validationMessage,
   } = props;
   const styles = useAzureMapsAddressAutoCompleteStyles();
 
@@ -103,6 +153,11 @@ export const AzureMapsAddressAutoComplete: React.FC<
   // State to show hint when address is cleared
   const [showClearedHint, setShowClearedHint] = React.useState(false);
 
+  // Selected result that is checked for existing records with the same address
+  const [duplicateCheckResult, setDuplicateCheckResult] = React.useState<AzureMapsSearchResult | undefined>(
+    undefined
+  );
+
   // Ref to store the last selected address data for undo
   const lastSelectionRef = React.useRef<CachedAddressData | null>(null);
 
@@ -140,13 +195,34 @@ export const AzureMapsAddressAutoComplete: React.FC<
       "Address Successfully Cleared"
     ) ?? "Address Successfully Cleared";
 
+  const retryingHint =
+    pcfContext?.getString(
+      "azure-maps-address-auto-complete-retrying-hint",
+      "Address service is busy, retrying..."
+    ) ?? "Address service is busy, retrying...";
+
+  const locateButtonLabel =
+    pcfContext?.getString(
+      "azure-maps-address-auto-complete-locate-button",
+      "Use my current location"
+    ) ?? "Use my current location";
+
   const showMaps = pcfContext?.showMaps ?? false;
   const useUserLanguage = pcfContext?.useUserLanguage ?? false;
   const uiLanguage = pcfContext?.uiLanguage ?? "en-US";
   const defaultLanguage = pcfContext?.defaultLanguage ?? "en-US";
   const subscriptionKey = pcfContext?.subscriptionKey ?? "";
+  const searchProvider = pcfContext?.getSearchProvider();
   const countrySet = pcfContext?.defaultCountries ?? undefined;
 
+  // Bias address searches towards the record, the user or a configured point
+  const recordPosition = pcfContext?.getRecordPosition();
+  const locationBias = useLocationBias(
+    pcfContext?.additionalParamsConfig?.AzureMapServiceConfigs?.LocationBias,
+    recordPosition?.lat,
+    recordPosition?.lon
+  );
+
   // Determine the search language: use user's UI language if enabled, otherwise use configured default
   // Falls back to prop value or "en-US" if PCF context is not available
   const searchLanguage = pcfContext
@@ -169,6 +245,7 @@ export const AzureMapsAddressAutoComplete: React.FC<
       }
       // Hide cleared hint when new selection is made
       setShowClearedHint(false);
+      setDuplicateCheckResult(result);
       // Call the original onSelect
       onSelect?.(address, result);
     },
@@ -181,25 +258,49 @@ export const AzureMapsAddressAutoComplete: React.FC<
     showDropdown,
     suggestions,
     isLoading,
+    isRetrying,
+    isLocating,
+    canSearchNearCurrentLocation,
     error,
     showErrorDialog,
     selectedResult,
+    isShowingRecent,
+    favoriteCount,
+    toggleFavorite,
+    activeIndex,
+    setActiveIndex,
     openPopoverIndex,
     setOpenPopoverIndex,
     handleChange,
     handleFocus,
     handleBlur,
+    handleKeyDown,
     handleSelectAddress,
     handleErrorDismiss,
     handlePanelCancel,
+    searchNearCurrentLocation,
   } = useAddressSearch(value, {
     subscriptionKey,
+    searchProvider,
     language: searchLanguage,
     countrySet,
+    locationBias,
+    recentAddresses: pcfContext?.getRecentAddressService(),
+    addressBook: pcfContext?.getAddressBookService(),
     onChange,
     onSelect: handleSelectWithCache,
   });
 
+  // Warn about existing records with the selected address
+  const duplicates = useDuplicateAddresses(
+    pcfContext?.getDuplicateAddressService(),
+    duplicateCheckResult,
+    pcfContext?.getCurrentRecord()
+  );
+
+  // Bulk geocoding of existing records, offered when configured
+  const batchGeocodingService = pcfContext?.getBatchGeocodingService();
+
   /**
    * Wrapper to handle async address selection without returning a promise.
    */
@@ -210,6 +311,14 @@ export const AzureMapsAddressAutoComplete: React.FC<
     [handleSelectAddress]
   );
 
+  /**
+   * Query without search pattern prefixes (e.g., "CH:"), whose matches are bolded in the suggestions.
+   */
+  const highlightQuery = React.useMemo(
+    () => parseSearchPattern(inputValue, countrySet).query,
+    [inputValue, countrySet]
+  );
+
   /**
    * Handler for search button click.
    */
@@ -219,6 +328,64 @@ export const AzureMapsAddressAutoComplete: React.FC<
     // TODO: Add search trigger logic here
   }, [inputValue]);
 
+  /**
+   * Handler for locate button click - suggests addresses at the current location.
+   */
+  const handleLocateClick = React.useCallback(() => {
+    void searchNearCurrentLocation();
+  }, [searchNearCurrentLocation]);
+
+  /**
+   * Announces the number of suggestions to screen readers once a search completes.
+   */
+  const [resultsAnnouncement, setResultsAnnouncement] = React.useState("");
+  const wasLoadingRef = React.useRef(false);
+  React.useEffect(() => {
+    const searchCompleted = wasLoadingRef.current && !isLoading;
+    wasLoadingRef.current = isLoading;
+    if (!showDropdown) {
+      setResultsAnnouncement("");
+      return;
+    }
+    if (!searchCompleted) {
+      return;
+    }
+    if (suggestions.length === 0) {
+      setResultsAnnouncement(
+        pcfContext?.getString("azure-maps-address-auto-complete-results-none", "No addresses found") ??
+          "No addresses found"
+      );
+    } else if (suggestions.length === 1) {
+      setResultsAnnouncement(
+        pcfContext?.getString("azure-maps-address-auto-complete-results-one", "1 address found") ??
+          "1 address found"
+      );
+    } else {
+      const template =
+        pcfContext?.getString("azure-maps-address-auto-complete-results-count", "{0} addresses found") ??
+        "{0} addresses found";
+      setResultsAnnouncement(template.replace("{0}", String(suggestions.length)));
+    }
+  }, [isLoading, showDropdown, suggestions, pcfContext]);
+
+  /**
+   * Geolocation errors are shown with a localized title and message.
+   */
+  const dialogError = React.useMemo<Error | null>(() => {
+    if (!isGeolocationError(error)) {
+      return error;
+    }
+    const [key, fallback] = GEOLOCATION_ERROR_MESSAGES[error.code];
+    return new GeolocationError(pcfContext?.getString(key, fallback) ?? fallback, error.code);
+  }, [error, pcfContext]);
+
+  const dialogTitle = isGeolocationError(error)
+    ? pcfContext?.getString(
+        "azure-maps-address-auto-complete-location-error-title",
+        "Location Error"
+      ) ?? "Location Error"
+    : undefined;
+
   /**
    * Handler for clear button click - shows confirmation dialog.
    */
@@ -233,6 +400,7 @@ export const AzureMapsAddressAutoComplete: React.FC<
     // Clear the input value and all address fields
     onChange?.("");
     onSelect?.("", undefined); // Clears all address fields in index.ts
+    setDuplicateCheckResult(undefined);
     setShowClearDialog(false);
     setShowClearedHint(true);
   }, [onChange, onSelect]);
@@ -267,21 +435,39 @@ export const AzureMapsAddressAutoComplete: React.FC<
           onChange={handleChange}
           onFocus={handleFocus}
           onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
           contentAfter={
             isLoading ? (
-              <Spinner size="tiny" id={afterId} />
-            ) : inputValue ? (
-              <ClearButton
+              <Spinner
+                size="tiny"
                 id={afterId}
-                disabled={disabled}
-                onClick={handleClearClick}
+                aria-label={isLocating ? locateButtonLabel : undefined}
               />
             ) : (
-              <SearchButton
-                id={afterId}
-                disabled={disabled}
-                onClick={handleSearchClick}
-              />
+              <>
+                {canSearchNearCurrentLocation && (
+                  <LocateButton
+                    disabled={disabled}
+                    aria-label={locateButtonLabel}
+                    title={locateButtonLabel}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={handleLocateClick}
+                  />
+                )}
+                {inputValue ? (
+                  <ClearButton
+                    id={afterId}
+                    disabled={disabled}
+                    onClick={handleClearClick}
+                  />
+                ) : (
+                  <SearchButton
+                    id={afterId}
+                    disabled={disabled}
+                    onClick={handleSearchClick}
+                  />
+                )}
+              </>
             )
           }
           appearance="filled-darker"
@@ -291,17 +477,43 @@ export const AzureMapsAddressAutoComplete: React.FC<
           aria-haspopup="listbox"
           aria-controls={listboxId}
           aria-autocomplete="list"
+          aria-activedescendant={
+            showDropdown && activeIndex >= 0 ? getSuggestionOptionId(listboxId, activeIndex) : undefined
+          }
         />
       </div>
+      <div className={styles.visuallyHidden} role="status" aria-live="polite" aria-atomic="true">
+        {resultsAnnouncement}
+      </div>
       {selectedResult && (
         <div className={styles.hint}>{addressSelectedHint}</div>
       )}
+      {isRetrying && (
+        <div className={styles.hint} role="status">{retryingHint}</div>
+      )}
       {showClearedHint && (
         <div className={styles.hint} style={{ color: '#d13438' }}>{addressClearedHint}</div>
       )}
+      {validationMessage && (
+        <div className={styles.validationError} role="alert">{validationMessage}</div>
+      )}
+      <AzureMapsDuplicateWarning
+        duplicates={duplicates}
+        pcfContext={pcfContext}
+        onDismiss={() => setDuplicateCheckResult(undefined)}
+      />
+      {batchGeocodingService && !disabled && (
+        <AzureMapsBatchGeocodingDialog service={batchGeocodingService} pcfContext={pcfContext} />
+      )}
       {showDropdown && (suggestions.length > 0 || isLoading) && (
         <AzureMapsDropdown
           suggestions={suggestions}
+          isRecent={isShowingRecent}
+          favoriteCount={favoriteCount}
+          onToggleFavorite={toggleFavorite}
+          highlightQuery={highlightQuery}
+          activeIndex={activeIndex}
+          onActiveIndexChange={setActiveIndex}
           openPopoverIndex={openPopoverIndex}
           onPopoverChange={setOpenPopoverIndex}
           onSelect={onSelectAddress}
@@ -314,7 +526,8 @@ export const AzureMapsAddressAutoComplete: React.FC<
       )}
       <AzureMapsAddressDialog
         open={showErrorDialog}
-        error={error}
+        error={dialogError}
+        title={dialogTitle}
         onDismiss={handleErrorDismiss}
       />
       <AzureMapsClearConfirmationDialog
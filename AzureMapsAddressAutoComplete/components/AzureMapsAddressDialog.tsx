@@ -122,9 +122,28 @@ function hasDataverseErrorProperties(error: unknown): error is {
   );
 }
 
+/**
+ * Type guard to check if an error has GeolocationError properties.
+ *
+ * @param error - The error to check.
+ * @returns True if the error has GeolocationError properties.
+ */
+function hasGeolocationErrorProperties(error: unknown): error is {
+  code: string;
+  message: string;
+} {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as Record<string, unknown>).code === 'string' &&
+    (error as { name?: string }).name === 'GeolocationError'
+  );
+}
+
 /**
  * Safely extracts error information from an Error object.
- * Uses type guard pattern to handle AzureMapsApiError and DataverseApiError properties.
+ * Uses type guard pattern to handle AzureMapsApiError, DataverseApiError and GeolocationError properties.
  *
  * @param error - The error to extract information from.
  * @returns The extracted error information.
@@ -170,6 +189,22 @@ function extractErrorInfo(error: Error): ApiErrorInfo {
     };
   }
 
+  // Check for geolocation error
+  if (hasGeolocationErrorProperties(error)) {
+    return {
+      errorSource: 'geolocation',
+      isApiError: false,
+      isDataverseError: false,
+      code: error.code,
+      httpStatus: undefined,
+      message: error.message,
+      target: undefined,
+      details: undefined,
+      errorCode: undefined,
+      entityName: undefined,
+    };
+  }
+
   // Generic error
   return {
     errorSource: 'unknown',
@@ -236,6 +271,15 @@ function getStatusDescription(httpStatus: number): string {
  * @returns An array of suggested action strings.
  */
 function getSuggestedActions(httpStatus: number | undefined, errorSource: ErrorSource): string[] {
+  // Geolocation errors are not HTTP errors
+  if (errorSource === 'geolocation') {
+    return [
+      'Allow location access for this site in your browser settings',
+      'Make sure location services are turned on for your device',
+      'Enter the address manually instead',
+    ];
+  }
+
   // Dataverse-specific suggested actions
   if (errorSource === 'dataverse') {
     if (!httpStatus) {
@@ -0,0 +1,205 @@
+// AzureMapsAddressAutoComplete\components\AzureMapsBatchGeocodingDialog.tsx
+import * as React from "react";
+import {
+  Dialog,
+  DialogTrigger,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogContent,
+  DialogActions,
+  Button,
+  ProgressBar,
+  Spinner,
+} from "@fluentui/react-components";
+import { Icons } from "../utils/iconRegistry";
+import { toCsv } from "../utils";
+import { useAzureMapsAddressAutoCompleteStyles } from "../styles";
+import { useBatchGeocoding } from "../hooks";
+import type { BatchGeocodingService, IBatchGeocodingError } from "../services";
+import type { PcfContextService } from "../services/PcfContext/PcfContextService";
+
+/**
+ * File name of the downloaded error report.
+ */
+const ERROR_REPORT_FILE_NAME = "geocoding-errors.csv";
+
+/**
+ * Props for the AzureMapsBatchGeocodingDialog component.
+ */
+export interface IAzureMapsBatchGeocodingDialogProps {
+  /** The bulk geocoding of rows without coordinates. */
+  service: BatchGeocodingService;
+  /** PCF context service for localized strings. */
+  pcfContext?: PcfContextService;
+  /** Whether the button that opens the dialog is disabled. */
+  disabled?: boolean;
+}
+
+/**
+ * Downloads the rows that were not geocoded as a CSV file.
+ *
+ * @param errors - The rows that were not geocoded.
+ */
+function downloadErrorReport(errors: IBatchGeocodingError[]): void {
+  const csv = toCsv([
+    ["Id", "Name", "Address", "Reason", "Message"],
+    ...errors.map((error) => [error.id, error.name ?? "", error.address, error.reason, error.message ?? ""]),
+  ]);
+  // The byte order mark makes Excel read the file as UTF-8
+  const url = URL.createObjectURL(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = ERROR_REPORT_FILE_NAME;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A button that opens a dialog for geocoding existing records in bulk.
+ * The dialog shows the progress of the job and lets the user pause, resume or
+ * cancel it and download a report of the records that were not geocoded.
+ *
+ * @param props - The component props.
+ * @returns The rendered button and dialog.
+ *
+ * @remarks
+ * The job keeps running while the dialog is closed; reopening it shows the progress.
+ *
+ * @example
+ * ```tsx
+ * const batchGeocodingService = pcfContext?.getBatchGeocodingService();
+ * {batchGeocodingService && (
+ *   <AzureMapsBatchGeocodingDialog service={batchGeocodingService} pcfContext={pcfContext} />
+ * )}
+ * ```
+ */
+export const AzureMapsBatchGeocodingDialog: React.FC<IAzureMapsBatchGeocodingDialogProps> = ({
+  service,
+  pcfContext,
+  disabled,
+}) => {
+  const styles = useAzureMapsAddressAutoCompleteStyles();
+  const { state, progress, errors, errorMessage, start, pause, resume, cancel } = useBatchGeocoding(service);
+
+  const getString = (key: string, fallback: string): string => pcfContext?.getString(key, fallback) ?? fallback;
+  const title = getString("azure-maps-address-auto-complete-batch-dialog-title", "Geocode existing records");
+  const isActive = state === "loading" || state === "running" || state === "paused";
+
+  /**
+   * Gets the text that describes the state of the job.
+   */
+  const getStatusText = (): string | undefined => {
+    switch (state) {
+      case "paused":
+        return errorMessage
+          ? getString(
+              "azure-maps-address-auto-complete-batch-request-failed",
+              "The geocoding request failed: {0} Resume to try again."
+            ).replace("{0}", errorMessage)
+          : getString("azure-maps-address-auto-complete-batch-paused", "Paused.");
+      case "completed":
+        return progress.total === 0
+          ? getString("azure-maps-address-auto-complete-batch-no-records", "There are no records without coordinates.")
+          : getString("azure-maps-address-auto-complete-batch-completed", "Completed.");
+      case "cancelled":
+        return getString("azure-maps-address-auto-complete-batch-cancelled", "Cancelled.");
+      case "failed":
+        return getString(
+          "azure-maps-address-auto-complete-batch-load-failed",
+          "The records could not be loaded: {0}"
+        ).replace("{0}", errorMessage ?? "");
+      default:
+        return undefined;
+    }
+  };
+  const statusText = getStatusText();
+
+  return (
+    <Dialog>
+      <DialogTrigger disableButtonEnhancement>
+        <Button
+          className={styles.batchGeocodingButton}
+          appearance="subtle"
+          size="small"
+          icon={<Icons.GlobeRegular />}
+          disabled={disabled}
+        >
+          {getString("azure-maps-address-auto-complete-batch-button-label", "Geocode existing records")}
+        </Button>
+      </DialogTrigger>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogContent className={styles.batchGeocodingProgress}>
+            <div>
+              {getString(
+                "azure-maps-address-auto-complete-batch-dialog-description",
+                "Finds the coordinates of existing records that have an address but no coordinates and saves them to the records."
+              )}
+            </div>
+            {state === "loading" && (
+              <Spinner
+                size="tiny"
+                labelPosition="after"
+                label={getString("azure-maps-address-auto-complete-batch-loading", "Loading records…")}
+              />
+            )}
+            {state !== "idle" && state !== "loading" && progress.total > 0 && (
+              <>
+                <ProgressBar value={progress.processed / progress.total} />
+                <div role="status">
+                  {getString(
+                    "azure-maps-address-auto-complete-batch-progress",
+                    "{0} of {1} records processed: {2} geocoded, {3} failed."
+                  )
+                    .replace("{0}", String(progress.processed))
+                    .replace("{1}", String(progress.total))
+                    .replace("{2}", String(progress.succeeded))
+                    .replace("{3}", String(progress.failed))}
+                </div>
+              </>
+            )}
+            {statusText && <div role={state === "failed" || errorMessage ? "alert" : "status"}>{statusText}</div>}
+          </DialogContent>
+          <DialogActions>
+            {!isActive && (
+              <Button appearance="primary" onClick={start}>
+                {getString("azure-maps-address-auto-complete-batch-start-button-label", "Start")}
+              </Button>
+            )}
+            {state === "running" && (
+              <Button appearance="primary" onClick={pause}>
+                {getString("azure-maps-address-auto-complete-batch-pause-button-label", "Pause")}
+              </Button>
+            )}
+            {state === "paused" && (
+              <Button appearance="primary" onClick={resume}>
+                {getString("azure-maps-address-auto-complete-batch-resume-button-label", "Resume")}
+              </Button>
+            )}
+            {(state === "running" || state === "paused") && (
+              <Button appearance="secondary" onClick={cancel}>
+                {getString("azure-maps-address-auto-complete-batch-cancel-button-label", "Cancel")}
+              </Button>
+            )}
+            {errors.length > 0 && (
+              <Button
+                appearance="secondary"
+                icon={<Icons.ArrowDownloadRegular />}
+                onClick={() => downloadErrorReport(errors)}
+              >
+                {getString("azure-maps-address-auto-complete-batch-download-button-label", "Download error report")}
+              </Button>
+            )}
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">
+                {getString("azure-maps-address-auto-complete-batch-close-button-label", "Close")}
+              </Button>
+            </DialogTrigger>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
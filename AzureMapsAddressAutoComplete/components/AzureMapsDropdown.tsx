@@ -1,9 +1,11 @@
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
+import { Button, mergeClasses } from '@fluentui/react-components';
 import { Icons } from '../utils/iconRegistry';
 import { useAzureMapsAddressAutoCompleteStyles } from '../styles';
 import { AzureMapsPanel } from './AzureMapsPanel';
-import { formatPrimaryAddress, formatSecondaryAddress } from '../utils';
+import { usePcfContext } from '../services/PcfContext/PcfContext';
+import { findMatchRanges, formatPrimaryAddress, formatSecondaryAddress } from '../utils';
 import type { AzureMapsSearchResult } from '../services';
 
 /**
@@ -12,6 +14,21 @@ import type { AzureMapsSearchResult } from '../services';
 export interface IAzureMapsDropdownProps {
   /** List of address suggestions to display. */
   suggestions: AzureMapsSearchResult[];
+  /**
+   * Whether the suggestions are the user's stored addresses.
+   * They are shown under a "Recent" heading with a favorite toggle.
+   */
+  isRecent?: boolean;
+  /** Number of favorites at the start of the suggestions when `isRecent` is true. */
+  favoriteCount?: number;
+  /** Callback when the favorite toggle of a stored address is clicked. */
+  onToggleFavorite?: (result: AzureMapsSearchResult) => void;
+  /** Search query whose matches are shown in bold. */
+  highlightQuery?: string;
+  /** Index of the option highlighted with the keyboard, or -1 if none. */
+  activeIndex?: number;
+  /** Callback when the pointer highlights an option. */
+  onActiveIndexChange?: (index: number) => void;
   /** Index of the currently open popover, or null if none. */
   openPopoverIndex: number | null;
   /** Callback when popover open state changes. */
@@ -30,16 +47,72 @@ export interface IAzureMapsDropdownProps {
   anchorRef?: React.RefObject<HTMLDivElement>;
 }
 
+/**
+ * Renders text with the parts that match the search query in bold.
+ *
+ * @param props - The text, the query and the class name for matched parts.
+ * @returns The text with matched ranges wrapped in `strong` elements.
+ */
+const HighlightedText: React.FC<{ text: string; query: string; matchClassName: string }> = ({
+  text,
+  query,
+  matchClassName
+}) => {
+  const ranges = React.useMemo(() => findMatchRanges(text, query), [text, query]);
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <strong key={index} className={matchClassName}>
+        {text.slice(range.start, range.end)}
+      </strong>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+  return <>{parts}</>;
+};
+
+/**
+ * Builds the element ID of a suggestion option.
+ * The input references the highlighted option through `aria-activedescendant`.
+ *
+ * @param listboxId - The ID of the listbox, if any.
+ * @param index - The index of the suggestion.
+ * @returns The option element ID.
+ */
+export function getSuggestionOptionId(listboxId: string | undefined, index: number): string {
+  return `${listboxId ?? 'suggestion'}-option-${index}`;
+}
+
 /**
  * Dropdown component for displaying address suggestions.
  * Renders a list of selectable address options with popovers for details.
  * Uses a React Portal to render outside the PCF container to avoid overflow clipping.
  *
+ * Focus stays on the input (WAI-ARIA combobox pattern); the option at
+ * `activeIndex` is highlighted and scrolled into view.
+ *
  * @param props - The component props.
  * @returns The rendered dropdown element.
  */
 export const AzureMapsDropdown: React.FC<IAzureMapsDropdownProps> = ({
   suggestions,
+  isRecent = false,
+  favoriteCount = 0,
+  onToggleFavorite,
+  highlightQuery = '',
+  activeIndex = -1,
+  onActiveIndexChange,
   openPopoverIndex,
   onPopoverChange,
   onSelect,
@@ -50,6 +123,8 @@ export const AzureMapsDropdown: React.FC<IAzureMapsDropdownProps> = ({
   anchorRef
 }) => {
   const styles = useAzureMapsAddressAutoCompleteStyles();
+  const pcfContext = usePcfContext();
+  const getString = (key: string, fallback: string): string => pcfContext?.getString(key, fallback) ?? fallback;
   const [position, setPosition] = React.useState<{ top: number; left: number; width: number } | null>(null);
 
   // Calculate position based on anchor element
@@ -79,18 +154,13 @@ export const AzureMapsDropdown: React.FC<IAzureMapsDropdownProps> = ({
     };
   }, [updatePosition]);
 
-  /**
-   * Handles keyboard navigation and selection.
-   */
-  const handleKeyDown = React.useCallback(
-    (e: React.KeyboardEvent, result: AzureMapsSearchResult) => {
-      if (e.key === 'Enter' || e.key === ' ') {
-        e.preventDefault();
-        onSelect(result);
-      }
-    },
-    [onSelect]
-  );
+  // Keep the highlighted option visible in the scrollable list
+  React.useEffect(() => {
+    if (activeIndex < 0) {
+      return;
+    }
+    document.getElementById(getSuggestionOptionId(listboxId, activeIndex))?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex, listboxId]);
 
   const dropdownContent = (
     <ul
@@ -116,24 +186,66 @@ export const AzureMapsDropdown: React.FC<IAzureMapsDropdownProps> = ({
         fontFamily: '"Segoe UI", "Segoe UI Web (West European)", -apple-system, BlinkMacSystemFont, Roboto, "Helvetica Neue", sans-serif',
       }}
     >
+      {isRecent && (
+        <li role="presentation" className={styles.sectionHeader}>
+          {getString('azure-maps-address-auto-complete-recent-heading', 'Recent')}
+        </li>
+      )}
       {suggestions.map((result, index) => (
         <li
           key={`suggestion-${index}`}
-          className={styles.suggestionItem}
-          id={`suggestion-option-${index}`}
-          tabIndex={0}
+          className={mergeClasses(styles.suggestionItem, index === activeIndex && styles.suggestionItemActive)}
+          id={getSuggestionOptionId(listboxId, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          tabIndex={-1}
+          onMouseEnter={() => onActiveIndexChange?.(index)}
           onClick={() => onSelect(result)}
-          onKeyDown={(e) => handleKeyDown(e, result)}
         >
-          <Icons.LocationRegular className={styles.suggestionIcon} />
+          {result.addressBookRecord ? (
+            <Icons.BuildingRegular className={styles.suggestionIcon} />
+          ) : (
+            <Icons.LocationRegular className={styles.suggestionIcon} />
+          )}
           <div className={styles.suggestionContent}>
             <span className={styles.suggestionText}>
-              {formatPrimaryAddress(result.address)}
+              <HighlightedText
+                text={formatPrimaryAddress(result.address)}
+                query={highlightQuery}
+                matchClassName={styles.suggestionMatch}
+              />
             </span>
             <span className={styles.suggestionSecondary}>
-              {formatSecondaryAddress(result.address, result.score, result.position?.lat, result.position?.lon)}
+              <HighlightedText
+                text={[
+                  result.addressBookRecord?.name,
+                  formatSecondaryAddress(result.address, result.score, result.position?.lat, result.position?.lon),
+                ].filter(Boolean).join(' • ')}
+                query={highlightQuery}
+                matchClassName={styles.suggestionMatch}
+              />
             </span>
           </div>
+          {isRecent && onToggleFavorite && (
+            <Button
+              appearance="subtle"
+              size="small"
+              className={mergeClasses(styles.favoriteButton, index < favoriteCount && styles.favoriteButtonActive)}
+              icon={index < favoriteCount ? <Icons.StarFilled /> : <Icons.StarRegular />}
+              aria-pressed={index < favoriteCount}
+              aria-label={
+                index < favoriteCount
+                  ? getString('azure-maps-address-auto-complete-favorite-remove', 'Remove from favorites')
+                  : getString('azure-maps-address-auto-complete-favorite-add', 'Add to favorites')
+              }
+              // Keep focus in the input so the dropdown stays open
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleFavorite(result);
+              }}
+            />
+          )}
           {showMaps && (
             <AzureMapsPanel
               result={result}
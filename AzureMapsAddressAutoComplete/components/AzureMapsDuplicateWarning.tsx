@@ -0,0 +1,106 @@
+// AzureMapsAddressAutoComplete\components\AzureMapsDuplicateWarning.tsx
+import * as React from "react";
+import {
+  Button,
+  Link,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  MessageBarTitle,
+} from "@fluentui/react-components";
+import { Icons } from "../utils/iconRegistry";
+import { useAzureMapsAddressAutoCompleteStyles } from "../styles";
+import { buildRecordFormUrl, type IDuplicateAddressRecord } from "../services";
+import type { PcfContextService } from "../services/PcfContext/PcfContextService";
+
+/**
+ * Props for the AzureMapsDuplicateWarning component.
+ */
+export interface IAzureMapsDuplicateWarningProps {
+  /** Existing rows with the selected address. */
+  duplicates: IDuplicateAddressRecord[];
+  /** PCF context service for localized strings and navigation. */
+  pcfContext?: PcfContextService;
+  /** Callback when the user dismisses the warning. */
+  onDismiss?: () => void;
+}
+
+/**
+ * Warning listing existing records that already use the selected address.
+ * Each record links to its form, which opens in a new window.
+ *
+ * @param props - The component props.
+ * @returns The rendered warning, or null when there are no duplicates.
+ *
+ * @example
+ * ```tsx
+ * <AzureMapsDuplicateWarning
+ *   duplicates={duplicates}
+ *   pcfContext={pcfContext}
+ *   onDismiss={() => setShowDuplicates(false)}
+ * />
+ * ```
+ */
+export const AzureMapsDuplicateWarning: React.FC<IAzureMapsDuplicateWarningProps> = ({
+  duplicates,
+  pcfContext,
+  onDismiss,
+}) => {
+  const styles = useAzureMapsAddressAutoCompleteStyles();
+
+  if (duplicates.length === 0) {
+    return null;
+  }
+
+  const getString = (key: string, fallback: string): string => pcfContext?.getString(key, fallback) ?? fallback;
+  const distanceTemplate = getString("azure-maps-address-auto-complete-duplicate-distance", "{0} m away");
+
+  return (
+    <MessageBar intent="warning" layout="multiline" className={styles.duplicateWarning}>
+      <MessageBarBody>
+        <MessageBarTitle>{getString("azure-maps-address-auto-complete-duplicate-title", "Possible duplicates")}</MessageBarTitle>
+        {getString("azure-maps-address-auto-complete-duplicate-message", "This address is already used by:")}
+        <ul className={styles.duplicateList}>
+          {duplicates.map((duplicate) => (
+            <li key={`${duplicate.tableName}:${duplicate.id}`}>
+              <Link
+                href={buildRecordFormUrl(duplicate.tableName, duplicate.id)}
+                target="_blank"
+                onClick={(e) => {
+                  if (pcfContext) {
+                    e.preventDefault();
+                    pcfContext.openRecord(duplicate.tableName, duplicate.id);
+                  }
+                }}
+              >
+                {duplicate.name ?? duplicate.id}
+              </Link>
+              {[
+                [duplicate.street, duplicate.postalCode].filter(Boolean).join(", "),
+                !duplicate.isSameAddress && duplicate.distance !== undefined
+                  ? distanceTemplate.replace("{0}", String(Math.round(duplicate.distance)))
+                  : undefined,
+              ]
+                .filter(Boolean)
+                .map((detail) => ` • ${detail}`)
+                .join("")}
+            </li>
+          ))}
+        </ul>
+      </MessageBarBody>
+      {onDismiss && (
+        <MessageBarActions
+          containerAction={
+            <Button
+              appearance="transparent"
+              size="small"
+              icon={<Icons.DismissRegular />}
+              aria-label={getString("azure-maps-address-auto-complete-duplicate-dismiss", "Dismiss warning")}
+              onClick={onDismiss}
+            />
+          }
+        />
+      )}
+    </MessageBar>
+  );
+};
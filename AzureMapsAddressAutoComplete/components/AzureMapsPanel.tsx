@@ -9,6 +9,8 @@ import {
   DialogContent,
   DialogActions,
   Card,
+  Spinner,
+  ToggleButton,
   Tooltip,
   tokens
 } from '@fluentui/react-components';
@@ -18,6 +20,12 @@ import { useAzureMapsPanelStyles, useAzureMapsAddressAutoCompleteStyles } from '
 import { usePcfContext } from '../services/PcfContext/PcfContext';
 import { MapPreview, AddressFields, CoordinatesSection } from './AzureMapsPanel/index';
 import type { AzureMapsSearchResult } from '../services';
+import {
+  applyAddressEdits,
+  toEditableAddress,
+  toStructuredAddressRequest,
+  type IEditableAddress
+} from '../utils/addressEdit';
 
 /** Available map size options. */
 type MapSize = 'small' | 'medium' | 'large';
@@ -42,7 +50,12 @@ export interface IAzureMapsPanelProps {
   open: boolean;
   /** Callback when the dialog open state changes. */
   onOpenChange: (open: boolean) => void;
-  /** Callback when the Select button is clicked. */
+  /**
+   * Callback when the Select button is clicked.
+   * Receives the address picked on the map, if any, instead of `result`.
+   * When the marker was dragged, the position is replaced and `manuallyAdjusted` is set.
+   * When the address was edited by hand, the edited parts replace those of the result and `manuallyEdited` is set.
+   */
   onSelect?: (result: AzureMapsSearchResult) => void;
   /** Callback when the Cancel button is clicked. */
   onCancel?: () => void;
@@ -108,6 +121,31 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
   // Get values directly from pcfContext with type-safe validation
   const mapSize: MapSize = isValidMapSize(pcfContext?.mapSize) ? pcfContext.mapSize : 'medium';
   const subscriptionKey = pcfContext?.subscriptionKey ?? '';
+  const credential = pcfContext?.getCredential();
+  const searchProvider = pcfContext?.getSearchProvider();
+  const language = (pcfContext?.useUserLanguage ? pcfContext.uiLanguage : pcfContext?.defaultLanguage) ?? 'en-US';
+
+  // "Pick on map" state: the address found at the picked location replaces the result
+  const [pickMode, setPickMode] = React.useState(false);
+  const [pickedResult, setPickedResult] = React.useState<AzureMapsSearchResult | null>(null);
+  const [isPicking, setIsPicking] = React.useState(false);
+  const [pickMessage, setPickMessage] = React.useState<string | undefined>(undefined);
+  const pickAbortRef = React.useRef<AbortController | null>(null);
+  const displayedResult = pickedResult ?? result;
+
+  // Position the marker was dragged to; corrects the coordinates but keeps the address
+  const [adjustedPosition, setAdjustedPosition] = React.useState<{ lat: number; lon: number } | null>(null);
+
+  // Manual edit state: the address parts typed by the user and the position geocoded from them
+  const [edits, setEdits] = React.useState<IEditableAddress | null>(null);
+  const [geocodedMatch, setGeocodedMatch] = React.useState<{ position: { lat: number; lon: number }; score?: number } | null>(null);
+  const [isGeocoding, setIsGeocoding] = React.useState(false);
+  const [editMessage, setEditMessage] = React.useState<string | undefined>(undefined);
+  const geocodeAbortRef = React.useRef<AbortController | null>(null);
+  const editedResult = React.useMemo(
+    () => (edits ? applyAddressEdits(displayedResult, edits) : displayedResult),
+    [displayedResult, edits]
+  );
 
   // Memoize size configuration based on mapSize
   const sizeConfig = React.useMemo<MapSizeConfig>(
@@ -121,22 +159,153 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
     [mapSize]
   );
 
-  const lat = latitude ?? result.position?.lat;
-  const lon = longitude ?? result.position?.lon;
+  const lat =
+    adjustedPosition?.lat ?? geocodedMatch?.position.lat ?? pickedResult?.position?.lat ?? latitude ?? result.position?.lat;
+  const lon =
+    adjustedPosition?.lon ?? geocodedMatch?.position.lon ?? pickedResult?.position?.lon ?? longitude ?? result.position?.lon;
+
+  // Helper function for localized strings
+  const getString = React.useCallback(
+    (key: string, fallback: string) => pcfContext?.getString(key, fallback) ?? fallback,
+    [pcfContext]
+  );
+
+  /**
+   * Looks up the address at a location picked on the map.
+   * A newer pick aborts the lookup of the previous one.
+   */
+  const handlePick = React.useCallback(async (position: { lat: number; lon: number }): Promise<void> => {
+    if (!searchProvider?.reverseGeocode) {
+      return;
+    }
+    pickAbortRef.current?.abort();
+    const controller = new AbortController();
+    pickAbortRef.current = controller;
+
+    setIsPicking(true);
+    setPickMessage(undefined);
+    try {
+      const picked = await searchProvider.reverseGeocode({ ...position, language, signal: controller.signal });
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (picked) {
+        setPickedResult(picked);
+        setAdjustedPosition(null);
+      } else {
+        setPickMessage(getString('azure-maps-panel-pick-no-address', 'No address found at this location'));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('Error looking up the picked location:', error);
+      setPickMessage(getString('azure-maps-panel-pick-error', 'The address at this location could not be looked up'));
+    } finally {
+      if (pickAbortRef.current === controller) {
+        pickAbortRef.current = null;
+        setIsPicking(false);
+      }
+    }
+  }, [searchProvider, language, getString]);
+
+  /**
+   * Geocodes the edited address to refresh the coordinates.
+   * The edited address parts are kept; only the position and score of the best match are used.
+   */
+  const handleUpdateCoordinates = React.useCallback(async (): Promise<void> => {
+    const request = toStructuredAddressRequest(editedResult, language);
+    if (!request || !searchProvider?.searchAddressStructured) {
+      return;
+    }
+    geocodeAbortRef.current?.abort();
+    const controller = new AbortController();
+    geocodeAbortRef.current = controller;
+
+    setIsGeocoding(true);
+    setEditMessage(undefined);
+    try {
+      const [match] = await searchProvider.searchAddressStructured({ ...request, signal: controller.signal });
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (match?.position) {
+        setGeocodedMatch({ position: match.position, score: match.score });
+        setAdjustedPosition(null);
+        setEditMessage(getString('azure-maps-panel-coordinates-updated', 'Coordinates updated'));
+      } else {
+        setEditMessage(getString('azure-maps-panel-edit-no-match', 'No location found for the edited address'));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('Error geocoding the edited address:', error);
+      setEditMessage(getString('azure-maps-panel-edit-geocode-error', 'The coordinates could not be updated'));
+    } finally {
+      if (geocodeAbortRef.current === controller) {
+        geocodeAbortRef.current = null;
+        setIsGeocoding(false);
+      }
+    }
+  }, [editedResult, language, searchProvider, getString]);
+
+  /** Starts editing the displayed address, or discards the edits. */
+  const handleEditToggle = React.useCallback(() => {
+    geocodeAbortRef.current?.abort();
+    geocodeAbortRef.current = null;
+    setIsGeocoding(false);
+    setEditMessage(undefined);
+    setGeocodedMatch(null);
+    setPickMode(false);
+    setEdits((current) => (current ? null : toEditableAddress(displayedResult)));
+  }, [displayedResult]);
+
+  const handleEditsChange = React.useCallback((value: IEditableAddress) => {
+    setEdits(value);
+    setEditMessage(undefined);
+  }, []);
+
+  const handleMapPick = React.useCallback(
+    (position: { lat: number; lon: number }) => void handlePick(position),
+    [handlePick]
+  );
 
   // Use custom hook for map initialization
   const { containerRef: mapContainerRef, isLoading: mapLoading, hasMapData } = useAzureMap({
     enabled: open,
     latitude: lat,
     longitude: lon,
-    subscriptionKey
+    subscriptionKey,
+    credential,
+    pickEnabled: pickMode,
+    onPick: handleMapPick,
+    markerDraggable: true,
+    onMarkerDragEnd: setAdjustedPosition
   });
 
-  // Helper function for localized strings
-  const getString = React.useCallback(
-    (key: string, fallback: string) => pcfContext?.getString(key, fallback) ?? fallback,
-    [pcfContext]
-  );
+  // Start over with the search result whenever the dialog opens or the result changes
+  React.useEffect(() => {
+    pickAbortRef.current?.abort();
+    pickAbortRef.current = null;
+    setPickMode(false);
+    setPickedResult(null);
+    setIsPicking(false);
+    setPickMessage(undefined);
+    setAdjustedPosition(null);
+    geocodeAbortRef.current?.abort();
+    geocodeAbortRef.current = null;
+    setEdits(null);
+    setGeocodedMatch(null);
+    setIsGeocoding(false);
+    setEditMessage(undefined);
+  }, [open, result]);
+
+  // Abort pending lookups on unmount
+  React.useEffect(() => () => {
+    pickAbortRef.current?.abort();
+    geocodeAbortRef.current?.abort();
+  }, []);
 
   // Memoize event handlers
   const handleCancel = React.useCallback((e: React.MouseEvent) => {
@@ -149,9 +318,15 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
   const handleSelect = React.useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    onSelect?.(result);
+    let selected = editedResult;
+    if (adjustedPosition) {
+      selected = { ...editedResult, position: adjustedPosition, manuallyAdjusted: true };
+    } else if (geocodedMatch) {
+      selected = { ...editedResult, position: geocodedMatch.position, score: geocodedMatch.score };
+    }
+    onSelect?.(selected);
     onOpenChange(false);
-  }, [onSelect, result, onOpenChange]);
+  }, [onSelect, editedResult, adjustedPosition, geocodedMatch, onOpenChange]);
 
   const handleOpenChange = React.useCallback(
     (_e: unknown, data: { open: boolean }) => onOpenChange(data.open),
@@ -160,10 +335,12 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
 
   // Memoize aria label for map
   const mapAriaLabel = React.useMemo(
-    () => `Map showing ${result.address.freeformAddress}`,
-    [result.address.freeformAddress]
+    () => `Map showing ${editedResult.address.freeformAddress}`,
+    [editedResult.address.freeformAddress]
   );
 
+  const pickHint = getString('azure-maps-panel-pick-on-map-hint', 'Click the map or drag the marker');
+
   return (
     <Dialog
       modalType="non-modal"
@@ -201,7 +378,7 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
             <span className={styles.titleContainer}>
               <Icons.LocationRegular className={styles.titleIcon} />
               <span className={styles.titleText}>
-                {result.address.freeformAddress}
+                {editedResult.address.freeformAddress}
               </span>
             </span>
           </DialogTitle>
@@ -212,17 +389,53 @@ export const AzureMapsPanel: React.FC<IAzureMapsPanelProps> = (props) => {
                 isLoading={mapLoading}
                 height={sizeConfig.mapHeight}
                 ariaLabel={mapAriaLabel}
+                pickMode={pickMode}
+                onPickModeChange={searchProvider?.reverseGeocode && !edits ? setPickMode : undefined}
+                pickLabel={getString('azure-maps-panel-pick-on-map', 'Pick on map')}
+                isPicking={isPicking}
+                pickMessage={pickMessage ?? (pickMode && !isPicking ? pickHint : undefined)}
               />
             )}
             <Card style={{ padding: '12px', boxShadow: tokens.shadow8 }}>
+              <div className={styles.editToolbar}>
+                <ToggleButton
+                  size="small"
+                  appearance="subtle"
+                  icon={<Icons.EditRegular />}
+                  checked={edits !== null}
+                  onClick={handleEditToggle}
+                >
+                  {getString('azure-maps-panel-edit-manually', 'Edit manually')}
+                </ToggleButton>
+                {edits && searchProvider?.searchAddressStructured && (
+                  <Button
+                    size="small"
+                    appearance="subtle"
+                    icon={<Icons.ArrowSyncRegular />}
+                    disabled={isGeocoding || !toStructuredAddressRequest(editedResult)}
+                    onClick={() => void handleUpdateCoordinates()}
+                  >
+                    {getString('azure-maps-panel-update-coordinates', 'Update coordinates')}
+                  </Button>
+                )}
+                {isGeocoding && <Spinner size="extra-tiny" />}
+                {editMessage && (
+                  <span className={styles.editMessage} role="status">
+                    {editMessage}
+                  </span>
+                )}
+              </div>
               <AddressFields
-                address={result.address}
+                address={displayedResult.address}
                 fieldSize={fieldSize}
                 getString={getString}
+                edits={edits ?? undefined}
+                onEditsChange={handleEditsChange}
               />
               <CoordinatesSection
                 latitude={lat}
                 longitude={lon}
+                manuallyAdjusted={adjustedPosition !== null}
                 fieldSize={fieldSize}
                 getString={getString}
               />
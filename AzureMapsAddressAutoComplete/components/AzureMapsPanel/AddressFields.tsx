@@ -2,13 +2,15 @@
  * Address Fields Sub-component for AzureMapsPanel.
  *
  * @remarks
- * Displays address information fields in a read-only format.
+ * Displays address information fields in a read-only format,
+ * or as inputs when the user corrects the address by hand.
  *
  * @packageDocumentation
  */
 
 import * as React from 'react';
 import { Field, Input } from '@fluentui/react-components';
+import type { IEditableAddress } from '../../utils/addressEdit';
 
 /**
  * Address data structure for the AddressFields component.
@@ -40,10 +42,26 @@ export interface IAddressFieldsProps {
   fieldSize: 'small' | 'medium';
   /** Function to get localized strings. */
   getString: (key: string, fallback: string) => string;
+  /** The address parts being edited; when set, the fields are rendered as inputs. */
+  edits?: IEditableAddress;
+  /** Callback when the user changes an edited address part. */
+  onEditsChange?: (edits: IEditableAddress) => void;
 }
 
+/** Editable address parts with the resource keys and fallbacks of their labels, in display order. */
+const EDITABLE_FIELDS: [part: keyof IEditableAddress, key: string, fallback: string][] = [
+  ['streetName', 'azure-maps-panel-street', 'Street'],
+  ['streetNumber', 'azure-maps-address-auto-complete-street-number', 'House Number'],
+  ['postalCode', 'azure-maps-panel-postalCode', 'Postal Code'],
+  ['city', 'azure-maps-panel-city', 'City'],
+  ['county', 'azure-maps-panel-county', 'County'],
+  ['stateProvince', 'azure-maps-panel-stateProvince', 'State/Province'],
+  ['country', 'azure-maps-panel-country', 'Country'],
+];
+
 /**
  * A sub-component that displays address fields in a read-only format.
+ * When `edits` is set, every address part is shown as an input instead.
  *
  * @param props - The component props.
  * @returns The rendered React element.
@@ -60,7 +78,28 @@ export interface IAddressFieldsProps {
  * @internal
  */
 export const AddressFields: React.FC<IAddressFieldsProps> = (props) => {
-  const { address, fieldSize, getString } = props;
+  const { address, fieldSize, getString, edits, onEditsChange } = props;
+
+  if (edits) {
+    return (
+      <>
+        {EDITABLE_FIELDS.map(([part, key, fallback]) => (
+          <Field
+            key={part}
+            label={getString(key, fallback)}
+            size={fieldSize}
+            orientation="horizontal"
+          >
+            <Input
+              value={edits[part]}
+              size={fieldSize}
+              onChange={(_e, data) => onEditsChange?.({ ...edits, [part]: data.value })}
+            />
+          </Field>
+        ))}
+      </>
+    );
+  }
 
   return (
     <>
@@ -2,13 +2,14 @@
  * Coordinates Section Sub-component for AzureMapsPanel.
  *
  * @remarks
- * Displays geographic coordinates (latitude/longitude) with a divider.
+ * Displays geographic coordinates (latitude/longitude) with a divider,
+ * and notes when the coordinates were adjusted by dragging the map marker.
  *
  * @packageDocumentation
  */
 
 import * as React from 'react';
-import { Field, Input, Divider } from '@fluentui/react-components';
+import { Field, Input, Divider, Text } from '@fluentui/react-components';
 
 /**
  * Props for the CoordinatesSection component.
@@ -18,6 +19,8 @@ export interface ICoordinatesSectionProps {
   latitude: number | undefined;
   /** Longitude coordinate. */
   longitude: number | undefined;
+  /** Whether the coordinates were adjusted by dragging the map marker. */
+  manuallyAdjusted?: boolean;
   /** Size of the fields ('small' | 'medium'). */
   fieldSize: 'small' | 'medium';
   /** Function to get localized strings. */
@@ -43,7 +46,7 @@ export interface ICoordinatesSectionProps {
  * @internal
  */
 export const CoordinatesSection: React.FC<ICoordinatesSectionProps> = (props) => {
-  const { latitude, longitude, fieldSize, getString } = props;
+  const { latitude, longitude, manuallyAdjusted = false, fieldSize, getString } = props;
 
   const hasCoordinates = longitude !== undefined || latitude !== undefined;
 
@@ -84,6 +87,11 @@ export const CoordinatesSection: React.FC<ICoordinatesSectionProps> = (props) =>
           />
         </Field>
       )}
+      {manuallyAdjusted && (
+        <Text size={200} italic role="status">
+          {getString('azure-maps-panel-position-adjusted', 'Position adjusted manually')}
+        </Text>
+      )}
     </>
   );
 };
@@ -2,14 +2,16 @@
  * Map Preview Sub-component for AzureMapsPanel.
  *
  * @remarks
- * Displays an interactive map preview with loading state.
+ * Displays an interactive map preview with loading state and an optional
+ * "pick on map" toggle.
  *
  * @packageDocumentation
  */
 
 import * as React from 'react';
-import { Spinner } from '@fluentui/react-components';
+import { Spinner, ToggleButton } from '@fluentui/react-components';
 import { useAzureMapsPanelStyles } from '../../styles';
+import { Icons } from '../../utils/iconRegistry';
 
 /**
  * Props for the MapPreview component.
@@ -23,6 +25,16 @@ export interface IMapPreviewProps {
   height: string;
   /** Accessible label for the map. */
   ariaLabel: string;
+  /** Whether "pick on map" mode is active. The toggle is shown only when `onPickModeChange` is set. */
+  pickMode?: boolean;
+  /** Callback when the "pick on map" toggle is clicked. */
+  onPickModeChange?: (pickMode: boolean) => void;
+  /** Label of the "pick on map" toggle. */
+  pickLabel?: string;
+  /** Whether the address at the picked location is being looked up. */
+  isPicking?: boolean;
+  /** Status message next to the toggle (instructions or lookup result). */
+  pickMessage?: string;
 }
 
 /**
@@ -38,27 +50,62 @@ export interface IMapPreviewProps {
  *   isLoading={mapLoading}
  *   height="280px"
  *   ariaLabel="Map showing 123 Main St"
+ *   pickMode={pickMode}
+ *   onPickModeChange={setPickMode}
+ *   pickLabel="Pick on map"
  * />
  * ```
  *
  * @internal
  */
 export const MapPreview: React.FC<IMapPreviewProps> = (props) => {
-  const { containerRef, isLoading, height, ariaLabel } = props;
+  const {
+    containerRef,
+    isLoading,
+    height,
+    ariaLabel,
+    pickMode = false,
+    onPickModeChange,
+    pickLabel = 'Pick on map',
+    isPicking = false,
+    pickMessage,
+  } = props;
   const styles = useAzureMapsPanelStyles();
 
   return (
-    <div className={styles.mapContainer} style={{ height }}>
-      {isLoading && (
-        <div className={styles.mapLoading}>
-          <Spinner size="small" label="Loading map..." />
+    <>
+      {onPickModeChange && (
+        <div className={styles.pickToolbar}>
+          <ToggleButton
+            size="small"
+            appearance="subtle"
+            icon={<Icons.LocationAddRegular />}
+            checked={pickMode}
+            disabled={isLoading}
+            onClick={() => onPickModeChange(!pickMode)}
+          >
+            {pickLabel}
+          </ToggleButton>
+          {isPicking && <Spinner size="extra-tiny" />}
+          {pickMessage && (
+            <span className={styles.pickMessage} role="status">
+              {pickMessage}
+            </span>
+          )}
         </div>
       )}
-      <div
-        ref={containerRef}
-        className={styles.mapElement}
-        aria-label={ariaLabel}
-      />
-    </div>
+      <div className={styles.mapContainer} style={{ height }}>
+        {isLoading && (
+          <div className={styles.mapLoading}>
+            <Spinner size="small" label="Loading map..." />
+          </div>
+        )}
+        <div
+          ref={containerRef}
+          className={styles.mapElement}
+          aria-label={ariaLabel}
+        />
+      </div>
+    </>
   );
 };
@@ -8,3 +8,10 @@ export type { UseAddressSearchOptions, UseAddressSearchReturn } from './useAddre
 
 export { useAzureMap } from './useAzureMap';
 export type { UseAzureMapOptions, UseAzureMapReturn } from './useAzureMap';
+
+export { useLocationBias } from './useLocationBias';
+
+export { useDuplicateAddresses } from './useDuplicateAddresses';
+
+export { useBatchGeocoding } from './useBatchGeocoding';
+export type { BatchGeocodingState, BatchGeocodingProgress, UseBatchGeocodingReturn } from './useBatchGeocoding';
@@ -1,11 +1,12 @@
 import * as React from 'react';
 import {
   AzureMapsSearchResult,
-  searchAddress,
-  searchMunicipalities,
-  fetchPostalCodesForMunicipality,
+  AddressSearchProvider,
+  createAzureMapsSearchProvider,
   normalizeResults,
-  createPostalCodeResult
+  createPostalCodeResult,
+  type RecentAddressService,
+  type AddressBookService
 } from '../services';
 import {
   MIN_CHARS_FOR_SUGGESTIONS,
@@ -15,6 +16,10 @@ import {
   processResultsBySearchType,
   type SearchType
 } from '../utils/searchPatternUtils';
+import { getCurrentPosition, isGeolocationSupported } from '../utils/geolocation';
+import { getDistanceInMeters, normalizeAddressPart } from '../utils/addressComparison';
+import type { LocationBias } from '../utils/locationBias';
+import { GeolocationError } from '../types';
 
 /**
  * Configuration options for the useAddressSearch hook.
@@ -22,10 +27,31 @@ import {
 export interface UseAddressSearchOptions {
   /** Azure Maps subscription key for API authentication. */
   subscriptionKey?: string;
+  /**
+   * Search provider that supplies suggestions.
+   * When omitted, the Azure Maps Search v1 provider is created from `subscriptionKey`.
+   */
+  searchProvider?: AddressSearchProvider;
   /** Language code for search results (e.g., 'en-US'). */
   language?: string;
   /** Comma-separated list of country codes (ISO 3166-1 alpha-2) to limit results. */
   countrySet?: string;
+  /**
+   * Reference point for address searches; results near it are ranked first.
+   * Postal code searches are not biased.
+   */
+  locationBias?: LocationBias;
+  /**
+   * Store of the user's recent and favorite addresses.
+   * When set, the addresses are suggested while the input is focused and empty,
+   * and every selected address is recorded.
+   */
+  recentAddresses?: RecentAddressService;
+  /**
+   * Search of the company address book.
+   * When set, matching entries are listed before the provider results of address searches.
+   */
+  addressBook?: AddressBookService;
   /** Callback when the address value changes. */
   onChange?: (value: string) => void;
   /** Callback when an address is selected from suggestions. */
@@ -46,12 +72,28 @@ export interface UseAddressSearchReturn {
   suggestions: AzureMapsSearchResult[];
   /** Whether a search is in progress. */
   isLoading: boolean;
+  /** Whether the search service is busy and the current search is being retried. */
+  isRetrying: boolean;
+  /** Whether the current location is being determined and looked up. */
+  isLocating: boolean;
+  /** Whether the browser and the search provider support searching at the current location. */
+  canSearchNearCurrentLocation: boolean;
   /** Current error, if any. */
   error: Error | null;
   /** Whether the error dialog should be shown. */
   showErrorDialog: boolean;
   /** The currently selected result for hint display. */
   selectedResult: AzureMapsSearchResult | null;
+  /** Whether the suggestions are the stored recent and favorite addresses. */
+  isShowingRecent: boolean;
+  /** Number of favorites at the start of the suggestions while `isShowingRecent` is true. */
+  favoriteCount: number;
+  /** Pins a stored address as a favorite, or unpins it. */
+  toggleFavorite: (result: AzureMapsSearchResult) => void;
+  /** Index of the suggestion highlighted with the keyboard, or -1 if none. */
+  activeIndex: number;
+  /** Sets the highlighted suggestion index. */
+  setActiveIndex: React.Dispatch<React.SetStateAction<number>>;
   /** Index of the currently open popover, or null. */
   openPopoverIndex: number | null;
   /** Sets the open popover index. */
@@ -62,18 +104,99 @@ export interface UseAddressSearchReturn {
   handleFocus: () => void;
   /** Handles input blur. */
   handleBlur: () => void;
+  /** Handles combobox keyboard navigation on the input (arrows, Home/End, Enter, Escape). */
+  handleKeyDown: (event: React.KeyboardEvent<HTMLInputElement>) => void;
   /** Handles address selection from dropdown. */
   handleSelectAddress: (result: AzureMapsSearchResult) => Promise<void>;
   /** Dismisses the error dialog. */
   handleErrorDismiss: () => void;
   /** Handles panel cancel - keeps dropdown open. */
   handlePanelCancel: () => void;
+  /** Cancels the pending debounced search and aborts the in-flight request. */
+  cancelSearch: () => void;
+  /**
+   * Suggests the addresses nearest to the current location of the device.
+   * Failures are reported as a `GeolocationError` in `error`.
+   */
+  searchNearCurrentLocation: () => Promise<void>;
+}
+
+/** Maximum number of addresses suggested at the current location. */
+const NEARBY_ADDRESS_LIMIT = 5;
+
+/** Radius in meters around the current location in which further addresses are suggested. */
+const NEARBY_ADDRESS_RADIUS = 250;
+
+/**
+ * Drops results outside the searched countries.
+ *
+ * @param results - The results to filter.
+ * @param countrySet - Comma-separated ISO2 codes; all results are kept when empty.
+ * @returns The results in one of the countries, or without a country code.
+ */
+function filterByCountrySet(results: AzureMapsSearchResult[], countrySet: string | undefined): AzureMapsSearchResult[] {
+  const countries = (countrySet ?? '').split(',').map((code) => code.trim().toUpperCase()).filter(Boolean);
+  if (countries.length === 0) {
+    return results;
+  }
+  return results.filter((result) => !result.address.countryCode || countries.includes(result.address.countryCode));
+}
+
+/**
+ * Orders the addresses found around a location by their distance to it.
+ *
+ * @param position - The location.
+ * @param results - The reverse geocoded address followed by the nearby search results.
+ * @returns Up to `NEARBY_ADDRESS_LIMIT` distinct addresses within `NEARBY_ADDRESS_RADIUS`, nearest first.
+ */
+function rankNearbyResults(
+  position: { lat: number; lon: number },
+  results: AzureMapsSearchResult[]
+): AzureMapsSearchResult[] {
+  const seen = new Set<string>();
+  const nearby: { result: AzureMapsSearchResult; distance: number }[] = [];
+  for (const result of results) {
+    const key = normalizeAddressPart(result.address.freeformAddress);
+    if (!result.position || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const distance = getDistanceInMeters(position, result.position);
+    if (distance <= NEARBY_ADDRESS_RADIUS) {
+      nearby.push({ result, distance });
+    }
+  }
+  return nearby
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ result }) => result)
+    .slice(0, NEARBY_ADDRESS_LIMIT);
 }
 
 /**
  * Custom hook that encapsulates all address search state and logic.
  * Provides debounced search, pattern parsing, and result processing.
  *
+ * @remarks
+ * Each search gets a sequence number and an `AbortController`. Typing aborts
+ * the in-flight request, and responses that arrive after a newer search
+ * started are dropped, so slow results never overwrite newer suggestions.
+ * While the provider retries a throttled request, `isRetrying` is set instead
+ * of an error; the error dialog is shown only once all attempts failed.
+ * `searchNearCurrentLocation` and the postal code lookup of a selected
+ * municipality take part in the same sequence, so typing while the location
+ * or the postal codes are determined drops their result.
+ *
+ * Recent and favorite addresses are suggested from `recentAddresses` while the
+ * input is empty; selecting one uses the stored result without calling the API.
+ *
+ * Address searches also query `addressBook` in parallel with the provider; its
+ * entries are listed first. A failing address book query is logged and the
+ * provider results are shown on their own.
+ *
+ * Keyboard handling follows the WAI-ARIA combobox pattern: focus stays on the
+ * input, and `activeIndex` identifies the highlighted option, which the input
+ * references through `aria-activedescendant`.
+ *
  * @param initialValue - Initial value for the input field.
  * @param options - Configuration options for the search.
  * @returns Object containing state values and handler functions.
@@ -99,8 +222,12 @@ export function useAddressSearch(
 ): UseAddressSearchReturn {
   const {
     subscriptionKey,
+    searchProvider,
     language = 'en-US',
     countrySet,
+    locationBias,
+    recentAddresses,
+    addressBook,
     onChange,
     onSelect
   } = options;
@@ -111,15 +238,28 @@ export function useAddressSearch(
   const [isFocused, setIsFocused] = React.useState<boolean>(false);
   const [suggestions, setSuggestions] = React.useState<AzureMapsSearchResult[]>([]);
   const [isLoading, setIsLoading] = React.useState<boolean>(false);
+  const [isRetrying, setIsRetrying] = React.useState<boolean>(false);
+  const [isLocating, setIsLocating] = React.useState<boolean>(false);
   const [currentSearchType, setCurrentSearchType] = React.useState<SearchType>('address');
   const [error, setError] = React.useState<Error | null>(null);
   const [showErrorDialog, setShowErrorDialog] = React.useState<boolean>(false);
   const [selectedResult, setSelectedResult] = React.useState<AzureMapsSearchResult | null>(null);
   const [openPopoverIndex, setOpenPopoverIndex] = React.useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = React.useState<number>(-1);
+  const [isShowingRecent, setIsShowingRecent] = React.useState<boolean>(false);
+  const [favoriteCount, setFavoriteCount] = React.useState<number>(0);
   
   // Refs
   const debounceTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   const keepDropdownOpenRef = React.useRef<boolean>(false);
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+  const searchSequenceRef = React.useRef<number>(0);
+
+  // Use the injected provider, or fall back to Azure Maps when a subscription key is available
+  const provider = React.useMemo<AddressSearchProvider | undefined>(
+    () => searchProvider ?? createAzureMapsSearchProvider({ subscriptionKey: subscriptionKey ?? '' }),
+    [searchProvider, subscriptionKey]
+  );
 
   /**
    * Handles dismissing the error dialog.
@@ -130,24 +270,45 @@ export function useAddressSearch(
   }, []);
 
   /**
-   * Wrapper to fetch postal codes using the service.
+   * Cancels the pending debounced search and aborts the in-flight request.
+   * Responses of the cancelled search are ignored.
+   */
+  const cancelSearch = React.useCallback((): void => {
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      setIsRetrying(false);
+      setIsLocating(false);
+    }
+    // Invalidate responses of any search that is still running
+    searchSequenceRef.current++;
+  }, []);
+
+  /**
+   * Wrapper to fetch postal codes using the search provider.
    */
   const getPostalCodesForMunicipality = React.useCallback(async (
     municipalityName: string,
     countryCode: string,
-    position: { lat: number; lon: number }
+    position: { lat: number; lon: number },
+    signal?: AbortSignal
   ): Promise<string[]> => {
-    if (!subscriptionKey) {
+    if (!provider) {
       return [];
     }
-    return fetchPostalCodesForMunicipality(subscriptionKey, municipalityName, countryCode, position, language);
-  }, [subscriptionKey, language]);
+    return provider.fetchPostalCodesForMunicipality(municipalityName, countryCode, position, language, signal);
+  }, [provider, language]);
 
   /**
-   * Fetches address suggestions from Azure Maps Search API.
+   * Fetches address suggestions from the search provider.
    */
   const fetchSuggestions = React.useCallback(async (inputValue: string): Promise<void> => {
-    if (!subscriptionKey) {
+    if (!provider) {
       setSuggestions([]);
       return;
     }
@@ -164,26 +325,46 @@ export function useAddressSearch(
       return;
     }
 
+    // Abort the previous request and tag this one so late responses can be dropped
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const sequence = ++searchSequenceRef.current;
+    const isStale = (): boolean =>
+      controller.signal.aborted || sequence !== searchSequenceRef.current;
+
     setIsLoading(true);
+
+    // Query the address book alongside the provider; its failures must not hide the provider results
+    const addressBookResults = searchType === 'address' && addressBook
+      ? addressBook.search(searchQuery).catch((err: unknown): AzureMapsSearchResult[] => {
+          console.warn('Address book search failed:', err);
+          return [];
+        })
+      : Promise.resolve<AzureMapsSearchResult[]>([]);
+
     try {
       const apiQuery = buildApiQuery(searchQuery, searchType);
 
-      // Fetch results using the service layer
+      // Fetch results using the search provider
+      const request = {
+        query: apiQuery,
+        language,
+        countrySet: effectiveCountrySet,
+        limit: 100,
+        ...(searchType === 'address' && locationBias
+          ? { lat: locationBias.lat, lon: locationBias.lon, radius: locationBias.radius }
+          : {}),
+        signal: controller.signal,
+        onRetry: (): void => {
+          if (!isStale()) {
+            setIsRetrying(true);
+          }
+        }
+      };
       const rawResults = searchType === 'postalcode'
-        ? await searchMunicipalities({
-            subscriptionKey,
-            query: apiQuery,
-            language,
-            countrySet: effectiveCountrySet,
-            limit: 100
-          })
-        : await searchAddress({
-            subscriptionKey,
-            query: apiQuery,
-            language,
-            countrySet: effectiveCountrySet,
-            limit: 100
-          });
+        ? await provider.searchMunicipalities(request)
+        : await provider.searchAddress(request);
 
       // Normalize results - extract postal code from various fields if not directly available
       const normalizedResults = normalizeResults(rawResults);
@@ -194,11 +375,20 @@ export function useAddressSearch(
         searchType,
         searchQuery,
         effectiveCountrySet,
-        getPostalCodesForMunicipality
+        (municipalityName, countryCode, position) =>
+          getPostalCodesForMunicipality(municipalityName, countryCode, position, controller.signal)
       );
+      const bookResults = filterByCountrySet(await addressBookResults, effectiveCountrySet);
 
-      setSuggestions(finalResults);
+      if (isStale()) {
+        return;
+      }
+      setSuggestions([...bookResults, ...finalResults]);
     } catch (err) {
+      // Aborted or superseded searches fail silently
+      if (isStale()) {
+        return;
+      }
       console.error('Error fetching address suggestions:', err);
       setSuggestions([]);
       
@@ -208,9 +398,126 @@ export function useAddressSearch(
         setShowErrorDialog(true);
       }
     } finally {
-      setIsLoading(false);
+      if (sequence === searchSequenceRef.current) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setIsRetrying(false);
+      }
+    }
+  }, [provider, language, countrySet, locationBias, addressBook, getPostalCodesForMunicipality]);
+
+  const canSearchNearCurrentLocation = !!provider?.reverseGeocode && isGeolocationSupported();
+
+  /**
+   * Suggests the stored favorite and recent addresses, favorites first.
+   * Closes the dropdown when none are stored.
+   */
+  const showRecentAddresses = React.useCallback((): void => {
+    const { favorites, recent } = recentAddresses?.getAddresses() ?? { favorites: [], recent: [] };
+    if (favorites.length + recent.length === 0) {
+      setIsShowingRecent(false);
+      setSuggestions([]);
+      setShowDropdown(false);
+      return;
     }
-  }, [subscriptionKey, language, countrySet, getPostalCodesForMunicipality]);
+    // Stored results are complete addresses and are selected as-is
+    setCurrentSearchType('address');
+    setSuggestions([...favorites, ...recent]);
+    setFavoriteCount(favorites.length);
+    setIsShowingRecent(true);
+    setShowDropdown(true);
+  }, [recentAddresses]);
+
+  /**
+   * Pins a stored address as a favorite, or unpins it, and refreshes the recent section.
+   */
+  const toggleFavorite = React.useCallback((result: AzureMapsSearchResult): void => {
+    if (!recentAddresses) {
+      return;
+    }
+    recentAddresses.toggleFavorite(result);
+    if (isShowingRecent) {
+      showRecentAddresses();
+    }
+  }, [recentAddresses, isShowingRecent, showRecentAddresses]);
+
+  /**
+   * Determines the current location and suggests the addresses nearest to it:
+   * the reverse geocoded address and the addresses on its street within `NEARBY_ADDRESS_RADIUS`.
+   */
+  const searchNearCurrentLocation = React.useCallback(async (): Promise<void> => {
+    if (!provider?.reverseGeocode) {
+      return;
+    }
+
+    // Replace any pending search; typing while locating supersedes this lookup
+    cancelSearch();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const sequence = ++searchSequenceRef.current;
+    const isStale = (): boolean =>
+      controller.signal.aborted || sequence !== searchSequenceRef.current;
+
+    setIsLocating(true);
+    setIsLoading(true);
+    setIsShowingRecent(false);
+    try {
+      const position = await getCurrentPosition();
+      if (isStale()) {
+        return;
+      }
+
+      const result = await provider.reverseGeocode({ ...position, language, signal: controller.signal });
+      if (isStale()) {
+        return;
+      }
+      if (!result) {
+        throw new GeolocationError('No address was found at the current location', 'NoAddressFound');
+      }
+
+      // Search the street of the nearest address around the location for the addresses next to it
+      const street = [result.address.streetName, result.address.municipality].filter(Boolean).join(', ');
+      const nearby = result.address.streetName
+        ? await provider.searchAddress({
+            query: street,
+            language,
+            countrySet: result.address.countryCode,
+            // Duplicates and results outside the radius are dropped afterwards
+            limit: NEARBY_ADDRESS_LIMIT * 4,
+            lat: position.lat,
+            lon: position.lon,
+            radius: NEARBY_ADDRESS_RADIUS,
+            signal: controller.signal
+          }).catch((err: unknown): AzureMapsSearchResult[] => {
+            console.warn('Nearby address search failed:', err);
+            return [];
+          })
+        : [];
+      if (isStale()) {
+        return;
+      }
+
+      setCurrentSearchType('address');
+      setSuggestions(rankNearbyResults(position, normalizeResults([result, ...nearby])));
+      setShowDropdown(true);
+    } catch (err) {
+      if (isStale()) {
+        return;
+      }
+      console.error('Error searching at the current location:', err);
+      setSuggestions([]);
+      if (err instanceof Error) {
+        setError(err);
+        setShowErrorDialog(true);
+      }
+    } finally {
+      if (sequence === searchSequenceRef.current) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setIsLocating(false);
+      }
+    }
+  }, [provider, language, cancelSearch]);
 
   /**
    * Handles input value changes with debouncing.
@@ -223,12 +530,13 @@ export function useAddressSearch(
     setSelectedResult(null); // Clear hint when user types
     onChange?.(data.value);
 
-    // Clear existing debounce timer
-    if (debounceTimerRef.current) {
-      clearTimeout(debounceTimerRef.current);
-    }
+    // Clear the debounce timer and abort the request for the previous input
+    cancelSearch();
+    setIsShowingRecent(false);
 
-    if (data.value.length > MIN_CHARS_FOR_SUGGESTIONS && isFocused) {
+    if (data.value === '' && isFocused) {
+      showRecentAddresses();
+    } else if (data.value.length > MIN_CHARS_FOR_SUGGESTIONS && isFocused) {
       setShowDropdown(true);
       // Debounce API call
       debounceTimerRef.current = setTimeout(() => {
@@ -238,20 +546,53 @@ export function useAddressSearch(
       setShowDropdown(false);
       setSuggestions([]);
     }
-  }, [isFocused, onChange, fetchSuggestions]);
+  }, [isFocused, onChange, fetchSuggestions, cancelSearch, showRecentAddresses]);
 
   /**
    * Handles selection of an address from the dropdown.
    */
   const handleSelectAddress = React.useCallback(async (result: AzureMapsSearchResult): Promise<void> => {
+    // A pending search must not replace the selection with new suggestions
+    cancelSearch();
+
     // If this is a postal code search and the result is a Municipality,
     // fetch the postal codes and display them as new suggestions
     if (currentSearchType === 'postalcode' && result.entityType === 'Municipality' && result.position) {
+      // The lookup takes part in the search sequence, so typing or a newer selection drops its result
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const sequence = ++searchSequenceRef.current;
+      const isStale = (): boolean =>
+        controller.signal.aborted || sequence !== searchSequenceRef.current;
+
       setIsLoading(true);
       const municipalityName = result.address.municipality ?? '';
       const countryCode = result.address.countryCode ?? '';
-      const postalCodes = await getPostalCodesForMunicipality(municipalityName, countryCode, result.position);
-      
+      let postalCodes: string[];
+      try {
+        postalCodes = await getPostalCodesForMunicipality(municipalityName, countryCode, result.position, controller.signal);
+      } catch (err) {
+        // Aborted or superseded lookups fail silently
+        if (isStale()) {
+          return;
+        }
+        console.error('Error fetching postal codes:', err);
+        setSuggestions([]);
+        if (err instanceof Error) {
+          setError(err);
+          setShowErrorDialog(true);
+        }
+        return;
+      } finally {
+        if (sequence === searchSequenceRef.current) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+      if (isStale()) {
+        return;
+      }
+
       if (postalCodes.length > 0) {
         // Create results for each postal code using the service helper
         const postalCodeResults = postalCodes.map((postalCode) => 
@@ -259,10 +600,8 @@ export function useAddressSearch(
         );
         
         setSuggestions(postalCodeResults);
-        setIsLoading(false);
         return;
       }
-      setIsLoading(false);
     }
     
     // Standard address selection
@@ -271,19 +610,23 @@ export function useAddressSearch(
     setShowDropdown(false);
     setSuggestions([]);
     setSelectedResult(result); // Store for hint display
+    setIsShowingRecent(false);
+    recentAddresses?.addRecent(result);
     onChange?.(address);
     onSelect?.(address, result);
-  }, [currentSearchType, getPostalCodesForMunicipality, onChange, onSelect]);
+  }, [currentSearchType, getPostalCodesForMunicipality, onChange, onSelect, cancelSearch, recentAddresses]);
 
   /**
    * Handles input focus event.
    */
   const handleFocus = React.useCallback((): void => {
     setIsFocused(true);
-    if (inputValue.length > MIN_CHARS_FOR_SUGGESTIONS && suggestions.length > 0) {
+    if (inputValue === '') {
+      showRecentAddresses();
+    } else if (inputValue.length > MIN_CHARS_FOR_SUGGESTIONS && suggestions.length > 0) {
       setShowDropdown(true);
     }
-  }, [inputValue.length, suggestions.length]);
+  }, [inputValue, suggestions.length, showRecentAddresses]);
 
   /**
    * Handles input blur event.
@@ -301,6 +644,58 @@ export function useAddressSearch(
     }, 300);
   }, [openPopoverIndex]);
 
+  /**
+   * Handles combobox keyboard navigation on the input.
+   * ArrowDown/ArrowUp move the highlight (wrapping around) and open the list,
+   * Home/End jump to the first/last option, Enter selects the highlighted
+   * option, and Escape closes the list.
+   */
+  const handleKeyDown = React.useCallback((event: React.KeyboardEvent<HTMLInputElement>): void => {
+    const count = suggestions.length;
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (count === 0) {
+          return;
+        }
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        if (!showDropdown) {
+          setShowDropdown(true);
+          setActiveIndex(step === 1 ? 0 : count - 1);
+          return;
+        }
+        setActiveIndex((current) =>
+          current < 0 ? (step === 1 ? 0 : count - 1) : (current + step + count) % count
+        );
+        return;
+      }
+      case 'Home':
+      case 'End':
+        if (!showDropdown || count === 0) {
+          return;
+        }
+        event.preventDefault();
+        setActiveIndex(event.key === 'Home' ? 0 : count - 1);
+        return;
+      case 'Enter':
+        if (!showDropdown || activeIndex < 0 || activeIndex >= count) {
+          return;
+        }
+        event.preventDefault();
+        void handleSelectAddress(suggestions[activeIndex]);
+        return;
+      case 'Escape':
+        if (!showDropdown) {
+          return;
+        }
+        event.preventDefault();
+        setShowDropdown(false);
+        setActiveIndex(-1);
+        return;
+    }
+  }, [suggestions, showDropdown, activeIndex, handleSelectAddress]);
+
   /**
    * Handles panel cancel - keeps dropdown open after panel closes.
    */
@@ -309,6 +704,17 @@ export function useAddressSearch(
     setOpenPopoverIndex(null);
   }, []);
 
+  // New suggestions or a closed list start without a highlighted option
+  React.useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestions]);
+
+  React.useEffect(() => {
+    if (!showDropdown) {
+      setActiveIndex(-1);
+    }
+  }, [showDropdown]);
+
   // Sync with external value changes
   React.useEffect(() => {
     setInputValue(initialValue);
@@ -324,12 +730,13 @@ export function useAddressSearch(
     }
   }, [selectedResult]);
 
-  // Cleanup debounce timer on unmount
+  // Cleanup debounce timer and in-flight request on unmount
   React.useEffect(() => {
     return () => {
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
       }
+      abortControllerRef.current?.abort();
     };
   }, []);
 
@@ -339,16 +746,27 @@ export function useAddressSearch(
     isFocused,
     suggestions,
     isLoading,
+    isRetrying,
+    isLocating,
+    canSearchNearCurrentLocation,
     error,
     showErrorDialog,
     selectedResult,
+    isShowingRecent,
+    favoriteCount,
+    toggleFavorite,
+    activeIndex,
+    setActiveIndex,
     openPopoverIndex,
     setOpenPopoverIndex,
     handleChange,
     handleFocus,
     handleBlur,
+    handleKeyDown,
     handleSelectAddress,
     handleErrorDismiss,
-    handlePanelCancel
+    handlePanelCancel,
+    cancelSearch,
+    searchNearCurrentLocation
   };
 }
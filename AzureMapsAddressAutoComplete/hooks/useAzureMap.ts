@@ -3,13 +3,15 @@
  *
  * @remarks
  * This hook handles the complete lifecycle of an Azure Maps instance,
- * including SDK loading, map creation, marker placement, and cleanup.
+ * including SDK loading, map creation, marker placement, location picking,
+ * marker dragging, and cleanup.
  *
  * @packageDocumentation
  */
 
 import * as React from 'react';
 import { loadAzureMapsSdk, getAtlas } from '../utils/azureMapsSdkLoader';
+import type { AzureMapsCredential } from '../services/AzureMap/azureMapsCredential';
 // Import marker styles - bundled with the component
 import '../styles/azureMapsMarker.css';
 
@@ -25,6 +27,26 @@ export interface UseAzureMapOptions {
   longitude: number | undefined;
   /** Azure Maps subscription key. */
   subscriptionKey: string;
+  /**
+   * Credential used instead of the subscription key.
+   * Supplies Entra ID or SAS tokens to the Atlas map control.
+   */
+  credential?: AzureMapsCredential;
+  /**
+   * Whether "pick on map" mode is active.
+   * Clicking the map moves the marker, the marker becomes draggable,
+   * and each picked location is reported through `onPick`.
+   */
+  pickEnabled?: boolean;
+  /** Callback with the location the user clicked or dragged the marker to. */
+  onPick?: (position: { lat: number; lon: number }) => void;
+  /**
+   * Whether the marker can be dragged outside of pick mode to correct the coordinates.
+   * The new position is reported through `onMarkerDragEnd`.
+   */
+  markerDraggable?: boolean;
+  /** Callback with the position the user dragged the marker to outside of pick mode. */
+  onMarkerDragEnd?: (position: { lat: number; lon: number }) => void;
 }
 
 /**
@@ -53,6 +75,9 @@ const MARKER_HTML = "<div><div class='azure-maps-pin azure-maps-bounce'></div><d
  * - Lazy loading of the Azure Maps SDK
  * - Map instance creation and configuration
  * - Marker placement with animations
+ * - Moving the marker when the coordinates change, without recreating the map
+ * - Reporting clicked and dragged locations in pick mode
+ * - Reporting dragged marker positions when the marker is draggable
  * - Cleanup on unmount or when disabled
  *
  * @example
@@ -74,14 +99,37 @@ const MARKER_HTML = "<div><div class='azure-maps-pin azure-maps-bounce'></div><d
  * @public
  */
 export function useAzureMap(options: UseAzureMapOptions): UseAzureMapReturn {
-  const { enabled, latitude, longitude, subscriptionKey } = options;
+  const {
+    enabled,
+    latitude,
+    longitude,
+    subscriptionKey,
+    credential,
+    pickEnabled = false,
+    onPick,
+    markerDraggable = false,
+    onMarkerDragEnd
+  } = options;
 
   const containerRef = React.useRef<HTMLDivElement>(null);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const mapRef = React.useRef<any>(null);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const markerRef = React.useRef<any>(null);
   const [isLoading, setIsLoading] = React.useState(true);
 
-  const hasMapData = latitude !== undefined && longitude !== undefined && !!subscriptionKey;
+  // Latest values for map event handlers and initialization, so they don't recreate the map
+  const positionRef = React.useRef({ latitude, longitude });
+  positionRef.current = { latitude, longitude };
+  const onPickRef = React.useRef(onPick);
+  onPickRef.current = onPick;
+  const pickEnabledRef = React.useRef(pickEnabled);
+  pickEnabledRef.current = pickEnabled;
+  const onMarkerDragEndRef = React.useRef(onMarkerDragEnd);
+  onMarkerDragEndRef.current = onMarkerDragEnd;
+
+  const hasMapData =
+    latitude !== undefined && longitude !== undefined && (!!subscriptionKey || !!credential);
 
   React.useEffect(() => {
     if (!enabled || !hasMapData || !containerRef.current) {
@@ -92,6 +140,7 @@ export function useAzureMap(options: UseAzureMapOptions): UseAzureMapReturn {
 
     const initMap = async () => {
       setIsLoading(true);
+      const { latitude: initialLat, longitude: initialLon } = positionRef.current;
       await loadAzureMapsSdk();
 
       const atlasInstance = getAtlas();
@@ -116,15 +165,18 @@ export function useAzureMap(options: UseAzureMapOptions): UseAzureMapReturn {
       // Create map instance
       // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-assignment
       const map = new MapConstructor(containerRef.current, {
-        center: [longitude, latitude],
+        center: [initialLon, initialLat],
         zoom: 15,
         view: 'Auto',
         style: 'road',
-        authOptions: {
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-          authType: AuthenticationType.subscriptionKey,
-          subscriptionKey: subscriptionKey
-        }
+        authOptions: credential
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+          ? credential.getAtlasAuthOptions(AuthenticationType)
+          : {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+            authType: AuthenticationType.subscriptionKey,
+            subscriptionKey: subscriptionKey
+          }
       });
 
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
@@ -139,12 +191,14 @@ export function useAzureMap(options: UseAzureMapOptions): UseAzureMapReturn {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-assignment
         const marker = new HtmlMarkerConstructor({
           htmlContent: MARKER_HTML,
-          position: [longitude, latitude],
+          position: [initialLon, initialLat],
           pixelOffset: [5, -18]
         });
 
         // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
         map.markers.add(marker);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        markerRef.current = marker;
         setIsLoading(false);
       });
     };
@@ -153,12 +207,99 @@ export function useAzureMap(options: UseAzureMapOptions): UseAzureMapReturn {
 
     return () => {
       isMounted = false;
+      markerRef.current = null;
       if (mapRef.current) {
         (mapRef.current as { dispose: () => void }).dispose();
         mapRef.current = null;
       }
     };
-  }, [enabled, hasMapData, latitude, longitude, subscriptionKey]);
+  }, [enabled, hasMapData, subscriptionKey, credential]);
+
+  // Move the marker and camera when the coordinates change (e.g., after a pick)
+  React.useEffect(() => {
+    if (isLoading || !markerRef.current || latitude === undefined || longitude === undefined) {
+      return;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    markerRef.current.setOptions({ position: [longitude, latitude] });
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    mapRef.current?.setCamera({ center: [longitude, latitude] });
+  }, [isLoading, latitude, longitude]);
+
+  // Report clicked locations while pick mode is active
+  React.useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const map = mapRef.current;
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const marker = markerRef.current;
+    if (isLoading || !pickEnabled || !map || !marker) {
+      return;
+    }
+
+    const handleClick = (e: { position?: [number, number] }): void => {
+      if (!e.position) {
+        return;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      marker.setOptions({ position: e.position });
+      const [lon, lat] = e.position;
+      onPickRef.current?.({ lat, lon });
+    };
+
+    /* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+    map.events.add('click', handleClick);
+    map.getCanvasContainer().style.cursor = 'crosshair';
+
+    return () => {
+      // The map may already have been disposed and replaced
+      if (mapRef.current !== map) {
+        return;
+      }
+      map.events.remove('click', handleClick);
+      map.getCanvasContainer().style.cursor = '';
+    };
+    /* eslint-enable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+  }, [isLoading, pickEnabled]);
+
+  // Make the marker draggable in pick mode or when coordinate correction is enabled
+  React.useEffect(() => {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const map = mapRef.current;
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const marker = markerRef.current;
+    if (isLoading || !(pickEnabled || markerDraggable) || !map || !marker) {
+      return;
+    }
+
+    const handleDragEnd = (): void => {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      const position = (marker.getOptions() as { position?: [number, number] }).position;
+      if (!position) {
+        return;
+      }
+      const [lon, lat] = position;
+      // In pick mode a dragged marker picks a new address; otherwise only the coordinates change
+      if (pickEnabledRef.current) {
+        onPickRef.current?.({ lat, lon });
+      } else {
+        onMarkerDragEndRef.current?.({ lat, lon });
+      }
+    };
+
+    /* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+    marker.setOptions({ draggable: true });
+    map.events.add('dragend', marker, handleDragEnd);
+
+    return () => {
+      // The map may already have been disposed and replaced
+      if (mapRef.current !== map) {
+        return;
+      }
+      marker.setOptions({ draggable: false });
+      map.events.remove('dragend', marker, handleDragEnd);
+    };
+    /* eslint-enable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+  }, [isLoading, pickEnabled, markerDraggable]);
 
   return {
     containerRef,
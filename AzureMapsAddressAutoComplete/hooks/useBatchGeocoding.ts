@@ -0,0 +1,185 @@
+/**
+ * Custom hook for running the bulk geocoding of existing Dataverse rows.
+ *
+ * @packageDocumentation
+ */
+
+import * as React from 'react';
+import type { BatchGeocodingService, IBatchGeocodingError, IBatchGeocodingRow } from '../services';
+
+/**
+ * State of a bulk geocoding job.
+ */
+export type BatchGeocodingState = 'idle' | 'loading' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Progress of a bulk geocoding job.
+ */
+export interface BatchGeocodingProgress {
+  /** Number of rows to geocode. */
+  total: number;
+  /** Number of rows processed so far. */
+  processed: number;
+  /** Number of rows whose coordinates were written. */
+  succeeded: number;
+  /** Number of rows that were not geocoded. */
+  failed: number;
+}
+
+/**
+ * Return type for the useBatchGeocoding hook.
+ */
+export interface UseBatchGeocodingReturn {
+  /** The state of the job. */
+  state: BatchGeocodingState;
+  /** The progress of the job. */
+  progress: BatchGeocodingProgress;
+  /** The rows that were not geocoded. */
+  errors: IBatchGeocodingError[];
+  /** The message of the error that paused or failed the job. */
+  errorMessage: string | undefined;
+  /** Loads the rows and starts geocoding them. */
+  start: () => void;
+  /** Pauses the job after the current batch. */
+  pause: () => void;
+  /** Resumes a paused job, retrying a batch that failed. */
+  resume: () => void;
+  /** Stops the job after the current batch. */
+  cancel: () => void;
+}
+
+/**
+ * Progress of a job that has not started.
+ */
+const INITIAL_PROGRESS: BatchGeocodingProgress = { total: 0, processed: 0, succeeded: 0, failed: 0 };
+
+/**
+ * Runs the bulk geocoding of the rows selected by the service, one batch at a time.
+ *
+ * @param service - The bulk geocoding; the job cannot start when undefined.
+ * @returns The state and progress of the job and the functions that control it.
+ *
+ * @remarks
+ * Pausing and cancelling take effect between batches, so a batch that is being
+ * geocoded is always written completely. A batch whose request fails pauses the job
+ * with the error message; resuming retries that batch. The job stops when the
+ * component unmounts.
+ *
+ * @example
+ * ```tsx
+ * const { state, progress, start, pause, resume } = useBatchGeocoding(pcfContext?.getBatchGeocodingService());
+ * ```
+ *
+ * @public
+ */
+export function useBatchGeocoding(service: BatchGeocodingService | undefined): UseBatchGeocodingReturn {
+  const [state, setState] = React.useState<BatchGeocodingState>('idle');
+  const [progress, setProgress] = React.useState<BatchGeocodingProgress>(INITIAL_PROGRESS);
+  const [errors, setErrors] = React.useState<IBatchGeocodingError[]>([]);
+  const [errorMessage, setErrorMessage] = React.useState<string | undefined>(undefined);
+
+  const rowsRef = React.useRef<IBatchGeocodingRow[]>([]);
+  const nextIndexRef = React.useRef(0);
+  // What the running job does after the current batch
+  const requestRef = React.useRef<'continue' | 'pause' | 'cancel'>('continue');
+  const isMountedRef = React.useRef(true);
+
+  React.useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const run = React.useCallback(async (): Promise<void> => {
+    if (!service) {
+      return;
+    }
+    const batchSize = service.getBatchSize();
+    setState('running');
+
+    while (nextIndexRef.current < rowsRef.current.length) {
+      if (!isMountedRef.current) {
+        return;
+      }
+      const request = requestRef.current;
+      if (request !== 'continue') {
+        setState(request === 'pause' ? 'paused' : 'cancelled');
+        return;
+      }
+
+      const batch = rowsRef.current.slice(nextIndexRef.current, nextIndexRef.current + batchSize);
+      try {
+        const outcome = await service.geocodeBatch(batch);
+        nextIndexRef.current += batch.length;
+        if (!isMountedRef.current) {
+          return;
+        }
+        setProgress((current) => ({
+          ...current,
+          processed: current.processed + batch.length,
+          succeeded: current.succeeded + outcome.succeeded,
+          failed: current.failed + outcome.errors.length,
+        }));
+        setErrors((current) => (outcome.errors.length > 0 ? [...current, ...outcome.errors] : current));
+      } catch (error) {
+        console.warn('Batch geocoding failed:', error);
+        if (isMountedRef.current) {
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+          setState(requestRef.current === 'cancel' ? 'cancelled' : 'paused');
+        }
+        return;
+      }
+    }
+    setState('completed');
+  }, [service]);
+
+  const start = React.useCallback((): void => {
+    if (!service) {
+      return;
+    }
+    rowsRef.current = [];
+    nextIndexRef.current = 0;
+    requestRef.current = 'continue';
+    setProgress(INITIAL_PROGRESS);
+    setErrors([]);
+    setErrorMessage(undefined);
+    setState('loading');
+
+    service
+      .loadRows()
+      .then((rows) => {
+        if (!isMountedRef.current) {
+          return undefined;
+        }
+        rowsRef.current = rows;
+        setProgress({ ...INITIAL_PROGRESS, total: rows.length });
+        return run();
+      })
+      .catch((error: unknown) => {
+        console.warn('Loading the rows to geocode failed:', error);
+        if (isMountedRef.current) {
+          setErrorMessage(error instanceof Error ? error.message : String(error));
+          setState('failed');
+        }
+      });
+  }, [service, run]);
+
+  const pause = React.useCallback((): void => {
+    requestRef.current = 'pause';
+  }, []);
+
+  const resume = React.useCallback((): void => {
+    requestRef.current = 'continue';
+    setErrorMessage(undefined);
+    void run();
+  }, [run]);
+
+  const cancel = React.useCallback((): void => {
+    requestRef.current = 'cancel';
+    // A paused job has no running loop that would pick up the request
+    setState((current) => (current === 'paused' ? 'cancelled' : current));
+  }, []);
+
+  return { state, progress, errors, errorMessage, start, pause, resume, cancel };
+}
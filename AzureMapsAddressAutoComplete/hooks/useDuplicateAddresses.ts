@@ -0,0 +1,64 @@
+/**
+ * Custom hook for checking a selected address against existing Dataverse rows.
+ *
+ * @packageDocumentation
+ */
+
+import * as React from 'react';
+import type { AzureMapsSearchResult, DuplicateAddressService, IDuplicateAddressRecord } from '../services';
+
+/**
+ * Finds existing rows with the selected address.
+ *
+ * @param service - The duplicate check; no check is done when undefined.
+ * @param result - The selected search result; the duplicates are cleared when undefined.
+ * @param currentRecord - The record the control is placed on, which is never reported.
+ * @returns The duplicates of the selected address; empty while checking or when the check fails.
+ *
+ * @remarks
+ * The check runs again whenever another result is selected. A result of a check that
+ * finishes after the next selection is dropped. Failures are logged, not shown,
+ * because the check only supports the user and must not block the selection.
+ *
+ * @example
+ * ```tsx
+ * const duplicates = useDuplicateAddresses(pcfContext?.getDuplicateAddressService(), selectedResult);
+ * ```
+ *
+ * @public
+ */
+export function useDuplicateAddresses(
+  service: DuplicateAddressService | undefined,
+  result: AzureMapsSearchResult | undefined,
+  currentRecord?: { entityType: string; id: string }
+): IDuplicateAddressRecord[] {
+  const [duplicates, setDuplicates] = React.useState<IDuplicateAddressRecord[]>([]);
+  const recordType = currentRecord?.entityType;
+  const recordId = currentRecord?.id;
+
+  React.useEffect(() => {
+    setDuplicates([]);
+    if (!service || !result) {
+      return;
+    }
+
+    let isCurrent = true;
+    const record = recordType && recordId ? { entityType: recordType, id: recordId } : undefined;
+    service
+      .findDuplicates(result, record)
+      .then((found) => {
+        if (isCurrent) {
+          setDuplicates(found);
+        }
+        return undefined;
+      })
+      .catch((error: unknown) => {
+        console.warn('Duplicate address check failed:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [service, result, recordType, recordId]);
+
+  return duplicates;
+}
@@ -0,0 +1,52 @@
+/**
+ * Custom hook for resolving the reference point of location-biased search.
+ *
+ * @packageDocumentation
+ */
+
+import * as React from 'react';
+import type { LocationBiasConfig } from '../types';
+import { resolveLocationBias, type LocationBias } from '../utils/locationBias';
+
+/**
+ * Resolves the reference point that address searches are biased towards.
+ *
+ * @param config - The `AzureMapServiceConfigs.LocationBias` configuration.
+ * @param recordLat - The bound latitude of the current record.
+ * @param recordLon - The bound longitude of the current record.
+ * @returns The reference point, or undefined while resolving, when disabled, or when no source yields a point.
+ *
+ * @remarks
+ * The point is resolved again when the configuration or the record coordinates change.
+ * A browser location is only requested when `UserLocation` is a configured source
+ * and no earlier source yields a point.
+ *
+ * @example
+ * ```tsx
+ * const locationBias = useLocationBias(serviceConfigs?.LocationBias, 48.7758, 9.1829);
+ * ```
+ *
+ * @public
+ */
+export function useLocationBias(
+  config: LocationBiasConfig | undefined,
+  recordLat: number | undefined,
+  recordLon: number | undefined
+): LocationBias | undefined {
+  const [locationBias, setLocationBias] = React.useState<LocationBias | undefined>(undefined);
+
+  React.useEffect(() => {
+    let isMounted = true;
+    void resolveLocationBias(config, { lat: recordLat, lon: recordLon }).then((bias) => {
+      if (isMounted) {
+        setLocationBias(bias);
+      }
+      return undefined;
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, [config, recordLat, recordLon]);
+
+  return locationBias;
+}
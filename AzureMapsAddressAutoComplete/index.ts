@@ -4,13 +4,26 @@ import {
   IAzureMapsAddressAutoCompleteAppProps,
 } from "./AzureMapsAddressAutoCompleteApp";
 import { AzureMapsSearchResult } from "./components/AzureMapsAddressAutoComplete";
-import { getStringValue, getNumberValue } from "./utils";
+import {
+  getStringValue,
+  getNumberValue,
+  getBooleanValue,
+  validateAddress,
+  getValidationMessage,
+  toMissingCoordinatesRequest,
+  mapAddressOutputs,
+  formatAddressValue,
+  toSingleLineAddress,
+  formatCountryText,
+  isSameCountry,
+} from "./utils";
 import {
   AdditionalParameters,
   parseAdditionalParameters,
   findCountryChoiceByName,
   findCountryLookupByISO2,
   findCountryLookupByISO3,
+  findCountryLookupByName,
   CountryLookup,
 } from "./types";
 import { PcfContextService } from "./services/PcfContext/PcfContextService";
@@ -20,6 +33,9 @@ import { v4 as uuidv4 } from "uuid";
 /** Unique instance ID for this control */
 const instanceId = uuidv4();
 
+/** ID of the form notification that reports validation failures */
+const VALIDATION_NOTIFICATION_ID = `azure-maps-address-validation-${instanceId}`;
+
 export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactControl<
   IInputs,
   IOutputs
@@ -27,6 +43,7 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
   private notifyOutputChanged: () => void;
   private rootContainer: HTMLDivElement;
   private currentValue: string;
+  private searchText: string | undefined;
   private street: string;
   private city: string;
   private postalCode: string;
@@ -45,9 +62,15 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
   private latitude: number | null | undefined;
   private longitude: number | null | undefined;
   private resultScore: number | null | undefined;
+  /** Incremented on every selection or edit, so late lookups for an older address are dropped */
+  private addressVersion = 0;
+  private isManuallyAdjusted: boolean;
+  private validationStatus: string;
+  private validationMessage: string | undefined;
   private additionalParamsConfig: AdditionalParameters | undefined;
   private cachedCountryLookup: CountryLookup | undefined;
   private pcfContextService: PcfContextService | undefined;
+  private userLanguageId: number | undefined;
 
   /**
    * Used to initialize the control instance. Controls can kick off remote server calls and other initialization actions here.
@@ -86,11 +109,14 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
     );
     this.country = getStringValue(context.parameters.country);
     this.countryPropertyType = context.parameters.country.type;
+    this.userLanguageId = context.userSettings?.languageId;
     this.countryCodeISO2 = getStringValue(context.parameters.countryCodeISO2);
     this.countryCodeISO3 = getStringValue(context.parameters.countryCodeISO3);
     this.latitude = getNumberValue(context.parameters.latitude);
     this.longitude = getNumberValue(context.parameters.longitude);
     this.resultScore = getNumberValue(context.parameters.resultScore);
+    this.isManuallyAdjusted = getBooleanValue(context.parameters.isManuallyAdjusted);
+    this.validationStatus = getStringValue(context.parameters.validationStatus);
 
     // Parse additionalParameters JSON
     this.additionalParamsConfig = parseAdditionalParameters(
@@ -123,9 +149,84 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
       );
     }
 
+    this.preloadCountries();
+    void this.geocodeMissingCoordinates();
+
     console.log("AzureMapsAddressAutoComplete init context:", context);
   }
 
+  /**
+   * Loads the configured country table when the country field is a lookup,
+   * so that selections resolve the country without a Dataverse request.
+   */
+  private preloadCountries(): void {
+    if (this.countryPropertyType !== "Lookup.Simple") {
+      return;
+    }
+    this.pcfContextService
+      ?.getCountryService()
+      ?.loadCountries()
+      .catch((error: unknown) => {
+        console.warn("preloadCountries: Loading the country table failed:", error);
+      });
+  }
+
+  /**
+   * Looks up the coordinates of a record that has address fields but no coordinates,
+   * e.g. a record created before the control was added to the form.
+   * Opt-in through `GeocodeMissingCoordinates.Enabled`, as writing the coordinates makes the form dirty.
+   * Uses the structured address search of the search provider; only the coordinates and the score are changed.
+   */
+  private async geocodeMissingCoordinates(): Promise<void> {
+    const service = this.pcfContextService;
+    if (
+      !service ||
+      this.latitude != null ||
+      this.longitude != null ||
+      this.additionalParamsConfig?.AzureMapServiceConfigs?.GeocodeMissingCoordinates?.Enabled !== true ||
+      service.isControlDisabled()
+    ) {
+      return;
+    }
+
+    const request = toMissingCoordinatesRequest(
+      {
+        street: this.street,
+        city: this.city,
+        postalCode: this.postalCode,
+        stateProvince: this.stateProvince,
+        countryCodeISO2: this.countryCodeISO2,
+      },
+      service.defaultCountries,
+      service.useUserLanguage ? service.uiLanguage : service.defaultLanguage,
+    );
+    const provider = service.getSearchProvider();
+    if (!request || !provider?.searchAddressStructured) {
+      return;
+    }
+
+    const version = this.addressVersion;
+    try {
+      const [match] = await provider.searchAddressStructured(request);
+      // Keep the address the user selected, edited or cleared in the meantime
+      if (version !== this.addressVersion) {
+        console.log("geocodeMissingCoordinates: Address changed during the lookup, dropping the match");
+        return;
+      }
+      if (!match?.position) {
+        console.log("geocodeMissingCoordinates: No coordinates found for the record address");
+        return;
+      }
+      console.log("geocodeMissingCoordinates: Found coordinates", match.position);
+      this.latitude = match.position.lat;
+      this.longitude = match.position.lon;
+      this.resultScore = typeof match.score === "number" ? match.score : null;
+      this.notifyOutputChanged();
+    } catch (error) {
+      console.warn("geocodeMissingCoordinates: Structured address search failed:", error);
+    }
+  }
+
   /**
    * Called when any value in the property bag has changed. This includes field values, data-sets, global values such as container height and width, offline status, control metadata values such as label, visible, etc.
    * @param context The entire property bag available to control via Context Object; It contains values as set up by the customizer mapped to names defined in the manifest, as well as utility functions
@@ -134,16 +235,31 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
   public updateView(
     context: ComponentFramework.Context<IInputs>,
   ): React.ReactElement {
+    // Reload the configuration and the country table when additionalParameters changed
+    if (this.pcfContextService?.setAdditionalParameters(context.parameters.additionalParameters?.raw)) {
+      this.additionalParamsConfig = parseAdditionalParameters(
+        context.parameters.additionalParameters?.raw,
+      );
+      this.preloadCountries();
+    }
+
+    // Show the search text of a selection rather than the formatted value written for it
+    const boundValue = getStringValue(
+      context.parameters.azureMapsAddressSearchAutoComplete,
+    );
     const props: IAzureMapsAddressAutoCompleteAppProps = {
       context: context,
       instanceid: instanceId,
-      value: getStringValue(
-        context.parameters.azureMapsAddressSearchAutoComplete,
-      ),
+      pcfContextService: this.pcfContextService,
+      value:
+        this.searchText !== undefined && boundValue === this.currentValue
+          ? this.searchText
+          : toSingleLineAddress(boundValue),
       onChange: this.handleChange.bind(this),
       onSelect: (address, result) => {
         void this.handleSelect(address, result);
       },
+      validationMessage: this.validationMessage,
     };
     return React.createElement(AzureMapsAddressAutoCompleteApp, props);
   }
@@ -153,7 +269,9 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
    * @param value - The new address value.
    */
   private handleChange(value: string): void {
+    this.addressVersion++;
     this.currentValue = value;
+    this.searchText = undefined;
     this.notifyOutputChanged();
   }
 
@@ -162,34 +280,15 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
    * @param result - The Azure Maps search result.
    */
   private extractAddressFields(result: AzureMapsSearchResult): void {
-    // Build street from street name and street number (European format)
-    const streetNumber = result.address.streetNumber ?? "";
-    const streetName = result.address.streetName ?? "";
-    this.street = `${streetName} ${streetNumber}`.trim();
-
-    // City from municipality or localName
-    this.city = result.address.municipality ?? result.address.localName ?? "";
-
-    // Postal code
-    this.postalCode = result.address.postalCode ?? "";
-
-    // County from municipalitySubdivision or neighbourhood
-    this.county =
-      result.address.municipalitySubdivision ??
-      result.address.neighbourhood ??
-      "";
-
-    // State/Province from countrySubdivisionName or countrySubdivision
-    this.stateProvince =
-      result.address.countrySubdivisionName ??
-      result.address.countrySubdivision ??
-      "";
-
-    // State/Province Code
-    this.stateProvinceCode = result.address.countrySubdivisionCode ?? "";
-
-    // Country
-    this.country = result.address.country ?? "";
+    // Text outputs from the country's templates (street name before house number by default)
+    const outputs = mapAddressOutputs(result, this.additionalParamsConfig?.FieldMappingConfig);
+    this.street = outputs.Street;
+    this.city = outputs.City;
+    this.postalCode = outputs.PostalCode;
+    this.county = outputs.County;
+    this.stateProvince = outputs.StateProvince;
+    this.stateProvinceCode = outputs.StateProvinceCode;
+    this.country = outputs.Country;
 
     // Country Code ISO2
     this.countryCodeISO2 = result.address.countryCode ?? "";
@@ -197,18 +296,22 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
     // Country Code ISO3
     this.countryCodeISO3 = result.address.countryCodeISO3 ?? "";
 
-    // Coordinates
-    this.latitude = result.position?.lat;
-    this.longitude = result.position?.lon;
+    // Coordinates; null clears the previous address's values (e.g., for address book entries without coordinates)
+    this.latitude = result.position?.lat ?? null;
+    this.longitude = result.position?.lon ?? null;
 
-    // Match score - safely extract as number
+    // Match score - safely extract as number; address book entries have none
     const scoreValue: unknown = result.score;
-    this.resultScore = typeof scoreValue === "number" ? scoreValue : undefined;
+    this.resultScore = typeof scoreValue === "number" ? scoreValue : null;
+
+    // Coordinates corrected by dragging the map marker
+    this.isManuallyAdjusted = result.manuallyAdjusted === true;
   }
 
   /**
    * Resolves country output for OptionSet field type.
-   * Uses ISO3 code matching with fallback to name matching.
+   * Matches the ExternalValue (ISO3 code), then the label in any known language,
+   * with fallback to name matching. The matched value is written by getOutputs.
    */
   private resolveCountryForOptionSet(): void {
     const cachedCountryOptions =
@@ -217,15 +320,18 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
       `handleSelect: Processing OptionSet - cachedOptions available: ${!!cachedCountryOptions}, ISO3: '${this.countryCodeISO3}'`,
     );
 
-    // Find country option by ExternalValue (ISO3 code) if metadata is cached
-    if (cachedCountryOptions && this.countryCodeISO3) {
+    // Find country option by ExternalValue (ISO3 code) or label if metadata is cached
+    if (cachedCountryOptions && (this.countryCodeISO3 || this.countryCodeISO2)) {
       console.log(
         `handleSelect: Searching ${cachedCountryOptions.length} cached options for ISO3 '${this.countryCodeISO3}'`,
       );
 
-      const matchedOption = cachedCountryOptions.find(
-        (opt) => opt.ExternalValue === this.countryCodeISO3,
-      );
+      // Options without external values are matched by their label in any known language
+      const matchedOption =
+        (this.countryCodeISO3
+          ? cachedCountryOptions.find((opt) => opt.ExternalValue === this.countryCodeISO3)
+          : undefined) ??
+        cachedCountryOptions.find((opt) => isSameCountry(opt.Label, this.countryCodeISO2));
       this.countryOutput = matchedOption?.Value;
       console.log(
         `handleSelect: Matched country by ISO3 '${this.countryCodeISO3}':`,
@@ -238,13 +344,14 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
           : "NOT FOUND",
       );
     } else {
-      // Fallback to name matching if metadata not available or no ISO3 code
+      // Fallback to name matching if metadata not available or no country code
       console.log(
         `handleSelect: Falling back to name matching for '${this.country}' (cachedOptions: ${!!cachedCountryOptions}, ISO3: '${this.countryCodeISO3}')`,
       );
       const countryChoice = findCountryChoiceByName(
         this.additionalParamsConfig,
         this.country,
+        this.countryCodeISO2,
       );
       this.countryOutput = countryChoice?.Value;
       console.log(
@@ -267,19 +374,29 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
     }
 
     try {
-      this.cachedCountryLookup = await findCountryLookupByISO2(
+      // Resolves immediately once the country table is cached
+      await this.pcfContextService?.getCountryService()?.loadCountries();
+      this.cachedCountryLookup = findCountryLookupByISO2(
         this.additionalParamsConfig,
         this.countryCodeISO2,
         this.pcfContextService,
       );
       // Fallback to ISO3 if ISO2 lookup failed
       if (!this.cachedCountryLookup && this.countryCodeISO3) {
-        this.cachedCountryLookup = await findCountryLookupByISO3(
+        this.cachedCountryLookup = findCountryLookupByISO3(
           this.additionalParamsConfig,
           this.countryCodeISO3,
           this.pcfContextService,
         );
       }
+      // Fallback to the country name if neither code is in the table
+      if (!this.cachedCountryLookup && this.country) {
+        this.cachedCountryLookup = findCountryLookupByName(
+          this.additionalParamsConfig,
+          this.country,
+          this.pcfContextService,
+        );
+      }
     } catch (error) {
       console.error("Error fetching country lookup:", error);
       this.cachedCountryLookup = undefined;
@@ -296,6 +413,16 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
       await this.resolveCountryForLookup();
     } else {
       this.cachedCountryLookup = undefined;
+      // Name, ISO code or localized name, as set by CountriesConfig.TextFormat
+      this.countryOutput = formatCountryText(
+        this.additionalParamsConfig?.CountriesConfig?.TextFormat,
+        {
+          name: this.country,
+          countryCodeISO2: this.countryCodeISO2,
+          countryCodeISO3: this.countryCodeISO3,
+        },
+        this.userLanguageId,
+      );
     }
   }
 
@@ -320,6 +447,38 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
     this.latitude = null;
     this.longitude = null;
     this.resultScore = null;
+    this.isManuallyAdjusted = false;
+    this.validationStatus = "";
+    this.validationMessage = undefined;
+    this.pcfContextService?.clearNotification(VALIDATION_NOTIFICATION_ID);
+  }
+
+  /**
+   * Validates the selected address against `ValidationConfig`.
+   * Failures are shown as a form notification and written to the validation status output.
+   * Hosts without notifications get the message through the `validationMessage` prop instead.
+   * @param result - The selected search result.
+   */
+  private applyValidation(result: AzureMapsSearchResult): void {
+    const validation = validateAddress(
+      result,
+      this.additionalParamsConfig?.ValidationConfig,
+    );
+    this.validationStatus = validation?.status ?? "";
+
+    if (validation && validation.failures.length > 0) {
+      const message = getValidationMessage(
+        validation.failures,
+        (key, fallback) =>
+          this.pcfContextService?.getString(key, fallback) ?? fallback,
+      );
+      console.log(`handleSelect: Validation failed - ${message}`);
+      const isNotified = this.pcfContextService?.setNotification(message, VALIDATION_NOTIFICATION_ID) ?? false;
+      this.validationMessage = isNotified ? undefined : message;
+    } else {
+      this.validationMessage = undefined;
+      this.pcfContextService?.clearNotification(VALIDATION_NOTIFICATION_ID);
+    }
   }
 
   /**
@@ -333,10 +492,15 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
     result?: AzureMapsSearchResult,
   ): Promise<void> {
     console.log("handleSelect called - address:", address, "result:", result);
-    this.currentValue = address;
+    this.addressVersion++;
+    // Postal format of the result's country when configured, otherwise the search's address line
+    this.currentValue =
+      (result && formatAddressValue(result, this.additionalParamsConfig?.AddressFormatConfig)) ?? address;
+    this.searchText = result ? address : undefined;
 
     if (result) {
       this.extractAddressFields(result);
+      this.applyValidation(result);
       await this.resolveCountryOutput();
     } else {
       this.clearAllAddressFields();
@@ -362,7 +526,7 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
         // Use cached country lookup data fetched in handleSelect
         if (
           this.cachedCountryLookup &&
-          this.additionalParamsConfig?.CountriesConfig.CountryTable
+          this.additionalParamsConfig?.CountriesConfig?.CountryTable
         ) {
           // Validate that the ID is not an empty GUID to prevent Dataverse errors
           const isEmpty = this.cachedCountryLookup.Id === "00000000-0000-0000-0000-000000000000";
@@ -390,24 +554,17 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
         }
         break;
       }
-      case "OptionSet": {
-        // Find optionset value by ExternalValue (ISO3 code)
-        const cachedCountryOptions =
-          this.pcfContextService?.getCachedOptionSetMetadata("country");
-        if (cachedCountryOptions && this.countryCodeISO3) {
-          const matchedOption = cachedCountryOptions.find(
-            (opt) => opt.ExternalValue === this.countryCodeISO3,
-          );
-          countryOutput = matchedOption?.Value;
-        } else {
-          // Fallback to cached value if metadata not available or no ISO3 code
-          countryOutput = this.countryOutput;
-        }
+      case "OptionSet":
+        // Option resolved in handleSelect by ExternalValue, label in any known language or name
+        countryOutput = this.countryOutput;
         break;
-      }
       case "SingleLine.Text":
       default:
-        countryOutput = this.country;
+        // Formatted value of a selection, otherwise the bound value
+        countryOutput =
+          typeof this.countryOutput === "string"
+            ? this.countryOutput
+            : this.country;
         break;
     }
 
@@ -426,6 +583,8 @@ export class AzureMapsAddressAutoComplete implements ComponentFramework.ReactCon
       latitude: this.latitude as number | undefined,
       longitude: this.longitude as number | undefined,
       resultScore: this.resultScore as number | undefined,
+      isManuallyAdjusted: this.isManuallyAdjusted,
+      validationStatus: this.validationStatus,
     };
 
     return outputs;
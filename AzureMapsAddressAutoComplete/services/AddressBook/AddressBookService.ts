@@ -0,0 +1,200 @@
+// AzureMapsAddressAutoComplete\services\AddressBook\AddressBookService.ts
+import { IInputs } from "../../generated/ManifestTypes";
+import type { AddressBookColumns, AddressBookConfig } from "../../types/additionalParametersTypes";
+import type { AzureMapsSearchResult } from "../AzureMap/azureMapsService";
+
+/**
+ * Number of address book entries suggested when no maximum is configured.
+ */
+export const DEFAULT_MAX_ADDRESS_BOOK_RESULTS = 5;
+
+/**
+ * Result type of address book suggestions.
+ */
+export const ADDRESS_BOOK_RESULT_TYPE = "Address Book";
+
+export interface IAddressBookServiceProps {
+  context: ComponentFramework.Context<IInputs>;
+  config: AddressBookConfig;
+}
+
+/**
+ * Escapes a value for use in an OData string literal.
+ *
+ * @param value - The value.
+ * @returns The value with single quotes doubled.
+ *
+ * @public
+ */
+export function escapeODataString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Searches a Dataverse table of known addresses (e.g., account addresses or company sites).
+ *
+ * @remarks
+ * Rows are queried through `context.webAPI`, like {@link CountryService}, and returned as
+ * `AzureMapsSearchResult` items whose address fields come from the configured column mapping,
+ * so a selected entry fills the bound outputs like an Azure Maps result.
+ */
+export class AddressBookService {
+  private readonly context: ComponentFramework.Context<IInputs>;
+  private readonly config: AddressBookConfig;
+
+  constructor(props: IAddressBookServiceProps) {
+    this.context = props.context;
+    this.config = props.config;
+  }
+
+  /**
+   * Checks if the control is in design mode.
+   */
+  private isInDesignMode(): boolean {
+    return (
+      typeof this.context.mode.allocatedHeight === "number" &&
+      this.context.mode.allocatedHeight === -1
+    );
+  }
+
+  /**
+   * Builds the OData query for a search.
+   *
+   * @param query - The search query.
+   * @returns The query string passed to `retrieveMultipleRecords`, or undefined if the query has no words.
+   *
+   * @remarks
+   * Every word of the query must occur in one of the `SearchColumns`;
+   * the configured `Filter` is combined with the search. Words are escaped and URL-encoded,
+   * the `Filter` is used as configured.
+   *
+   * @example
+   * ```typescript
+   * service.buildQuery("Bahnhof Zürich");
+   * // "?$select=...&$filter=(contains(name,'Bahnhof') or contains(address1_city,'Bahnhof')) and (...)&$top=5"
+   * ```
+   *
+   * @public
+   */
+  public buildQuery(query: string): string | undefined {
+    const words = query.split(/[\s,]+/).filter((word) => word.length > 0);
+    if (words.length === 0 || this.config.SearchColumns.length === 0) {
+      return undefined;
+    }
+
+    const conditions = words.map(
+      (word) =>
+        `(${this.config.SearchColumns.map(
+          (column) => `contains(${column},'${encodeURIComponent(escapeODataString(word))}')`
+        ).join(" or ")})`
+    );
+    if (this.config.Filter) {
+      conditions.push(`(${this.config.Filter})`);
+    }
+
+    const maxResults =
+      typeof this.config.MaxResults === "number" && this.config.MaxResults > 0
+        ? Math.floor(this.config.MaxResults)
+        : DEFAULT_MAX_ADDRESS_BOOK_RESULTS;
+
+    return `?$select=${this.getSelectColumns().join(",")}&$filter=${conditions.join(" and ")}&$top=${maxResults}`;
+  }
+
+  /**
+   * Searches the address book.
+   *
+   * @param query - The search query as typed by the user.
+   * @returns Promise with the matching entries in the order returned by Dataverse.
+   *
+   * @remarks
+   * In design mode no query is sent and the result is empty.
+   *
+   * @example
+   * ```typescript
+   * const entries = await addressBookService.search("Bahnhofstrasse");
+   * ```
+   *
+   * @public
+   */
+  public async search(query: string): Promise<AzureMapsSearchResult[]> {
+    const options = this.buildQuery(query);
+    if (!options || this.isInDesignMode()) {
+      return [];
+    }
+
+    console.log(`AddressBookService.search: Querying '${this.config.TableName}' for '${query}'`);
+    const response = await this.context.webAPI.retrieveMultipleRecords(this.config.TableName, options);
+    return response.entities.map((entity) => this.mapEntity(entity));
+  }
+
+  /**
+   * Converts a table row to a search result.
+   *
+   * @param entity - The row returned by the Web API.
+   * @returns The search result with the mapped address fields.
+   *
+   * @public
+   */
+  public mapEntity(entity: ComponentFramework.WebApi.Entity): AzureMapsSearchResult {
+    const columns = this.config.Columns;
+    const getText = (column: string | undefined): string | undefined => {
+      const value: unknown = column ? entity[column] : undefined;
+      return typeof value === "string" && value.trim() ? value.trim() : undefined;
+    };
+    const getNumber = (column: string | undefined): number | undefined => {
+      const value: unknown = column ? entity[column] : undefined;
+      return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    };
+
+    const address: AzureMapsSearchResult["address"] = {
+      streetName: getText(columns.Street),
+      streetNumber: getText(columns.StreetNumber),
+      postalCode: getText(columns.PostalCode),
+      municipality: getText(columns.City),
+      municipalitySubdivision: getText(columns.County),
+      countrySubdivisionName: getText(columns.StateProvince),
+      countrySubdivisionCode: getText(columns.StateProvinceCode),
+      country: getText(columns.Country),
+      countryCode: getText(columns.CountryISO2)?.toUpperCase(),
+      countryCodeISO3: getText(columns.CountryISO3)?.toUpperCase(),
+      freeformAddress: "",
+    };
+    address.freeformAddress = [
+      [address.streetName, address.streetNumber].filter(Boolean).join(" "),
+      [address.postalCode, address.municipality].filter(Boolean).join(" "),
+      address.country,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+    const lat = getNumber(columns.Latitude);
+    const lon = getNumber(columns.Longitude);
+    const id = String(entity[this.config.IdColumn ?? `${this.config.TableName}id`] ?? "");
+
+    return {
+      type: ADDRESS_BOOK_RESULT_TYPE,
+      id: `${this.config.TableName}:${id}`,
+      address,
+      position: lat !== undefined && lon !== undefined ? { lat, lon } : undefined,
+      addressBookRecord: {
+        tableName: this.config.TableName,
+        id,
+        name: getText(this.config.NameColumn),
+      },
+    };
+  }
+
+  /**
+   * Gets the columns to retrieve: the key, the name and all mapped columns.
+   */
+  private getSelectColumns(): string[] {
+    const mapped = Object.values(this.config.Columns as Record<keyof AddressBookColumns, string | undefined>);
+    return Array.from(
+      new Set(
+        [this.config.IdColumn ?? `${this.config.TableName}id`, this.config.NameColumn, ...mapped].filter(
+          (column): column is string => !!column
+        )
+      )
+    );
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Azure Maps Credential
+ * Supplies authentication for Azure Maps REST requests and the Atlas map control.
+ * Supports subscription keys, Microsoft Entra ID bearer tokens and SAS tokens.
+ */
+
+import { DataverseApiError } from "../../types";
+import type { AzureMapsAuthenticationConfig } from "../../types/additionalParametersTypes";
+
+/**
+ * Azure Maps authentication mode.
+ * - `'SubscriptionKey'` - Shared key from the `subscriptionKey` property
+ * - `'EntraId'` - Microsoft Entra ID bearer token with the `x-ms-client-id` header
+ * - `'Sas'` - Short-lived Azure Maps SAS token
+ *
+ * @public
+ */
+export type AzureMapsAuthType = "SubscriptionKey" | "EntraId" | "Sas";
+
+/**
+ * An access token with its expiry.
+ *
+ * @public
+ */
+export interface AzureMapsAccessToken {
+  /** The bearer or SAS token. */
+  token: string;
+  /**
+   * Expiry as epoch milliseconds.
+   * When omitted, the `exp` claim of the JWT is used.
+   */
+  expiresOn?: number;
+}
+
+/**
+ * Callback that acquires a new access token.
+ *
+ * @public
+ */
+export type AzureMapsTokenProvider = () => Promise<AzureMapsAccessToken>;
+
+/**
+ * Options for creating an {@link AzureMapsCredential}.
+ *
+ * @public
+ */
+export interface AzureMapsCredentialOptions {
+  /** The authentication mode. */
+  authType: AzureMapsAuthType;
+  /** Subscription key (SubscriptionKey mode). */
+  subscriptionKey?: string;
+  /** Azure Maps account client ID sent as `x-ms-client-id` (EntraId mode). */
+  clientId?: string;
+  /** Token provider (EntraId and Sas modes). */
+  tokenProvider?: AzureMapsTokenProvider;
+}
+
+/**
+ * Tokens are refreshed this long before they expire (2 minutes).
+ */
+const TOKEN_REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+/**
+ * Lifetime assumed for tokens without expiry information (10 minutes).
+ */
+const DEFAULT_TOKEN_LIFETIME_MS = 10 * 60 * 1000;
+
+/**
+ * Token provider registered by the hosting application.
+ */
+let registeredTokenProvider: AzureMapsTokenProvider | undefined;
+
+/**
+ * Registers the token provider used for Entra ID authentication.
+ * Takes precedence over `Authentication.TokenCustomApi`.
+ *
+ * @param provider - The token provider, or undefined to remove it.
+ *
+ * @example
+ * ```ts
+ * setAzureMapsTokenProvider(async () => {
+ *   const result = await msalInstance.acquireTokenSilent({ scopes: ['https://atlas.microsoft.com/.default'] });
+ *   return { token: result.accessToken, expiresOn: result.expiresOn?.getTime() };
+ * });
+ * ```
+ *
+ * @public
+ */
+export function setAzureMapsTokenProvider(provider: AzureMapsTokenProvider | undefined): void {
+  registeredTokenProvider = provider;
+}
+
+/**
+ * Gets the token provider registered with {@link setAzureMapsTokenProvider}.
+ *
+ * @returns The registered token provider, or undefined.
+ *
+ * @public
+ */
+export function getAzureMapsTokenProvider(): AzureMapsTokenProvider | undefined {
+  return registeredTokenProvider;
+}
+
+/**
+ * Reads the `exp` claim of a JWT.
+ *
+ * @param token - The JWT.
+ * @returns The expiry as epoch milliseconds, or undefined if the token is not a JWT.
+ */
+export function getJwtExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const claims = JSON.parse(json) as { exp?: unknown };
+    return typeof claims.exp === "number" ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Authentication for Azure Maps requests.
+ *
+ * @remarks
+ * Tokens are cached and refreshed two minutes before they expire.
+ * Concurrent requests share one pending token acquisition.
+ *
+ * @example
+ * ```ts
+ * const credential = new AzureMapsCredential({
+ *   authType: 'EntraId',
+ *   clientId: 'azure-maps-client-id',
+ *   tokenProvider: async () => ({ token: await getToken() })
+ * });
+ * const headers = await credential.getAuthHeaders();
+ * ```
+ *
+ * @public
+ */
+export class AzureMapsCredential {
+  /** The authentication mode. */
+  public readonly authType: AzureMapsAuthType;
+  /** Azure Maps account client ID (EntraId mode). */
+  public readonly clientId?: string;
+  private readonly subscriptionKey: string;
+  private readonly tokenProvider?: AzureMapsTokenProvider;
+  private cachedToken: { token: string; expiresOn: number } | undefined;
+  private pendingToken: Promise<string> | undefined;
+
+  constructor(options: AzureMapsCredentialOptions) {
+    this.authType = options.authType;
+    this.clientId = options.clientId;
+    this.subscriptionKey = options.subscriptionKey ?? "";
+    this.tokenProvider = options.tokenProvider;
+  }
+
+  /**
+   * Whether the credential uses tokens rather than a subscription key.
+   */
+  public get isTokenBased(): boolean {
+    return this.authType !== "SubscriptionKey";
+  }
+
+  /**
+   * Whether the credential can authenticate requests.
+   */
+  public get isConfigured(): boolean {
+    return this.isTokenBased ? !!this.tokenProvider : !!this.subscriptionKey;
+  }
+
+  /**
+   * Gets the subscription key or a valid access token.
+   *
+   * @param forceRefresh - Acquire a new token even if the cached one is still valid.
+   * @returns The subscription key or token.
+   * @throws Error if the token provider fails.
+   */
+  public async getToken(forceRefresh = false): Promise<string> {
+    if (!this.isTokenBased || !this.tokenProvider) {
+      return this.subscriptionKey;
+    }
+
+    if (
+      !forceRefresh &&
+      this.cachedToken &&
+      Date.now() < this.cachedToken.expiresOn - TOKEN_REFRESH_MARGIN_MS
+    ) {
+      return this.cachedToken.token;
+    }
+
+    // Share one pending acquisition between concurrent callers
+    this.pendingToken ??= this.acquireToken(this.tokenProvider).finally(() => {
+      this.pendingToken = undefined;
+    });
+    return this.pendingToken;
+  }
+
+  /**
+   * Gets the headers that authenticate an Azure Maps REST request.
+   *
+   * @param forceRefresh - Acquire a new token even if the cached one is still valid.
+   * @returns The authentication headers.
+   */
+  public async getAuthHeaders(forceRefresh = false): Promise<Record<string, string>> {
+    const token = await this.getToken(forceRefresh);
+
+    switch (this.authType) {
+      case "EntraId":
+        return {
+          Authorization: `Bearer ${token}`,
+          ...(this.clientId ? { "x-ms-client-id": this.clientId } : {}),
+        };
+      case "Sas":
+        return { Authorization: `jwt-sas ${token}` };
+      default:
+        return { "subscription-key": token };
+    }
+  }
+
+  /**
+   * Discards the cached token so the next request acquires a new one.
+   */
+  public invalidate(): void {
+    this.cachedToken = undefined;
+  }
+
+  /**
+   * Builds the `authOptions` for the Atlas map control.
+   *
+   * @param authenticationType - The `atlas.AuthenticationType` enum.
+   * @returns The Atlas authentication options.
+   */
+  public getAtlasAuthOptions(authenticationType: {
+    subscriptionKey: string;
+    anonymous: string;
+    sas: string;
+  }): Record<string, unknown> {
+    if (!this.isTokenBased) {
+      return {
+        authType: authenticationType.subscriptionKey,
+        subscriptionKey: this.subscriptionKey,
+      };
+    }
+
+    const getToken = (resolve: (token: string) => void, reject: (error: unknown) => void) => {
+      this.getToken().then(resolve).catch(reject);
+    };
+
+    return this.authType === "EntraId"
+      ? { authType: authenticationType.anonymous, clientId: this.clientId, getToken }
+      : { authType: authenticationType.sas, getToken };
+  }
+
+  /**
+   * Acquires a token from the provider and caches it.
+   */
+  private async acquireToken(tokenProvider: AzureMapsTokenProvider): Promise<string> {
+    const { token, expiresOn } = await tokenProvider();
+    this.cachedToken = {
+      token,
+      expiresOn: expiresOn ?? getJwtExpiry(token) ?? Date.now() + DEFAULT_TOKEN_LIFETIME_MS,
+    };
+    return token;
+  }
+}
+
+/**
+ * Creates a token provider that calls an unbound Dataverse custom API.
+ *
+ * @remarks
+ * The custom API must return a `Token` output parameter and may return
+ * `ExpiresOn` (ISO 8601 date). Without `ExpiresOn`, the JWT `exp` claim is used.
+ *
+ * @param context - The PCF context.
+ * @param customApiName - The unique name of the custom API.
+ * @returns The token provider.
+ * @throws DataverseApiError when the custom API call fails.
+ *
+ * @example
+ * ```ts
+ * const tokenProvider = createDataverseTokenProvider(context, 'aidevme_GetAzureMapsToken');
+ * ```
+ *
+ * @public
+ */
+export function createDataverseTokenProvider(
+  context: ComponentFramework.Context<unknown>,
+  customApiName: string
+): AzureMapsTokenProvider {
+  return async () => {
+    const clientUrl = ((context as unknown) as { page: { getClientUrl: () => string } }).page.getClientUrl();
+    const response = await fetch(`${clientUrl}/api/data/v9.2/${customApiName}`, {
+      method: "POST",
+      headers: {
+        "OData-MaxVersion": "4.0",
+        "OData-Version": "4.0",
+        "Accept": "application/json",
+        "Content-Type": "application/json",
+      },
+      body: "{}",
+    });
+
+    if (!response.ok) {
+      let message = `Failed to acquire Azure Maps token: HTTP ${response.status}`;
+      let code = "TokenRequestFailed";
+      try {
+        const body = (await response.json()) as { error?: { code?: string; message?: string } };
+        message = body.error?.message ?? message;
+        code = body.error?.code ?? code;
+      } catch {
+        // If JSON parsing fails, use default error message
+      }
+      throw new DataverseApiError(message, code, response.status, undefined, customApiName);
+    }
+
+    const data = (await response.json()) as { Token?: string; ExpiresOn?: string };
+    if (!data.Token) {
+      throw new DataverseApiError(
+        `Custom API '${customApiName}' did not return a Token`,
+        "TokenMissing",
+        response.status,
+        undefined,
+        customApiName
+      );
+    }
+
+    const expiresOn = data.ExpiresOn ? Date.parse(data.ExpiresOn) : NaN;
+    return {
+      token: data.Token,
+      expiresOn: Number.isNaN(expiresOn) ? undefined : expiresOn,
+    };
+  };
+}
+
+/**
+ * Creates the credential described by `AzureMapServiceConfigs.Authentication`.
+ *
+ * @remarks
+ * Token-based modes use the provider registered with {@link setAzureMapsTokenProvider}
+ * or, if none is registered, the configured `TokenCustomApi`. When neither is
+ * available, the subscription key is used.
+ *
+ * @param config - The authentication configuration, or undefined for subscription key mode.
+ * @param subscriptionKey - The subscription key from the control configuration.
+ * @param context - The PCF context used to call the custom API.
+ * @returns The credential, or undefined if no authentication is available.
+ *
+ * @example
+ * ```ts
+ * const credential = createAzureMapsCredential(
+ *   { Type: 'Sas', TokenCustomApi: 'aidevme_GetAzureMapsSasToken' },
+ *   '',
+ *   context
+ * );
+ * ```
+ *
+ * @public
+ */
+export function createAzureMapsCredential(
+  config: AzureMapsAuthenticationConfig | undefined,
+  subscriptionKey: string,
+  context?: ComponentFramework.Context<unknown>
+): AzureMapsCredential | undefined {
+  const authType = config?.Type ?? "SubscriptionKey";
+
+  if (authType !== "SubscriptionKey") {
+    const tokenProvider =
+      registeredTokenProvider ??
+      (config?.TokenCustomApi && context
+        ? createDataverseTokenProvider(context, config.TokenCustomApi)
+        : undefined);
+
+    if (tokenProvider) {
+      return new AzureMapsCredential({
+        authType,
+        clientId: config?.ClientId,
+        tokenProvider,
+      });
+    }
+    console.warn(
+      `AzureMapsCredential: No token provider for '${authType}' authentication, falling back to subscription key`
+    );
+  }
+
+  return subscriptionKey
+    ? new AzureMapsCredential({ authType: "SubscriptionKey", subscriptionKey })
+    : undefined;
+}
+
+/**
+ * Fetches an Azure Maps resource with the credential's authentication headers.
+ * Token-based requests that fail with HTTP 401 are retried once with a new token.
+ *
+ * @param url - The request URL.
+ * @param credential - The credential, or undefined when the URL already carries a subscription key.
+ * @param init - Additional request options.
+ * @returns The fetch response.
+ */
+export async function fetchWithCredential(
+  url: string,
+  credential: AzureMapsCredential | undefined,
+  init?: RequestInit
+): Promise<Response> {
+  if (!credential) {
+    return init ? fetch(url, init) : fetch(url);
+  }
+
+  const send = async (forceRefresh: boolean) =>
+    fetch(url, {
+      ...init,
+      headers: {
+        ...(init?.headers as Record<string, string> | undefined),
+        ...(await credential.getAuthHeaders(forceRefresh)),
+      },
+    });
+
+  const response = await send(false);
+  if (response.status === 401 && credential.isTokenBased) {
+    credential.invalidate();
+    return send(true);
+  }
+  return response;
+}
@@ -0,0 +1,404 @@
+/**
+ * Azure Maps Geocoding API Service (Search v2)
+ * Provides typed functions for the Geocoding and Geocode Autocomplete APIs.
+ * GeoJSON features are mapped to {@link AzureMapsSearchResult} so that the
+ * rest of the control works unchanged with either API version.
+ */
+
+import {
+  isAzureMapsGeocodingResponse,
+  isAzureMapsGeocodingFeature,
+  type AzureMapsGeocodingFeature,
+} from "../../types";
+import {
+  handleApiResponse,
+  type AzureMapsRequestOptions,
+  type AzureMapsReverseGeocodeOptions,
+  type AzureMapsSearchOptions,
+  type AzureMapsSearchResult,
+} from "./azureMapsService";
+import { fetchWithCredential } from "./azureMapsCredential";
+import { fetchWithRetry } from "./azureMapsRetry";
+import countriesData from "../../statics/countries.json";
+
+/** Azure Maps Geocoding API base URL. */
+const AZURE_MAPS_GEOCODE_URL = "https://atlas.microsoft.com/geocode";
+
+/** Azure Maps Geocode Autocomplete API base URL. */
+const AZURE_MAPS_GEOCODE_AUTOCOMPLETE_URL =
+  "https://atlas.microsoft.com/geocode:autocomplete";
+
+/** Azure Maps Reverse Geocoding API base URL. */
+const AZURE_MAPS_REVERSE_GEOCODE_URL = "https://atlas.microsoft.com/reverseGeocode";
+
+/** API version of the Geocoding API. */
+const GEOCODE_API_VERSION = "2025-01-01";
+
+/** API version of the Geocode Autocomplete API. */
+const GEOCODE_AUTOCOMPLETE_API_VERSION = "2025-06-01-preview";
+
+/** Maximum number of results the Geocoding APIs return per request. */
+const MAX_RESULTS = 20;
+
+/**
+ * Maps Geocoding entity types to the Search v1 `entityType` values
+ * used by the dropdown and result processing.
+ */
+const ENTITY_TYPE_MAP: Record<string, string> = {
+  PopulatedPlace: "Municipality",
+  Postcode1: "PostalCodeArea",
+  Neighborhood: "Neighbourhood",
+  AdminDivision1: "CountrySubdivision",
+  AdminDivision2: "CountrySecondarySubdivision",
+  CountryRegion: "Country",
+};
+
+/**
+ * Maps Geocoding confidence levels to a relative score.
+ * Search v1 scores are relative too, so results from both APIs sort the same way.
+ */
+const CONFIDENCE_SCORES: Record<string, number> = {
+  High: 1,
+  Medium: 0.5,
+  Low: 0.25,
+};
+
+/**
+ * ISO 3166-1 alpha-2 to alpha-3 lookup.
+ * The Geocoding APIs return only the alpha-2 code.
+ */
+const ISO2_TO_ISO3 = new Map(
+  countriesData.map((c) => [c.CountryISO2, c.CountryISO3])
+);
+
+/**
+ * Search options for the Azure Maps Geocoding APIs.
+ *
+ * @remarks
+ * `countrySet` may contain several codes; the API accepts a single country,
+ * so multiple codes are filtered on the client instead.
+ */
+export interface AzureMapsGeocodingOptions
+  extends Omit<AzureMapsSearchOptions, "radius" | "entityType" | "extendedPostalCodesFor"> {
+  /** Comma-separated entity types to return (Autocomplete only, e.g., 'PopulatedPlace'). */
+  resultTypes?: string;
+}
+
+/**
+ * Splits a comma-separated country set into upper-case ISO2 codes.
+ *
+ * @param countrySet - The comma-separated country codes.
+ * @returns The country codes.
+ */
+function parseCountrySet(countrySet: string | undefined): string[] {
+  return (countrySet ?? "")
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/**
+ * Builds the URL for an Azure Maps Geocoding API request.
+ *
+ * @param baseUrl - The base API URL.
+ * @param apiVersion - The API version.
+ * @param options - The search options.
+ * @returns The complete URL with query parameters.
+ */
+function buildGeocodingUrl(
+  baseUrl: string,
+  apiVersion: string,
+  options: AzureMapsGeocodingOptions
+): string {
+  const params = new URLSearchParams();
+
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
+  params.set("api-version", apiVersion);
+  params.set("query", options.query);
+
+  if (options.limit) {
+    params.set("top", Math.min(options.limit, MAX_RESULTS).toString());
+  }
+  const countries = parseCountrySet(options.countrySet);
+  if (countries.length === 1) {
+    params.set("countryRegion", countries[0]);
+  }
+  if (options.lat !== undefined && options.lon !== undefined) {
+    // Geocoding APIs expect [longitude, latitude] order
+    params.set("coordinates", `${options.lon},${options.lat}`);
+  }
+  if (options.resultTypes) {
+    params.set("resultTypes", options.resultTypes);
+  }
+
+  return `${baseUrl}?${params.toString()}`;
+}
+
+/**
+ * Maps a Geocoding GeoJSON feature to a Search v1 result.
+ *
+ * @param feature - The GeoJSON feature.
+ * @returns The equivalent search result.
+ *
+ * @example
+ * ```ts
+ * const result = mapGeocodingFeatureToSearchResult(data.features[0]);
+ * console.log(result.address.freeformAddress, result.position);
+ * ```
+ */
+export function mapGeocodingFeatureToSearchResult(
+  feature: AzureMapsGeocodingFeature
+): AzureMapsSearchResult {
+  const { properties, geometry } = feature;
+  const address = properties.address ?? {};
+  const [lon, lat] = geometry.coordinates;
+  const entityType = properties.type ? ENTITY_TYPE_MAP[properties.type] : undefined;
+  const [subdivision, secondarySubdivision] = address.adminDistricts ?? [];
+  const countryCode = address.countryRegion?.ISO;
+
+  let type = "Geography";
+  if (properties.type === "Address") {
+    type = "Point Address";
+  } else if (!entityType) {
+    type = "Street";
+  }
+
+  const freeformAddress =
+    address.formattedAddress ??
+    [address.addressLine, address.postalCode, address.locality]
+      .filter(Boolean)
+      .join(" ");
+
+  return {
+    type,
+    id: feature.id ?? `${properties.type ?? "geocode"}-${lat},${lon}`,
+    score: properties.confidence ? CONFIDENCE_SCORES[properties.confidence] : undefined,
+    entityType,
+    address: {
+      freeformAddress,
+      streetNumber: address.streetNumber,
+      streetName: address.streetName,
+      municipality: address.locality,
+      neighbourhood: address.neighborhood,
+      countrySecondarySubdivision: secondarySubdivision?.name,
+      countrySubdivision: subdivision?.shortName ?? subdivision?.name,
+      countrySubdivisionName: subdivision?.name,
+      countrySubdivisionCode: subdivision?.shortName,
+      postalCode: address.postalCode,
+      country: address.countryRegion?.name,
+      countryCode,
+      countryCodeISO3: countryCode ? ISO2_TO_ISO3.get(countryCode.toUpperCase()) : undefined,
+    },
+    position: { lat, lon },
+  };
+}
+
+/**
+ * Executes a Geocoding API request and maps the features to search results.
+ *
+ * @param url - The request URL.
+ * @param options - The search options (used for language and country filtering).
+ * @param apiName - The name of the API for error messages.
+ * @returns Promise resolving to the mapped results.
+ * @throws AzureMapsApiError if the API request fails.
+ */
+async function fetchGeocodingResults(
+  url: string,
+  options: AzureMapsGeocodingOptions,
+  apiName: string
+): Promise<AzureMapsSearchResult[]> {
+  const init: RequestInit = {};
+  if (options.language) {
+    init.headers = { "Accept-Language": options.language };
+  }
+  if (options.signal) {
+    init.signal = options.signal;
+  }
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(
+        url,
+        options.credential,
+        Object.keys(init).length > 0 ? init : undefined
+      ),
+    options
+  );
+  await handleApiResponse(response, apiName);
+
+  const data: unknown = await response.json();
+
+  if (!isAzureMapsGeocodingResponse(data)) {
+    console.warn(`${apiName} returned unexpected response format`);
+    return [];
+  }
+
+  const results = data.features
+    .filter(isAzureMapsGeocodingFeature)
+    .map(mapGeocodingFeatureToSearchResult);
+
+  const countries = parseCountrySet(options.countrySet);
+  if (countries.length > 1) {
+    return results.filter(
+      (r) => !r.address.countryCode || countries.includes(r.address.countryCode.toUpperCase())
+    );
+  }
+  return results;
+}
+
+/**
+ * Geocodes a free-form address using the Azure Maps Geocoding API.
+ *
+ * @param options - The search options.
+ * @returns Promise resolving to search results.
+ * @throws AzureMapsApiError if the API request fails with structured error information.
+ *
+ * @example
+ * ```ts
+ * const results = await geocode({
+ *   subscriptionKey: 'your-key',
+ *   query: '15127 NE 24th Street, Redmond',
+ *   countrySet: 'US'
+ * });
+ * ```
+ */
+export async function geocode(
+  options: AzureMapsGeocodingOptions
+): Promise<AzureMapsSearchResult[]> {
+  const url = buildGeocodingUrl(AZURE_MAPS_GEOCODE_URL, GEOCODE_API_VERSION, options);
+  return fetchGeocodingResults(url, options, "Azure Maps Geocoding API");
+}
+
+/**
+ * Gets type-ahead suggestions using the Azure Maps Geocode Autocomplete API.
+ *
+ * @param options - The search options.
+ * @returns Promise resolving to search results.
+ * @throws AzureMapsApiError if the API request fails with structured error information.
+ *
+ * @example
+ * ```ts
+ * const results = await geocodeAutocomplete({
+ *   subscriptionKey: 'your-key',
+ *   query: 'Bahnhofstr',
+ *   countrySet: 'CH',
+ *   language: 'de-CH'
+ * });
+ * ```
+ */
+export async function geocodeAutocomplete(
+  options: AzureMapsGeocodingOptions
+): Promise<AzureMapsSearchResult[]> {
+  const url = buildGeocodingUrl(
+    AZURE_MAPS_GEOCODE_AUTOCOMPLETE_URL,
+    GEOCODE_AUTOCOMPLETE_API_VERSION,
+    options
+  );
+  return fetchGeocodingResults(url, options, "Azure Maps Geocode Autocomplete API");
+}
+
+/**
+ * Searches for municipalities using the Geocode Autocomplete API.
+ *
+ * @param options - The search options (resultTypes will be set to 'PopulatedPlace').
+ * @returns Promise resolving to municipality search results.
+ */
+export async function geocodeMunicipalities(
+  options: Omit<AzureMapsGeocodingOptions, "resultTypes">
+): Promise<AzureMapsSearchResult[]> {
+  return geocodeAutocomplete({ ...options, resultTypes: "PopulatedPlace" });
+}
+
+/**
+ * Fetches postal codes for a municipality using the Geocode Autocomplete API.
+ *
+ * @param subscriptionKey - Azure Maps subscription key.
+ * @param municipalityName - The name of the municipality.
+ * @param countryCode - The country code to filter results.
+ * @param position - The center position of the municipality.
+ * @param language - The language code for results.
+ * @param requestOptions - Optional credential, abort signal and retry policy for the request.
+ * @returns Promise resolving to an array of unique postal codes.
+ */
+export async function geocodePostalCodesForMunicipality(
+  subscriptionKey: string,
+  municipalityName: string,
+  countryCode: string,
+  position: { lat: number; lon: number },
+  language = "en-US",
+  requestOptions: AzureMapsRequestOptions = {}
+): Promise<string[]> {
+  if ((!subscriptionKey && !requestOptions.credential) || !municipalityName) {
+    return [];
+  }
+
+  const targetMunicipality = municipalityName.toLowerCase().trim();
+
+  try {
+    const results = await geocodeAutocomplete({
+      ...requestOptions,
+      subscriptionKey,
+      query: municipalityName,
+      language,
+      countrySet: countryCode,
+      limit: MAX_RESULTS,
+      lat: position.lat,
+      lon: position.lon,
+      resultTypes: "Postcode1",
+    });
+
+    const postalCodes = new Set<string>();
+    for (const result of results) {
+      const municipality = result.address.municipality?.toLowerCase().trim();
+      if (result.address.postalCode && (!municipality || municipality === targetMunicipality)) {
+        postalCodes.add(result.address.postalCode.trim());
+      }
+    }
+
+    return [...postalCodes].sort();
+  } catch (error) {
+    console.error("Error fetching postal codes:", error);
+    return [];
+  }
+}
+
+/**
+ * Finds the address nearest to a location using the Azure Maps Reverse Geocoding API.
+ *
+ * @param options - The location and request options.
+ * @returns Promise resolving to the nearest address, or undefined if none was found.
+ * @throws AzureMapsApiError if the API request fails with structured error information.
+ *
+ * @remarks
+ * Like the Search v1 `reverseGeocode`, the result keeps the requested coordinates as its position.
+ *
+ * @example
+ * ```ts
+ * const result = await geocodeReverse({ subscriptionKey: 'your-key', lat: 47.3769, lon: 8.5417 });
+ * ```
+ */
+export async function geocodeReverse(
+  options: AzureMapsReverseGeocodeOptions
+): Promise<AzureMapsSearchResult | undefined> {
+  const { lat, lon } = options;
+  const params = new URLSearchParams();
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
+  params.set("api-version", GEOCODE_API_VERSION);
+  // Geocoding APIs expect [longitude, latitude] order
+  params.set("coordinates", `${lon},${lat}`);
+
+  const results = await fetchGeocodingResults(
+    `${AZURE_MAPS_REVERSE_GEOCODE_URL}?${params.toString()}`,
+    { ...options, query: "" },
+    "Azure Maps Reverse Geocoding API"
+  );
+
+  const nearest = results[0];
+  if (!nearest) {
+    return undefined;
+  }
+  return { ...nearest, id: `reverse-${lat},${lon}`, position: { lat, lon } };
+}
@@ -0,0 +1,196 @@
+/**
+ * Azure Maps retry policy.
+ * Retries throttled (429) and transient gateway (502, 503, 504) responses
+ * with jittered exponential backoff, honoring the `Retry-After` header.
+ */
+
+import type { RetryPolicyConfig } from "../../types";
+
+/** HTTP status codes that are retried. */
+export const RETRYABLE_STATUS_CODES: readonly number[] = [429, 502, 503, 504];
+
+/**
+ * Retry policy for Azure Maps requests.
+ */
+export interface AzureMapsRetryPolicy {
+  /** Maximum number of attempts, including the first request. `1` disables retries. */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds; doubled for each further retry. */
+  baseDelayMs: number;
+  /** Maximum delay between attempts in milliseconds. */
+  maxDelayMs: number;
+}
+
+/**
+ * Information about a scheduled retry.
+ */
+export interface AzureMapsRetryInfo {
+  /** The attempt that failed (1-based). */
+  attempt: number;
+  /** The maximum number of attempts. */
+  maxAttempts: number;
+  /** The delay before the next attempt in milliseconds. */
+  delayMs: number;
+  /** The HTTP status code of the failed attempt. */
+  status: number;
+}
+
+/**
+ * Options for {@link fetchWithRetry}.
+ */
+export interface AzureMapsRetryOptions {
+  /** The retry policy. Without a policy the request is sent once. */
+  retry?: AzureMapsRetryPolicy;
+  /** Signal that aborts the request and any pending retry delay. */
+  signal?: AbortSignal;
+  /** Called before each retry, e.g. to show a "retrying" state. */
+  onRetry?: (info: AzureMapsRetryInfo) => void;
+}
+
+/**
+ * Retry policy used when `AzureMapServiceConfigs.Retry` is not configured.
+ */
+export const DEFAULT_RETRY_POLICY: AzureMapsRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Creates a retry policy from the `AzureMapServiceConfigs.Retry` configuration.
+ * Missing or invalid values fall back to {@link DEFAULT_RETRY_POLICY}.
+ *
+ * @param config - The retry configuration.
+ * @returns The retry policy.
+ *
+ * @example
+ * ```ts
+ * const policy = createRetryPolicy({ MaxAttempts: 5 });
+ * ```
+ */
+export function createRetryPolicy(config?: RetryPolicyConfig): AzureMapsRetryPolicy {
+  const positive = (value: number | undefined, fallback: number): number =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+
+  return {
+    maxAttempts: Math.floor(positive(config?.MaxAttempts, DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelayMs: positive(config?.BaseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: positive(config?.MaxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs),
+  };
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ *
+ * @param value - The header value, either delay-seconds or an HTTP date.
+ * @param now - The current time in milliseconds.
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Calculates the delay before retrying a failed attempt.
+ * Uses `Retry-After` when present, otherwise exponential backoff with full jitter.
+ *
+ * @param response - The failed response.
+ * @param attempt - The attempt that failed (1-based).
+ * @param policy - The retry policy.
+ * @param random - Random number source in [0, 1) (injectable for tests).
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(
+  response: Response,
+  attempt: number,
+  policy: AzureMapsRetryPolicy,
+  random: () => number = Math.random
+): number {
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
+
+/**
+ * Waits for the given delay unless the signal aborts first.
+ *
+ * @param delayMs - The delay in milliseconds.
+ * @param signal - Signal that cancels the wait.
+ * @throws DOMException with name `AbortError` when aborted.
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends a request and retries throttled and transient failures.
+ *
+ * @param send - Sends one attempt of the request.
+ * @param options - The retry policy, abort signal and retry callback.
+ * @returns The successful response, or the last failed response once attempts are exhausted.
+ *
+ * @remarks
+ * The last failed response is returned rather than thrown so that callers keep
+ * turning it into an `AzureMapsApiError` with `handleApiResponse`. A `Retry-After`
+ * longer than `maxDelayMs` ends retrying immediately, since a suggestion that
+ * arrives that late is no longer useful.
+ *
+ * @example
+ * ```ts
+ * const response = await fetchWithRetry(() => fetch(url), {
+ *   retry: DEFAULT_RETRY_POLICY,
+ *   onRetry: ({ attempt, delayMs }) => console.log(`Retry ${attempt} in ${delayMs} ms`)
+ * });
+ * ```
+ */
+export async function fetchWithRetry(
+  send: () => Promise<Response>,
+  options: AzureMapsRetryOptions = {}
+): Promise<Response> {
+  const { retry, signal, onRetry } = options;
+  const maxAttempts = Math.max(1, retry?.maxAttempts ?? 1);
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await send();
+    if (
+      !retry ||
+      response.ok ||
+      attempt >= maxAttempts ||
+      !RETRYABLE_STATUS_CODES.includes(response.status)
+    ) {
+      return response;
+    }
+
+    const delayMs = getRetryDelay(response, attempt, retry);
+    if (delayMs > retry.maxDelayMs) {
+      return response;
+    }
+    onRetry?.({ attempt, maxAttempts, delayMs, status: response.status });
+    await waitForRetry(delayMs, signal);
+  }
+}
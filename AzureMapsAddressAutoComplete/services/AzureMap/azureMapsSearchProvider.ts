@@ -0,0 +1,109 @@
+/**
+ * Azure Maps search providers.
+ * Adapt the Azure Maps Search v1 and Geocoding (Search v2) API functions
+ * to the search provider interface.
+ */
+
+import {
+  searchAddress,
+  searchMunicipalities,
+  fetchPostalCodesForMunicipality,
+  reverseGeocode,
+  searchAddressStructured,
+} from "./azureMapsService";
+import {
+  geocodeAutocomplete,
+  geocodeMunicipalities,
+  geocodePostalCodesForMunicipality,
+  geocodeReverse,
+} from "./azureMapsGeocodingService";
+import type {
+  AddressSearchProvider,
+  SearchProviderFactoryContext,
+} from "../SearchProvider/SearchProvider";
+
+/** Provider ID of the Azure Maps Search v1 provider. */
+export const AZURE_MAPS_SEARCH_V1_PROVIDER_ID = "azure-maps-search-v1";
+
+/** Provider ID of the Azure Maps Geocoding (Search v2) provider. */
+export const AZURE_MAPS_GEOCODING_V2_PROVIDER_ID = "azure-maps-geocoding-v2";
+
+/**
+ * Creates a search provider backed by the Azure Maps Search v1 API.
+ *
+ * @param context - The factory context containing the subscription key or credential and the retry policy.
+ * @returns The provider, or undefined if neither is configured.
+ *
+ * @example
+ * ```ts
+ * const provider = createAzureMapsSearchProvider({ subscriptionKey: 'your-key' });
+ * const results = await provider?.searchAddress({ query: 'Bahnhofstrasse 1', countrySet: 'CH' });
+ * ```
+ */
+export function createAzureMapsSearchProvider(
+  context: SearchProviderFactoryContext
+): AddressSearchProvider | undefined {
+  const { subscriptionKey, credential, retry } = context;
+  if (!subscriptionKey && !credential) {
+    return undefined;
+  }
+
+  return {
+    id: AZURE_MAPS_SEARCH_V1_PROVIDER_ID,
+    searchAddress: (request) => searchAddress({ ...request, subscriptionKey, credential, retry }),
+    searchMunicipalities: (request) =>
+      searchMunicipalities({ ...request, subscriptionKey, credential, retry }),
+    fetchPostalCodesForMunicipality: (municipalityName, countryCode, position, language, signal) =>
+      fetchPostalCodesForMunicipality(
+        subscriptionKey,
+        municipalityName,
+        countryCode,
+        position,
+        language,
+        { credential, signal, retry }
+      ),
+    reverseGeocode: (request) => reverseGeocode({ ...request, subscriptionKey, credential, retry }),
+    searchAddressStructured: (request) =>
+      searchAddressStructured({ ...request, subscriptionKey, credential, retry }),
+  };
+}
+
+/**
+ * Creates a search provider backed by the Azure Maps Geocoding (Search v2) APIs.
+ * Address suggestions come from the Geocode Autocomplete API.
+ *
+ * @param context - The factory context containing the subscription key or credential and the retry policy.
+ * @returns The provider, or undefined if neither is configured.
+ *
+ * @example
+ * ```ts
+ * const provider = createAzureMapsGeocodingProvider({ subscriptionKey: 'your-key' });
+ * const results = await provider?.searchAddress({ query: 'Bahnhofstrasse 1', countrySet: 'CH' });
+ * ```
+ */
+export function createAzureMapsGeocodingProvider(
+  context: SearchProviderFactoryContext
+): AddressSearchProvider | undefined {
+  const { subscriptionKey, credential, retry } = context;
+  if (!subscriptionKey && !credential) {
+    return undefined;
+  }
+
+  return {
+    id: AZURE_MAPS_GEOCODING_V2_PROVIDER_ID,
+    searchAddress: ({ radius: _radius, ...request }) =>
+      geocodeAutocomplete({ ...request, subscriptionKey, credential, retry }),
+    searchMunicipalities: ({ radius: _radius, ...request }) =>
+      geocodeMunicipalities({ ...request, subscriptionKey, credential, retry }),
+    fetchPostalCodesForMunicipality: (municipalityName, countryCode, position, language, signal) =>
+      geocodePostalCodesForMunicipality(
+        subscriptionKey,
+        municipalityName,
+        countryCode,
+        position,
+        language,
+        { credential, signal, retry }
+      ),
+    reverseGeocode: (request) => geocodeReverse({ ...request, subscriptionKey, credential, retry }),
+  };
+}
@@ -3,7 +3,18 @@
  * Provides typed functions for interacting with Azure Maps Search APIs.
  */
 
-import { isAzureMapsSearchResponse, extractValidResults } from "../../types";
+import {
+  isAzureMapsSearchResponse,
+  isAzureMapsReverseGeocodeResponse,
+  isAzureMapsBatchResponse,
+  extractValidResults,
+} from "../../types";
+import { fetchWithCredential, type AzureMapsCredential } from "./azureMapsCredential";
+import {
+  fetchWithRetry,
+  type AzureMapsRetryInfo,
+  type AzureMapsRetryPolicy,
+} from "./azureMapsRetry";
 
 /** Azure Maps Search API base URL. */
 const AZURE_MAPS_SEARCH_URL = "https://atlas.microsoft.com/search/address/json";
@@ -12,6 +23,21 @@ const AZURE_MAPS_SEARCH_URL = "https://atlas.microsoft.com/search/address/json";
 const AZURE_MAPS_FUZZY_SEARCH_URL =
   "https://atlas.microsoft.com/search/fuzzy/json";
 
+/** Azure Maps Structured Address Search API base URL. */
+const AZURE_MAPS_STRUCTURED_SEARCH_URL =
+  "https://atlas.microsoft.com/search/address/structured/json";
+
+/** Azure Maps Search Address Batch API base URL (synchronous batches). */
+const AZURE_MAPS_SEARCH_BATCH_URL =
+  "https://atlas.microsoft.com/search/address/batch/sync/json";
+
+/** Maximum number of queries in a synchronous batch request. */
+export const MAX_BATCH_QUERIES = 100;
+
+/** Azure Maps Reverse Geocoding API base URL. */
+const AZURE_MAPS_REVERSE_GEOCODE_URL =
+  "https://atlas.microsoft.com/search/address/reverse/json";
+
 /**
  * Azure Maps Search API response result item.
  */
@@ -28,6 +54,8 @@ export interface AzureMapsSearchResult {
     municipality?: string;
     municipalitySubdivision?: string;
     neighbourhood?: string;
+    /** County or district (e.g., a US county); Search v2 maps the second administrative district. */
+    countrySecondarySubdivision?: string;
     countrySubdivision?: string;
     countrySubdivisionName?: string;
     countrySubdivisionCode?: string;
@@ -38,10 +66,27 @@ export interface AzureMapsSearchResult {
     countryCodeISO3?: string;
     localName?: string;
   };
-  position: {
+  /** Coordinates of the result; missing for address book entries without coordinates. */
+  position?: {
     lat: number;
     lon: number;
   };
+  /**
+   * Set when the user dragged the marker to correct the position.
+   * The address still comes from the search; only the coordinates were adjusted.
+   */
+  manuallyAdjusted?: boolean;
+  /** Set when the user corrected address parts by hand in the panel. */
+  manuallyEdited?: boolean;
+  /** Set for suggestions from the company address book instead of Azure Maps. */
+  addressBookRecord?: {
+    /** The logical name of the address book table. */
+    tableName: string;
+    /** The ID of the row. */
+    id: string;
+    /** The name of the entry, if a name column is configured. */
+    name?: string;
+  };
 }
 
 /**
@@ -57,6 +102,17 @@ export interface AzureMapsSearchResponse {
 export interface AzureMapsSearchOptions {
   /** Azure Maps subscription key. */
   subscriptionKey: string;
+  /**
+   * Credential used instead of the subscription key.
+   * Authentication is sent in request headers, so the URL contains no key.
+   */
+  credential?: AzureMapsCredential;
+  /** Signal that aborts the request. */
+  signal?: AbortSignal;
+  /** Retry policy for throttled and transient failures. Without a policy the request is sent once. */
+  retry?: AzureMapsRetryPolicy;
+  /** Called before each retry, e.g. to show a "retrying" state. */
+  onRetry?: (info: AzureMapsRetryInfo) => void;
   /** Search query string. */
   query: string;
   /** Language code for results (e.g., 'en-US'). */
@@ -77,6 +133,80 @@ export interface AzureMapsSearchOptions {
   extendedPostalCodesFor?: string;
 }
 
+/**
+ * Request options shared by functions that send several Azure Maps requests.
+ */
+export type AzureMapsRequestOptions = Pick<
+  AzureMapsSearchOptions,
+  "credential" | "signal" | "retry" | "onRetry"
+>;
+
+/**
+ * Options for Azure Maps reverse geocoding.
+ */
+export interface AzureMapsReverseGeocodeOptions extends AzureMapsRequestOptions {
+  /** Azure Maps subscription key. */
+  subscriptionKey: string;
+  /** Latitude of the location. */
+  lat: number;
+  /** Longitude of the location. */
+  lon: number;
+  /** Language code for results (e.g., 'en-US'). */
+  language?: string;
+}
+
+/**
+ * Options for the Azure Maps structured address search.
+ * At least one address part besides the country code should be set.
+ */
+export interface AzureMapsStructuredSearchOptions extends AzureMapsRequestOptions {
+  /** Azure Maps subscription key. */
+  subscriptionKey: string;
+  /** The ISO 3166-1 alpha-2 country code (required by the API). */
+  countryCode: string;
+  /** House number. */
+  streetNumber?: string;
+  /** Street name without the house number. */
+  streetName?: string;
+  /** City or town. */
+  municipality?: string;
+  /** Postal/ZIP code. */
+  postalCode?: string;
+  /** County or district. */
+  countrySecondarySubdivision?: string;
+  /** State or province. */
+  countrySubdivision?: string;
+  /** Language code for results (e.g., 'en-US'). */
+  language?: string;
+  /** Maximum number of results to return. */
+  limit?: number;
+}
+
+/**
+ * A free-form address query of a batch request.
+ */
+export type AzureMapsBatchQuery = Pick<AzureMapsSearchOptions, "query" | "countrySet" | "language" | "limit">;
+
+/**
+ * Options for the Azure Maps Search Address Batch API.
+ */
+export interface AzureMapsBatchSearchOptions extends AzureMapsRequestOptions {
+  /** Azure Maps subscription key. */
+  subscriptionKey: string;
+  /** The queries; at most {@link MAX_BATCH_QUERIES}. */
+  queries: AzureMapsBatchQuery[];
+}
+
+/**
+ * Outcome of a single query of a batch request.
+ */
+export interface AzureMapsBatchItemResult {
+  /** The results of the query, best match first; empty if the query failed. */
+  results: AzureMapsSearchResult[];
+  /** The error message if the query failed. */
+  error?: string;
+}
+
 /**
  * Additional information for Azure Maps API errors.
  */
@@ -204,7 +334,7 @@ function isAzureMapsErrorResponse(
  * @param apiName - The name of the API for error messages.
  * @throws AzureMapsApiError if the response is not OK.
  */
-async function handleApiResponse(
+export async function handleApiResponse(
   response: Response,
   apiName: string
 ): Promise<void> {
@@ -252,7 +382,9 @@ function buildSearchUrl(
 ): string {
   const params = new URLSearchParams();
 
-  params.set("subscription-key", options.subscriptionKey);
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
   params.set("api-version", "1.0");
   params.set("query", options.query);
 
@@ -313,7 +445,15 @@ export async function searchAddress(
 ): Promise<AzureMapsSearchResult[]> {
   const url = buildSearchUrl(AZURE_MAPS_SEARCH_URL, options);
 
-  const response = await fetch(url);
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(
+        url,
+        options.credential,
+        options.signal ? { signal: options.signal } : undefined
+      ),
+    options
+  );
   await handleApiResponse(response, "Azure Maps Address Search API");
 
   const data: unknown = await response.json();
@@ -353,7 +493,15 @@ export async function searchFuzzy(
 ): Promise<AzureMapsSearchResult[]> {
   const url = buildSearchUrl(AZURE_MAPS_FUZZY_SEARCH_URL, options);
 
-  const response = await fetch(url);
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(
+        url,
+        options.credential,
+        options.signal ? { signal: options.signal } : undefined
+      ),
+    options
+  );
   await handleApiResponse(response, "Azure Maps Fuzzy Search API");
 
   const data: unknown = await response.json();
@@ -366,6 +514,242 @@ export async function searchFuzzy(
   return extractValidResults(data);
 }
 
+/**
+ * Searches for an address given in separate parts using the Azure Maps Structured Address Search API.
+ *
+ * @param options - The address parts and request options.
+ * @returns Promise resolving to search results, best match first.
+ * @throws AzureMapsApiError if the API request fails with structured error information.
+ *
+ * @example
+ * ```ts
+ * const results = await searchAddressStructured({
+ *   subscriptionKey: 'your-key',
+ *   countryCode: 'CH',
+ *   streetName: 'Bahnhofstrasse',
+ *   streetNumber: '1',
+ *   postalCode: '8001',
+ *   municipality: 'Zürich'
+ * });
+ * console.log(results[0]?.position);
+ * ```
+ */
+export async function searchAddressStructured(
+  options: AzureMapsStructuredSearchOptions
+): Promise<AzureMapsSearchResult[]> {
+  const params = new URLSearchParams();
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
+  params.set("api-version", "1.0");
+  params.set("countryCode", options.countryCode);
+
+  const parts: [string, string | undefined][] = [
+    ["streetNumber", options.streetNumber],
+    ["streetName", options.streetName],
+    ["municipality", options.municipality],
+    ["postalCode", options.postalCode],
+    ["countrySecondarySubdivision", options.countrySecondarySubdivision],
+    ["countrySubdivision", options.countrySubdivision],
+  ];
+  for (const [name, value] of parts) {
+    if (value?.trim()) {
+      params.set(name, value.trim());
+    }
+  }
+  if (options.language) {
+    params.set("language", options.language);
+  }
+  if (options.limit) {
+    params.set("limit", options.limit.toString());
+  }
+  const url = `${AZURE_MAPS_STRUCTURED_SEARCH_URL}?${params.toString()}`;
+
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(
+        url,
+        options.credential,
+        options.signal ? { signal: options.signal } : undefined
+      ),
+    options
+  );
+  await handleApiResponse(response, "Azure Maps Structured Address Search API");
+
+  const data: unknown = await response.json();
+
+  if (!isAzureMapsSearchResponse(data)) {
+    console.warn("Azure Maps Structured Search API returned unexpected response format");
+    return [];
+  }
+
+  return extractValidResults(data);
+}
+
+/**
+ * Searches for several free-form addresses in one request using the Azure Maps Search Address Batch API.
+ *
+ * @param options - The queries and request options.
+ * @returns Promise resolving to one outcome per query, in the order of the queries.
+ * @throws AzureMapsApiError if the batch request fails with structured error information.
+ * @throws RangeError if there are more than {@link MAX_BATCH_QUERIES} queries.
+ *
+ * @remarks
+ * A failed query does not fail the batch; its outcome carries the error message instead.
+ *
+ * @example
+ * ```ts
+ * const outcomes = await searchAddressBatch({
+ *   subscriptionKey: 'your-key',
+ *   queries: [
+ *     { query: 'Bahnhofstrasse 1, 8001 Zürich', countrySet: 'CH', limit: 1 },
+ *     { query: '1 Microsoft Way, Redmond', countrySet: 'US', limit: 1 }
+ *   ]
+ * });
+ * console.log(outcomes[0].results[0]?.position);
+ * ```
+ */
+export async function searchAddressBatch(
+  options: AzureMapsBatchSearchOptions
+): Promise<AzureMapsBatchItemResult[]> {
+  const { queries } = options;
+  if (queries.length === 0) {
+    return [];
+  }
+  if (queries.length > MAX_BATCH_QUERIES) {
+    throw new RangeError(`A batch request supports at most ${MAX_BATCH_QUERIES} queries`);
+  }
+
+  const params = new URLSearchParams();
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
+  params.set("api-version", "1.0");
+  const url = `${AZURE_MAPS_SEARCH_BATCH_URL}?${params.toString()}`;
+
+  const batchItems = queries.map((item) => {
+    const parts: [string, string | number | undefined][] = [
+      ["query", item.query],
+      ["countrySet", item.countrySet],
+      ["language", item.language],
+      ["limit", item.limit],
+    ];
+    const query = parts
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`)
+      .join("&");
+    return { query: `?${query}` };
+  });
+
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(url, options.credential, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchItems }),
+        signal: options.signal,
+      }),
+    options
+  );
+  await handleApiResponse(response, "Azure Maps Search Address Batch API");
+
+  const data: unknown = await response.json();
+
+  if (!isAzureMapsBatchResponse(data)) {
+    console.warn("Azure Maps Batch API returned unexpected response format");
+    return queries.map(() => ({ results: [], error: "Unexpected response format" }));
+  }
+
+  return queries.map((_query, index) => {
+    const item = data.batchItems[index];
+    if (!item) {
+      return { results: [], error: "Missing response" };
+    }
+    if (item.statusCode !== 200) {
+      const errorBody = item.response as AzureMapsErrorResponse | undefined;
+      return {
+        results: [],
+        error: errorBody?.error?.message ?? `HTTP ${item.statusCode}`,
+      };
+    }
+    return { results: extractValidResults(item.response) };
+  });
+}
+
+/**
+ * Finds the address nearest to a location using the Azure Maps Reverse Geocoding API.
+ *
+ * @param options - The location and request options.
+ * @returns Promise resolving to the nearest address, or undefined if none was found.
+ * @throws AzureMapsApiError if the API request fails with structured error information.
+ *
+ * @remarks
+ * The result keeps the requested coordinates as its position rather than the
+ * position of the matched address, so that sites without a street address
+ * (e.g., in rural areas) are stored where the user picked them.
+ *
+ * @example
+ * ```ts
+ * const result = await reverseGeocode({
+ *   subscriptionKey: 'your-key',
+ *   lat: 47.3769,
+ *   lon: 8.5417,
+ *   language: 'de-CH'
+ * });
+ * console.log(result?.address.freeformAddress);
+ * ```
+ */
+export async function reverseGeocode(
+  options: AzureMapsReverseGeocodeOptions
+): Promise<AzureMapsSearchResult | undefined> {
+  const { lat, lon } = options;
+  const params = new URLSearchParams();
+  if (!options.credential) {
+    params.set("subscription-key", options.subscriptionKey);
+  }
+  params.set("api-version", "1.0");
+  params.set("query", `${lat},${lon}`);
+  if (options.language) {
+    params.set("language", options.language);
+  }
+  const url = `${AZURE_MAPS_REVERSE_GEOCODE_URL}?${params.toString()}`;
+
+  const response = await fetchWithRetry(
+    () =>
+      fetchWithCredential(
+        url,
+        options.credential,
+        options.signal ? { signal: options.signal } : undefined
+      ),
+    options
+  );
+  await handleApiResponse(response, "Azure Maps Reverse Geocoding API");
+
+  const data: unknown = await response.json();
+
+  if (!isAzureMapsReverseGeocodeResponse(data)) {
+    console.warn("Azure Maps Reverse Geocoding API returned unexpected response format");
+    return undefined;
+  }
+
+  const address = data.addresses[0]?.address;
+  if (!address?.freeformAddress) {
+    return undefined;
+  }
+
+  let type = "Geography";
+  if (address.streetName) {
+    type = address.streetNumber ? "Point Address" : "Street";
+  }
+
+  return {
+    type,
+    id: `reverse-${lat},${lon}`,
+    address,
+    position: { lat, lon },
+  };
+}
+
 /**
  * Searches for municipalities using Azure Maps Fuzzy Search API.
  *
@@ -402,6 +786,7 @@ export async function searchNearby(
  * @param countryCode - The country code to filter results.
  * @param position - The center position of the municipality.
  * @param language - The language code for results.
+ * @param requestOptions - Optional credential, abort signal and retry policy for the requests.
  * @returns Promise resolving to an array of unique postal codes.
  */
 export async function fetchPostalCodesForMunicipality(
@@ -409,9 +794,10 @@ export async function fetchPostalCodesForMunicipality(
   municipalityName: string,
   countryCode: string,
   position: { lat: number; lon: number },
-  language = "en-US"
+  language = "en-US",
+  requestOptions: AzureMapsRequestOptions = {}
 ): Promise<string[]> {
-  if (!subscriptionKey || !municipalityName) {
+  if ((!subscriptionKey && !requestOptions.credential) || !municipalityName) {
     return [];
   }
 
@@ -445,6 +831,7 @@ export async function fetchPostalCodesForMunicipality(
   try {
     // Search nearby the municipality center
     const nearbyResults = await searchNearby({
+      ...requestOptions,
       subscriptionKey,
       query: municipalityName,
       language,
@@ -463,6 +850,7 @@ export async function fetchPostalCodesForMunicipality(
 
     // Also search for addresses directly in the municipality
     const addressResults = await searchAddress({
+      ...requestOptions,
       subscriptionKey,
       query: `1 ${municipalityName}`,
       language,
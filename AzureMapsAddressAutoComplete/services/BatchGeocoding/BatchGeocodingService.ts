@@ -0,0 +1,395 @@
+// AzureMapsAddressAutoComplete\services\BatchGeocoding\BatchGeocodingService.ts
+import { IInputs } from "../../generated/ManifestTypes";
+import type { BatchGeocodingColumns, BatchGeocodingConfig } from "../../types/additionalParametersTypes";
+import type { AzureMapsCredential } from "../AzureMap/azureMapsCredential";
+import type { AzureMapsRetryPolicy } from "../AzureMap/azureMapsRetry";
+import { MAX_BATCH_QUERIES, searchAddressBatch } from "../AzureMap/azureMapsService";
+import { resolveCountryCode, type IBoundAddressFields } from "../../utils/missingCoordinates";
+import { resolveCountry } from "../../utils/countryResolver";
+
+/**
+ * Suffix of the Web API annotation that holds the label of a choice or lookup column.
+ */
+const FORMATTED_VALUE_SUFFIX = "@OData.Community.Display.V1.FormattedValue";
+
+/**
+ * Number of rows of a view whose mapped columns are retrieved per request, keeping the URL short.
+ */
+const MAX_IDS_PER_QUERY = 50;
+
+/**
+ * Reason why a row was not geocoded.
+ */
+export type BatchGeocodingFailureReason =
+  | "MissingAddress"
+  | "UnknownCountry"
+  | "NoMatch"
+  | "SearchFailed"
+  | "UpdateFailed";
+
+/**
+ * A row to geocode.
+ */
+export interface IBatchGeocodingRow {
+  /** The primary key of the row. */
+  id: string;
+  /** The value of the name column, if one is configured. */
+  name?: string;
+  /** The address of the row; the country code is resolved from the country columns. */
+  fields: IBoundAddressFields;
+}
+
+/**
+ * A row that was not geocoded.
+ */
+export interface IBatchGeocodingError {
+  /** The primary key of the row. */
+  id: string;
+  /** The value of the name column, if one is configured. */
+  name?: string;
+  /** The address of the row as a single line. */
+  address: string;
+  /** Why the row was not geocoded. */
+  reason: BatchGeocodingFailureReason;
+  /** The error message of a failed search or update. */
+  message?: string;
+}
+
+/**
+ * Outcome of geocoding a batch of rows.
+ */
+export interface IBatchGeocodingOutcome {
+  /** Number of rows whose coordinates were written. */
+  succeeded: number;
+  /** The rows that were not geocoded. */
+  errors: IBatchGeocodingError[];
+}
+
+export interface IBatchGeocodingServiceProps {
+  context: ComponentFramework.Context<IInputs>;
+  config: BatchGeocodingConfig;
+  subscriptionKey: string;
+  credential?: AzureMapsCredential;
+  retry?: AzureMapsRetryPolicy;
+  defaultCountries: string;
+  language?: string;
+}
+
+/**
+ * Geocodes existing rows of a Dataverse table in bulk and writes the coordinates back.
+ *
+ * @remarks
+ * Rows are read and updated through `context.webAPI`, like {@link AddressBookService}, and
+ * geocoded with the Azure Maps Search Address Batch API. Countries are resolved like for
+ * the record the control is placed on: from the country code, then from the country name,
+ * then from a single default country.
+ */
+export class BatchGeocodingService {
+  private readonly context: ComponentFramework.Context<IInputs>;
+  private readonly config: BatchGeocodingConfig;
+  private readonly subscriptionKey: string;
+  private readonly credential?: AzureMapsCredential;
+  private readonly retry?: AzureMapsRetryPolicy;
+  private readonly defaultCountries: string;
+  private readonly language?: string;
+
+  constructor(props: IBatchGeocodingServiceProps) {
+    this.context = props.context;
+    this.config = props.config;
+    this.subscriptionKey = props.subscriptionKey;
+    this.credential = props.credential;
+    this.retry = props.retry;
+    this.defaultCountries = props.defaultCountries;
+    this.language = props.language;
+  }
+
+  /**
+   * Checks if the control is in design mode.
+   */
+  private isInDesignMode(): boolean {
+    return (
+      typeof this.context.mode.allocatedHeight === "number" &&
+      this.context.mode.allocatedHeight === -1
+    );
+  }
+
+  /**
+   * Gets the number of rows geocoded per batch request.
+   *
+   * @returns The configured `BatchSize`, limited to the maximum of the Batch API.
+   *
+   * @public
+   */
+  public getBatchSize(): number {
+    const size = this.config.BatchSize;
+    return typeof size === "number" && size >= 1 ? Math.min(Math.floor(size), MAX_BATCH_QUERIES) : MAX_BATCH_QUERIES;
+  }
+
+  /**
+   * Builds the OData query that selects the rows.
+   *
+   * @returns The query string passed to `retrieveMultipleRecords`.
+   *
+   * @remarks
+   * With a `ViewId` the saved view is used as is and the mapped columns are retrieved
+   * per page by {@link loadRows}; otherwise all rows with an empty latitude or longitude are selected.
+   *
+   * @example
+   * ```typescript
+   * service.buildQuery();
+   * // "?$select=accountid,name,address1_line1,...&$filter=(address1_latitude eq null or address1_longitude eq null)"
+   * ```
+   *
+   * @public
+   */
+  public buildQuery(): string {
+    if (this.config.ViewId) {
+      return `?savedQuery=${encodeURIComponent(this.config.ViewId)}`;
+    }
+    const { Latitude, Longitude } = this.config.Columns;
+    return `?$select=${this.getSelectColumns().join(",")}&$filter=(${Latitude} eq null or ${Longitude} eq null)`;
+  }
+
+  /**
+   * Loads the rows to geocode, following the result pages of the Web API.
+   *
+   * @returns Promise with the rows without coordinates, in the order returned by Dataverse.
+   *
+   * @remarks
+   * The rows of a view contain only the view's columns, so the mapped columns of each page
+   * are retrieved by ID. Rows whose latitude or longitude is not returned are skipped, as
+   * their coordinates are unknown; rows of a view that already have coordinates are skipped.
+   * In design mode no query is sent and the result is empty.
+   *
+   * @example
+   * ```typescript
+   * const rows = await batchGeocodingService.loadRows();
+   * ```
+   *
+   * @public
+   */
+  public async loadRows(): Promise<IBatchGeocodingRow[]> {
+    if (this.isInDesignMode()) {
+      return [];
+    }
+
+    console.log(`BatchGeocodingService.loadRows: Querying '${this.config.TableName}'`);
+    const { Latitude, Longitude } = this.config.Columns;
+    const rows: IBatchGeocodingRow[] = [];
+    let options: string | undefined = this.buildQuery();
+    while (options) {
+      const response = await this.context.webAPI.retrieveMultipleRecords(this.config.TableName, options);
+      const entities = this.config.ViewId ? await this.loadMappedColumns(response.entities) : response.entities;
+      for (const entity of entities) {
+        // A missing key is an unknown value, not an empty one
+        if (entity[Latitude] === null || entity[Longitude] === null) {
+          rows.push(this.mapEntity(entity));
+        }
+      }
+      options = response.nextLink ? new URL(response.nextLink).search : undefined;
+    }
+    return rows;
+  }
+
+  /**
+   * Retrieves the mapped columns of the rows of a view page.
+   *
+   * @param entities - The rows returned for the view.
+   * @returns The rows with the mapped columns, in the order of the view; rows that are
+   * no longer found are left out.
+   */
+  private async loadMappedColumns(
+    entities: ComponentFramework.WebApi.Entity[]
+  ): Promise<ComponentFramework.WebApi.Entity[]> {
+    const idColumn = this.getIdColumn();
+    const ids = entities
+      .map((entity): unknown => entity[idColumn])
+      .filter((id): id is string => typeof id === "string" && id !== "");
+    const byId = new Map<string, ComponentFramework.WebApi.Entity>();
+    for (let start = 0; start < ids.length; start += MAX_IDS_PER_QUERY) {
+      const filter = ids
+        .slice(start, start + MAX_IDS_PER_QUERY)
+        .map((id) => `${idColumn} eq ${id}`)
+        .join(" or ");
+      const response = await this.context.webAPI.retrieveMultipleRecords(
+        this.config.TableName,
+        `?$select=${this.getSelectColumns().join(",")}&$filter=(${filter})`
+      );
+      for (const entity of response.entities) {
+        byId.set(String(entity[idColumn]), entity);
+      }
+    }
+    return ids
+      .map((id) => byId.get(id))
+      .filter((entity): entity is ComponentFramework.WebApi.Entity => entity !== undefined);
+  }
+
+  /**
+   * Converts a table row to a row to geocode.
+   *
+   * @param entity - The row returned by the Web API.
+   * @returns The row with the mapped address fields and the resolved country code.
+   *
+   * @public
+   */
+  public mapEntity(entity: ComponentFramework.WebApi.Entity): IBatchGeocodingRow {
+    const columns = this.config.Columns;
+    const getText = (column: string | undefined): string => {
+      const value: unknown = column ? entity[column] : undefined;
+      return typeof value === "string" ? value.trim() : "";
+    };
+
+    const name = getText(this.config.NameColumn);
+    return {
+      id: String(entity[this.getIdColumn()] ?? ""),
+      name: name || undefined,
+      fields: {
+        street: getText(columns.Street),
+        city: getText(columns.City),
+        postalCode: getText(columns.PostalCode),
+        stateProvince: getText(columns.StateProvince),
+        countryCodeISO2: this.resolveRowCountry(entity),
+      },
+    };
+  }
+
+  /**
+   * Geocodes a batch of rows and writes the coordinates of the matches back.
+   *
+   * @param rows - The rows; at most {@link getBatchSize} rows.
+   * @returns Promise with the number of updated rows and the rows that were not geocoded.
+   * @throws AzureMapsApiError or another error if the batch request fails;
+   * no row is updated in that case.
+   *
+   * @example
+   * ```typescript
+   * const { succeeded, errors } = await batchGeocodingService.geocodeBatch(rows.slice(0, 100));
+   * ```
+   *
+   * @public
+   */
+  public async geocodeBatch(rows: IBatchGeocodingRow[]): Promise<IBatchGeocodingOutcome> {
+    const errors: IBatchGeocodingError[] = [];
+    const queued: { row: IBatchGeocodingRow; query: string; countryCode: string }[] = [];
+
+    for (const row of rows) {
+      const query = formatRowAddress(row.fields);
+      const countryCode = resolveCountryCode(row.fields.countryCodeISO2, this.defaultCountries);
+      if (!query) {
+        errors.push(this.toError(row, "MissingAddress"));
+      } else if (!countryCode) {
+        errors.push(this.toError(row, "UnknownCountry"));
+      } else {
+        queued.push({ row, query, countryCode });
+      }
+    }
+    if (queued.length === 0) {
+      return { succeeded: 0, errors };
+    }
+
+    console.log(`BatchGeocodingService.geocodeBatch: Geocoding ${queued.length} rows`);
+    const outcomes = await searchAddressBatch({
+      subscriptionKey: this.subscriptionKey,
+      credential: this.credential,
+      retry: this.retry,
+      queries: queued.map(({ query, countryCode }) => ({
+        query,
+        countrySet: countryCode,
+        language: this.language,
+        limit: 1,
+      })),
+    });
+
+    const { Latitude, Longitude, ResultScore } = this.config.Columns;
+    let succeeded = 0;
+    for (const [index, { row }] of queued.entries()) {
+      const outcome = outcomes[index];
+      const match = outcome.results[0];
+      if (outcome.error) {
+        errors.push(this.toError(row, "SearchFailed", outcome.error));
+        continue;
+      }
+      if (!match?.position) {
+        errors.push(this.toError(row, "NoMatch"));
+        continue;
+      }
+
+      const data: ComponentFramework.WebApi.Entity = {
+        [Latitude]: match.position.lat,
+        [Longitude]: match.position.lon,
+      };
+      if (ResultScore && typeof match.score === "number") {
+        data[ResultScore] = match.score;
+      }
+      try {
+        await this.context.webAPI.updateRecord(this.config.TableName, row.id, data);
+        succeeded++;
+      } catch (error) {
+        errors.push(this.toError(row, "UpdateFailed", error instanceof Error ? error.message : String(error)));
+      }
+    }
+    return { succeeded, errors };
+  }
+
+  /**
+   * Resolves the ISO 3166-1 alpha-2 country code of a row from its country columns.
+   *
+   * @param entity - The row returned by the Web API.
+   * @returns The country code, or an empty string if the country is unknown.
+   */
+  private resolveRowCountry(entity: ComponentFramework.WebApi.Entity): string {
+    const { CountryISO2, CountryISO3, Country } = this.config.Columns;
+    const getValue = (column: string | undefined): string => {
+      if (!column) {
+        return "";
+      }
+      const value: unknown = entity[`${column}${FORMATTED_VALUE_SUFFIX}`] ?? entity[column];
+      return typeof value === "string" ? value.trim() : "";
+    };
+    const iso2 = getValue(CountryISO2);
+    if (iso2) {
+      return iso2.toUpperCase();
+    }
+    return (resolveCountry(getValue(CountryISO3)) ?? resolveCountry(getValue(Country)))?.CountryISO2 ?? "";
+  }
+
+  /**
+   * Creates the report entry of a row that was not geocoded.
+   */
+  private toError(row: IBatchGeocodingRow, reason: BatchGeocodingFailureReason, message?: string): IBatchGeocodingError {
+    return { id: row.id, name: row.name, address: formatRowAddress(row.fields), reason, message };
+  }
+
+  /**
+   * Gets the primary key column.
+   */
+  private getIdColumn(): string {
+    return this.config.IdColumn ?? `${this.config.TableName}id`;
+  }
+
+  /**
+   * Gets the columns to retrieve: the key, the name and all mapped columns.
+   */
+  private getSelectColumns(): string[] {
+    const mapped = Object.values(this.config.Columns as Record<keyof BatchGeocodingColumns, string | undefined>);
+    return Array.from(
+      new Set(
+        [this.getIdColumn(), this.config.NameColumn, ...mapped].filter(
+          (column): column is string => !!column
+        )
+      )
+    );
+  }
+}
+
+/**
+ * Formats the address of a row as the single line sent to the search.
+ *
+ * @param fields - The address fields of the row.
+ * @returns The address, e.g. "Bahnhofstrasse 1, 8001 Zürich"; empty if no part is set.
+ */
+function formatRowAddress(fields: IBoundAddressFields): string {
+  return [fields.street, `${fields.postalCode} ${fields.city}`.trim(), fields.stateProvince]
+    .filter(Boolean)
+    .join(", ");
+}
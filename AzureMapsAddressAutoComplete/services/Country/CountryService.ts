@@ -1,36 +1,144 @@
 // AzureMapsAddressAutoComplete\services\Country\CountryService.ts
 import { IInputs } from "../../generated/ManifestTypes";
+import type { CountryLookup, CountryTableConfig } from "../../types";
+import { resolveCountry } from "../../utils/countryResolver";
 
 export interface ICountryServiceProps {
   context: ComponentFramework.Context<IInputs>;
+  /** The `CountriesConfig.CountryTable` section of the additional parameters. */
+  config: CountryTableConfig;
 }
 
-export interface ICountryItem {
-  aidevme_countryId: string;
-  aidevme_name: string;
-  aidevme_countryiso2code: string;
-  aidevme_countryiso3code: string;
+/**
+ * Countries of a country table, indexed for lookups.
+ */
+interface CountryTableIndex {
+  /** Countries keyed by upper-case ISO2 code. */
+  byIso2: Map<string, CountryLookup>;
+  /** Countries keyed by upper-case ISO3 code. */
+  byIso3: Map<string, CountryLookup>;
+  /** Countries keyed by lower-case name. */
+  byName: Map<string, CountryLookup>;
 }
 
-export interface ICountryRetrieveResponse {
-  isSuccess: boolean;
-  message?: string;
-  errors?: string[];
-  result?: ICountryItem;
+/**
+ * Cache entry for a country table with expiration.
+ */
+interface CacheEntry {
+  data: CountryTableIndex;
+  expiresAt: number;
 }
 
-export interface ICountryRetrieveMultipleResponse {
-  isSuccess: boolean;
-  message?: string;
-  errors?: string[];
-  result?: ICountryItem[];
-}
+/**
+ * Cache expiration time in milliseconds (60 minutes).
+ */
+const CACHE_EXPIRATION_MS = 60 * 60 * 1000;
+
+/**
+ * Maximum number of country tables to cache (prevents memory leaks).
+ */
+const MAX_CACHE_SIZE = 10;
+
+/**
+ * Maximum number of rows loaded from a country table.
+ */
+const MAX_COUNTRY_ROWS = 1000;
+
+/**
+ * Static cache for country tables, keyed by table and columns, so that the table is loaded once per session.
+ */
+const countryTableCache = new Map<string, CacheEntry>();
+
+/**
+ * Map of pending loads to prevent duplicate API calls for the same country table.
+ */
+const pendingLoads = new Map<string, Promise<CountryTableIndex>>();
 
+/**
+ * Id of the mock countries returned in design mode; lookups with this id are not written.
+ */
+const DESIGN_MODE_COUNTRY_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Countries returned in design mode, keyed by ISO 3166-1 alpha-2 code with the alpha-3 code and name.
+ */
+const DESIGN_MODE_COUNTRIES: Readonly<Record<string, [iso3Code: string, name: string]>> = {
+  CH: ["CHE", "Switzerland"],
+  US: ["USA", "United States"],
+  DE: ["DEU", "Germany"],
+  FR: ["FRA", "France"],
+  IT: ["ITA", "Italy"],
+  GB: ["GBR", "United Kingdom"],
+  AT: ["AUT", "Austria"],
+  ES: ["ESP", "Spain"],
+  NL: ["NLD", "Netherlands"],
+  BE: ["BEL", "Belgium"],
+  CA: ["CAN", "Canada"],
+  AU: ["AUS", "Australia"],
+  JP: ["JPN", "Japan"],
+  CN: ["CHN", "China"],
+  IN: ["IND", "India"],
+  BR: ["BRA", "Brazil"],
+  MX: ["MEX", "Mexico"],
+  SE: ["SWE", "Sweden"],
+  NO: ["NOR", "Norway"],
+  DK: ["DNK", "Denmark"],
+  FI: ["FIN", "Finland"],
+  PL: ["POL", "Poland"],
+  CZ: ["CZE", "Czech Republic"],
+  PT: ["PRT", "Portugal"],
+  GR: ["GRC", "Greece"],
+  TR: ["TUR", "Turkey"],
+  RU: ["RUS", "Russia"],
+  KR: ["KOR", "South Korea"],
+  TH: ["THA", "Thailand"],
+  SG: ["SGP", "Singapore"],
+  NZ: ["NZL", "New Zealand"],
+  IE: ["IRL", "Ireland"],
+  IL: ["ISR", "Israel"],
+  ZA: ["ZAF", "South Africa"],
+  AR: ["ARG", "Argentina"],
+  CL: ["CHL", "Chile"],
+  CO: ["COL", "Colombia"],
+  PE: ["PER", "Peru"],
+  VE: ["VEN", "Venezuela"],
+  EG: ["EGY", "Egypt"],
+  SA: ["SAU", "Saudi Arabia"],
+  AE: ["ARE", "United Arab Emirates"],
+  QA: ["QAT", "Qatar"],
+  KW: ["KWT", "Kuwait"],
+  MY: ["MYS", "Malaysia"],
+  ID: ["IDN", "Indonesia"],
+  PH: ["PHL", "Philippines"],
+  VN: ["VNM", "Vietnam"],
+  UA: ["UKR", "Ukraine"],
+  RO: ["ROU", "Romania"],
+  HU: ["HUN", "Hungary"],
+  BG: ["BGR", "Bulgaria"],
+  HR: ["HRV", "Croatia"],
+  SK: ["SVK", "Slovakia"],
+  SI: ["SVN", "Slovenia"],
+  LT: ["LTU", "Lithuania"],
+  LV: ["LVA", "Latvia"],
+  EE: ["EST", "Estonia"],
+  IS: ["ISL", "Iceland"],
+  LU: ["LUX", "Luxembourg"],
+};
+
+/**
+ * Looks up countries in the Dataverse country table configured by `CountriesConfig.CountryTable`
+ * (e.g., `aidevme_country` or a customer's own country table).
+ *
+ * The table is loaded once by {@link CountryService.loadCountries} and cached for all
+ * instances of the control; lookups in the loaded table are synchronous.
+ */
 export class CountryService {
   private readonly context: ComponentFramework.Context<IInputs>;
+  private readonly config: CountryTableConfig;
 
   constructor(props: ICountryServiceProps) {
     this.context = props.context;
+    this.config = props.config;
   }
 
   /**
@@ -44,167 +152,273 @@ export class CountryService {
   }
 
   /**
-   * Gets a mock country name from ISO2 code for design mode.
-   * @param iso2Code - The ISO 3166-1 alpha-2 country code.
-   * @returns A mock country name.
-   */
-  private getMockCountryNameFromISO2(iso2Code: string): string {
-    const countryMap: Record<string, string> = {
-      CH: "Switzerland",
-      US: "United States",
-      DE: "Germany",
-      FR: "France",
-      IT: "Italy",
-      GB: "United Kingdom",
-      AT: "Austria",
-      ES: "Spain",
-      NL: "Netherlands",
-      BE: "Belgium",
-      CA: "Canada",
-      AU: "Australia",
-      JP: "Japan",
-      CN: "China",
-      IN: "India",
-      BR: "Brazil",
-      MX: "Mexico",
-      SE: "Sweden",
-      NO: "Norway",
-      DK: "Denmark",
-      FI: "Finland",
-      PL: "Poland",
-      CZ: "Czech Republic",
-      PT: "Portugal",
-      GR: "Greece",
-      TR: "Turkey",
-      RU: "Russia",
-      KR: "South Korea",
-      TH: "Thailand",
-      SG: "Singapore",
-      NZ: "New Zealand",
-      IE: "Ireland",
-      IL: "Israel",
-      ZA: "South Africa",
-      AR: "Argentina",
-      CL: "Chile",
-      CO: "Colombia",
-      PE: "Peru",
-      VE: "Venezuela",
-      EG: "Egypt",
-      SA: "Saudi Arabia",
-      AE: "United Arab Emirates",
-      QA: "Qatar",
-      KW: "Kuwait",
-      MY: "Malaysia",
-      ID: "Indonesia",
-      PH: "Philippines",
-      VN: "Vietnam",
-      UA: "Ukraine",
-      RO: "Romania",
-      HU: "Hungary",
-      BG: "Bulgaria",
-      HR: "Croatia",
-      SK: "Slovakia",
-      SI: "Slovenia",
-      LT: "Lithuania",
-      LV: "Latvia",
-      EE: "Estonia",
-      IS: "Iceland",
-      LU: "Luxembourg",
+   * Gets the logical name of the primary key column of the country table.
+   *
+   * @returns `CountryIdField`, or `<TableName>id` when not configured.
+   *
+   * @public
+   */
+  public getIdField(): string {
+    return this.config.CountryIdField ?? `${this.config.TableName}id`;
+  }
+
+  /**
+   * Gets the key of the configured country table in the cache.
+   */
+  private getCacheKey(): string {
+    const { TableName, CountryNameField, CountryISO2Field, CountryISO3Field } = this.config;
+    return [TableName, this.getIdField(), CountryNameField, CountryISO2Field, CountryISO3Field].join("|");
+  }
+
+  /**
+   * Builds the OData query for the rows of the country table.
+   *
+   * @returns The query string passed to `retrieveMultipleRecords`.
+   *
+   * @example
+   * ```typescript
+   * service.buildQuery();
+   * // "?$select=aidevme_countryid,aidevme_name,aidevme_countryiso2code,aidevme_countryiso3code"
+   * ```
+   *
+   * @public
+   */
+  public buildQuery(): string {
+    const { CountryNameField, CountryISO2Field, CountryISO3Field } = this.config;
+    return `?$select=${[this.getIdField(), CountryNameField, CountryISO2Field, CountryISO3Field].join(",")}`;
+  }
+
+  /**
+   * Converts a row of the country table to a country lookup.
+   *
+   * @param entity - The row returned by the Web API.
+   * @returns The country lookup with the configured columns.
+   *
+   * @public
+   */
+  public mapEntity(entity: ComponentFramework.WebApi.Entity): CountryLookup {
+    const getText = (column: string): string => {
+      const value: unknown = entity[column];
+      return typeof value === "string" ? value : "";
+    };
+    return {
+      Id: getText(this.getIdField()),
+      Name: getText(this.config.CountryNameField),
+      CountryISO2: getText(this.config.CountryISO2Field),
+      CountryISO3: getText(this.config.CountryISO3Field),
     };
-    return countryMap[iso2Code.toUpperCase()] ?? "Unknown Country";
   }
 
   /**
-   * Gets a mock country name from ISO3 code for design mode.
-   * @param iso3Code - The ISO 3166-1 alpha-3 country code.
-   * @returns A mock country name.
-   */
-  private getMockCountryNameFromISO3(iso3Code: string): string {
-    const countryMap: Record<string, string> = {
-      CHE: "Switzerland",
-      USA: "United States",
-      DEU: "Germany",
-      FRA: "France",
-      ITA: "Italy",
-      GBR: "United Kingdom",
-      AUT: "Austria",
-      ESP: "Spain",
-      NLD: "Netherlands",
-      BEL: "Belgium",
-      CAN: "Canada",
-      AUS: "Australia",
-      JPN: "Japan",
-      CHN: "China",
-      IND: "India",
-      BRA: "Brazil",
-      MEX: "Mexico",
-      SWE: "Sweden",
-      NOR: "Norway",
-      DNK: "Denmark",
-      FIN: "Finland",
-      POL: "Poland",
-      CZE: "Czech Republic",
-      PRT: "Portugal",
-      GRC: "Greece",
-      TUR: "Turkey",
-      RUS: "Russia",
-      KOR: "South Korea",
-      THA: "Thailand",
-      SGP: "Singapore",
-      NZL: "New Zealand",
-      IRL: "Ireland",
-      ISR: "Israel",
-      ZAF: "South Africa",
-      ARG: "Argentina",
-      CHL: "Chile",
-      COL: "Colombia",
-      PER: "Peru",
-      VEN: "Venezuela",
-      EGY: "Egypt",
-      SAU: "Saudi Arabia",
-      ARE: "United Arab Emirates",
-      QAT: "Qatar",
-      KWT: "Kuwait",
-      MYS: "Malaysia",
-      IDN: "Indonesia",
-      PHL: "Philippines",
-      VNM: "Vietnam",
-      UKR: "Ukraine",
-      ROU: "Romania",
-      HUN: "Hungary",
-      BGR: "Bulgaria",
-      HRV: "Croatia",
-      SVK: "Slovakia",
-      SVN: "Slovenia",
-      LTU: "Lithuania",
-      LVA: "Latvia",
-      EST: "Estonia",
-      ISL: "Iceland",
-      LUX: "Luxembourg",
+   * Indexes countries by ISO2 code, ISO3 code and name; the first country with a key wins.
+   */
+  private createIndex(countries: CountryLookup[]): CountryTableIndex {
+    const index: CountryTableIndex = { byIso2: new Map(), byIso3: new Map(), byName: new Map() };
+    const add = (map: Map<string, CountryLookup>, key: string, country: CountryLookup): void => {
+      if (key && !map.has(key)) {
+        map.set(key, country);
+      }
     };
-    return countryMap[iso3Code.toUpperCase()] ?? "Unknown Country";
+    for (const country of countries) {
+      add(index.byIso2, country.CountryISO2.trim().toUpperCase(), country);
+      add(index.byIso3, country.CountryISO3.trim().toUpperCase(), country);
+      add(index.byName, country.Name.trim().toLowerCase(), country);
+    }
+    return index;
   }
 
-  public async getCountryByIso2(iso2Code: string): Promise<ComponentFramework.WebApi.Entity | undefined> {
-    console.log(`CountryService.getCountryByIso2: Querying for ISO2 code '${iso2Code}'`);
-    const result = await this.context.webAPI.retrieveMultipleRecords(
-      "aidevme_country",
-      `?$select=aidevme_countryid,aidevme_name,aidevme_countryiso2code,aidevme_countryiso3code&$filter=aidevme_countryiso2code eq '${iso2Code}'&$top=1`
-    );
-    console.log(`CountryService.getCountryByIso2: Found ${result.entities.length} entities`, result.entities);
-    return result.entities.length > 0 ? result.entities[0] : undefined;
+  /**
+   * Reads the rows of the country table, following the result pages up to {@link MAX_COUNTRY_ROWS} rows.
+   * In design mode, returns the mock countries without querying Dataverse.
+   */
+  private async fetchCountries(): Promise<CountryTableIndex> {
+    if (this.isInDesignMode()) {
+      return this.createIndex(
+        Object.entries(DESIGN_MODE_COUNTRIES).map(([iso2Code, [iso3Code, name]]) => ({
+          Id: DESIGN_MODE_COUNTRY_ID,
+          Name: name,
+          CountryISO2: iso2Code,
+          CountryISO3: iso3Code,
+        }))
+      );
+    }
+
+    console.log(`CountryService.loadCountries: Loading country table '${this.config.TableName}'`);
+    const countries: CountryLookup[] = [];
+    let options: string | undefined = this.buildQuery();
+    while (options !== undefined && countries.length < MAX_COUNTRY_ROWS) {
+      const response = await this.context.webAPI.retrieveMultipleRecords(this.config.TableName, options);
+      countries.push(...response.entities.map((entity) => this.mapEntity(entity)).filter((country) => country.Id));
+      options = response.nextLink ? new URL(response.nextLink).search : undefined;
+    }
+    console.log(`CountryService.loadCountries: Loaded ${countries.length} countries`);
+    return this.createIndex(countries.slice(0, MAX_COUNTRY_ROWS));
+  }
+
+  /**
+   * Loads the country table into the cache unless it is already cached.
+   *
+   * @returns Promise that resolves when the country table is cached.
+   *
+   * @remarks
+   * Concurrent calls share one load. The table is cached for 60 minutes; a failed load is
+   * not cached, so the next call retries it.
+   *
+   * @example
+   * ```typescript
+   * await countryService.loadCountries();
+   * const country = countryService.findCountryByIso2("CH");
+   * ```
+   *
+   * @public
+   */
+  public async loadCountries(): Promise<void> {
+    const key = this.getCacheKey();
+    if (this.getFromCache()) {
+      return;
+    }
+
+    const pending = pendingLoads.get(key);
+    if (pending) {
+      await pending;
+      return;
+    }
+
+    const promise = this.fetchCountries();
+    pendingLoads.set(key, promise);
+    try {
+      this.setCache(await promise);
+    } finally {
+      pendingLoads.delete(key);
+    }
+  }
+
+  /**
+   * Checks whether the country table is cached.
+   *
+   * @returns True if {@link CountryService.loadCountries} completed and the cache has not expired.
+   *
+   * @public
+   */
+  public isLoaded(): boolean {
+    return this.getFromCache() !== null;
+  }
+
+  /**
+   * Finds a country of the cached country table by ISO2 code.
+   *
+   * @param iso2Code - The ISO 3166-1 alpha-2 country code.
+   * @returns The country, or undefined if not found or the table is not loaded.
+   *
+   * @public
+   */
+  public findCountryByIso2(iso2Code: string): CountryLookup | undefined {
+    return this.getFromCache()?.byIso2.get(iso2Code.trim().toUpperCase());
+  }
+
+  /**
+   * Finds a country of the cached country table by ISO3 code.
+   *
+   * @param iso3Code - The ISO 3166-1 alpha-3 country code.
+   * @returns The country, or undefined if not found or the table is not loaded.
+   *
+   * @public
+   */
+  public findCountryByIso3(iso3Code: string): CountryLookup | undefined {
+    return this.getFromCache()?.byIso3.get(iso3Code.trim().toUpperCase());
   }
 
-  public async getCountryByIso3(iso3Code: string): Promise<ComponentFramework.WebApi.Entity | undefined> {
-    console.log(`CountryService.getCountryByIso3: Querying for ISO3 code '${iso3Code}'`);
-    const result = await this.context.webAPI.retrieveMultipleRecords(
-      "aidevme_country",
-      `?$select=aidevme_countryid,aidevme_name,aidevme_countryiso2code,aidevme_countryiso3code&$filter=aidevme_countryiso3code eq '${iso3Code}'&$top=1`
+  /**
+   * Finds a country of the cached country table by name (case-insensitive).
+   *
+   * @param countryName - The country name in the language of the name column, or in any
+   * language known to `resolveCountry`, whose ISO2 code is then looked up.
+   * @returns The country, or undefined if not found or the table is not loaded.
+   *
+   * @public
+   */
+  public findCountryByName(countryName: string): CountryLookup | undefined {
+    const index = this.getFromCache();
+    const countryCodeISO2 = resolveCountry(countryName)?.CountryISO2;
+    return (
+      index?.byName.get(countryName.trim().toLowerCase()) ??
+      (countryCodeISO2 ? index?.byIso2.get(countryCodeISO2) : undefined)
     );
-    console.log(`CountryService.getCountryByIso3: Found ${result.entities.length} entities`, result.entities);
-    return result.entities.length > 0 ? result.entities[0] : undefined;
   }
 
+  /**
+   * Retrieves a country by ISO2 code, loading the country table if needed.
+   *
+   * @param iso2Code - The ISO 3166-1 alpha-2 country code.
+   * @returns Promise resolving to the country, or undefined if not found.
+   *
+   * @remarks
+   * In design mode, returns a mock country without querying Dataverse.
+   *
+   * @public
+   */
+  public async getCountryByIso2(iso2Code: string): Promise<CountryLookup | undefined> {
+    await this.loadCountries();
+    return this.findCountryByIso2(iso2Code);
+  }
+
+  /**
+   * Retrieves a country by ISO3 code, loading the country table if needed.
+   *
+   * @param iso3Code - The ISO 3166-1 alpha-3 country code.
+   * @returns Promise resolving to the country, or undefined if not found.
+   *
+   * @remarks
+   * In design mode, returns a mock country without querying Dataverse.
+   *
+   * @public
+   */
+  public async getCountryByIso3(iso3Code: string): Promise<CountryLookup | undefined> {
+    await this.loadCountries();
+    return this.findCountryByIso3(iso3Code);
+  }
+
+  /**
+   * Clears the cached country tables, e.g. after the additional parameters changed.
+   *
+   * @public
+   */
+  public static clearCache(): void {
+    countryTableCache.clear();
+  }
+
+  /**
+   * Gets the cached country table if available and not expired.
+   */
+  private getFromCache(): CountryTableIndex | null {
+    const key = this.getCacheKey();
+    const entry = countryTableCache.get(key);
+    if (entry && Date.now() < entry.expiresAt) {
+      return entry.data;
+    }
+    // Remove expired entry
+    if (entry) {
+      countryTableCache.delete(key);
+    }
+    return null;
+  }
 
+  /**
+   * Stores the country table in cache with expiration.
+   * Evicts the oldest table when the cache reaches maximum size.
+   */
+  private setCache(data: CountryTableIndex): void {
+    if (countryTableCache.size >= MAX_CACHE_SIZE) {
+      const firstKey = countryTableCache.keys().next().value;
+      if (firstKey) {
+        console.log(`CountryService: Cache at max size (${MAX_CACHE_SIZE}), evicting oldest entry: ${firstKey}`);
+        countryTableCache.delete(firstKey);
+      }
+    }
 
-}
\ No newline at end of file
+    countryTableCache.set(this.getCacheKey(), {
+      data,
+      expiresAt: Date.now() + CACHE_EXPIRATION_MS,
+    });
+  }
+}
@@ -0,0 +1,276 @@
+// AzureMapsAddressAutoComplete\services\DuplicateAddress\DuplicateAddressService.ts
+import { IInputs } from "../../generated/ManifestTypes";
+import type { DuplicateDetectionConfig } from "../../types/additionalParametersTypes";
+import type { AzureMapsSearchResult } from "../AzureMap/azureMapsService";
+import { escapeODataString } from "../AddressBook/AddressBookService";
+import { getDistanceInMeters, isSameStreet, normalizeAddressPart } from "../../utils/addressComparison";
+
+/**
+ * Distance in meters within which coordinates count as the same address when no radius is configured.
+ */
+export const DEFAULT_DUPLICATE_RADIUS_METERS = 50;
+
+/**
+ * Number of duplicates listed when no maximum is configured.
+ */
+export const DEFAULT_MAX_DUPLICATES = 5;
+
+/**
+ * Number of candidate rows retrieved before they are compared.
+ */
+const MAX_DUPLICATE_CANDIDATES = 50;
+
+/** Meters per degree of latitude, used for the bounding box of the coordinate check. */
+const METERS_PER_DEGREE = 111320;
+
+export interface IDuplicateAddressServiceProps {
+  context: ComponentFramework.Context<IInputs>;
+  config: DuplicateDetectionConfig;
+}
+
+/**
+ * An existing row with the same address as the selected one.
+ */
+export interface IDuplicateAddressRecord {
+  /** The logical name of the table. */
+  tableName: string;
+  /** The primary key of the row. */
+  id: string;
+  /** The value of the configured `NameColumn`. */
+  name?: string;
+  /** The stored street. */
+  street?: string;
+  /** The stored postal code. */
+  postalCode?: string;
+  /** Whether street, postal code and country are equal to the selected address. */
+  isSameAddress: boolean;
+  /** Distance in meters to the selected position; undefined if the row has no coordinates. */
+  distance?: number;
+}
+
+/**
+ * Builds the URL of the main form of a row.
+ *
+ * @param tableName - The logical name of the table.
+ * @param id - The primary key of the row.
+ * @returns The URL, relative to the app.
+ *
+ * @public
+ */
+export function buildRecordFormUrl(tableName: string, id: string): string {
+  return `main.aspx?pagetype=entityrecord&etn=${encodeURIComponent(tableName)}&id=${encodeURIComponent(id)}`;
+}
+
+/**
+ * Finds existing Dataverse rows with the address the user selected.
+ *
+ * @remarks
+ * Candidates with the same postal code or within a bounding box around the selected
+ * position are retrieved through `context.webAPI`. They are then compared on the client:
+ * a row is a duplicate if its normalized street, postal code and country are equal
+ * (e.g., "Bahnhofstr. 1" and "Bahnhofstrasse 1"), or if it lies within `RadiusMeters`.
+ */
+export class DuplicateAddressService {
+  private readonly context: ComponentFramework.Context<IInputs>;
+  private readonly config: DuplicateDetectionConfig;
+
+  constructor(props: IDuplicateAddressServiceProps) {
+    this.context = props.context;
+    this.config = props.config;
+  }
+
+  /**
+   * Checks if the control is in design mode.
+   */
+  private isInDesignMode(): boolean {
+    return (
+      typeof this.context.mode.allocatedHeight === "number" &&
+      this.context.mode.allocatedHeight === -1
+    );
+  }
+
+  /**
+   * Gets the radius of the coordinate check.
+   */
+  private getRadius(): number {
+    return typeof this.config.RadiusMeters === "number" && this.config.RadiusMeters >= 0
+      ? this.config.RadiusMeters
+      : DEFAULT_DUPLICATE_RADIUS_METERS;
+  }
+
+  /**
+   * Builds the OData query for the candidate rows.
+   *
+   * @param result - The selected search result.
+   * @param currentRecord - The record the control is placed on; skipped if it is a row of the table.
+   * @returns The query string passed to `retrieveMultipleRecords`, or undefined if the result has neither a postal code nor usable coordinates.
+   *
+   * @public
+   */
+  public buildQuery(
+    result: AzureMapsSearchResult,
+    currentRecord?: { entityType: string; id: string }
+  ): string | undefined {
+    const columns = this.config.Columns;
+    const candidates: string[] = [];
+
+    const postalCode = result.address.postalCode?.trim();
+    if (columns.PostalCode && postalCode) {
+      const variants = Array.from(new Set([postalCode, postalCode.replace(/\s+/g, "")]));
+      candidates.push(
+        ...variants.map((variant) => `${columns.PostalCode} eq '${encodeURIComponent(escapeODataString(variant))}'`)
+      );
+    }
+
+    const radius = this.getRadius();
+    if (columns.Latitude && columns.Longitude && result.position && radius > 0) {
+      const { lat, lon } = result.position;
+      const latDelta = radius / METERS_PER_DEGREE;
+      const lonDelta = radius / (METERS_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+      candidates.push(
+        `(${columns.Latitude} ge ${lat - latDelta} and ${columns.Latitude} le ${lat + latDelta}` +
+          ` and ${columns.Longitude} ge ${lon - lonDelta} and ${columns.Longitude} le ${lon + lonDelta})`
+      );
+    }
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const idColumn = this.getIdColumn();
+    const conditions = [`(${candidates.join(" or ")})`];
+    const recordId =
+      currentRecord?.entityType === this.config.TableName ? currentRecord.id.replace(/[{}]/g, "") : undefined;
+    if (recordId) {
+      conditions.push(`${idColumn} ne ${recordId}`);
+    }
+    if (this.config.Filter) {
+      conditions.push(`(${this.config.Filter})`);
+    }
+
+    const select = Array.from(
+      new Set(
+        [idColumn, this.config.NameColumn, ...Object.values(columns) as (string | undefined)[]].filter(
+          (column): column is string => !!column
+        )
+      )
+    );
+    return `?$select=${select.join(",")}&$filter=${conditions.join(" and ")}&$top=${MAX_DUPLICATE_CANDIDATES}`;
+  }
+
+  /**
+   * Finds rows with the same address as a selected search result.
+   *
+   * @param result - The selected search result.
+   * @param currentRecord - The record the control is placed on; skipped if it is a row of the table.
+   * @returns Promise with the duplicates, rows with the same address first, then by distance.
+   *
+   * @remarks
+   * In design mode no query is sent and the result is empty.
+   *
+   * @example
+   * ```typescript
+   * const duplicates = await duplicateAddressService.findDuplicates(result, pcfService.getCurrentRecord());
+   * ```
+   *
+   * @public
+   */
+  public async findDuplicates(
+    result: AzureMapsSearchResult,
+    currentRecord?: { entityType: string; id: string }
+  ): Promise<IDuplicateAddressRecord[]> {
+    const options = this.buildQuery(result, currentRecord);
+    if (!options || this.isInDesignMode()) {
+      return [];
+    }
+
+    console.log(`DuplicateAddressService.findDuplicates: Querying '${this.config.TableName}'`);
+    const response = await this.context.webAPI.retrieveMultipleRecords(this.config.TableName, options);
+
+    const maxResults =
+      typeof this.config.MaxResults === "number" && this.config.MaxResults > 0
+        ? Math.floor(this.config.MaxResults)
+        : DEFAULT_MAX_DUPLICATES;
+
+    return response.entities
+      .map((entity) => this.compare(entity, result))
+      .filter((record): record is IDuplicateAddressRecord => record !== undefined)
+      .sort(
+        (a, b) =>
+          Number(b.isSameAddress) - Number(a.isSameAddress) ||
+          (a.distance ?? Number.POSITIVE_INFINITY) - (b.distance ?? Number.POSITIVE_INFINITY)
+      )
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Compares a candidate row with the selected result.
+   *
+   * @returns The duplicate, or undefined if the row has a different address and lies outside the radius.
+   */
+  private compare(
+    entity: ComponentFramework.WebApi.Entity,
+    result: AzureMapsSearchResult
+  ): IDuplicateAddressRecord | undefined {
+    const columns = this.config.Columns;
+    const getText = (column: string | undefined): string | undefined => {
+      const value: unknown = column ? entity[column] : undefined;
+      return typeof value === "string" && value.trim() ? value.trim() : undefined;
+    };
+    const getNumber = (column: string | undefined): number | undefined => {
+      const value: unknown = column ? entity[column] : undefined;
+      return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    };
+
+    const street = getText(columns.Street);
+    const postalCode = getText(columns.PostalCode);
+    // House number before or after the street name, depending on the country's output template
+    const isSameAddress =
+      isSameStreet(street, `${result.address.streetName ?? ""} ${result.address.streetNumber ?? ""}`) &&
+      normalizeAddressPart(postalCode) === normalizeAddressPart(result.address.postalCode) &&
+      this.isSameCountry(entity, result);
+
+    const lat = getNumber(columns.Latitude);
+    const lon = getNumber(columns.Longitude);
+    const distance =
+      result.position && lat !== undefined && lon !== undefined
+        ? getDistanceInMeters(result.position, { lat, lon })
+        : undefined;
+
+    if (!isSameAddress && (distance === undefined || distance > this.getRadius())) {
+      return undefined;
+    }
+
+    return {
+      tableName: this.config.TableName,
+      id: String(entity[this.getIdColumn()] ?? ""),
+      name: getText(this.config.NameColumn),
+      street,
+      postalCode,
+      isSameAddress,
+      distance,
+    };
+  }
+
+  /**
+   * Compares the country of a row with the selected result.
+   * Rows or results without a country match any country.
+   */
+  private isSameCountry(entity: ComponentFramework.WebApi.Entity, result: AzureMapsSearchResult): boolean {
+    const { Country, CountryISO2 } = this.config.Columns;
+    const [stored, selected] = CountryISO2
+      ? [entity[CountryISO2] as unknown, result.address.countryCode]
+      : [Country ? (entity[Country] as unknown) : undefined, result.address.country];
+    if (typeof stored !== "string" || !stored.trim() || !selected) {
+      return true;
+    }
+    return normalizeAddressPart(stored) === normalizeAddressPart(selected);
+  }
+
+  /**
+   * Gets the primary key column.
+   */
+  private getIdColumn(): string {
+    return this.config.IdColumn ?? `${this.config.TableName}id`;
+  }
+}
@@ -10,6 +10,27 @@ import {
   CountryService,
 } from "../index";
 
+import {
+  createSearchProvider,
+  AddressSearchProvider,
+} from "../SearchProvider/SearchProvider";
+import { AZURE_MAPS_GEOCODING_V2_PROVIDER_ID } from "../AzureMap/azureMapsSearchProvider";
+import {
+  AzureMapsCredential,
+  createAzureMapsCredential,
+} from "../AzureMap/azureMapsCredential";
+import { SearchCacheService, withSearchCache } from "../SearchCache/SearchCacheService";
+import { RecentAddressService } from "../RecentAddress/RecentAddressService";
+import { AddressBookService } from "../AddressBook/AddressBookService";
+import { DuplicateAddressService, buildRecordFormUrl } from "../DuplicateAddress/DuplicateAddressService";
+import { BatchGeocodingService } from "../BatchGeocoding/BatchGeocodingService";
+import { createRetryPolicy } from "../AzureMap/azureMapsRetry";
+import {
+  AdditionalParameters,
+  CountryLookup,
+  parseAdditionalParameters,
+} from "../../types/additionalParametersTypes";
+
 import countriesData from "../../statics/countries.json";
 
 /**
@@ -24,6 +45,14 @@ interface ContextInfo {
   entityId: string;
 }
 
+/**
+ * Control notification functions that model-driven forms add to `context.utils`.
+ */
+interface ControlNotificationUtils {
+  setNotification: (message: string, uniqueId: string) => boolean;
+  clearNotification: (uniqueId?: string) => boolean;
+}
+
 /**
  * Interface for PCF Context Service Properties.
  * Defines the configuration options for initializing the PcfContextService.
@@ -69,8 +98,10 @@ export class PcfContextService {
   defaultValue: string;
   /** Comma-separated list of ISO 3166-1 alpha-2 country codes. */
   defaultCountries: string;
-  /** Additional query parameters for Azure Maps API requests. */
+  /** Raw additionalParameters JSON string from the control configuration. */
   additionalParameters: string;
+  /** Parsed additionalParameters configuration, or undefined if absent or invalid. */
+  additionalParamsConfig: AdditionalParameters | undefined;
   /** Whether to display the map panel with address visualization. */
   showMaps: boolean;
   /** Size of the map panel. */
@@ -143,8 +174,20 @@ export class PcfContextService {
   private optionSetCache: Map<string, GlobalOptionSetOption[]>;
   /** Reference to the metadata service for fetching optionset data. */
   private metadataService: MetadataService;
-  /** Reference to the country service for fetching country data. */
-  private countryService: CountryService;
+  /** Lazily created country table lookup; null when no country table is configured. */
+  private countryService: CountryService | null | undefined;
+  /** Lazily created address search provider. */
+  private searchProvider: AddressSearchProvider | undefined;
+  /** Lazily created Azure Maps credential; null once resolved to no credential. */
+  private credential: AzureMapsCredential | null | undefined;
+  /** Lazily created recent address store; null when disabled or no user is known. */
+  private recentAddressService: RecentAddressService | null | undefined;
+  /** Lazily created address book search; null when no address book is configured. */
+  private addressBookService: AddressBookService | null | undefined;
+  /** Lazily created duplicate address check; null when no check is configured. */
+  private duplicateAddressService: DuplicateAddressService | null | undefined;
+  /** Lazily created bulk geocoding; null when no bulk geocoding is configured. */
+  private batchGeocodingService: BatchGeocodingService | null | undefined;
 
   /**
    * Constructor to initialize the PCF Context Service.
@@ -177,7 +220,10 @@ export class PcfContextService {
       const params = props.context.parameters;
       this.subscriptionKey = params.subscriptionKey?.raw ?? "";
       this.defaultCountries = params.defaultCountries?.raw ?? "";
-      this.additionalParameters = "";
+      this.additionalParameters = params.additionalParameters?.raw ?? "";
+      this.additionalParamsConfig = parseAdditionalParameters(
+        this.additionalParameters,
+      );
 
       // Extract boolean properties safely (TwoOptionsProperty can be error-typed)
       this.showMaps = params.showMaps?.raw === true;
@@ -285,6 +331,7 @@ export class PcfContextService {
       this.defaultValue = "";
       this.defaultCountries = "";
       this.additionalParameters = "";
+      this.additionalParamsConfig = undefined;
       this.showMaps = false;
       this.mapSize = "medium";
       this.disabled = false;
@@ -297,7 +344,6 @@ export class PcfContextService {
       // Services require a context, so we create a minimal mock for default init
       const mockContext = {} as ComponentFramework.Context<IInputs>;
       this.metadataService = new MetadataService({ context: mockContext });
-      this.countryService = new CountryService({ context: mockContext });
     }
   }
 
@@ -330,6 +376,45 @@ export class PcfContextService {
     }
   }
 
+  /**
+   * Applies a changed additionalParameters JSON.
+   *
+   * @param additionalParameters - The raw additionalParameters JSON from the control configuration.
+   * @returns True if the JSON changed; the configured services are then created again on next use
+   * and the cached country tables are cleared.
+   *
+   * @remarks
+   * Call this method from the PCF `updateView()` lifecycle method.
+   *
+   * @example
+   * ```typescript
+   * if (service.setAdditionalParameters(context.parameters.additionalParameters?.raw)) {
+   *   void service.getCountryService()?.loadCountries();
+   * }
+   * ```
+   *
+   * @public
+   */
+  public setAdditionalParameters(additionalParameters: string | null | undefined): boolean {
+    const raw = additionalParameters ?? "";
+    if (raw === this.additionalParameters) {
+      return false;
+    }
+
+    console.log("PcfContextService.setAdditionalParameters: additionalParameters changed");
+    this.additionalParameters = raw;
+    this.additionalParamsConfig = parseAdditionalParameters(raw);
+    this.searchProvider = undefined;
+    this.credential = undefined;
+    this.recentAddressService = undefined;
+    this.addressBookService = undefined;
+    this.duplicateAddressService = undefined;
+    this.batchGeocodingService = undefined;
+    this.countryService = undefined;
+    CountryService.clearCache();
+    return true;
+  }
+
   /**
    * Initializes user language settings from Dataverse.
    *
@@ -786,37 +871,373 @@ export class PcfContextService {
   }
 
   /**
-   * Retrieves a country by ISO2 code.
+   * Gets the address search provider selected in `SearchProviderConfig`.
+   *
+   * The provider is created on first use and reused for the lifetime of the service.
+   * When no provider is configured, the Azure Maps provider matching
+   * `AzureMapServiceConfigs.SearchApiVersion` is used (Search v1 by default).
+   * Results are cached unless `AzureMapServiceConfigs.SearchCache.Enabled` is false.
+   *
+   * @returns The search provider, or undefined if it cannot operate (e.g., no subscription key).
+   *
+   * @example
+   * ```typescript
+   * const provider = pcfService.getSearchProvider();
+   * const results = await provider?.searchAddress({ query: 'Bahnhofstrasse 1' });
+   * ```
+   *
+   * @public
+   */
+  public getSearchProvider(): AddressSearchProvider | undefined {
+    if (!this.searchProvider) {
+      const providerConfig = this.additionalParamsConfig?.SearchProviderConfig;
+      const serviceConfigs = this.additionalParamsConfig?.AzureMapServiceConfigs;
+      const apiVersion = serviceConfigs?.SearchApiVersion;
+      const providerId =
+        providerConfig?.Provider ??
+        (apiVersion === "2.0" ? AZURE_MAPS_GEOCODING_V2_PROVIDER_ID : undefined);
+      const provider = createSearchProvider(providerId, {
+        subscriptionKey: this.subscriptionKey,
+        credential: this.getCredential(),
+        retry: createRetryPolicy(serviceConfigs?.Retry),
+        settings: providerConfig?.Settings,
+      });
+      const cacheConfig = serviceConfigs?.SearchCache;
+      this.searchProvider =
+        provider && cacheConfig?.Enabled !== false
+          ? withSearchCache(
+              provider,
+              new SearchCacheService({
+                persistInSessionStorage: cacheConfig?.PersistInSessionStorage,
+              }),
+            )
+          : provider;
+    }
+    return this.searchProvider;
+  }
+
+  /**
+   * Gets the store of the current user's recent and favorite addresses.
+   *
+   * The store is created on first use and configured by `AzureMapServiceConfigs.RecentAddresses`.
+   *
+   * @returns The store, or undefined if `RecentAddresses.Enabled` is false or the user is unknown.
+   *
+   * @example
+   * ```typescript
+   * const { favorites, recent } = pcfService.getRecentAddressService()?.getAddresses() ?? { favorites: [], recent: [] };
+   * ```
+   *
+   * @public
+   */
+  public getRecentAddressService(): RecentAddressService | undefined {
+    if (this.recentAddressService === undefined) {
+      const config = this.additionalParamsConfig?.AzureMapServiceConfigs?.RecentAddresses;
+      const userId = this.context?.userSettings?.userId ? this.getUserId() : "";
+      this.recentAddressService =
+        config?.Enabled !== false && userId
+          ? new RecentAddressService({ userId, maxItems: config?.MaxItems })
+          : null;
+    }
+    return this.recentAddressService ?? undefined;
+  }
+
+  /**
+   * Gets the search of the Dataverse address book table.
+   *
+   * The service is created on first use and configured by `AddressBookConfig`.
+   *
+   * @returns The service, or undefined if no address book is configured or `AddressBookConfig.Enabled` is false.
+   *
+   * @example
+   * ```typescript
+   * const entries = await pcfService.getAddressBookService()?.search("Bahnhofstrasse") ?? [];
+   * ```
+   *
+   * @public
+   */
+  public getAddressBookService(): AddressBookService | undefined {
+    if (this.addressBookService === undefined) {
+      const config = this.additionalParamsConfig?.AddressBookConfig;
+      this.addressBookService =
+        config?.Enabled !== false && config?.TableName && config.SearchColumns?.length && config.Columns && this.context
+          ? new AddressBookService({ context: this.context, config })
+          : null;
+    }
+    return this.addressBookService ?? undefined;
+  }
+
+  /**
+   * Gets the check for existing rows with a selected address.
+   *
+   * The service is created on first use and configured by `DuplicateDetectionConfig`.
+   *
+   * @returns The service, or undefined if no check is configured or `DuplicateDetectionConfig.Enabled` is false.
+   *
+   * @example
+   * ```typescript
+   * const duplicates = await pcfService.getDuplicateAddressService()?.findDuplicates(result, pcfService.getCurrentRecord()) ?? [];
+   * ```
+   *
+   * @public
+   */
+  public getDuplicateAddressService(): DuplicateAddressService | undefined {
+    if (this.duplicateAddressService === undefined) {
+      const config = this.additionalParamsConfig?.DuplicateDetectionConfig;
+      this.duplicateAddressService =
+        config?.Enabled !== false && config?.TableName && config.Columns && this.context
+          ? new DuplicateAddressService({ context: this.context, config })
+          : null;
+    }
+    return this.duplicateAddressService ?? undefined;
+  }
+
+  /**
+   * Gets the bulk geocoding of rows without coordinates.
+   *
+   * The service is created on first use and configured by `BatchGeocodingConfig`.
+   * It searches with the subscription key, credential and retry policy of the search provider.
+   *
+   * @returns The service, or undefined if no bulk geocoding is configured or `BatchGeocodingConfig.Enabled` is false.
+   *
+   * @example
+   * ```typescript
+   * const rows = await pcfService.getBatchGeocodingService()?.loadRows() ?? [];
+   * ```
+   *
+   * @public
+   */
+  public getBatchGeocodingService(): BatchGeocodingService | undefined {
+    if (this.batchGeocodingService === undefined) {
+      const config = this.additionalParamsConfig?.BatchGeocodingConfig;
+      const columns = config?.Columns;
+      this.batchGeocodingService =
+        config?.Enabled !== false && config?.TableName && columns?.Street && columns.Latitude && columns.Longitude && this.context
+          ? new BatchGeocodingService({
+              context: this.context,
+              config,
+              subscriptionKey: this.subscriptionKey,
+              credential: this.getCredential(),
+              retry: createRetryPolicy(this.additionalParamsConfig?.AzureMapServiceConfigs?.Retry),
+              defaultCountries: this.defaultCountries,
+              language: this.useUserLanguage ? this.uiLanguage : this.defaultLanguage,
+            })
+          : null;
+    }
+    return this.batchGeocodingService ?? undefined;
+  }
+
+  /**
+   * Gets the record the control is placed on.
+   *
+   * @returns The table and ID of the record, or undefined for unsaved records and outside of forms.
+   *
+   * @example
+   * ```typescript
+   * const record = pcfService.getCurrentRecord(); // { entityType: "account", id: "..." }
+   * ```
+   *
+   * @public
+   */
+  public getCurrentRecord(): { entityType: string; id: string } | undefined {
+    const contextInfo = (
+      this.context?.mode as unknown as { contextInfo?: ContextInfo } | undefined
+    )?.contextInfo;
+    return contextInfo?.entityTypeName && contextInfo.entityId
+      ? { entityType: contextInfo.entityTypeName, id: contextInfo.entityId }
+      : undefined;
+  }
+
+  /**
+   * Opens the main form of a row in a new window.
+   *
+   * @param tableName - The logical name of the table.
+   * @param id - The primary key of the row.
+   *
+   * @remarks
+   * Falls back to opening the record URL when the navigation API is not available.
+   *
+   * @example
+   * ```typescript
+   * pcfService.openRecord("account", "a1b2c3d4-...");
+   * ```
+   *
+   * @public
+   */
+  public openRecord(tableName: string, id: string): void {
+    if (this.context?.navigation?.openForm) {
+      void this.context.navigation
+        .openForm({ entityName: tableName, entityId: id, openInNewWindow: true })
+        .catch((error: unknown) => {
+          console.warn("PcfContextService: Could not open record:", error);
+          return undefined;
+        });
+      return;
+    }
+    window.open(buildRecordFormUrl(tableName, id), "_blank", "noopener");
+  }
+
+  /**
+   * Gets the notification functions of the host, if it provides them.
+   */
+  private getNotificationUtils(): ControlNotificationUtils | undefined {
+    const utils = this.context?.utils as unknown as Partial<ControlNotificationUtils> | undefined;
+    return typeof utils?.setNotification === "function" && typeof utils.clearNotification === "function"
+      ? (utils as ControlNotificationUtils)
+      : undefined;
+  }
+
+  /**
+   * Checks whether the host shows control notifications (model-driven forms).
+   *
+   * @returns True if `setNotification` shows the message on the form.
+   *
+   * @public
+   */
+  public canSetNotification(): boolean {
+    return this.getNotificationUtils() !== undefined;
+  }
+
+  /**
+   * Shows an error notification on the control.
+   * In model-driven forms the form cannot be saved while the notification is shown.
+   *
+   * @param message - The message to show.
+   * @param uniqueId - Identifies the notification, so it can be replaced or cleared.
+   * @returns True if the notification is shown; false if the host does not support notifications.
+   *
+   * @example
+   * ```typescript
+   * if (!pcfService.setNotification("The address is missing required information: House Number.", "validation")) {
+   *   // Show the message in the control instead
+   * }
+   * ```
+   *
+   * @public
+   */
+  public setNotification(message: string, uniqueId: string): boolean {
+    const utils = this.getNotificationUtils();
+    if (!utils) {
+      return false;
+    }
+    try {
+      return utils.setNotification(message, uniqueId) !== false;
+    } catch (error) {
+      console.warn("PcfContextService: Could not set notification:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes a notification shown with {@link PcfContextService.setNotification}.
+   *
+   * @param uniqueId - The ID the notification was shown with.
+   *
+   * @public
+   */
+  public clearNotification(uniqueId: string): void {
+    try {
+      this.getNotificationUtils()?.clearNotification(uniqueId);
+    } catch (error) {
+      console.warn("PcfContextService: Could not clear notification:", error);
+    }
+  }
+
+  /**
+   * Gets the coordinates bound to the `latitude` and `longitude` properties of the current record.
+   *
+   * @returns The record coordinates; values are undefined when the fields are empty.
+   *
+   * @example
+   * ```typescript
+   * const { lat, lon } = pcfService.getRecordPosition();
+   * ```
+   *
+   * @public
+   */
+  public getRecordPosition(): { lat: number | undefined; lon: number | undefined } {
+    const params = this.context?.parameters;
+    return {
+      lat: params?.latitude?.raw ?? undefined,
+      lon: params?.longitude?.raw ?? undefined,
+    };
+  }
+
+  /**
+   * Gets the Azure Maps credential configured in `AzureMapServiceConfigs.Authentication`.
+   *
+   * The credential is created on first use so that its token cache is shared by
+   * the search provider and the map control.
+   *
+   * @returns The credential, or undefined if neither a token source nor a subscription key is configured.
+   *
+   * @example
+   * ```typescript
+   * const credential = pcfService.getCredential();
+   * const headers = await credential?.getAuthHeaders();
+   * ```
+   *
+   * @public
+   */
+  public getCredential(): AzureMapsCredential | undefined {
+    if (this.credential === undefined) {
+      this.credential =
+        createAzureMapsCredential(
+          this.additionalParamsConfig?.AzureMapServiceConfigs?.Authentication,
+          this.subscriptionKey,
+          this.context
+        ) ?? null;
+    }
+    return this.credential ?? undefined;
+  }
+
+  /**
+   * Gets the lookup of countries in the configured country table.
+   *
+   * The service is created on first use and configured by `CountriesConfig.CountryTable`.
+   *
+   * @returns The service, or undefined if no country table is configured.
+   *
+   * @example
+   * ```typescript
+   * const country = await pcfService.getCountryService()?.getCountryByIso2("CH");
+   * ```
+   *
+   * @public
+   */
+  public getCountryService(): CountryService | undefined {
+    if (this.countryService === undefined) {
+      const config = this.additionalParamsConfig?.CountriesConfig?.CountryTable;
+      this.countryService =
+        config?.TableName && config.CountryNameField && config.CountryISO2Field && config.CountryISO3Field && this.context
+          ? new CountryService({ context: this.context, config })
+          : null;
+    }
+    return this.countryService ?? undefined;
+  }
+
+  /**
+   * Retrieves a country by ISO2 code from the configured country table.
    * 
    * @param iso2Code - The ISO 3166-1 alpha-2 country code.
-   * @returns Promise resolving to the country entity, or undefined if not found.
+   * @returns Promise resolving to the country, or undefined if not found or no country table is configured.
    * 
    * @public
    */
-  public async getCountryByIso2(iso2Code: string): Promise<ComponentFramework.WebApi.Entity | undefined> {
-    // Lazy-initialize country service only when needed (i.e., when country field is Lookup.Simple)
-    if (!this.countryService) {
-      this.countryService = new CountryService({ context: this.context });
-    }
-     
-    return await this.countryService.getCountryByIso2(iso2Code);
+  public async getCountryByIso2(iso2Code: string): Promise<CountryLookup | undefined> {
+    return await this.getCountryService()?.getCountryByIso2(iso2Code);
   }
 
   /**
-   * Retrieves a country by ISO3 code.
+   * Retrieves a country by ISO3 code from the configured country table.
    * 
    * @param iso3Code - The ISO 3166-1 alpha-3 country code.
-   * @returns Promise resolving to the country entity, or undefined if not found.
+   * @returns Promise resolving to the country, or undefined if not found or no country table is configured.
    * 
    * @public
    */
-  public async getCountryByIso3(iso3Code: string): Promise<ComponentFramework.WebApi.Entity | undefined> {
-    // Lazy-initialize country service only when needed (i.e., when country field is Lookup.Simple)
-    if (!this.countryService) {
-      this.countryService = new CountryService({ context: this.context });
-    }
-     
-    return await this.countryService.getCountryByIso3(iso3Code);
+  public async getCountryByIso3(iso3Code: string): Promise<CountryLookup | undefined> {
+    return await this.getCountryService()?.getCountryByIso3(iso3Code);
   }
 }
 
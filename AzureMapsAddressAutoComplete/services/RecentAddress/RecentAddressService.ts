@@ -0,0 +1,181 @@
+// AzureMapsAddressAutoComplete\services\RecentAddress\RecentAddressService.ts
+import type { AzureMapsSearchResult } from "../AzureMap/azureMapsService";
+
+/**
+ * Number of recently selected addresses kept when no maximum is configured.
+ */
+export const DEFAULT_MAX_RECENT_ADDRESSES = 5;
+
+/**
+ * Prefix of the localStorage key; the user ID is appended so users sharing a browser don't share addresses.
+ */
+const LOCAL_STORAGE_KEY_PREFIX = "AzureMapsAddressAutoComplete.recentAddresses.";
+
+export interface IRecentAddressServiceProps {
+  /** The ID of the user whose addresses are stored. */
+  userId: string;
+  /** Number of recently selected addresses to keep. Defaults to 5. */
+  maxItems?: number;
+}
+
+/**
+ * Stored recent and favorite addresses of a user.
+ */
+export interface IRecentAddressList {
+  /** Pinned addresses, in the order they were pinned. */
+  favorites: AzureMapsSearchResult[];
+  /** Recently selected addresses that are not favorites, most recent first. */
+  recent: AzureMapsSearchResult[];
+}
+
+/**
+ * Builds the key that identifies a stored address.
+ *
+ * @param result - The search result.
+ * @returns The result ID, or the freeform address for results without an ID.
+ *
+ * @public
+ */
+export function getRecentAddressKey(result: AzureMapsSearchResult): string {
+  return result.id || result.address.freeformAddress;
+}
+
+/**
+ * Stores the addresses a user selected recently and the addresses they pinned as favorites.
+ *
+ * @remarks
+ * The lists are kept in localStorage so they survive page reloads. When localStorage
+ * is unavailable (e.g., disabled by browser policy) the lists are empty.
+ */
+export class RecentAddressService {
+  private readonly storageKey: string;
+  private readonly maxItems: number;
+
+  constructor(props: IRecentAddressServiceProps) {
+    this.storageKey = `${LOCAL_STORAGE_KEY_PREFIX}${props.userId}`;
+    this.maxItems =
+      typeof props.maxItems === "number" && props.maxItems >= 0
+        ? Math.floor(props.maxItems)
+        : DEFAULT_MAX_RECENT_ADDRESSES;
+  }
+
+  /**
+   * Gets the stored favorite and recent addresses.
+   *
+   * @returns The favorites and the recent addresses that are not favorites.
+   *
+   * @example
+   * ```typescript
+   * const { favorites, recent } = recentAddressService.getAddresses();
+   * const suggestions = [...favorites, ...recent];
+   * ```
+   *
+   * @public
+   */
+  public getAddresses(): IRecentAddressList {
+    const stored = this.load();
+    const favoriteKeys = new Set(stored.favorites.map(getRecentAddressKey));
+    return {
+      favorites: stored.favorites,
+      recent: stored.recent.filter((result) => !favoriteKeys.has(getRecentAddressKey(result))),
+    };
+  }
+
+  /**
+   * Records a selected address as the most recent one.
+   * The oldest addresses are dropped once the maximum is exceeded.
+   *
+   * @param result - The selected search result.
+   *
+   * @public
+   */
+  public addRecent(result: AzureMapsSearchResult): void {
+    if (this.maxItems === 0) {
+      return;
+    }
+    const stored = this.load();
+    const key = getRecentAddressKey(result);
+    stored.recent = [result, ...stored.recent.filter((item) => getRecentAddressKey(item) !== key)].slice(
+      0,
+      this.maxItems
+    );
+    this.save(stored);
+  }
+
+  /**
+   * Checks whether an address is pinned as a favorite.
+   *
+   * @param result - The search result.
+   * @returns True if the address is a favorite.
+   *
+   * @public
+   */
+  public isFavorite(result: AzureMapsSearchResult): boolean {
+    const key = getRecentAddressKey(result);
+    return this.load().favorites.some((item) => getRecentAddressKey(item) === key);
+  }
+
+  /**
+   * Pins an address as a favorite, or unpins it if it already is one.
+   *
+   * @param result - The search result.
+   * @returns True if the address is a favorite afterwards.
+   *
+   * @public
+   */
+  public toggleFavorite(result: AzureMapsSearchResult): boolean {
+    const stored = this.load();
+    const key = getRecentAddressKey(result);
+    const isFavorite = stored.favorites.some((item) => getRecentAddressKey(item) === key);
+    stored.favorites = isFavorite
+      ? stored.favorites.filter((item) => getRecentAddressKey(item) !== key)
+      : [...stored.favorites, result];
+    this.save(stored);
+    return !isFavorite;
+  }
+
+  /**
+   * Removes all recent and favorite addresses of the user.
+   *
+   * @public
+   */
+  public clear(): void {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // localStorage unavailable (e.g., disabled by browser policy)
+    }
+  }
+
+  /**
+   * Reads the stored lists, ignoring missing or corrupt data.
+   */
+  private load(): IRecentAddressList {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) {
+        return { favorites: [], recent: [] };
+      }
+      const parsed = JSON.parse(stored) as Partial<IRecentAddressList>;
+      return {
+        favorites: Array.isArray(parsed.favorites) ? parsed.favorites : [],
+        recent: Array.isArray(parsed.recent) ? parsed.recent : [],
+      };
+    } catch (error) {
+      console.warn("RecentAddressService: Could not load recent addresses:", error);
+      return { favorites: [], recent: [] };
+    }
+  }
+
+  /**
+   * Writes the lists to localStorage.
+   */
+  private save(list: IRecentAddressList): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(list));
+    } catch (error) {
+      // Quota exceeded or storage unavailable - the address is not remembered
+      console.warn("RecentAddressService: Could not store recent addresses:", error);
+    }
+  }
+}
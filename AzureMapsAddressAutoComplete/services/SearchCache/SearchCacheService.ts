@@ -0,0 +1,358 @@
+// AzureMapsAddressAutoComplete\services\SearchCache\SearchCacheService.ts
+import type { AzureMapsSearchResult } from "../AzureMap/azureMapsService";
+import type {
+  AddressSearchProvider,
+  AddressSearchRequest,
+} from "../SearchProvider/SearchProvider";
+
+/**
+ * The kind of search a cache entry belongs to.
+ */
+export type SearchCacheKind = "address" | "municipality" | "postalcodes" | "reverse";
+
+/**
+ * Cache entry for search results with expiration.
+ */
+interface CacheEntry {
+  data: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Cache expiration time in milliseconds (5 minutes).
+ */
+const CACHE_EXPIRATION_MS = 5 * 60 * 1000;
+
+/**
+ * Maximum number of searches to cache (prevents memory leaks).
+ */
+const MAX_CACHE_SIZE = 100;
+
+/**
+ * sessionStorage key under which the cache is persisted.
+ */
+const SESSION_STORAGE_KEY = "AzureMapsAddressAutoComplete.searchCache";
+
+/**
+ * Static cache for search results shared by all controls on the page.
+ * Map insertion order is the LRU order: the first key is the least recently used.
+ */
+const searchCache = new Map<string, CacheEntry>();
+
+/**
+ * Hit and miss counters since the last reset.
+ */
+const cacheStats = { hits: 0, misses: 0 };
+
+/**
+ * Whether the persisted cache has been loaded into memory.
+ */
+let sessionCacheLoaded = false;
+
+export interface ISearchCacheServiceProps {
+  /** Whether to persist the cache in sessionStorage so other forms in the session share results. */
+  persistInSessionStorage?: boolean;
+}
+
+export interface ISearchCacheStats {
+  /** Number of searches answered from the cache. */
+  hits: number;
+  /** Number of searches that called the search provider. */
+  misses: number;
+  /** Number of cached searches. */
+  size: number;
+}
+
+/**
+ * Parts of a search that identify a cache entry.
+ */
+export interface ISearchCacheKey {
+  /** ID of the search provider; the cache is shared across forms that may use different providers. */
+  providerId?: string;
+  query: string;
+  countrySet?: string;
+  language?: string;
+  lat?: number;
+  lon?: number;
+  radius?: number;
+  limit?: number;
+}
+
+export class SearchCacheService {
+  private readonly persistInSessionStorage: boolean;
+
+  constructor(props?: ISearchCacheServiceProps) {
+    this.persistInSessionStorage = props?.persistInSessionStorage === true;
+    if (this.persistInSessionStorage) {
+      SearchCacheService.loadFromSessionStorage();
+    }
+  }
+
+  /**
+   * Builds the cache key for a search.
+   *
+   * @param kind - The kind of search.
+   * @param key - The search parameters.
+   * @returns The cache key.
+   *
+   * @public
+   */
+  public static buildKey(kind: SearchCacheKind, key: ISearchCacheKey): string {
+    const position =
+      key.lat !== undefined && key.lon !== undefined
+        ? `${key.lat},${key.lon},${key.radius ?? ""}`
+        : "";
+    return [
+      kind,
+      key.providerId ?? "",
+      key.query.trim().toLowerCase(),
+      (key.countrySet ?? "").toUpperCase(),
+      key.language ?? "",
+      position,
+      key.limit ?? "",
+    ].join("|");
+  }
+
+  /**
+   * Returns cached results for a search, or fetches and caches them.
+   *
+   * @param kind - The kind of search.
+   * @param key - The search parameters.
+   * @param fetcher - Fetches the results on a cache miss.
+   * @param signal - Signal of the search; results of aborted searches are not cached.
+   * @returns Promise with the cached or fetched results.
+   *
+   * @remarks
+   * Results are cached for 5 minutes. Failed and aborted searches are not cached.
+   *
+   * @example
+   * ```typescript
+   * const results = await cache.getOrFetch('address', { query: 'Bahnhofstrasse' }, () =>
+   *   provider.searchAddress({ query: 'Bahnhofstrasse' })
+   * );
+   * ```
+   *
+   * @public
+   */
+  public async getOrFetch<T>(
+    kind: SearchCacheKind,
+    key: ISearchCacheKey,
+    fetcher: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const cacheKey = SearchCacheService.buildKey(kind, key);
+
+    const cached = this.getFromCache<T>(cacheKey);
+    if (cached !== null) {
+      cacheStats.hits++;
+      return cached;
+    }
+
+    cacheStats.misses++;
+    const data = await fetcher();
+    // Providers may swallow abort errors and return partial results
+    if (!signal?.aborted) {
+      this.setCache(cacheKey, data);
+    }
+    return data;
+  }
+
+  /**
+   * Gets the cache hit and miss counters.
+   *
+   * @returns The cache statistics.
+   *
+   * @public
+   */
+  public static getStats(): ISearchCacheStats {
+    return { ...cacheStats, size: searchCache.size };
+  }
+
+  /**
+   * Resets the cache hit and miss counters.
+   *
+   * @public
+   */
+  public static resetStats(): void {
+    cacheStats.hits = 0;
+    cacheStats.misses = 0;
+  }
+
+  /**
+   * Clears the in-memory and persisted search cache.
+   *
+   * @public
+   */
+  public static clearCache(): void {
+    searchCache.clear();
+    sessionCacheLoaded = false;
+    try {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {
+      // sessionStorage unavailable (e.g., disabled by browser policy)
+    }
+  }
+
+  /**
+   * Gets cached results if available and not expired.
+   * Marks the entry as most recently used.
+   */
+  private getFromCache<T>(cacheKey: string): T | null {
+    const entry = searchCache.get(cacheKey);
+    if (!entry) {
+      return null;
+    }
+    searchCache.delete(cacheKey);
+    if (Date.now() >= entry.expiresAt) {
+      this.saveToSessionStorage();
+      return null;
+    }
+    // Re-insert to move the entry to the most recently used position
+    searchCache.set(cacheKey, entry);
+    return entry.data as T;
+  }
+
+  /**
+   * Stores results in cache with expiration.
+   * Implements LRU eviction when cache reaches maximum size.
+   */
+  private setCache(cacheKey: string, data: unknown): void {
+    searchCache.delete(cacheKey);
+
+    // Evict least recently used entry if at max capacity (LRU)
+    if (searchCache.size >= MAX_CACHE_SIZE) {
+      const firstKey = searchCache.keys().next().value;
+      if (firstKey) {
+        searchCache.delete(firstKey);
+      }
+    }
+
+    searchCache.set(cacheKey, {
+      data,
+      expiresAt: Date.now() + CACHE_EXPIRATION_MS,
+    });
+    this.saveToSessionStorage();
+  }
+
+  /**
+   * Writes the cache to sessionStorage when persistence is enabled.
+   */
+  private saveToSessionStorage(): void {
+    if (!this.persistInSessionStorage) {
+      return;
+    }
+    try {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify([...searchCache]));
+    } catch (error) {
+      // Quota exceeded or storage unavailable - keep the in-memory cache only
+      console.warn("SearchCacheService: Could not persist search cache:", error);
+    }
+  }
+
+  /**
+   * Loads unexpired entries persisted by other controls in this session.
+   */
+  private static loadFromSessionStorage(): void {
+    if (sessionCacheLoaded) {
+      return;
+    }
+    sessionCacheLoaded = true;
+
+    try {
+      const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+      const now = Date.now();
+      for (const [cacheKey, entry] of JSON.parse(stored) as [string, CacheEntry][]) {
+        if (entry.expiresAt > now && !searchCache.has(cacheKey)) {
+          searchCache.set(cacheKey, entry);
+        }
+      }
+      while (searchCache.size > MAX_CACHE_SIZE) {
+        const firstKey = searchCache.keys().next().value;
+        if (!firstKey) {
+          break;
+        }
+        searchCache.delete(firstKey);
+      }
+    } catch (error) {
+      console.warn("SearchCacheService: Could not load persisted search cache:", error);
+    }
+  }
+}
+
+/**
+ * Wraps a search provider so that repeated searches are answered from the cache.
+ *
+ * @param provider - The provider to wrap.
+ * @param cache - The cache service.
+ * @returns A provider with the same ID that caches results.
+ *
+ * @example
+ * ```typescript
+ * const cached = withSearchCache(provider, new SearchCacheService({ persistInSessionStorage: true }));
+ * ```
+ *
+ * @public
+ */
+export function withSearchCache(
+  provider: AddressSearchProvider,
+  cache: SearchCacheService
+): AddressSearchProvider {
+  const toKey = (request: AddressSearchRequest): ISearchCacheKey => ({
+    providerId: provider.id,
+    query: request.query,
+    countrySet: request.countrySet,
+    language: request.language,
+    lat: request.lat,
+    lon: request.lon,
+    radius: request.radius,
+    limit: request.limit,
+  });
+
+  return {
+    id: provider.id,
+    searchAddress: (request) =>
+      cache.getOrFetch<AzureMapsSearchResult[]>(
+        "address",
+        toKey(request),
+        () => provider.searchAddress(request),
+        request.signal
+      ),
+    searchMunicipalities: (request) =>
+      cache.getOrFetch<AzureMapsSearchResult[]>(
+        "municipality",
+        toKey(request),
+        () => provider.searchMunicipalities(request),
+        request.signal
+      ),
+    fetchPostalCodesForMunicipality: (municipalityName, countryCode, position, language, signal) =>
+      cache.getOrFetch<string[]>(
+        "postalcodes",
+        {
+          providerId: provider.id,
+          query: municipalityName,
+          countrySet: countryCode,
+          language,
+          lat: position.lat,
+          lon: position.lon,
+        },
+        () => provider.fetchPostalCodesForMunicipality(municipalityName, countryCode, position, language, signal),
+        signal
+      ),
+    reverseGeocode: provider.reverseGeocode
+      ? (request) =>
+          cache.getOrFetch<AzureMapsSearchResult | undefined>(
+            "reverse",
+            { providerId: provider.id, query: "", language: request.language, lat: request.lat, lon: request.lon },
+            () => provider.reverseGeocode?.(request) ?? Promise.resolve(undefined),
+            request.signal
+          )
+      : undefined,
+    // Structured lookups follow manual edits and are rarely repeated, so they are not cached
+    searchAddressStructured: provider.searchAddressStructured
+      ? (request) => provider.searchAddressStructured?.(request) ?? Promise.resolve([])
+      : undefined,
+  };
+}
@@ -0,0 +1,220 @@
+// AzureMapsAddressAutoComplete\services\SearchProvider\SearchProvider.ts
+import type {
+  AzureMapsSearchResult,
+  AzureMapsSearchOptions,
+  AzureMapsReverseGeocodeOptions,
+  AzureMapsStructuredSearchOptions,
+} from "../AzureMap/azureMapsService";
+import type { AzureMapsCredential } from "../AzureMap/azureMapsCredential";
+import type { AzureMapsRetryPolicy } from "../AzureMap/azureMapsRetry";
+import {
+  AZURE_MAPS_SEARCH_V1_PROVIDER_ID,
+  AZURE_MAPS_GEOCODING_V2_PROVIDER_ID,
+  createAzureMapsSearchProvider,
+  createAzureMapsGeocodingProvider,
+} from "../AzureMap/azureMapsSearchProvider";
+
+/**
+ * Search request passed to an {@link AddressSearchProvider}.
+ * Credentials and the retry policy are supplied when the provider is created, not per request.
+ * Providers should honor `signal` so superseded searches stop early.
+ *
+ * @public
+ */
+export type AddressSearchRequest = Omit<
+  AzureMapsSearchOptions,
+  "subscriptionKey" | "credential" | "retry" | "entityType" | "extendedPostalCodesFor"
+>;
+
+/**
+ * Reverse geocoding request passed to {@link AddressSearchProvider.reverseGeocode}.
+ *
+ * @public
+ */
+export type ReverseGeocodeRequest = Omit<
+  AzureMapsReverseGeocodeOptions,
+  "subscriptionKey" | "credential" | "retry"
+>;
+
+/**
+ * Structured address request passed to {@link AddressSearchProvider.searchAddressStructured}.
+ *
+ * @public
+ */
+export type StructuredAddressRequest = Omit<
+  AzureMapsStructuredSearchOptions,
+  "subscriptionKey" | "credential" | "retry"
+>;
+
+/**
+ * A source of address suggestions consumed by `useAddressSearch`.
+ *
+ * @remarks
+ * Providers return results in the {@link AzureMapsSearchResult} shape so that
+ * result processing, the dropdown and `extractAddressFields` in `index.ts`
+ * work unchanged regardless of where the data comes from.
+ *
+ * @public
+ */
+export interface AddressSearchProvider {
+  /** The identifier the provider was registered under. */
+  readonly id: string;
+  /**
+   * Searches for addresses matching a free-form query.
+   *
+   * @param request - The search request.
+   * @returns Promise resolving to matching results.
+   */
+  searchAddress(request: AddressSearchRequest): Promise<AzureMapsSearchResult[]>;
+  /**
+   * Searches for municipalities (cities, towns) matching a query.
+   *
+   * @param request - The search request.
+   * @returns Promise resolving to municipality results.
+   */
+  searchMunicipalities(request: AddressSearchRequest): Promise<AzureMapsSearchResult[]>;
+  /**
+   * Fetches the postal codes that belong to a municipality.
+   *
+   * @param municipalityName - The name of the municipality.
+   * @param countryCode - The ISO 3166-1 alpha-2 country code.
+   * @param position - The center position of the municipality.
+   * @param language - The language code for results.
+   * @param signal - Signal that aborts the lookup.
+   * @returns Promise resolving to an array of unique postal codes.
+   */
+  fetchPostalCodesForMunicipality(
+    municipalityName: string,
+    countryCode: string,
+    position: { lat: number; lon: number },
+    language?: string,
+    signal?: AbortSignal
+  ): Promise<string[]>;
+  /**
+   * Finds the address nearest to a location, e.g. a point picked on the map.
+   * Optional; the map's "pick on map" mode is available only when implemented.
+   *
+   * @param request - The location and language.
+   * @returns Promise resolving to the nearest address, or undefined if none was found.
+   */
+  reverseGeocode?(request: ReverseGeocodeRequest): Promise<AzureMapsSearchResult | undefined>;
+  /**
+   * Geocodes an address given in separate parts, e.g. an address corrected by hand.
+   * Optional; refreshing the coordinates of an edited address is available only when implemented.
+   *
+   * @param request - The address parts and language.
+   * @returns Promise resolving to matching results, best match first.
+   */
+  searchAddressStructured?(request: StructuredAddressRequest): Promise<AzureMapsSearchResult[]>;
+}
+
+/**
+ * Values available to a provider factory when the provider is created.
+ *
+ * @public
+ */
+export interface SearchProviderFactoryContext {
+  /** Azure Maps subscription key from the control configuration. */
+  subscriptionKey: string;
+  /** Azure Maps credential from `AzureMapServiceConfigs.Authentication`, if configured. */
+  credential?: AzureMapsCredential;
+  /** Retry policy from `AzureMapServiceConfigs.Retry`. */
+  retry?: AzureMapsRetryPolicy;
+  /** Provider-specific settings from `SearchProviderConfig.Settings`. */
+  settings?: Record<string, unknown>;
+}
+
+/**
+ * Creates a search provider.
+ * Returns `undefined` when the provider cannot operate with the given context
+ * (for example, when required credentials are missing).
+ *
+ * @public
+ */
+export type SearchProviderFactory = (
+  context: SearchProviderFactoryContext
+) => AddressSearchProvider | undefined;
+
+/**
+ * The provider used when no provider is configured.
+ */
+export const DEFAULT_SEARCH_PROVIDER_ID = AZURE_MAPS_SEARCH_V1_PROVIDER_ID;
+
+/**
+ * Registered provider factories keyed by provider ID.
+ */
+const providerFactories = new Map<string, SearchProviderFactory>([
+  [AZURE_MAPS_SEARCH_V1_PROVIDER_ID, createAzureMapsSearchProvider],
+  [AZURE_MAPS_GEOCODING_V2_PROVIDER_ID, createAzureMapsGeocodingProvider],
+]);
+
+/**
+ * Registers a search provider factory.
+ * Registering an ID that already exists replaces the previous factory.
+ *
+ * @param id - The provider ID referenced from `SearchProviderConfig.Provider`.
+ * @param factory - The factory that creates the provider.
+ *
+ * @example
+ * ```ts
+ * registerSearchProvider('company-addresses', ({ settings }) =>
+ *   new CompanyAddressProvider(settings)
+ * );
+ * ```
+ *
+ * @public
+ */
+export function registerSearchProvider(id: string, factory: SearchProviderFactory): void {
+  providerFactories.set(id, factory);
+}
+
+/**
+ * Removes a registered search provider factory.
+ * The default provider cannot be removed.
+ *
+ * @param id - The provider ID to remove.
+ * @returns True if a factory was removed.
+ *
+ * @public
+ */
+export function unregisterSearchProvider(id: string): boolean {
+  if (id === DEFAULT_SEARCH_PROVIDER_ID) {
+    return false;
+  }
+  return providerFactories.delete(id);
+}
+
+/**
+ * Gets the IDs of all registered search providers.
+ *
+ * @returns The registered provider IDs.
+ *
+ * @public
+ */
+export function getSearchProviderIds(): string[] {
+  return [...providerFactories.keys()];
+}
+
+/**
+ * Creates the search provider registered under the given ID.
+ * Falls back to the default Azure Maps provider when the ID is empty or unknown.
+ *
+ * @param id - The provider ID, typically from `SearchProviderConfig.Provider`.
+ * @param context - Values passed to the provider factory.
+ * @returns The provider, or undefined if it cannot operate with the given context.
+ *
+ * @public
+ */
+export function createSearchProvider(
+  id: string | undefined,
+  context: SearchProviderFactoryContext
+): AddressSearchProvider | undefined {
+  let factory = id ? providerFactories.get(id) : undefined;
+  if (!factory) {
+    if (id) {
+      console.warn(`SearchProvider: Unknown provider '${id}', falling back to '${DEFAULT_SEARCH_PROVIDER_ID}'`);
+    }
+    factory = createAzureMapsSearchProvider;
+  }
+  return factory(context);
+}
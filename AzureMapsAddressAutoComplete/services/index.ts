@@ -9,6 +9,10 @@ export {
     searchMunicipalities,
     searchNearby,
     fetchPostalCodesForMunicipality,
+    reverseGeocode,
+    searchAddressStructured,
+    searchAddressBatch,
+    MAX_BATCH_QUERIES,
     normalizeResults,
     createPostalCodeResult,
     AzureMapsApiError,
@@ -18,11 +22,134 @@ export type {
     AzureMapsSearchResult,
     AzureMapsSearchResponse,
     AzureMapsSearchOptions,
+    AzureMapsRequestOptions,
+    AzureMapsReverseGeocodeOptions,
+    AzureMapsStructuredSearchOptions,
+    AzureMapsBatchQuery,
+    AzureMapsBatchSearchOptions,
+    AzureMapsBatchItemResult,
     AzureMapsErrorResponse,
     AzureMapsErrorDetail,
     AzureMapsErrorAdditionalInfo,
 } from "./AzureMap/azureMapsService";
 
+// Azure Maps Geocoding Service (Search v2)
+export {
+    geocode,
+    geocodeAutocomplete,
+    geocodeMunicipalities,
+    geocodePostalCodesForMunicipality,
+    geocodeReverse,
+    mapGeocodingFeatureToSearchResult,
+} from "./AzureMap/azureMapsGeocodingService";
+export type { AzureMapsGeocodingOptions } from "./AzureMap/azureMapsGeocodingService";
+
+export {
+    createAzureMapsSearchProvider,
+    createAzureMapsGeocodingProvider,
+    AZURE_MAPS_SEARCH_V1_PROVIDER_ID,
+    AZURE_MAPS_GEOCODING_V2_PROVIDER_ID,
+} from "./AzureMap/azureMapsSearchProvider";
+
+// Azure Maps Credential
+export {
+    AzureMapsCredential,
+    createAzureMapsCredential,
+    createDataverseTokenProvider,
+    setAzureMapsTokenProvider,
+    getAzureMapsTokenProvider,
+    fetchWithCredential,
+} from "./AzureMap/azureMapsCredential";
+export type {
+    AzureMapsAuthType,
+    AzureMapsAccessToken,
+    AzureMapsTokenProvider,
+    AzureMapsCredentialOptions,
+} from "./AzureMap/azureMapsCredential";
+
+// Azure Maps Retry Policy
+export {
+    fetchWithRetry,
+    createRetryPolicy,
+    getRetryDelay,
+    parseRetryAfter,
+    DEFAULT_RETRY_POLICY,
+    RETRYABLE_STATUS_CODES,
+} from "./AzureMap/azureMapsRetry";
+export type {
+    AzureMapsRetryPolicy,
+    AzureMapsRetryInfo,
+    AzureMapsRetryOptions,
+} from "./AzureMap/azureMapsRetry";
+
+// Search Provider Registry
+export {
+    registerSearchProvider,
+    unregisterSearchProvider,
+    getSearchProviderIds,
+    createSearchProvider,
+    DEFAULT_SEARCH_PROVIDER_ID,
+} from "./SearchProvider/SearchProvider";
+export type {
+    AddressSearchProvider,
+    AddressSearchRequest,
+    ReverseGeocodeRequest,
+    StructuredAddressRequest,
+    SearchProviderFactory,
+    SearchProviderFactoryContext,
+} from "./SearchProvider/SearchProvider";
+
+// Search Cache Service
+export { SearchCacheService, withSearchCache } from "./SearchCache/SearchCacheService";
+export type {
+    ISearchCacheServiceProps,
+    ISearchCacheStats,
+    ISearchCacheKey,
+    SearchCacheKind,
+} from "./SearchCache/SearchCacheService";
+
+// Recent Address Service
+export {
+    RecentAddressService,
+    getRecentAddressKey,
+    DEFAULT_MAX_RECENT_ADDRESSES,
+} from "./RecentAddress/RecentAddressService";
+export type {
+    IRecentAddressServiceProps,
+    IRecentAddressList,
+} from "./RecentAddress/RecentAddressService";
+
+// Address Book Service
+export {
+    AddressBookService,
+    escapeODataString,
+    ADDRESS_BOOK_RESULT_TYPE,
+    DEFAULT_MAX_ADDRESS_BOOK_RESULTS,
+} from "./AddressBook/AddressBookService";
+export type { IAddressBookServiceProps } from "./AddressBook/AddressBookService";
+
+// Duplicate Address Service
+export {
+    DuplicateAddressService,
+    buildRecordFormUrl,
+    DEFAULT_DUPLICATE_RADIUS_METERS,
+    DEFAULT_MAX_DUPLICATES,
+} from "./DuplicateAddress/DuplicateAddressService";
+export type {
+    IDuplicateAddressServiceProps,
+    IDuplicateAddressRecord,
+} from "./DuplicateAddress/DuplicateAddressService";
+
+// Batch Geocoding Service
+export { BatchGeocodingService } from "./BatchGeocoding/BatchGeocodingService";
+export type {
+    IBatchGeocodingServiceProps,
+    IBatchGeocodingRow,
+    IBatchGeocodingError,
+    IBatchGeocodingOutcome,
+    BatchGeocodingFailureReason,
+} from "./BatchGeocoding/BatchGeocodingService";
+
 // PCF Context Service
 export { PcfContextService } from "./PcfContext/PcfContextService";
 export type { IPcfContextServiceProps } from "./PcfContext/PcfContextService";
@@ -40,12 +167,7 @@ export type {
 
 // Country Service
 export { CountryService } from "./Country/CountryService";
-export type {
-    ICountryServiceProps,
-    ICountryItem,
-    ICountryRetrieveResponse,
-    ICountryRetrieveMultipleResponse,
-} from "./Country/CountryService";
+export type { ICountryServiceProps } from "./Country/CountryService";
 
 // Metadata Service
 export { MetadataService } from "./Metadata/MetadataService";
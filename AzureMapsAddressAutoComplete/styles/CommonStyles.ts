@@ -54,6 +54,24 @@ export const useAzureMapsAddressAutoCompleteStyles = makeStyles({
       marginBottom: 0,
     },
   },
+  /** Suggestion item highlighted with the keyboard. */
+  suggestionItemActive: {
+    backgroundColor: tokens.colorNeutralBackground1Selected,
+    outline: `${tokens.strokeWidthThick} solid ${tokens.colorStrokeFocus2}`,
+    outlineOffset: `-${tokens.strokeWidthThick}`,
+  },
+  /** Content that is only announced by screen readers. */
+  visuallyHidden: {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    margin: '-1px',
+    padding: 0,
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+  },
   /** Suggestion icon styles. */
   suggestionIcon: {
     color: tokens.colorBrandForeground1,
@@ -71,6 +89,10 @@ export const useAzureMapsAddressAutoCompleteStyles = makeStyles({
     lineHeight: '20px',
     color: '#242424',
   },
+  /** Part of a suggestion that matches the search query. */
+  suggestionMatch: {
+    fontWeight: tokens.fontWeightBold,
+  },
   /** Suggestion content container for two-line layout. */
   suggestionContent: {
     display: 'flex',
@@ -96,6 +118,33 @@ export const useAzureMapsAddressAutoCompleteStyles = makeStyles({
     paddingLeft: tokens.spacingHorizontalS,
     paddingTop: tokens.spacingVerticalXXS,
   },
+  /** Validation failures of the selected address, shown when the host has no form notifications. */
+  validationError: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorPaletteRedForeground1,
+    paddingLeft: tokens.spacingHorizontalS,
+    paddingTop: tokens.spacingVerticalXXS,
+  },
+  /** Warning listing existing records with the selected address. */
+  duplicateWarning: {
+    width: '100%',
+    boxSizing: 'border-box',
+  },
+  /** List of duplicate records inside the warning. */
+  duplicateList: {
+    margin: 0,
+    paddingLeft: tokens.spacingHorizontalL,
+  },
+  /** Button that opens the bulk geocoding dialog. */
+  batchGeocodingButton: {
+    alignSelf: 'flex-start',
+  },
+  /** Progress and counts of the bulk geocoding job. */
+  batchGeocodingProgress: {
+    display: 'flex',
+    flexDirection: 'column',
+    rowGap: tokens.spacingVerticalS,
+  },
   /** Search icon styles for the input contentAfter slot. */
   searchIcon: {
     display: 'flex',
@@ -117,6 +166,25 @@ export const useAzureMapsAddressAutoCompleteStyles = makeStyles({
       color: '#0078d4',
     },
   },
+  /** Heading of the recent addresses section in the dropdown. */
+  sectionHeader: {
+    padding: `${tokens.spacingVerticalXS} ${tokens.spacingHorizontalM}`,
+    fontSize: '12px',
+    fontWeight: tokens.fontWeightSemibold,
+    lineHeight: '16px',
+    color: '#616161',
+  },
+  /** Favorite toggle button; filled when the address is a favorite. */
+  favoriteButton: {
+    color: '#616161',
+    ':hover': {
+      color: '#0078d4',
+    },
+  },
+  /** Favorite toggle button of a pinned address. */
+  favoriteButtonActive: {
+    color: '#0078d4',
+  },
 });
 
 /**
@@ -182,6 +250,31 @@ export const useAzureMapsPanelStyles = makeStyles({
     backgroundColor: tokens.colorNeutralBackground3,
     zIndex: 1,
   },
+  /** Pick on map toolbar styles. */
+  pickToolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS,
+    minHeight: '24px',
+  },
+  /** Pick on map status message styles. */
+  pickMessage: {
+    color: tokens.colorNeutralForeground2,
+    fontSize: tokens.fontSizeBase200,
+  },
+  /** Manual edit toolbar styles. */
+  editToolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS,
+    marginBottom: tokens.spacingVerticalS,
+  },
+  /** Manual edit status message styles. */
+  editMessage: {
+    color: tokens.colorNeutralForeground2,
+    fontSize: tokens.fontSizeBase200,
+  },
 });
 
 /**
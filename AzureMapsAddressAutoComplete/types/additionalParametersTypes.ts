@@ -5,6 +5,8 @@
  */
 
 import { PcfContextService } from '../services/PcfContext/PcfContextService';
+import type { AzureMapsAuthType } from '../services/AzureMap/azureMapsCredential';
+import { isSameCountry, resolveCountry } from '../utils/countryResolver';
 
 /**
  * Choice option for OptionSet field type.
@@ -43,8 +45,10 @@ export interface CountryLookup {
  * @public
  */
 export interface CountryTableConfig {
-  /** The logical name of the country table in Dataverse. */
+  /** The logical name of the country table in Dataverse; also the entity type of the written lookup. */
   TableName: string;
+  /** The logical name of the primary key column. Optional; `<TableName>id` by default. */
+  CountryIdField?: string;
   /** The logical name of the country name field. */
   CountryNameField: string;
   /** The logical name of the ISO2 code field. */
@@ -53,6 +57,17 @@ export interface CountryTableConfig {
   CountryISO3Field: string;
 }
 
+/**
+ * Value written to a country field of type SingleLine.Text.
+ * - `'Name'` - The country name of the search result
+ * - `'ISO2'` - The ISO 3166-1 alpha-2 code (e.g., 'DE')
+ * - `'ISO3'` - The ISO 3166-1 alpha-3 code (e.g., 'DEU')
+ * - `'LocalizedName'` - The country name in the user's language (e.g., 'Deutschland')
+ *
+ * @public
+ */
+export type CountryTextFormat = 'Name' | 'ISO2' | 'ISO3' | 'LocalizedName';
+
 /**
  * Countries configuration section.
  * Contains all country mapping data for different field types.
@@ -66,17 +81,611 @@ export interface CountriesConfig {
   Lookup: CountryLookup[];
   /** Configuration for country table WebAPI queries. */
   CountryTable: CountryTableConfig;
+  /** Value written to SingleLine.Text country fields. Optional; `'Name'` by default. */
+  TextFormat?: CountryTextFormat;
+}
+
+/**
+ * Azure Maps Search API version.
+ * - `'1.0'` - Search v1 (`/search/address`, `/search/fuzzy`)
+ * - `'2.0'` - Search v2 (`/geocode`, `/geocode:autocomplete`)
+ *
+ * @public
+ */
+export type AzureMapsSearchApiVersion = '1.0' | '2.0';
+
+/**
+ * Azure Maps authentication configuration.
+ * Replaces the subscription key with Microsoft Entra ID or SAS tokens.
+ *
+ * @example
+ * ```json
+ * "Authentication": {
+ *   "Type": "EntraId",
+ *   "ClientId": "00000000-0000-0000-0000-000000000000",
+ *   "TokenCustomApi": "aidevme_GetAzureMapsToken"
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface AzureMapsAuthenticationConfig {
+  /** The authentication mode. Defaults to `'SubscriptionKey'`. */
+  Type: AzureMapsAuthType;
+  /** Azure Maps account client ID sent as `x-ms-client-id` (EntraId only). */
+  ClientId?: string;
+  /**
+   * Unique name of an unbound Dataverse custom API that returns `Token` and
+   * optionally `ExpiresOn`. Used when no token provider is registered in code.
+   */
+  TokenCustomApi?: string;
+}
+
+/**
+ * Search result cache configuration.
+ *
+ * @public
+ */
+export interface SearchCacheConfig {
+  /** Whether repeated searches are answered from the cache. Defaults to `true`. */
+  Enabled?: boolean;
+  /** Whether the cache is shared with other forms through sessionStorage. Defaults to `false`. */
+  PersistInSessionStorage?: boolean;
+}
+
+/**
+ * Geocoding of existing records that have address fields but no coordinates,
+ * e.g. records created before the control was added to the form.
+ * The found coordinates and match score are written to the record, which makes the form dirty.
+ *
+ * @public
+ */
+export interface MissingCoordinatesConfig {
+  /** Whether the coordinates are looked up when such a record is opened. Defaults to `false`. */
+  Enabled?: boolean;
+}
+
+/**
+ * Retry settings for throttled (HTTP 429) and transient (HTTP 502, 503, 504) Azure Maps responses.
+ *
+ * @example
+ * ```json
+ * "Retry": {
+ *   "MaxAttempts": 3,
+ *   "BaseDelayMs": 500,
+ *   "MaxDelayMs": 8000
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface RetryPolicyConfig {
+  /** Maximum number of attempts, including the first request. Defaults to `3`; `1` disables retries. */
+  MaxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry. Defaults to `500`. */
+  BaseDelayMs?: number;
+  /** Maximum delay between attempts in milliseconds. Longer `Retry-After` values are not waited for. Defaults to `8000`. */
+  MaxDelayMs?: number;
+}
+
+/**
+ * Where the reference point for location-biased search comes from.
+ *
+ * - `Record` - The bound `latitude`/`longitude` values of the current record.
+ * - `UserLocation` - The current location of the browser (asks the user for permission).
+ * - `FixedPoint` - The configured `Latitude`/`Longitude`, e.g., the center of a sales territory.
+ *
+ * @public
+ */
+export type LocationBiasSource = 'Record' | 'UserLocation' | 'FixedPoint';
+
+/**
+ * Location bias settings. Address suggestions near the reference point are ranked first.
+ *
+ * @example
+ * ```json
+ * "LocationBias": {
+ *   "Enabled": true,
+ *   "Sources": ["Record", "FixedPoint"],
+ *   "Latitude": 48.7758,
+ *   "Longitude": 9.1829
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface LocationBiasConfig {
+  /** Whether address searches are biased. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /**
+   * Sources of the reference point in order of preference; the first one that
+   * yields a point is used. Defaults to `["Record", "FixedPoint"]`.
+   */
+  Sources?: LocationBiasSource[];
+  /** Latitude of the fixed reference point. */
+  Latitude?: number;
+  /** Longitude of the fixed reference point. */
+  Longitude?: number;
+  /**
+   * Radius in meters that restricts results to the area around the reference point.
+   * Without a radius results are only ranked by distance. Search v2 ignores the radius.
+   */
+  Radius?: number;
+}
+
+/**
+ * Recent and favorite address settings.
+ * Selected addresses are stored per user in the browser's localStorage and
+ * offered in a "Recent" section when the input is focused and empty.
+ *
+ * @example
+ * ```json
+ * "RecentAddresses": {
+ *   "Enabled": true,
+ *   "MaxItems": 5
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface RecentAddressesConfig {
+  /** Whether recent and favorite addresses are stored and offered. Defaults to `true`. */
+  Enabled?: boolean;
+  /** Number of recently selected addresses to keep, in addition to the favorites. Defaults to `5`. */
+  MaxItems?: number;
 }
 
 /**
  * Azure Maps service configuration.
- * Reserved for future Azure Maps API configuration options.
+ *
+ * @example
+ * ```json
+ * "AzureMapServiceConfigs": {
+ *   "SearchApiVersion": "2.0"
+ * }
+ * ```
  *
  * @public
  */
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface AzureMapServiceConfigs {
-  // Reserved for future configuration properties
+  /**
+   * The Search API version used for address suggestions. Defaults to `'1.0'`.
+   * Ignored when `SearchProviderConfig.Provider` selects a provider explicitly.
+   */
+  SearchApiVersion?: AzureMapsSearchApiVersion;
+  /** Authentication settings. When omitted, the `subscriptionKey` property is used. */
+  Authentication?: AzureMapsAuthenticationConfig;
+  /** Search result cache settings. The in-memory cache is enabled by default. */
+  SearchCache?: SearchCacheConfig;
+  /** Retry settings for throttled and transient failures. Retries are enabled by default. */
+  Retry?: RetryPolicyConfig;
+  /** Location bias settings for address searches. Searches are not biased by default. */
+  LocationBias?: LocationBiasConfig;
+  /** Recent and favorite address settings. Enabled by default. */
+  RecentAddresses?: RecentAddressesConfig;
+  /** Geocoding of records without coordinates through the structured address search. Off by default. */
+  GeocodeMissingCoordinates?: MissingCoordinatesConfig;
+}
+
+/**
+ * Search provider configuration.
+ * Selects which registered search provider supplies address suggestions.
+ *
+ * @example
+ * ```json
+ * "SearchProviderConfig": {
+ *   "Provider": "azure-maps-search-v1",
+ *   "Settings": {}
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface SearchProviderConfig {
+  /** The ID of a registered search provider. Defaults to `azure-maps-search-v1`. */
+  Provider?: string;
+  /** Provider-specific settings passed to the provider factory. */
+  Settings?: Record<string, unknown>;
+}
+
+/**
+ * Columns of an address book table mapped to the address fields of the control.
+ * Each value is the logical name of a column; unmapped fields stay empty.
+ *
+ * @public
+ */
+export interface AddressBookColumns {
+  /** Street, or street name when `StreetNumber` is mapped as well. */
+  Street?: string;
+  /** House number. */
+  StreetNumber?: string;
+  /** Postal code. */
+  PostalCode?: string;
+  /** City. */
+  City?: string;
+  /** County or district. */
+  County?: string;
+  /** State or province name. */
+  StateProvince?: string;
+  /** State or province code. */
+  StateProvinceCode?: string;
+  /** Country name. */
+  Country?: string;
+  /** ISO 3166-1 alpha-2 country code. */
+  CountryISO2?: string;
+  /** ISO 3166-1 alpha-3 country code. */
+  CountryISO3?: string;
+  /** Latitude. */
+  Latitude?: string;
+  /** Longitude. */
+  Longitude?: string;
+}
+
+/**
+ * Company address book configuration.
+ * Matching rows of a Dataverse table are suggested before the Azure Maps results.
+ *
+ * @example
+ * ```json
+ * "AddressBookConfig": {
+ *   "TableName": "account",
+ *   "NameColumn": "name",
+ *   "SearchColumns": ["name", "address1_line1", "address1_city"],
+ *   "Filter": "statecode eq 0 and address1_line1 ne null",
+ *   "Columns": {
+ *     "Street": "address1_line1",
+ *     "PostalCode": "address1_postalcode",
+ *     "City": "address1_city",
+ *     "Country": "address1_country",
+ *     "Latitude": "address1_latitude",
+ *     "Longitude": "address1_longitude"
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface AddressBookConfig {
+  /** Whether the address book is searched. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /** The logical name of the table (e.g., `account`). */
+  TableName: string;
+  /** The logical name of the primary key column. Defaults to `<TableName>id`. */
+  IdColumn?: string;
+  /** The logical name of the column shown as the name of an entry (e.g., the account name). */
+  NameColumn?: string;
+  /** Columns that are searched; every word of the query must occur in one of them. */
+  SearchColumns: string[];
+  /** Additional OData filter expression, combined with the search using `and`. */
+  Filter?: string;
+  /** Maximum number of entries suggested. Defaults to `5`. */
+  MaxResults?: number;
+  /** Mapping of the table columns to the address fields. */
+  Columns: AddressBookColumns;
+}
+
+/**
+ * Columns of the table checked for duplicate addresses.
+ * Each value is the logical name of a column.
+ *
+ * @public
+ */
+export interface DuplicateDetectionColumns {
+  /** Street including the house number. */
+  Street?: string;
+  /** Postal code. */
+  PostalCode?: string;
+  /** Country name. Ignored when `CountryISO2` is mapped. */
+  Country?: string;
+  /** ISO 3166-1 alpha-2 country code. */
+  CountryISO2?: string;
+  /** Latitude. */
+  Latitude?: string;
+  /** Longitude. */
+  Longitude?: string;
+}
+
+/**
+ * Duplicate address detection configuration.
+ * After an address is selected, existing rows with the same address are listed in a warning.
+ *
+ * @remarks
+ * A row is a duplicate if its normalized street, postal code and country equal the
+ * selected address, or if its coordinates are within `RadiusMeters` of the selected position.
+ * The current record is never reported.
+ *
+ * @example
+ * ```json
+ * "DuplicateDetectionConfig": {
+ *   "TableName": "account",
+ *   "NameColumn": "name",
+ *   "Filter": "statecode eq 0",
+ *   "RadiusMeters": 25,
+ *   "Columns": {
+ *     "Street": "address1_line1",
+ *     "PostalCode": "address1_postalcode",
+ *     "Country": "address1_country",
+ *     "Latitude": "address1_latitude",
+ *     "Longitude": "address1_longitude"
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface DuplicateDetectionConfig {
+  /** Whether selected addresses are checked. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /** The logical name of the table (e.g., `account`). */
+  TableName: string;
+  /** The logical name of the primary key column. Defaults to `<TableName>id`. */
+  IdColumn?: string;
+  /** The logical name of the column shown as the name of a duplicate (e.g., the account name). */
+  NameColumn?: string;
+  /** Additional OData filter expression, combined with the check using `and`. */
+  Filter?: string;
+  /** Maximum distance in meters at which coordinates count as the same address. Defaults to `50`; `0` disables the coordinate check. */
+  RadiusMeters?: number;
+  /** Maximum number of duplicates listed. Defaults to `5`. */
+  MaxResults?: number;
+  /** Mapping of the table columns to the compared address fields. */
+  Columns: DuplicateDetectionColumns;
+}
+
+/**
+ * Address parts that validation can require.
+ *
+ * @public
+ */
+export type AddressComponentName =
+  | "Street"
+  | "StreetNumber"
+  | "PostalCode"
+  | "City"
+  | "StateProvince"
+  | "Country";
+
+/**
+ * Address validation configuration.
+ * Selected addresses that fail a rule are reported through a form notification
+ * and the bound `validationStatus` output.
+ *
+ * @example
+ * ```json
+ * "ValidationConfig": {
+ *   "MinScore": 0.5,
+ *   "AllowedEntityTypes": ["Point Address", "Address Range"],
+ *   "RequiredComponents": {
+ *     "*": ["Street", "City"],
+ *     "DE": ["Street", "StreetNumber", "PostalCode", "City"],
+ *     "GB": ["PostalCode"]
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface ValidationConfig {
+  /** Whether selected addresses are validated. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /**
+   * Minimum relative score of a search result.
+   * Results without a score (e.g., address book entries) pass.
+   */
+  MinScore?: number;
+  /**
+   * Accepted result types, matched against the `entityType` of geography results
+   * (e.g., `Municipality`) and the result `type` otherwise (e.g., `Point Address`).
+   * All types are accepted when omitted. Address book entries are always accepted.
+   */
+  AllowedEntityTypes?: string[];
+  /**
+   * Required address parts per ISO 3166-1 alpha-2 country code.
+   * The `*` entry applies to countries without an entry of their own.
+   */
+  RequiredComponents?: Record<string, AddressComponentName[]>;
+}
+
+/**
+ * Bound text outputs that are filled from a selected address.
+ *
+ * @public
+ */
+export type AddressOutputName =
+  | "Street"
+  | "City"
+  | "PostalCode"
+  | "County"
+  | "StateProvince"
+  | "StateProvinceCode"
+  | "Country";
+
+/**
+ * Templates of the bound outputs for one country.
+ * Each output has a template or a list of templates tried in order; outputs without
+ * an entry use the `*` entry and then the built-in templates.
+ *
+ * @public
+ */
+export type AddressOutputTemplates = Partial<Record<AddressOutputName, string | string[]>>;
+
+/**
+ * Mapping of search result address parts to the bound outputs.
+ *
+ * @remarks
+ * A template contains address parts of the search result in braces, e.g.
+ * `{streetNumber} {streetName}`. Whitespace and separators (`,` and `;`) left over
+ * by empty parts are removed. In a list of templates, the first template with at
+ * least one non-empty part is used.
+ *
+ * @example
+ * ```json
+ * "FieldMappingConfig": {
+ *   "Templates": {
+ *     "*": { "Street": "{streetName} {streetNumber}" },
+ *     "US": { "Street": "{streetNumber} {streetName}", "County": ["{countrySecondarySubdivision}", "{municipalitySubdivision}"] },
+ *     "DE": { "Street": "{streetName} {streetNumber}" }
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface FieldMappingConfig {
+  /** Whether the templates are used. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /**
+   * Output templates per ISO 3166-1 alpha-2 country code.
+   * The `*` entry applies to countries without an entry of their own.
+   */
+  Templates: Record<string, AddressOutputTemplates>;
+}
+
+/**
+ * Layout of the formatted address value.
+ *
+ * @public
+ */
+export type AddressFormatLayout = "SingleLine" | "MultiLine";
+
+/**
+ * Postal address format of a country, in the style of libaddressinput.
+ *
+ * @remarks
+ * `Format` lists the address lines, separated by `%n`, with these fields:
+ * `%A` street line, `%D` district (dependent locality), `%C` city, `%S` state or province,
+ * `%Z` postal code. Other text is kept; separators around empty fields are removed.
+ *
+ * @example
+ * ```json
+ * { "Format": "%A%n%C, %S %Z", "Uppercase": "CS", "Street": "{streetNumber} {streetName}", "State": "Code" }
+ * ```
+ *
+ * @public
+ */
+export interface AddressFormatRule {
+  /** The address lines, e.g. `%A%n%Z %C`. */
+  Format: string;
+  /** The fields written in capitals, e.g. `CS` for city and state. */
+  Uppercase?: string;
+  /** The output template of the street line. Defaults to `{streetName} {streetNumber}`. */
+  Street?: string;
+  /** Whether `%S` is the state name or its code (e.g., `WA`). Defaults to `Name`. */
+  State?: "Name" | "Code";
+}
+
+/**
+ * Formatting of the address value written to the bound address field.
+ * Without this section the value is the single-line address returned by the search.
+ *
+ * @remarks
+ * Addresses are formatted with the rule of their country code: a rule in `Formats`,
+ * then the built-in rule of the country, then the `*` rule in `Formats`, then the
+ * built-in default (`%A%n%Z %C`). A `MultiLine` value needs a bound column of type multiple lines of text.
+ * The input keeps showing the selected search text; a formatted value loaded with the record is shown on one line.
+ *
+ * @example
+ * ```json
+ * "AddressFormatConfig": {
+ *   "Layout": "MultiLine",
+ *   "IncludeCountry": true,
+ *   "Formats": {
+ *     "CH": { "Format": "%A%n%Z %C", "Uppercase": "C" }
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface AddressFormatConfig {
+  /** Whether the value is formatted. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /** Whether the lines are joined with `, ` (`SingleLine`) or line breaks (`MultiLine`). Defaults to `SingleLine`. */
+  Layout?: AddressFormatLayout;
+  /** Whether the country name is added in capitals as the last line. Defaults to `false`. */
+  IncludeCountry?: boolean;
+  /** Address formats per ISO 3166-1 alpha-2 country code, replacing the built-in formats. */
+  Formats?: Record<string, AddressFormatRule>;
+}
+
+/**
+ * Columns of the table whose rows are geocoded in bulk.
+ * Each value is the logical name of a column.
+ *
+ * @public
+ */
+export interface BatchGeocodingColumns {
+  /** Street including the house number. */
+  Street: string;
+  /** City. */
+  City?: string;
+  /** Postal code. */
+  PostalCode?: string;
+  /** State or province name. */
+  StateProvince?: string;
+  /**
+   * Country name, or a choice or lookup column whose label is the country name.
+   * Used when no country code column is mapped or the code is empty.
+   */
+  Country?: string;
+  /** ISO 3166-1 alpha-2 country code. */
+  CountryISO2?: string;
+  /** ISO 3166-1 alpha-3 country code. */
+  CountryISO3?: string;
+  /** Latitude; written by the geocoding. */
+  Latitude: string;
+  /** Longitude; written by the geocoding. */
+  Longitude: string;
+  /** Decimal column that receives the score of the match; written by the geocoding. */
+  ResultScore?: string;
+}
+
+/**
+ * Bulk geocoding configuration.
+ * Rows without coordinates are geocoded with the Azure Maps Search Address Batch API
+ * from a dialog of the control, and the coordinates are written back to the rows.
+ *
+ * @remarks
+ * Rows are read from the saved view `ViewId` or, without a view, all rows of the table
+ * whose latitude or longitude is empty. The mapped columns are retrieved for the rows of
+ * the view, so the view only has to select the rows.
+ * Rows without a country code are geocoded in the country of the country name, or in the
+ * default country when exactly one is configured.
+ *
+ * @example
+ * ```json
+ * "BatchGeocodingConfig": {
+ *   "TableName": "account",
+ *   "NameColumn": "name",
+ *   "BatchSize": 50,
+ *   "Columns": {
+ *     "Street": "address1_line1",
+ *     "PostalCode": "address1_postalcode",
+ *     "City": "address1_city",
+ *     "Country": "address1_country",
+ *     "Latitude": "address1_latitude",
+ *     "Longitude": "address1_longitude"
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface BatchGeocodingConfig {
+  /** Whether the bulk geocoding is offered. Defaults to `true` when the section is present. */
+  Enabled?: boolean;
+  /** The logical name of the table (e.g., `account`). */
+  TableName: string;
+  /** The logical name of the primary key column. Defaults to `<TableName>id`. */
+  IdColumn?: string;
+  /** The logical name of the column that names a row in the error report (e.g., the account name). */
+  NameColumn?: string;
+  /** The ID of a saved view that selects the rows. Defaults to all rows without coordinates. */
+  ViewId?: string;
+  /** Number of rows geocoded per batch request, at most `100`. Defaults to `100`. */
+  BatchSize?: number;
+  /** Mapping of the table columns to the address fields. */
+  Columns: BatchGeocodingColumns;
 }
 
 /**
@@ -96,6 +705,20 @@ export interface AdditionalParameters {
   AzureMapServiceConfigs: AzureMapServiceConfigs;
   /** Countries configuration for field type mappings. */
   CountriesConfig: CountriesConfig;
+  /** Search provider selection. Optional; defaults to Azure Maps Search v1. */
+  SearchProviderConfig?: SearchProviderConfig;
+  /** Company address book searched before Azure Maps. Optional; not searched by default. */
+  AddressBookConfig?: AddressBookConfig;
+  /** Duplicate address detection. Optional; no check by default. */
+  DuplicateDetectionConfig?: DuplicateDetectionConfig;
+  /** Address validation rules. Optional; addresses are not validated by default. */
+  ValidationConfig?: ValidationConfig;
+  /** Bulk geocoding of existing rows. Optional; not offered by default. */
+  BatchGeocodingConfig?: BatchGeocodingConfig;
+  /** Templates of the bound outputs per country. Optional; street name before house number by default. */
+  FieldMappingConfig?: FieldMappingConfig;
+  /** Formatting of the address value. Optional; the search result's address line is used by default. */
+  AddressFormatConfig?: AddressFormatConfig;
 }
 
 /**
@@ -130,54 +753,59 @@ export function parseAdditionalParameters(jsonString: string | null | undefined)
 /**
  * Finds a country choice by label (country name).
  *
+ * Labels equal to the name are matched first. Otherwise the country is resolved from the
+ * ISO code, or from the name in any known language, and matched against the labels, so that
+ * German or French labels match an English name (see `utils/countryResolver`).
+ *
  * @param config - The parsed AdditionalParameters configuration.
  * @param countryName - The country name to search for.
+ * @param countryCode - Optional ISO 3166-1 alpha-2 or alpha-3 code of the country.
  * @returns The matching CountryChoice, or undefined if not found.
  *
  * @public
  */
 export function findCountryChoiceByName(
   config: AdditionalParameters | undefined,
-  countryName: string
+  countryName: string,
+  countryCode?: string
 ): CountryChoice | undefined {
-  return config?.CountriesConfig.Choices.find(
+  const choices = config?.CountriesConfig.Choices;
+  const byLabel = choices?.find(
     c => c.Label.toLowerCase() === countryName.toLowerCase()
   );
+  if (byLabel || !choices) {
+    return byLabel;
+  }
+
+  const country = resolveCountry(countryCode) ?? resolveCountry(countryName);
+  return country ? choices.find(c => isSameCountry(c.Label, country.CountryISO2)) : undefined;
 }
 
 /**
  * Finds a country lookup by ISO2 code.
  * 
- * Uses PcfContextService to query Dataverse for country data, falling back to
- * in-memory config lookup if no service is provided.
+ * Uses the cached country table of PcfContextService, falling back to
+ * in-memory config lookup if no service is provided or no country table is configured.
+ * The country table must be loaded with `CountryService.loadCountries()` first.
  *
  * @param config - The parsed AdditionalParameters configuration (used as fallback).
  * @param iso2Code - The ISO 3166-1 alpha-2 country code.
- * @param pcfContextService - Optional PcfContextService instance for Dataverse queries.
+ * @param pcfContextService - Optional PcfContextService instance for country table lookups.
  * @returns The matching CountryLookup, or undefined if not found.
  *
  * @public
  */
-export async function findCountryLookupByISO2(
+export function findCountryLookupByISO2(
   config: AdditionalParameters | undefined,
   iso2Code: string,
   pcfContextService?: PcfContextService
-): Promise<CountryLookup | undefined> {
-  // If PcfContextService is provided, use it to query Dataverse
-  if (pcfContextService) {
-    const entity = await pcfContextService.getCountryByIso2(iso2Code);
-    console.log(`findCountryLookupByISO2: iso2Code='${iso2Code}', entity:`, entity);
-    if (entity) {
-      const countryLookup = {
-        Id: entity.aidevme_countryid as string,
-        Name: entity.aidevme_name as string,
-        CountryISO2: entity.aidevme_countryiso2code as string,
-        CountryISO3: entity.aidevme_countryiso3code as string,
-      };
-      console.log(`findCountryLookupByISO2: Returning countryLookup:`, countryLookup);
-      return countryLookup;
-    }
-    return undefined;
+): CountryLookup | undefined {
+  // Use the configured country table when there is one
+  const countryService = pcfContextService?.getCountryService();
+  if (countryService) {
+    const countryLookup = countryService.findCountryByIso2(iso2Code);
+    console.log(`findCountryLookupByISO2: iso2Code='${iso2Code}', countryLookup:`, countryLookup);
+    return countryLookup;
   }
 
   // Fallback to in-memory config lookup
@@ -189,36 +817,28 @@ export async function findCountryLookupByISO2(
 /**
  * Finds a country lookup by ISO3 code.
  * 
- * Uses PcfContextService to query Dataverse for country data, falling back to
- * in-memory config lookup if no service is provided.
+ * Uses the cached country table of PcfContextService, falling back to
+ * in-memory config lookup if no service is provided or no country table is configured.
+ * The country table must be loaded with `CountryService.loadCountries()` first.
  *
  * @param config - The parsed AdditionalParameters configuration (used as fallback).
  * @param iso3Code - The ISO 3166-1 alpha-3 country code.
- * @param pcfContextService - Optional PcfContextService instance for Dataverse queries.
+ * @param pcfContextService - Optional PcfContextService instance for country table lookups.
  * @returns The matching CountryLookup, or undefined if not found.
  *
  * @public
  */
-export async function findCountryLookupByISO3(
+export function findCountryLookupByISO3(
   config: AdditionalParameters | undefined,
   iso3Code: string,
   pcfContextService?: PcfContextService
-): Promise<CountryLookup | undefined> {
-  // If PcfContextService is provided, use it to query Dataverse
-  if (pcfContextService) {
-    const entity = await pcfContextService.getCountryByIso3(iso3Code);
-    console.log(`findCountryLookupByISO3: iso3Code='${iso3Code}', entity:`, entity);
-    if (entity) {
-      const countryLookup = {
-        Id: entity.aidevme_countryid as string,
-        Name: entity.aidevme_name as string,
-        CountryISO2: entity.aidevme_countryiso2code as string,
-        CountryISO3: entity.aidevme_countryiso3code as string,
-      };
-      console.log(`findCountryLookupByISO3: Returning countryLookup:`, countryLookup);
-      return countryLookup;
-    }
-    return undefined;
+): CountryLookup | undefined {
+  // Use the configured country table when there is one
+  const countryService = pcfContextService?.getCountryService();
+  if (countryService) {
+    const countryLookup = countryService.findCountryByIso3(iso3Code);
+    console.log(`findCountryLookupByISO3: iso3Code='${iso3Code}', countryLookup:`, countryLookup);
+    return countryLookup;
   }
 
   // Fallback to in-memory config lookup
@@ -230,17 +850,31 @@ export async function findCountryLookupByISO3(
 /**
  * Finds a country lookup by name.
  *
- * @param config - The parsed AdditionalParameters configuration.
+ * Uses the cached country table of PcfContextService when a country table is configured,
+ * otherwise the in-memory config lookup.
+ *
+ * @param config - The parsed AdditionalParameters configuration (used as fallback).
  * @param countryName - The country name to search for.
+ * @param pcfContextService - Optional PcfContextService instance for country table lookups.
  * @returns The matching CountryLookup, or undefined if not found.
  *
  * @public
  */
 export function findCountryLookupByName(
   config: AdditionalParameters | undefined,
-  countryName: string
+  countryName: string,
+  pcfContextService?: PcfContextService
 ): CountryLookup | undefined {
+  const countryService = pcfContextService?.getCountryService();
+  if (countryService) {
+    return countryService.findCountryByName(countryName);
+  }
+
+  // Fallback to in-memory config lookup, by name in any known language
+  const countryCodeISO2 = resolveCountry(countryName)?.CountryISO2;
   return config?.CountriesConfig.Lookup.find(
-    c => c.Name.toLowerCase() === countryName.toLowerCase()
+    c =>
+      c.Name.toLowerCase() === countryName.toLowerCase() ||
+      (!!countryCodeISO2 && c.CountryISO2.toUpperCase() === countryCodeISO2)
   );
 }
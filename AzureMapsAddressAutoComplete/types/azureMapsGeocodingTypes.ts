@@ -0,0 +1,137 @@
+/**
+ * Type definitions and type guards for the Azure Maps Search v2
+ * Geocoding and Geocode Autocomplete APIs (GeoJSON responses).
+ * @module types
+ */
+
+/**
+ * Administrative district (state, county) from a geocoding address.
+ */
+export interface AzureMapsGeocodingAdminDistrict {
+  /** The full name of the district (e.g., 'Washington'). */
+  name?: string;
+  /** The short name or code of the district (e.g., 'WA'). */
+  shortName?: string;
+}
+
+/**
+ * Address structure from the Azure Maps Geocoding APIs.
+ */
+export interface AzureMapsGeocodingAddress {
+  /** The complete, formatted address. */
+  formattedAddress?: string;
+  /** The street line of the address (e.g., '15127 NE 24th St'). */
+  addressLine?: string;
+  /** The street name. */
+  streetName?: string;
+  /** The street number. */
+  streetNumber?: string;
+  /** The city or town. */
+  locality?: string;
+  /** The neighborhood. */
+  neighborhood?: string;
+  /** The postal/ZIP code. */
+  postalCode?: string;
+  /** Administrative districts ordered from largest (state) to smallest (county). */
+  adminDistricts?: AzureMapsGeocodingAdminDistrict[];
+  /** The country or region. */
+  countryRegion?: {
+    /** ISO 3166-1 alpha-2 country code. */
+    ISO?: string;
+    /** The country name. */
+    name?: string;
+  };
+}
+
+/**
+ * Properties of a geocoding feature.
+ */
+export interface AzureMapsGeocodingProperties {
+  /** The entity type (e.g., 'Address', 'PopulatedPlace', 'Postcode1'). */
+  type?: string;
+  /** The entity type group for autocomplete results ('Address' or 'Place'). */
+  typeGroup?: string;
+  /** The match confidence ('High', 'Medium', 'Low'). */
+  confidence?: string;
+  /** The address information. */
+  address?: AzureMapsGeocodingAddress;
+}
+
+/**
+ * A single GeoJSON feature returned by the Geocoding APIs.
+ */
+export interface AzureMapsGeocodingFeature {
+  /** Always 'Feature'. */
+  type: string;
+  /** Optional feature identifier. */
+  id?: string;
+  /** The feature properties. */
+  properties: AzureMapsGeocodingProperties;
+  /** The point geometry with coordinates in [longitude, latitude] order. */
+  geometry: {
+    type: string;
+    coordinates: number[];
+  };
+}
+
+/**
+ * GeoJSON FeatureCollection returned by the Geocoding APIs.
+ */
+export interface AzureMapsGeocodingResponse {
+  /** Always 'FeatureCollection'. */
+  type: string;
+  /** The array of features. */
+  features: AzureMapsGeocodingFeature[];
+}
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+/**
+ * Checks if a value is a valid geocoding feature with a point geometry.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a geocoding feature.
+ */
+export function isAzureMapsGeocodingFeature(value: unknown): value is AzureMapsGeocodingFeature {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const feature = value as Partial<AzureMapsGeocodingFeature>;
+
+  return (
+    typeof feature.properties === 'object' &&
+    feature.properties !== null &&
+    typeof feature.geometry === 'object' &&
+    feature.geometry !== null &&
+    Array.isArray(feature.geometry.coordinates) &&
+    feature.geometry.coordinates.length >= 2 &&
+    typeof feature.geometry.coordinates[0] === 'number' &&
+    typeof feature.geometry.coordinates[1] === 'number'
+  );
+}
+
+/**
+ * Checks if a value is a geocoding FeatureCollection.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a geocoding response.
+ *
+ * @example
+ * ```ts
+ * const data = await response.json();
+ * if (isAzureMapsGeocodingResponse(data)) {
+ *   const valid = data.features.filter(isAzureMapsGeocodingFeature);
+ * }
+ * ```
+ */
+export function isAzureMapsGeocodingResponse(value: unknown): value is AzureMapsGeocodingResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'features' in value &&
+    Array.isArray((value as AzureMapsGeocodingResponse).features)
+  );
+}
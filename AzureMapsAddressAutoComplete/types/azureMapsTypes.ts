@@ -93,6 +93,56 @@ export interface AzureMapsSearchResponse {
   results: AzureMapsSearchResult[];
 }
 
+/**
+ * A single address from the Azure Maps Reverse Geocoding API.
+ */
+export interface AzureMapsReverseGeocodeAddress {
+  /** The address information. */
+  address: AzureMapsAddress;
+  /** The position of the address as a 'lat,lon' string. */
+  position: string;
+}
+
+/**
+ * Response structure from Azure Maps Reverse Geocoding API.
+ */
+export interface AzureMapsReverseGeocodeResponse {
+  /** The summary of the reverse geocoding request. */
+  summary?: {
+    /** Number of results returned. */
+    numResults?: number;
+    /** Time taken to process the query in milliseconds. */
+    queryTime?: number;
+  };
+  /** The array of addresses, nearest first. */
+  addresses: AzureMapsReverseGeocodeAddress[];
+}
+
+/**
+ * A single answer of the Azure Maps Search Address Batch API.
+ */
+export interface AzureMapsBatchResponseItem {
+  /** The HTTP status code of the query. */
+  statusCode: number;
+  /** The search response, or an error response if the query failed. */
+  response: unknown;
+}
+
+/**
+ * Response structure from Azure Maps Search Address Batch API.
+ */
+export interface AzureMapsBatchResponse {
+  /** The summary of the batch request. */
+  summary?: {
+    /** Number of queries that succeeded. */
+    successfulRequests?: number;
+    /** Number of queries in the batch. */
+    totalRequests?: number;
+  };
+  /** The answers, in the order of the queries. */
+  batchItems: AzureMapsBatchResponseItem[];
+}
+
 /**
  * Raw API response before validation.
  */
@@ -198,6 +248,52 @@ export function isAzureMapsSearchResponse(value: unknown): value is AzureMapsSea
   );
 }
 
+/**
+ * Checks if a value is a valid AzureMapsReverseGeocodeResponse.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a valid reverse geocoding response.
+ *
+ * @example
+ * ```ts
+ * const data = await response.json();
+ * if (isAzureMapsReverseGeocodeResponse(data)) {
+ *   console.log(data.addresses[0]?.address.freeformAddress);
+ * }
+ * ```
+ */
+export function isAzureMapsReverseGeocodeResponse(value: unknown): value is AzureMapsReverseGeocodeResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'addresses' in value &&
+    Array.isArray((value as AzureMapsReverseGeocodeResponse).addresses)
+  );
+}
+
+/**
+ * Checks if a value is a valid AzureMapsBatchResponse.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a valid batch response.
+ *
+ * @example
+ * ```ts
+ * const data = await response.json();
+ * if (isAzureMapsBatchResponse(data)) {
+ *   console.log(data.batchItems.length);
+ * }
+ * ```
+ */
+export function isAzureMapsBatchResponse(value: unknown): value is AzureMapsBatchResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'batchItems' in value &&
+    Array.isArray((value as AzureMapsBatchResponse).batchItems)
+  );
+}
+
 // ============================================================================
 // Parsing Functions
 // ============================================================================
@@ -6,7 +6,7 @@
 /**
  * Error source types for identifying the origin of errors.
  */
-export type ErrorSource = "azure-maps" | "dataverse" | "unknown";
+export type ErrorSource = "azure-maps" | "dataverse" | "geolocation" | "unknown";
 
 /**
  * Dataverse error detail structure.
@@ -0,0 +1,66 @@
+/**
+ * Type definitions and error classes for browser geolocation.
+ * @module types
+ */
+
+/**
+ * Reasons why the current location could not be used.
+ *
+ * - `PermissionDenied` - The user or a browser policy denied location access.
+ * - `PositionUnavailable` - The device could not determine its position.
+ * - `Timeout` - The position was not determined in time.
+ * - `Unsupported` - The browser does not support geolocation.
+ * - `NoAddressFound` - No address was found at the current location.
+ */
+export type GeolocationErrorCode =
+  | "PermissionDenied"
+  | "PositionUnavailable"
+  | "Timeout"
+  | "Unsupported"
+  | "NoAddressFound";
+
+/**
+ * Custom error class for failures while using the current location.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const position = await getCurrentPosition();
+ * } catch (error) {
+ *   if (error instanceof GeolocationError && error.code === "PermissionDenied") {
+ *     console.log("Location access was denied");
+ *   }
+ * }
+ * ```
+ */
+export class GeolocationError extends Error {
+  /** The reason why the current location could not be used. */
+  public readonly code: GeolocationErrorCode;
+
+  /**
+   * Creates a new GeolocationError.
+   *
+   * @param message - The error message.
+   * @param code - The reason why the current location could not be used.
+   */
+  constructor(message: string, code: GeolocationErrorCode) {
+    super(message);
+    this.name = "GeolocationError";
+    this.code = code;
+
+    // Maintains proper stack trace for where error was thrown (only in V8)
+    if (typeof Error.captureStackTrace === "function") {
+      Error.captureStackTrace(this, GeolocationError);
+    }
+  }
+}
+
+/**
+ * Type guard to check if an error is a GeolocationError.
+ *
+ * @param error - The error to check.
+ * @returns True if the error is a GeolocationError.
+ */
+export function isGeolocationError(error: unknown): error is GeolocationError {
+  return error instanceof GeolocationError;
+}
@@ -9,6 +9,10 @@ export {
   type AzureMapsPosition,
   type AzureMapsSearchResult,
   type AzureMapsSearchResponse,
+  type AzureMapsReverseGeocodeAddress,
+  type AzureMapsReverseGeocodeResponse,
+  type AzureMapsBatchResponseItem,
+  type AzureMapsBatchResponse,
   type AzureMapsRawResponse,
   type EntityTypeValue,
   // Type guards
@@ -16,6 +20,8 @@ export {
   isAzureMapsAddress,
   isAzureMapsSearchResult,
   isAzureMapsSearchResponse,
+  isAzureMapsReverseGeocodeResponse,
+  isAzureMapsBatchResponse,
   // Parsing functions
   parseSearchResponse,
   extractValidResults,
@@ -24,6 +30,18 @@ export {
   isKnownEntityType
 } from './azureMapsTypes';
 
+export {
+  // Geocoding (Search v2) interfaces
+  type AzureMapsGeocodingAdminDistrict,
+  type AzureMapsGeocodingAddress,
+  type AzureMapsGeocodingProperties,
+  type AzureMapsGeocodingFeature,
+  type AzureMapsGeocodingResponse,
+  // Type guards
+  isAzureMapsGeocodingFeature,
+  isAzureMapsGeocodingResponse
+} from './azureMapsGeocodingTypes';
+
 export {
   // Dataverse types
   type ErrorSource,
@@ -35,13 +53,46 @@ export {
   hasDataverseErrorProperties
 } from './dataverseTypes';
 
+export {
+  // Geolocation types
+  type GeolocationErrorCode,
+  // Geolocation error class
+  GeolocationError,
+  // Type guards
+  isGeolocationError
+} from './geolocationTypes';
+
 export {
   // Additional parameters types
   type CountryChoice,
   type CountryLookup,
   type CountryTableConfig,
+  type CountryTextFormat,
   type CountriesConfig,
   type AzureMapServiceConfigs,
+  type AzureMapsAuthenticationConfig,
+  type SearchCacheConfig,
+  type RetryPolicyConfig,
+  type LocationBiasSource,
+  type LocationBiasConfig,
+  type RecentAddressesConfig,
+  type MissingCoordinatesConfig,
+  type AzureMapsSearchApiVersion,
+  type SearchProviderConfig,
+  type AddressBookColumns,
+  type AddressBookConfig,
+  type DuplicateDetectionColumns,
+  type DuplicateDetectionConfig,
+  type AddressComponentName,
+  type ValidationConfig,
+  type AddressOutputName,
+  type AddressOutputTemplates,
+  type FieldMappingConfig,
+  type AddressFormatLayout,
+  type AddressFormatRule,
+  type AddressFormatConfig,
+  type BatchGeocodingColumns,
+  type BatchGeocodingConfig,
   type AdditionalParameters,
   // Helper functions
   parseAdditionalParameters,
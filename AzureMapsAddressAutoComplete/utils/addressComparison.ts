@@ -0,0 +1,144 @@
+// AzureMapsAddressAutoComplete\utils\addressComparison.ts
+import { foldString } from "./textMatch";
+
+/** Mean earth radius in meters used for distance calculations. */
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Street type words and their abbreviations, compared as the same word.
+ * Keys and values are folded (lower case, no diacritics).
+ */
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  strasse: "str",
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  place: "pl",
+  square: "sq",
+  gasse: "g",
+  platz: "pl",
+};
+
+/**
+ * Normalizes an address part for comparison.
+ *
+ * @param value - The address part (e.g., a postal code or country name).
+ * @returns The value in lower case without diacritics, whitespace and punctuation.
+ *
+ * @example
+ * ```ts
+ * normalizeAddressPart("SW1A 1AA"); // "sw1a1aa"
+ * ```
+ */
+export function normalizeAddressPart(value: string | null | undefined): string {
+  return foldString(value ?? "").replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Splits a street into folded words, with street type words abbreviated.
+ */
+function getStreetWords(street: string | null | undefined): string[] {
+  return foldString(street ?? "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0)
+    .map((word) => {
+      for (const [full, abbreviation] of Object.entries(STREET_ABBREVIATIONS)) {
+        if (word === full) {
+          return abbreviation;
+        }
+        // Compound street names such as "Bahnhofstrasse"
+        if (full.length > 4 && word.endsWith(full)) {
+          return word.slice(0, -full.length) + abbreviation;
+        }
+      }
+      return word;
+    });
+}
+
+/**
+ * Normalizes a street for comparison.
+ * Street type words are abbreviated, also where they are part of a word
+ * (e.g., "Bahnhofstrasse" and "Bahnhofstr." are equal).
+ *
+ * @param street - The street including the house number.
+ * @returns The normalized street.
+ *
+ * @example
+ * ```ts
+ * normalizeStreet("Bahnhofstraße 1"); // "bahnhofstr1"
+ * normalizeStreet("Bahnhofstr. 1");   // "bahnhofstr1"
+ * ```
+ */
+export function normalizeStreet(street: string | null | undefined): string {
+  return getStreetWords(street).join("");
+}
+
+/**
+ * Checks whether two streets including house numbers are the same, in either order
+ * (e.g., "1 Microsoft Way" as written by a US template and "Microsoft Way 1").
+ *
+ * @param a - The first street.
+ * @param b - The second street.
+ * @returns True if both have the same street words and the same house numbers; false if either is empty.
+ *
+ * @remarks
+ * Words that start with a digit are house numbers; a single letter at the end after a
+ * house number is its suffix ("12 a" equals "12a"), elsewhere it is a street word
+ * (e.g., "E" in "12 E Main St"). Street words are compared in order and as in
+ * {@link normalizeStreet}.
+ *
+ * @example
+ * ```ts
+ * isSameStreet("1 Microsoft Way", "Microsoft Way 1");      // true
+ * isSameStreet("Bahnhofstrasse 12 a", "Bahnhofstr. 12a");  // true
+ * isSameStreet("Microsoft Way 1", "Microsoft Way 2");      // false
+ * ```
+ */
+export function isSameStreet(a: string | null | undefined, b: string | null | undefined): boolean {
+  const isNumber = (word: string | undefined): boolean => !!word && /^\p{N}/u.test(word);
+  const toKey = (street: string | null | undefined): string => {
+    const words = getStreetWords(street);
+    const names: string[] = [];
+    const numbers: string[] = [];
+    words.forEach((word, index) => {
+      if (isNumber(word)) {
+        numbers.push(word);
+      } else if (word.length === 1 && index === words.length - 1 && isNumber(words[index - 1])) {
+        // Trailing house number suffix
+        numbers[numbers.length - 1] += word;
+      } else {
+        names.push(word);
+      }
+    });
+    return words.length > 0 ? `${names.join("")}|${numbers.sort().join(",")}` : "";
+  };
+  const key = toKey(a);
+  return key !== "" && key === toKey(b);
+}
+
+/**
+ * Calculates the great-circle distance between two coordinates (haversine formula).
+ *
+ * @param a - The first coordinate.
+ * @param b - The second coordinate.
+ * @returns The distance in meters.
+ *
+ * @example
+ * ```ts
+ * getDistanceInMeters({ lat: 47.3769, lon: 8.5417 }, { lat: 47.3770, lon: 8.5417 }); // ~11
+ * ```
+ */
+export function getDistanceInMeters(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -0,0 +1,173 @@
+// AzureMapsAddressAutoComplete\utils\addressEdit.ts
+import type { AzureMapsSearchResult } from "../services/AzureMap/azureMapsService";
+import type { StructuredAddressRequest } from "../services/SearchProvider/SearchProvider";
+import { resolveCountry } from "./countryResolver";
+
+/**
+ * Address parts the user can correct in the panel's manual edit mode.
+ * Each part maps to the bound output of the same name.
+ */
+export interface IEditableAddress {
+  /** Street name without the house number. */
+  streetName: string;
+  /** House number. */
+  streetNumber: string;
+  /** City or town. */
+  city: string;
+  /** Postal/ZIP code. */
+  postalCode: string;
+  /** County or district. */
+  county: string;
+  /** State or province. */
+  stateProvince: string;
+  /** Country name. */
+  country: string;
+}
+
+/**
+ * Gets the editable address parts of a search result.
+ * The parts are read the same way `index.ts` fills the bound outputs.
+ *
+ * @param result - The search result.
+ * @returns The address parts; missing parts are empty strings.
+ *
+ * @example
+ * ```ts
+ * const edits = toEditableAddress(result);
+ * setEdits({ ...edits, streetNumber: "12a" });
+ * ```
+ */
+export function toEditableAddress(result: AzureMapsSearchResult): IEditableAddress {
+  const { address } = result;
+  return {
+    streetName: address.streetName ?? "",
+    streetNumber: address.streetNumber ?? "",
+    city: address.municipality ?? address.localName ?? "",
+    postalCode: address.postalCode ?? "",
+    county: address.municipalitySubdivision ?? address.neighbourhood ?? "",
+    stateProvince: address.countrySubdivisionName ?? address.countrySubdivision ?? "",
+    country: address.country ?? "",
+  };
+}
+
+/**
+ * Builds a single-line address from edited address parts.
+ *
+ * @param edits - The address parts.
+ * @returns The address, e.g. "Bahnhofstrasse 1, 8001 Zürich, Switzerland".
+ */
+function formatEditedAddress(edits: IEditableAddress): string {
+  return [
+    `${edits.streetName} ${edits.streetNumber}`.trim(),
+    `${edits.postalCode} ${edits.city}`.trim(),
+    edits.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Applies manually edited address parts to a search result.
+ *
+ * @param result - The search result the edits are based on.
+ * @param edits - The edited address parts.
+ * @returns The result unchanged if nothing was edited; otherwise a copy with the edited
+ * parts, a rebuilt `freeformAddress` and `manuallyEdited` set.
+ *
+ * @remarks
+ * The fallback parts of an edited city, county or state (e.g. `localName` for the city) are
+ * removed, so a cleared part stays empty in the output templates. The state code is removed
+ * when the state changes; the country codes are resolved from the edited country name and
+ * removed if it is unknown.
+ * The position is kept but the score is removed, as it belongs to the original address;
+ * refresh both with {@link toStructuredAddressRequest}.
+ */
+export function applyAddressEdits(
+  result: AzureMapsSearchResult,
+  edits: IEditableAddress
+): AzureMapsSearchResult {
+  const original = toEditableAddress(result);
+  const changed = (Object.keys(edits) as (keyof IEditableAddress)[]).filter(
+    (key) => edits[key].trim() !== original[key].trim()
+  );
+  if (changed.length === 0) {
+    return result;
+  }
+
+  const trimmed: IEditableAddress = {
+    streetName: edits.streetName.trim(),
+    streetNumber: edits.streetNumber.trim(),
+    city: edits.city.trim(),
+    postalCode: edits.postalCode.trim(),
+    county: edits.county.trim(),
+    stateProvince: edits.stateProvince.trim(),
+    country: edits.country.trim(),
+  };
+  const cityChanged = changed.includes("city");
+  const countyChanged = changed.includes("county");
+  const stateChanged = changed.includes("stateProvince");
+  const countryChanged = changed.includes("country");
+  const country = countryChanged ? resolveCountry(trimmed.country) : undefined;
+
+  return {
+    ...result,
+    score: undefined,
+    address: {
+      ...result.address,
+      freeformAddress: formatEditedAddress(trimmed),
+      streetName: trimmed.streetName,
+      streetNumber: trimmed.streetNumber,
+      municipality: trimmed.city,
+      localName: cityChanged ? undefined : result.address.localName,
+      postalCode: trimmed.postalCode,
+      extendedPostalCode: changed.includes("postalCode") ? undefined : result.address.extendedPostalCode,
+      municipalitySubdivision: trimmed.county,
+      neighbourhood: countyChanged ? undefined : result.address.neighbourhood,
+      countrySecondarySubdivision: countyChanged ? undefined : result.address.countrySecondarySubdivision,
+      countrySubdivisionName: trimmed.stateProvince,
+      countrySubdivision: stateChanged ? undefined : result.address.countrySubdivision,
+      countrySubdivisionCode: stateChanged ? undefined : result.address.countrySubdivisionCode,
+      country: trimmed.country,
+      countryCode: countryChanged ? country?.CountryISO2 : result.address.countryCode,
+      countryCodeISO3: countryChanged ? country?.CountryISO3 : result.address.countryCodeISO3,
+    },
+    manuallyEdited: true,
+  };
+}
+
+/**
+ * Builds the structured search request that geocodes an edited address.
+ *
+ * @param result - The result returned by {@link applyAddressEdits}.
+ * @param language - The language code for results.
+ * @returns The request, or undefined if the country code is unknown (e.g. the country was edited
+ * to a name that does not resolve)
+ * or no address part besides the country is set.
+ *
+ * @example
+ * ```ts
+ * const request = toStructuredAddressRequest(applyAddressEdits(result, edits), "de-CH");
+ * const [match] = request ? await provider.searchAddressStructured(request) : [];
+ * ```
+ */
+export function toStructuredAddressRequest(
+  result: AzureMapsSearchResult,
+  language?: string
+): StructuredAddressRequest | undefined {
+  const { address } = result;
+  if (!address.countryCode) {
+    return undefined;
+  }
+  // Empty parts are left out of the request URL by the structured search
+  const request: StructuredAddressRequest = {
+    countryCode: address.countryCode,
+    streetName: address.streetName,
+    streetNumber: address.streetNumber,
+    municipality: address.municipality,
+    postalCode: address.postalCode,
+    countrySubdivision: address.countrySubdivisionName,
+    language,
+    limit: 1,
+  };
+  return request.streetName || request.municipality || request.postalCode ? request : undefined;
+}
@@ -0,0 +1,196 @@
+// AzureMapsAddressAutoComplete\utils\addressFormat.ts
+import type { AzureMapsSearchResult } from "../services/AzureMap/azureMapsService";
+import type { AddressFormatConfig, AddressFormatRule } from "../types";
+import { formatOutputTemplate } from "./fieldMapping";
+
+/**
+ * Street line of countries that write the street name before the house number.
+ */
+const STREET_NAME_FIRST = "{streetName} {streetNumber}";
+
+/**
+ * Street line of countries that write the house number before the street name.
+ */
+const STREET_NUMBER_FIRST = "{streetNumber} {streetName}";
+
+/**
+ * Format of countries without a rule of their own: street, then postal code and city.
+ */
+export const DEFAULT_ADDRESS_FORMAT: AddressFormatRule = { Format: "%A%n%Z %C" };
+
+/**
+ * Built-in address formats of the countries whose format differs from {@link DEFAULT_ADDRESS_FORMAT},
+ * keyed by ISO 3166-1 alpha-2 code.
+ * Based on the address data of libaddressinput and the UPU S42 templates, without the
+ * recipient and organization lines.
+ */
+export const ADDRESS_FORMATS: Readonly<Record<string, AddressFormatRule>> = {
+  AE: { Format: "%A%n%S" },
+  AR: { Format: "%A%n%D%n%Z %C%n%S", Uppercase: "ACZ" },
+  AU: { Format: "%A%n%C %S %Z", Uppercase: "CS", Street: STREET_NUMBER_FIRST, State: "Code" },
+  BR: { Format: "%A%n%D%n%C-%S%n%Z", Uppercase: "CS", Street: "{streetName}, {streetNumber}", State: "Code" },
+  CA: { Format: "%A%n%C %S %Z", Uppercase: "ACSZ", Street: STREET_NUMBER_FIRST, State: "Code" },
+  CL: { Format: "%A%n%Z %C%n%S" },
+  CN: { Format: "%A%n%D%n%C%n%S, %Z" },
+  CO: { Format: "%A%n%D%n%C, %S, %Z", Uppercase: "CS" },
+  EG: { Format: "%A%n%C%n%S%n%Z" },
+  ES: { Format: "%A%n%Z %C %S", Uppercase: "CS", Street: "{streetName}, {streetNumber}" },
+  FR: { Format: "%A%n%Z %C", Uppercase: "C", Street: STREET_NUMBER_FIRST },
+  GB: { Format: "%A%n%D%n%C%n%Z", Uppercase: "CZ", Street: STREET_NUMBER_FIRST },
+  HU: { Format: "%C%n%A%n%Z", Uppercase: "C" },
+  ID: { Format: "%A%n%C%n%S %Z" },
+  IE: { Format: "%A%n%D%n%C%n%S%n%Z", Uppercase: "CZ", Street: STREET_NUMBER_FIRST },
+  IL: { Format: "%A%n%C %Z" },
+  IN: { Format: "%A%n%D%n%C %Z%n%S", Uppercase: "C", Street: STREET_NUMBER_FIRST },
+  IT: { Format: "%A%n%Z %C %S", Uppercase: "CS", Street: "{streetName}, {streetNumber}", State: "Code" },
+  JP: { Format: "%A%n%C, %S%n%Z", Uppercase: "S", Street: STREET_NUMBER_FIRST },
+  KE: { Format: "%A%n%C%n%Z" },
+  KR: { Format: "%A%n%D%n%C%n%S%n%Z", Uppercase: "CS", Street: STREET_NUMBER_FIRST },
+  LU: { Format: "%A%n%Z %C", Street: "{streetNumber}, {streetName}" },
+  LV: { Format: "%A%n%C, %Z" },
+  MC: { Format: "%A%n%Z %C", Uppercase: "C", Street: STREET_NUMBER_FIRST },
+  MX: { Format: "%A%n%D%n%Z %C, %S", Uppercase: "CS" },
+  MY: { Format: "%A%n%D%n%Z %C%n%S", Uppercase: "CS", Street: STREET_NUMBER_FIRST },
+  NG: { Format: "%A%n%D%n%C %Z%n%S", Uppercase: "CS", Street: STREET_NUMBER_FIRST },
+  NZ: { Format: "%A%n%D%n%C %Z", Street: STREET_NUMBER_FIRST },
+  PH: { Format: "%A%n%D, %C%n%Z %S", Street: STREET_NUMBER_FIRST },
+  RO: { Format: "%A%n%Z %S %C", Uppercase: "C" },
+  RU: { Format: "%A%n%C%n%S%n%Z", Uppercase: "C" },
+  SA: { Format: "%A%n%C %Z", Street: STREET_NUMBER_FIRST },
+  SG: { Format: "%A%nSINGAPORE %Z", Street: STREET_NUMBER_FIRST },
+  TH: { Format: "%A%n%D %C%n%S %Z", Uppercase: "S" },
+  TR: { Format: "%A%n%Z %C/%S" },
+  TW: { Format: "%A%n%C, %S %Z" },
+  UA: { Format: "%A%n%C%n%S%n%Z" },
+  US: { Format: "%A%n%C, %S %Z", Uppercase: "CS", Street: STREET_NUMBER_FIRST, State: "Code" },
+  VN: { Format: "%A%n%C%n%S %Z" },
+  ZA: { Format: "%A%n%D%n%C%n%Z", Uppercase: "CZ", Street: STREET_NUMBER_FIRST },
+};
+
+/**
+ * Gets the address format of a country.
+ *
+ * @param countryCode - The ISO 3166-1 alpha-2 country code.
+ * @param formats - The configured formats, which replace the built-in formats.
+ * @returns The configured rule of the country, the built-in rule of the country,
+ * the configured `*` rule or {@link DEFAULT_ADDRESS_FORMAT}, in this order.
+ *
+ * @example
+ * ```ts
+ * getAddressFormat("US").Format; // "%A%n%C, %S %Z"
+ * ```
+ */
+export function getAddressFormat(
+  countryCode: string | undefined,
+  formats?: Record<string, AddressFormatRule>
+): AddressFormatRule {
+  const code = countryCode?.toUpperCase() ?? "";
+  return formats?.[code] ?? ADDRESS_FORMATS[code] ?? formats?.["*"] ?? DEFAULT_ADDRESS_FORMAT;
+}
+
+/**
+ * Removes whitespace and separators left over by empty fields of an address line.
+ *
+ * @param line - The address line.
+ * @returns The line without leading, trailing and repeated separators.
+ */
+function cleanLine(line: string): string {
+  return line
+    .replace(/\s*([,/-])(?:\s*[,/-])+/g, "$1")
+    .replace(/\s+,/g, ",")
+    .replace(/^[\s,/-]+|[\s,/-]+$/g, "")
+    .replace(/\s{2,}/g, " ");
+}
+
+/**
+ * Formats the address of a search result as a postal address.
+ *
+ * @param result - The search result.
+ * @param rule - The address format; defaults to the built-in format of the result's country.
+ * @returns The non-empty address lines.
+ *
+ * @example
+ * ```ts
+ * formatAddressLines(usResult);
+ * // ["1 Microsoft Way", "REDMOND, WA 98052"]
+ * ```
+ */
+export function formatAddressLines(
+  result: AzureMapsSearchResult,
+  rule: AddressFormatRule = getAddressFormat(result.address.countryCode)
+): string[] {
+  const { address } = result;
+  const uppercase = rule.Uppercase ?? "";
+  const stateName = address.countrySubdivisionName ?? address.countrySubdivision;
+  const stateCode = address.countrySubdivisionCode ?? address.countrySubdivision;
+  const fields: Record<string, string | undefined> = {
+    A: formatOutputTemplate(rule.Street ?? STREET_NAME_FIRST, address),
+    D: address.municipalitySubdivision ?? address.neighbourhood,
+    C: address.municipality ?? address.localName,
+    S: rule.State === "Code" ? (stateCode ?? stateName) : (stateName ?? stateCode),
+    Z: address.postalCode,
+  };
+
+  return rule.Format.split("%n")
+    .map((line) =>
+      cleanLine(
+        line.replace(/%([ADCSZ])/g, (_token, field: string) => {
+          const value = fields[field]?.trim() ?? "";
+          return uppercase.includes(field) ? value.toUpperCase() : value;
+        })
+      )
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Formats the address value written to the bound address field.
+ *
+ * @param result - The selected search result.
+ * @param config - The `AddressFormatConfig` section of the additional parameters.
+ * @returns The formatted address, or undefined if formatting is not configured or disabled
+ * or the result has no address parts (e.g., a result that only has a freeform address).
+ *
+ * @example
+ * ```ts
+ * formatAddressValue(usResult, { Layout: "MultiLine", IncludeCountry: true });
+ * // "1 Microsoft Way\nREDMOND, WA 98052\nUNITED STATES"
+ * ```
+ */
+export function formatAddressValue(
+  result: AzureMapsSearchResult,
+  config: AddressFormatConfig | undefined
+): string | undefined {
+  if (!config || config.Enabled === false) {
+    return undefined;
+  }
+
+  const lines = formatAddressLines(result, getAddressFormat(result.address.countryCode, config.Formats));
+  if (lines.length === 0) {
+    return undefined;
+  }
+  const country = result.address.country?.trim();
+  if (config.IncludeCountry && country) {
+    lines.push(country.toUpperCase());
+  }
+  return lines.join(config.Layout === "MultiLine" ? "\n" : ", ");
+}
+
+/**
+ * Joins the lines of a multi-line address value for display in the single-line input.
+ *
+ * @param value - The bound address value.
+ * @returns The value with its line breaks replaced by `, `.
+ *
+ * @example
+ * ```ts
+ * toSingleLineAddress("Bahnhofstrasse 1\n8001 ZÜRICH"); // "Bahnhofstrasse 1, 8001 ZÜRICH"
+ * ```
+ */
+export function toSingleLineAddress(value: string): string {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(", ");
+}
@@ -0,0 +1,177 @@
+// AzureMapsAddressAutoComplete\utils\addressValidation.ts
+import type { AzureMapsSearchResult } from "../services/AzureMap/azureMapsService";
+import type { AddressComponentName, ValidationConfig } from "../types";
+
+/**
+ * Value written to the bound `validationStatus` output.
+ * The output is empty when no address is selected or validation is disabled.
+ */
+export type AddressValidationStatus = "Valid" | "Invalid";
+
+/**
+ * A rule that a selected address does not meet.
+ */
+export type AddressValidationFailure =
+  | { code: "ScoreBelowMinimum"; score: number; minScore: number }
+  | { code: "EntityTypeNotAllowed"; entityType: string }
+  | { code: "MissingComponent"; component: AddressComponentName };
+
+/**
+ * Outcome of validating a selected address.
+ */
+export interface AddressValidationResult {
+  /** `Valid` if no rule failed. */
+  status: AddressValidationStatus;
+  /** The failed rules, in the order score, type, components. */
+  failures: AddressValidationFailure[];
+}
+
+/**
+ * Resource keys and fallbacks of the address part names used in validation messages.
+ * Most reuse the display names of the bound properties.
+ */
+const COMPONENT_NAMES: Record<AddressComponentName, [key: string, fallback: string]> = {
+  Street: ["street_Display_Key", "Street"],
+  StreetNumber: ["azure-maps-address-auto-complete-street-number", "House Number"],
+  PostalCode: ["postalCode_Display_Key", "ZIP/Postal Code"],
+  City: ["city_Display_Key", "City"],
+  StateProvince: ["stateProvince_Display_Key", "State/Province"],
+  Country: ["country_Display_Key", "Country"],
+};
+
+/**
+ * Gets an address part of a search result.
+ *
+ * @param result - The search result.
+ * @param component - The address part.
+ * @returns The value, or undefined if the part is missing.
+ */
+function getComponentValue(result: AzureMapsSearchResult, component: AddressComponentName): string | undefined {
+  const { address } = result;
+  switch (component) {
+    case "Street":
+      return address.streetName;
+    case "StreetNumber":
+      return address.streetNumber;
+    case "PostalCode":
+      return address.postalCode;
+    case "City":
+      return address.municipality ?? address.localName;
+    case "StateProvince":
+      return address.countrySubdivisionName ?? address.countrySubdivision;
+    case "Country":
+      return address.country ?? address.countryCode;
+  }
+}
+
+/**
+ * Validates a selected address against the configured rules.
+ *
+ * @param result - The selected search result.
+ * @param config - The `ValidationConfig` section of the additional parameters.
+ * @returns The outcome, or undefined if validation is not configured or disabled.
+ *
+ * @remarks
+ * Required parts are taken from the entry of the result's country code,
+ * falling back to the `*` entry. Address book entries are maintained by the
+ * company and accepted regardless of `AllowedEntityTypes`.
+ *
+ * @example
+ * ```ts
+ * const validation = validateAddress(result, { RequiredComponents: { DE: ["StreetNumber"] } });
+ * // { status: "Invalid", failures: [{ code: "MissingComponent", component: "StreetNumber" }] }
+ * ```
+ */
+export function validateAddress(
+  result: AzureMapsSearchResult,
+  config: ValidationConfig | undefined
+): AddressValidationResult | undefined {
+  if (!config || config.Enabled === false) {
+    return undefined;
+  }
+
+  const failures: AddressValidationFailure[] = [];
+
+  if (typeof config.MinScore === "number" && typeof result.score === "number" && result.score < config.MinScore) {
+    failures.push({ code: "ScoreBelowMinimum", score: result.score, minScore: config.MinScore });
+  }
+
+  const entityType = result.entityType ?? result.type;
+  if (
+    !result.addressBookRecord &&
+    config.AllowedEntityTypes &&
+    config.AllowedEntityTypes.length > 0 &&
+    !config.AllowedEntityTypes.some((allowed) => allowed.toLowerCase() === entityType.toLowerCase())
+  ) {
+    failures.push({ code: "EntityTypeNotAllowed", entityType });
+  }
+
+  const countryCode = result.address.countryCode?.toUpperCase() ?? "";
+  const required = config.RequiredComponents?.[countryCode] ?? config.RequiredComponents?.["*"] ?? [];
+  for (const component of required) {
+    if (!getComponentValue(result, component)?.trim()) {
+      failures.push({ code: "MissingComponent", component });
+    }
+  }
+
+  return { status: failures.length === 0 ? "Valid" : "Invalid", failures };
+}
+
+/**
+ * Builds the localized message that describes failed validation rules.
+ *
+ * @param failures - The failed rules.
+ * @param getString - Reads a localized string, returning the fallback if the key is missing.
+ * @returns The message; one sentence per failed rule, missing parts combined in one sentence.
+ *
+ * @example
+ * ```ts
+ * getValidationMessage(validation.failures, (key, fallback) => pcfContext.getString(key, fallback));
+ * // "The address is missing required information: House Number."
+ * ```
+ */
+export function getValidationMessage(
+  failures: AddressValidationFailure[],
+  getString: (key: string, fallback: string) => string
+): string {
+  const sentences: string[] = [];
+  const missing: string[] = [];
+
+  for (const failure of failures) {
+    switch (failure.code) {
+      case "ScoreBelowMinimum":
+        sentences.push(
+          getString(
+            "azure-maps-address-auto-complete-validation-score",
+            "The address match score ({0}) is below the required minimum ({1})."
+          )
+            .replace("{0}", String(Math.round(failure.score * 100) / 100))
+            .replace("{1}", String(failure.minScore))
+        );
+        break;
+      case "EntityTypeNotAllowed":
+        sentences.push(
+          getString(
+            "azure-maps-address-auto-complete-validation-entity-type",
+            "Results of type \"{0}\" are not accepted. Select a more precise address."
+          ).replace("{0}", failure.entityType)
+        );
+        break;
+      case "MissingComponent": {
+        const [key, fallback] = COMPONENT_NAMES[failure.component];
+        missing.push(getString(key, fallback));
+        break;
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    sentences.push(
+      getString(
+        "azure-maps-address-auto-complete-validation-missing",
+        "The address is missing required information: {0}."
+      ).replace("{0}", missing.join(", "))
+    );
+  }
+  return sentences.join(" ");
+}
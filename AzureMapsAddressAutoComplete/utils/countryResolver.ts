@@ -0,0 +1,157 @@
+// AzureMapsAddressAutoComplete\utils\countryResolver.ts
+import type { Country } from "../services/PcfContext/PcfContextService";
+import type { CountryTextFormat } from "../types";
+import { normalizeAddressPart } from "./addressComparison";
+import countriesData from "../statics/countries.json";
+
+/**
+ * Countries keyed by ISO 3166-1 alpha-2 code, alpha-3 code and normalized name.
+ */
+interface CountryAliasIndex {
+  byIso2: Map<string, Country>;
+  byIso3: Map<string, Country>;
+  byName: Map<string, Country>;
+}
+
+/**
+ * Alias index, built on first use.
+ */
+let aliasIndex: CountryAliasIndex | undefined;
+
+/**
+ * Builds the alias index from the English and localized names of `statics/countries.json`,
+ * which carries the English, German, French and Italian names of `statics/countries.csv`
+ * and the Hungarian, Portuguese and Spanish names.
+ * When two countries share a name, the first country keeps it.
+ */
+function getAliasIndex(): CountryAliasIndex {
+  if (!aliasIndex) {
+    const index: CountryAliasIndex = { byIso2: new Map(), byIso3: new Map(), byName: new Map() };
+    for (const country of countriesData as Country[]) {
+      index.byIso2.set(country.CountryISO2, country);
+      index.byIso3.set(country.CountryISO3, country);
+      for (const name of [country.Country, ...Object.values(country.LocalizedCountryName)]) {
+        const alias = normalizeAddressPart(name);
+        if (alias && !index.byName.has(alias)) {
+          index.byName.set(alias, country);
+        }
+      }
+    }
+    aliasIndex = index;
+  }
+  return aliasIndex;
+}
+
+/**
+ * Resolves a country from an ISO code or a name in any known language.
+ *
+ * @param value - An ISO 3166-1 alpha-2 or alpha-3 code, or a country name in English, German,
+ * French, Italian, Hungarian, Portuguese or Spanish.
+ * @returns The country, or undefined if the value is empty or unknown.
+ *
+ * @remarks
+ * Codes are matched first; names are matched case-insensitively and without diacritics,
+ * whitespace and punctuation.
+ *
+ * @example
+ * ```ts
+ * resolveCountry("CHE")?.CountryISO2;      // "CH"
+ * resolveCountry("osterreich")?.CountryISO2; // "AT"
+ * resolveCountry("Côte d'Ivoire")?.CountryISO2; // "CI"
+ * ```
+ */
+export function resolveCountry(value: string | null | undefined): Country | undefined {
+  const trimmed = value?.trim() ?? "";
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const index = getAliasIndex();
+  const code = trimmed.toUpperCase();
+  return (
+    (code.length === 2 ? index.byIso2.get(code) : undefined) ??
+    (code.length === 3 ? index.byIso3.get(code) : undefined) ??
+    index.byName.get(normalizeAddressPart(trimmed))
+  );
+}
+
+/**
+ * Checks whether a country name or code denotes a country.
+ *
+ * @param value - An ISO code or a country name in any known language (e.g., an OptionSet label).
+ * @param countryCodeISO2 - The ISO 3166-1 alpha-2 code of the country.
+ * @returns True if the value resolves to the country.
+ *
+ * @example
+ * ```ts
+ * isSameCountry("Schweiz", "CH"); // true
+ * ```
+ */
+export function isSameCountry(value: string | null | undefined, countryCodeISO2: string): boolean {
+  return !!countryCodeISO2 && resolveCountry(value)?.CountryISO2 === countryCodeISO2.trim().toUpperCase();
+}
+
+/**
+ * Gets the name of a country in a language.
+ *
+ * @param country - The country.
+ * @param languageId - The LCID of the language (e.g., 1031 for German).
+ * @returns The name in the language, in another variant of the language (e.g., German
+ * for German (Switzerland)) or in English, in this order.
+ *
+ * @example
+ * ```ts
+ * getLocalizedCountryName(resolveCountry("DE")!, 1031); // "Deutschland"
+ * ```
+ */
+export function getLocalizedCountryName(country: Country, languageId: number | undefined): string {
+  if (languageId === undefined) {
+    return country.Country;
+  }
+  // The lower 10 bits of an LCID identify the language without its region
+  const language = languageId % 1024;
+  const sameLanguage = Object.entries(country.LocalizedCountryName).find(([lcid]) => Number(lcid) % 1024 === language);
+  return country.LocalizedCountryName[String(languageId)] ?? sameLanguage?.[1] ?? country.Country;
+}
+
+/**
+ * Formats the value written to a country field of type SingleLine.Text.
+ *
+ * @param format - The `CountriesConfig.TextFormat`; defaults to `'Name'`.
+ * @param country - The country name and ISO codes of the selected address.
+ * @param languageId - The LCID of the user's language, used by `'LocalizedName'`.
+ * @returns The country name or code. Codes of countries missing from the country list are
+ * written as received; the country name is written if the requested value is unknown.
+ *
+ * @example
+ * ```ts
+ * formatCountryText("ISO3", { name: "Germany", countryCodeISO2: "DE", countryCodeISO3: "" }); // "DEU"
+ * formatCountryText("LocalizedName", { name: "Germany", countryCodeISO2: "DE", countryCodeISO3: "DEU" }, 1031); // "Deutschland"
+ * ```
+ */
+export function formatCountryText(
+  format: CountryTextFormat | undefined,
+  country: { name: string; countryCodeISO2: string; countryCodeISO3: string },
+  languageId?: number
+): string {
+  const resolved =
+    resolveCountry(country.countryCodeISO2) ?? resolveCountry(country.countryCodeISO3) ?? resolveCountry(country.name);
+  let value: string | undefined;
+  switch (format) {
+    case "ISO2":
+      value = resolved?.CountryISO2 ?? country.countryCodeISO2.trim().toUpperCase();
+      break;
+    case "ISO3":
+      value = resolved?.CountryISO3 ?? country.countryCodeISO3.trim().toUpperCase();
+      break;
+    case "LocalizedName":
+      value = resolved ? getLocalizedCountryName(resolved, languageId) : undefined;
+      break;
+    default:
+      break;
+  }
+  if (!value) {
+    return country.name;
+  }
+  return value;
+}
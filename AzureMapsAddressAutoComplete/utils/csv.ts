@@ -0,0 +1,29 @@
+// AzureMapsAddressAutoComplete\utils\csv.ts
+
+/**
+ * Escapes a value for a CSV cell.
+ * Values containing a comma, a double quote or a line break are quoted, and their
+ * double quotes doubled.
+ *
+ * @param value - The cell value.
+ * @returns The escaped value.
+ */
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Builds CSV text (RFC 4180) from rows of cells.
+ *
+ * @param rows - The rows, the header row first.
+ * @returns The CSV text, with CRLF line breaks.
+ *
+ * @example
+ * ```ts
+ * toCsv([["Name", "Address"], ["Contoso", "Bahnhofstrasse 1, 8001 Zürich"]]);
+ * // 'Name,Address\r\nContoso,"Bahnhofstrasse 1, 8001 Zürich"'
+ * ```
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
@@ -0,0 +1,125 @@
+// AzureMapsAddressAutoComplete\utils\fieldMapping.ts
+import type { AzureMapsSearchResult } from "../services/AzureMap/azureMapsService";
+import type { AddressOutputName, AddressOutputTemplates, FieldMappingConfig } from "../types";
+
+/**
+ * Values of the bound text outputs filled from a selected address.
+ */
+export type AddressOutputValues = Record<AddressOutputName, string>;
+
+/**
+ * Templates used for outputs that no configured entry covers.
+ * They reproduce the original mapping: street name before house number (European format).
+ */
+export const DEFAULT_OUTPUT_TEMPLATES: Record<AddressOutputName, string[]> = {
+  Street: ["{streetName} {streetNumber}"],
+  City: ["{municipality}", "{localName}"],
+  PostalCode: ["{postalCode}"],
+  County: ["{municipalitySubdivision}", "{neighbourhood}"],
+  StateProvince: ["{countrySubdivisionName}", "{countrySubdivision}"],
+  StateProvinceCode: ["{countrySubdivisionCode}"],
+  Country: ["{country}"],
+};
+
+/**
+ * Fills a template with the address parts of a search result.
+ *
+ * @param template - The template, e.g. `{streetNumber} {streetName}`.
+ * @param address - The address of the search result.
+ * @returns The text, or undefined if every address part of the template is empty.
+ *
+ * @remarks
+ * Unknown address parts are empty. Whitespace and separators (`,` and `;`) left over
+ * by empty parts are removed. A template without address parts is returned as is.
+ *
+ * @example
+ * ```ts
+ * formatOutputTemplate("{streetNumber} {streetName}", { streetName: "Main St", freeformAddress: "" }); // "Main St"
+ * formatOutputTemplate("{neighbourhood}", { freeformAddress: "" });                                   // undefined
+ * ```
+ */
+export function formatOutputTemplate(
+  template: string,
+  address: AzureMapsSearchResult["address"]
+): string | undefined {
+  let hasPart = false;
+  let hasValue = false;
+  const parts = address as Record<string, unknown>;
+  const text = template.replace(/\{(\w+)\}/g, (_placeholder, name: string) => {
+    hasPart = true;
+    const value = parts[name];
+    if (typeof value === "string" && value.trim()) {
+      hasValue = true;
+      return value.trim();
+    }
+    return "";
+  });
+  if (hasPart && !hasValue) {
+    return undefined;
+  }
+  return text
+    .replace(/\s*([,;])(?:\s*[,;])+/g, "$1")
+    .replace(/\s+([,;])/g, "$1")
+    .replace(/^[\s,;]+|[\s,;]+$/g, "")
+    .replace(/\s{2,}/g, " ");
+}
+
+/**
+ * Gets the templates of an output for a country.
+ *
+ * @param templates - The configured templates per country code.
+ * @param countryCode - The ISO 3166-1 alpha-2 country code of the address.
+ * @param output - The output.
+ * @returns The templates of the country entry, then the `*` entry, then the built-in templates.
+ */
+function getOutputTemplates(
+  templates: Record<string, AddressOutputTemplates> | undefined,
+  countryCode: string,
+  output: AddressOutputName
+): string[] {
+  const configured = templates?.[countryCode]?.[output] ?? templates?.["*"]?.[output];
+  if (configured === undefined) {
+    return DEFAULT_OUTPUT_TEMPLATES[output];
+  }
+  return typeof configured === "string" ? [configured] : configured;
+}
+
+/**
+ * Maps the address of a search result to the bound text outputs.
+ *
+ * @param result - The selected search result.
+ * @param config - The `FieldMappingConfig` section of the additional parameters.
+ * @returns The output values; outputs whose templates are all empty are empty strings.
+ *
+ * @remarks
+ * Templates are taken from the entry of the result's country code, falling back to
+ * the `*` entry and then to {@link DEFAULT_OUTPUT_TEMPLATES}, per output. Without
+ * configuration, or when `Enabled` is false, only the built-in templates are used.
+ *
+ * @example
+ * ```ts
+ * const outputs = mapAddressOutputs(result, {
+ *   Templates: { US: { Street: "{streetNumber} {streetName}" } }
+ * });
+ * // outputs.Street === "1 Microsoft Way" for a US result
+ * ```
+ */
+export function mapAddressOutputs(
+  result: AzureMapsSearchResult,
+  config: FieldMappingConfig | undefined
+): AddressOutputValues {
+  const templates = config && config.Enabled !== false ? config.Templates : undefined;
+  const countryCode = result.address.countryCode?.toUpperCase() ?? "";
+  const values = {} as AddressOutputValues;
+  for (const output of Object.keys(DEFAULT_OUTPUT_TEMPLATES) as AddressOutputName[]) {
+    let value: string | undefined;
+    for (const template of getOutputTemplates(templates, countryCode, output)) {
+      value = formatOutputTemplate(template, result.address);
+      if (value !== undefined) {
+        break;
+      }
+    }
+    values[output] = value ?? "";
+  }
+  return values;
+}
@@ -0,0 +1,59 @@
+// AzureMapsAddressAutoComplete\utils\geolocation.ts
+import { GeolocationError, type GeolocationErrorCode } from "../types";
+
+/**
+ * Default options for reading the current position.
+ * Field users are often outdoors, so a fresh high-accuracy fix is preferred.
+ */
+export const DEFAULT_GEOLOCATION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10000,
+  maximumAge: 60000,
+};
+
+/**
+ * Maps `GeolocationPositionError` codes to {@link GeolocationErrorCode} values.
+ */
+const POSITION_ERROR_CODES: Record<number, GeolocationErrorCode> = {
+  1: "PermissionDenied",
+  2: "PositionUnavailable",
+  3: "Timeout",
+};
+
+/**
+ * Checks whether the browser supports geolocation.
+ *
+ * @returns True if `navigator.geolocation` is available.
+ */
+export function isGeolocationSupported(): boolean {
+  return typeof navigator !== "undefined" && !!navigator.geolocation;
+}
+
+/**
+ * Reads the current position of the device.
+ *
+ * @param options - Options passed to `navigator.geolocation.getCurrentPosition`.
+ * @returns Promise with the latitude and longitude of the device.
+ * @throws {@link GeolocationError} when geolocation is unsupported, denied, unavailable or times out.
+ *
+ * @example
+ * ```ts
+ * const { lat, lon } = await getCurrentPosition({ timeout: 5000 });
+ * ```
+ */
+export function getCurrentPosition(
+  options: PositionOptions = DEFAULT_GEOLOCATION_OPTIONS
+): Promise<{ lat: number; lon: number }> {
+  return new Promise((resolve, reject) => {
+    if (!isGeolocationSupported()) {
+      reject(new GeolocationError("Geolocation is not supported by this browser", "Unsupported"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      (error) =>
+        reject(new GeolocationError(error.message, POSITION_ERROR_CODES[error.code] ?? "PositionUnavailable")),
+      options
+    );
+  });
+}
@@ -9,14 +9,22 @@
  */
 
 import {
+  BuildingRegular,
   Copy16Regular,
   DismissRegular,
   ErrorCircle20Filled,
   GlobeRegular,
   Info16Regular,
   LocationRegular,
+  LocationAddRegular,
+  MyLocationRegular,
   SearchRegular,
-  ArrowUndoRegular
+  StarFilled,
+  StarRegular,
+  ArrowUndoRegular,
+  EditRegular,
+  ArrowSyncRegular,
+  ArrowDownloadRegular
 } from "@fluentui/react-icons";
 
 /**
@@ -40,6 +48,8 @@ import {
  * @public
  */
 export const Icons = {
+  /** Icon for entries from the company address book. */
+  BuildingRegular: BuildingRegular,
   /** Icon for copy/clipboard actions. */
   Copy16Regular: Copy16Regular,
   /** Icon for dismiss/close actions. */
@@ -52,8 +62,22 @@ export const Icons = {
   Info16Regular: Info16Regular,
   /** Icon for location/address markers. */
   LocationRegular: LocationRegular,
+  /** Icon for picking a location on the map. */
+  LocationAddRegular: LocationAddRegular,
+  /** Icon for using the current device location. */
+  MyLocationRegular: MyLocationRegular,
   /** Icon for search input fields. */
   SearchRegular: SearchRegular,
+  /** Icon for pinning an address as a favorite. */
+  StarRegular: StarRegular,
+  /** Icon for addresses pinned as favorites. */
+  StarFilled: StarFilled,
   /** Icon for undo actions. */
   ArrowUndoRegular: ArrowUndoRegular,
+  /** Icon for editing the address by hand. */
+  EditRegular: EditRegular,
+  /** Icon for refreshing the coordinates of an edited address. */
+  ArrowSyncRegular: ArrowSyncRegular,
+  /** Icon for downloading the bulk geocoding error report. */
+  ArrowDownloadRegular: ArrowDownloadRegular,
 } as const;
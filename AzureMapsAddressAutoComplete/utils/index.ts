@@ -34,6 +34,75 @@ export {
   hasLocaleMapping
 } from './localeUtils';
 
+export {
+  MIN_INNER_MATCH_LENGTH,
+  foldString,
+  tokenizeQuery,
+  findMatchRanges
+} from './textMatch';
+
+export type { MatchRange } from './textMatch';
+
+export {
+  validateAddress,
+  getValidationMessage
+} from './addressValidation';
+
+export type {
+  AddressValidationStatus,
+  AddressValidationFailure,
+  AddressValidationResult
+} from './addressValidation';
+
+export {
+  normalizeAddressPart,
+  normalizeStreet,
+  isSameStreet,
+  getDistanceInMeters
+} from './addressComparison';
+
+export {
+  toEditableAddress,
+  applyAddressEdits,
+  toStructuredAddressRequest
+} from './addressEdit';
+
+export type { IEditableAddress } from './addressEdit';
+
+export {
+  splitStreet,
+  resolveCountryCode,
+  toMissingCoordinatesRequest
+} from './missingCoordinates';
+
+export type { IBoundAddressFields } from './missingCoordinates';
+
+export { toCsv } from './csv';
+
+export {
+  resolveCountry,
+  isSameCountry,
+  getLocalizedCountryName,
+  formatCountryText
+} from './countryResolver';
+
+export {
+  DEFAULT_OUTPUT_TEMPLATES,
+  formatOutputTemplate,
+  mapAddressOutputs
+} from './fieldMapping';
+
+export type { AddressOutputValues } from './fieldMapping';
+
+export {
+  ADDRESS_FORMATS,
+  DEFAULT_ADDRESS_FORMAT,
+  getAddressFormat,
+  formatAddressLines,
+  formatAddressValue,
+  toSingleLineAddress
+} from './addressFormat';
+
 export { Icons } from './iconRegistry';
 
 export {
@@ -47,6 +116,19 @@ export type { MapSize } from './pcfPropertyHelpers';
 
 export { getTheme } from './theme';
 
+export {
+  DEFAULT_GEOLOCATION_OPTIONS,
+  isGeolocationSupported,
+  getCurrentPosition
+} from './geolocation';
+
+export {
+  DEFAULT_LOCATION_BIAS_SOURCES,
+  resolveLocationBias
+} from './locationBias';
+
+export type { LocationBias } from './locationBias';
+
 export {
   loadAzureMapsSdk,
   getAtlas,
@@ -0,0 +1,98 @@
+// AzureMapsAddressAutoComplete\utils\locationBias.ts
+import type { LocationBiasConfig, LocationBiasSource } from "../types";
+import { getCurrentPosition } from "./geolocation";
+
+/**
+ * Reference point that address searches are biased towards.
+ */
+export interface LocationBias {
+  /** Latitude of the reference point. */
+  lat: number;
+  /** Longitude of the reference point. */
+  lon: number;
+  /** Optional radius in meters that restricts results to the area around the point. */
+  radius?: number;
+}
+
+/**
+ * Sources used when `LocationBias.Sources` is not configured.
+ * The browser location is opt-in because it asks the user for permission.
+ */
+export const DEFAULT_LOCATION_BIAS_SOURCES: readonly LocationBiasSource[] = ["Record", "FixedPoint"];
+
+/**
+ * Converts a latitude/longitude pair to a coordinate if it is usable.
+ *
+ * @param lat - The latitude.
+ * @param lon - The longitude.
+ * @returns The coordinate, or undefined if a value is missing or out of range.
+ */
+function toCoordinate(
+  lat: number | null | undefined,
+  lon: number | null | undefined
+): { lat: number; lon: number } | undefined {
+  if (typeof lat !== "number" || typeof lon !== "number" || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return undefined;
+  }
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : undefined;
+}
+
+/**
+ * Resolves the reference point for location-biased search.
+ * The configured sources are tried in order and the first point found is used.
+ *
+ * @param config - The `AzureMapServiceConfigs.LocationBias` configuration.
+ * @param recordPosition - The bound coordinates of the current record.
+ * @param getUserPosition - Reads the browser location (injectable for tests).
+ * @returns Promise with the reference point, or undefined if biasing is disabled or no source yields a point.
+ *
+ * @remarks
+ * A denied or failing browser location is not an error here; the next source is tried instead.
+ *
+ * @example
+ * ```ts
+ * const bias = await resolveLocationBias(
+ *   { Sources: ["Record", "FixedPoint"], Latitude: 48.7758, Longitude: 9.1829 },
+ *   { lat: undefined, lon: undefined }
+ * );
+ * // { lat: 48.7758, lon: 9.1829 }
+ * ```
+ */
+export async function resolveLocationBias(
+  config: LocationBiasConfig | undefined,
+  recordPosition: { lat: number | null | undefined; lon: number | null | undefined },
+  getUserPosition: () => Promise<{ lat: number; lon: number }> = getCurrentPosition
+): Promise<LocationBias | undefined> {
+  if (!config || config.Enabled === false) {
+    return undefined;
+  }
+  const radius = typeof config.Radius === "number" && config.Radius > 0 ? config.Radius : undefined;
+
+  for (const source of config.Sources ?? DEFAULT_LOCATION_BIAS_SOURCES) {
+    switch (source) {
+      case "Record": {
+        const position = toCoordinate(recordPosition.lat, recordPosition.lon);
+        if (position) {
+          return { ...position, radius };
+        }
+        break;
+      }
+      case "UserLocation":
+        try {
+          const position = await getUserPosition();
+          return { ...position, radius };
+        } catch (error) {
+          console.warn("Location bias: Current location is not available:", error);
+        }
+        break;
+      case "FixedPoint": {
+        const position = toCoordinate(config.Latitude, config.Longitude);
+        if (position) {
+          return { ...position, radius };
+        }
+        break;
+      }
+    }
+  }
+  return undefined;
+}
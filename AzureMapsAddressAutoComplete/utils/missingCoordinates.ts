@@ -0,0 +1,116 @@
+// AzureMapsAddressAutoComplete\utils\missingCoordinates.ts
+import type { StructuredAddressRequest } from "../services/SearchProvider/SearchProvider";
+
+/**
+ * Bound address fields of an existing record.
+ */
+export interface IBoundAddressFields {
+  /** Street with house number, as written to the `street` output. */
+  street: string;
+  /** City. */
+  city: string;
+  /** Postal/ZIP code. */
+  postalCode: string;
+  /** State or province. */
+  stateProvince: string;
+  /** ISO 3166-1 alpha-2 country code. */
+  countryCodeISO2: string;
+}
+
+/**
+ * Splits a street into street name and house number.
+ * Recognizes a house number after the street name ("Bahnhofstrasse 1a", as written by the control)
+ * and before it ("1 Microsoft Way").
+ *
+ * @param street - The street with house number.
+ * @returns The street name, and the house number if one was recognized.
+ *
+ * @example
+ * ```ts
+ * splitStreet("Bahnhofstrasse 1a"); // { streetName: "Bahnhofstrasse", streetNumber: "1a" }
+ * splitStreet("1 Microsoft Way");   // { streetName: "Microsoft Way", streetNumber: "1" }
+ * ```
+ */
+export function splitStreet(street: string): { streetName: string; streetNumber?: string } {
+  const trimmed = street.trim();
+  const trailing = /^(.*\D)\s+(\d+[a-zA-Z]?(?:[-/]\d+[a-zA-Z]?)?)$/.exec(trimmed);
+  if (trailing) {
+    return { streetName: trailing[1].trim(), streetNumber: trailing[2] };
+  }
+  const leading = /^(\d+[a-zA-Z]?(?:-\d+)?)\s+(\D.*)$/.exec(trimmed);
+  if (leading) {
+    return { streetName: leading[2].trim(), streetNumber: leading[1] };
+  }
+  return { streetName: trimmed };
+}
+
+/**
+ * Resolves the country in which the address of an existing record is geocoded.
+ *
+ * @param countryCode - The ISO 3166-1 alpha-2 country code of the record, if any.
+ * @param defaultCountries - The comma-separated default countries; a single code is used
+ * when the record has no country code.
+ * @returns The upper-case country code, or undefined if the country is unknown.
+ *
+ * @example
+ * ```ts
+ * resolveCountryCode("", "ch");    // "CH"
+ * resolveCountryCode("", "CH,LI"); // undefined
+ * ```
+ */
+export function resolveCountryCode(countryCode: string, defaultCountries: string): string | undefined {
+  const trimmed = countryCode.trim();
+  if (trimmed) {
+    return trimmed.toUpperCase();
+  }
+  const defaultCodes = defaultCountries
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+  return defaultCodes.length === 1 ? defaultCodes[0].toUpperCase() : undefined;
+}
+
+/**
+ * Builds the structured search request that geocodes the address of an existing record.
+ *
+ * @param fields - The bound address fields.
+ * @param defaultCountries - The comma-separated default countries; a single code is used
+ * when the record has no country code.
+ * @param language - The language code for results.
+ * @returns The request, or undefined if street, city and postal code are empty or the country is unknown.
+ *
+ * @example
+ * ```ts
+ * const request = toMissingCoordinatesRequest(
+ *   { street: "Bahnhofstrasse 1", city: "Zürich", postalCode: "8001", stateProvince: "", countryCodeISO2: "" },
+ *   "CH"
+ * );
+ * // { countryCode: "CH", streetName: "Bahnhofstrasse", streetNumber: "1", municipality: "Zürich", postalCode: "8001", ... }
+ * ```
+ */
+export function toMissingCoordinatesRequest(
+  fields: IBoundAddressFields,
+  defaultCountries: string,
+  language?: string
+): StructuredAddressRequest | undefined {
+  if (!fields.street.trim() && !fields.city.trim() && !fields.postalCode.trim()) {
+    return undefined;
+  }
+
+  const countryCode = resolveCountryCode(fields.countryCodeISO2, defaultCountries);
+  if (!countryCode) {
+    return undefined;
+  }
+
+  const { streetName, streetNumber } = splitStreet(fields.street);
+  return {
+    countryCode,
+    streetName,
+    streetNumber,
+    municipality: fields.city,
+    postalCode: fields.postalCode,
+    countrySubdivision: fields.stateProvince,
+    language,
+    limit: 1,
+  };
+}
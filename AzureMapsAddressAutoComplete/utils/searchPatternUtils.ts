@@ -281,13 +281,14 @@ export async function processPostalCodeResults(
 
   // Fetch postal codes for the first municipality found
   const municipalityWithPosition = filteredMunicipalities.find(r => r.position && r.address.municipality);
-  if (!municipalityWithPosition) {
+  const position = municipalityWithPosition?.position;
+  if (!municipalityWithPosition || !position) {
     return filteredMunicipalities;
   }
 
   const municipalityName = municipalityWithPosition.address.municipality ?? '';
   const countryCode = municipalityWithPosition.address.countryCode ?? effectiveCountrySet ?? '';
-  const postalCodes = await getPostalCodes(municipalityName, countryCode, municipalityWithPosition.position);
+  const postalCodes = await getPostalCodes(municipalityName, countryCode, position);
 
   if (postalCodes.length > 0) {
     // Create results for each postal code using the service helper
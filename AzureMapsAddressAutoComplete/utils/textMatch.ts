@@ -0,0 +1,192 @@
+/**
+ * Diacritic-insensitive matching of search queries in suggestion text.
+ * @module utils/textMatch
+ */
+
+/**
+ * A matched range in the original text.
+ */
+export interface MatchRange {
+  /** Index of the first matched character. */
+  start: number;
+  /** Index after the last matched character. */
+  end: number;
+}
+
+/**
+ * Query tokens of at least this length also match inside words
+ * (e.g., "strasse" in "Bahnhofstrasse") when they do not match a word start.
+ */
+export const MIN_INNER_MATCH_LENGTH = 3;
+
+/**
+ * Letters that Unicode decomposition does not fold to their base letters.
+ */
+const SPECIAL_FOLDS: Record<string, string> = {
+  'ß': 'ss',
+  'ẞ': 'ss',
+  'æ': 'ae',
+  'Æ': 'ae',
+  'œ': 'oe',
+  'Œ': 'oe',
+  'ø': 'o',
+  'Ø': 'o',
+  'ł': 'l',
+  'Ł': 'l',
+  'đ': 'd',
+  'Đ': 'd',
+  'ı': 'i',
+};
+
+/** Combining diacritical marks left over after NFD decomposition. */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/** Characters that are part of a word. */
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/** Separators between query tokens. */
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Text folded for matching, with the position of every folded character in the original text.
+ */
+interface FoldedText {
+  /** The lower-cased text without diacritics. */
+  text: string;
+  /** Start index in the original text for each folded character. */
+  starts: number[];
+  /** End index in the original text for each folded character. */
+  ends: number[];
+}
+
+/**
+ * Folds a single character to its lower-case form without diacritics.
+ *
+ * @param char - The character (a single code point).
+ * @returns The folded characters, which may be more than one (e.g., "ß" → "ss").
+ */
+const foldCharacter = (char: string): string =>
+  SPECIAL_FOLDS[char] ?? char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+
+/**
+ * Folds text for matching and keeps track of the original positions.
+ *
+ * @param text - The text to fold.
+ * @returns The folded text with position mappings.
+ */
+const foldText = (text: string): FoldedText => {
+  const folded: FoldedText = { text: '', starts: [], ends: [] };
+  let index = 0;
+  for (const char of text) {
+    const end = index + char.length;
+    const foldedChar = foldCharacter(char);
+    folded.text += foldedChar;
+    // One entry per UTF-16 code unit, matching the indices of the folded text
+    folded.starts.push(...new Array<number>(foldedChar.length).fill(index));
+    folded.ends.push(...new Array<number>(foldedChar.length).fill(end));
+    index = end;
+  }
+  return folded;
+};
+
+/**
+ * Folds text to lower case without diacritics (e.g., "Straße" → "strasse").
+ *
+ * @param text - The text to fold.
+ * @returns The folded text.
+ */
+export const foldString = (text: string): string => foldText(text).text;
+
+/**
+ * Checks whether a folded character starts a word.
+ *
+ * @param text - The folded text.
+ * @param index - The index of the character.
+ * @returns True if the character is at the start of the text or follows a non-word character.
+ */
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || !WORD_CHARACTER.test(text[index - 1]);
+
+/**
+ * Finds all indices at which a token occurs in the folded text.
+ *
+ * @param text - The folded text.
+ * @param token - The folded token.
+ * @returns The start indices of all occurrences.
+ */
+const findOccurrences = (text: string, token: string): number[] => {
+  const indices: number[] = [];
+  let index = text.indexOf(token);
+  while (index !== -1) {
+    indices.push(index);
+    index = text.indexOf(token, index + 1);
+  }
+  return indices;
+};
+
+/**
+ * Sorts ranges and merges overlapping or adjacent ones.
+ *
+ * @param ranges - The ranges to merge.
+ * @returns The merged ranges in ascending order.
+ */
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Splits a search query into folded tokens.
+ *
+ * @param query - The search query.
+ * @returns The distinct folded tokens.
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  Array.from(new Set(foldText(query).text.split(TOKEN_SEPARATOR).filter((token) => token.length > 0)));
+
+/**
+ * Finds the ranges of a text that match the tokens of a search query.
+ *
+ * @param text - The text to search in (e.g., a suggestion line).
+ * @param query - The search query as typed by the user.
+ * @returns The matched ranges in the original text, sorted and non-overlapping.
+ *
+ * @remarks
+ * Matching ignores case and diacritics ("zurich" matches "Zürich", "str" matches "Straße").
+ * Each query token matches at the start of words; tokens of at least
+ * {@link MIN_INNER_MATCH_LENGTH} characters also match inside words if they
+ * match no word start.
+ *
+ * @example
+ * ```ts
+ * findMatchRanges('Straße 5, Zürich', 'zurich str')
+ * // [{ start: 0, end: 3 }, { start: 10, end: 16 }]
+ * ```
+ */
+export const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const tokens = tokenizeQuery(query);
+  if (!text || tokens.length === 0) {
+    return [];
+  }
+
+  const folded = foldText(text);
+  const ranges: MatchRange[] = [];
+  for (const token of tokens) {
+    const occurrences = findOccurrences(folded.text, token);
+    const wordStarts = occurrences.filter((index) => isWordStart(folded.text, index));
+    const matches = wordStarts.length > 0 || token.length < MIN_INNER_MATCH_LENGTH ? wordStarts : occurrences;
+    for (const index of matches) {
+      ranges.push({ start: folded.starts[index], end: folded.ends[index + token.length - 1] });
+    }
+  }
+  return mergeRanges(ranges);
+};
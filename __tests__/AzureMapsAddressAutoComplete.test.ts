@@ -15,8 +15,35 @@ import {
   TwoOptionsPropertyMock,
   EnumPropertyMock,
 } from '@shko.online/componentframework-mock';
+import { waitFor } from '@testing-library/react';
 import { AzureMapsAddressAutoComplete } from '../AzureMapsAddressAutoComplete/index';
 import { IInputs, IOutputs } from '../AzureMapsAddressAutoComplete/generated/ManifestTypes';
+import type { IAzureMapsAddressAutoCompleteAppProps } from '../AzureMapsAddressAutoComplete/AzureMapsAddressAutoCompleteApp';
+import type { AzureMapsSearchResult } from '../AzureMapsAddressAutoComplete/services';
+import { PcfContextService } from '../AzureMapsAddressAutoComplete/services/PcfContext/PcfContextService';
+
+/**
+ * Gets the props the control passes to the React app.
+ */
+function getAppProps(
+  mockGenerator: ComponentFrameworkMockGeneratorReact<IInputs, IOutputs>
+): IAzureMapsAddressAutoCompleteAppProps {
+  mockGenerator.RefreshParameters();
+  const element = mockGenerator.control.updateView(
+    mockGenerator.context
+  ) as React.ReactElement<IAzureMapsAddressAutoCompleteAppProps>;
+  return element.props;
+}
+
+/**
+ * Selects an address through the props the control passes to the React app.
+ */
+function selectAddress(
+  mockGenerator: ComponentFrameworkMockGeneratorReact<IInputs, IOutputs>,
+  result: AzureMapsSearchResult
+): void {
+  getAppProps(mockGenerator).onSelect?.(result.address.freeformAddress, result);
+}
 
 /**
  * Helper function to safely get outputs from the control.
@@ -50,6 +77,8 @@ describe('AzureMapsAddressAutoComplete PCF Control', () => {
         longitude: DecimalNumberPropertyMock,
         latitude: DecimalNumberPropertyMock,
         resultScore: DecimalNumberPropertyMock,
+        isManuallyAdjusted: TwoOptionsPropertyMock,
+        validationStatus: StringPropertyMock,
         defaultCountries: StringPropertyMock,
         showMaps: TwoOptionsPropertyMock,
         mapSize: EnumPropertyMock,
@@ -186,6 +215,37 @@ describe('AzureMapsAddressAutoComplete PCF Control', () => {
       expect(outputs.latitude).toBe(47.6062);
       expect(outputs.longitude).toBe(-122.3321);
     });
+
+    it('should return the manually adjusted flag when set', () => {
+      // Arrange
+      mockGenerator.context._SetCanvasItems({
+        latitude: 47.6062,
+        longitude: -122.3321,
+        isManuallyAdjusted: true,
+      });
+      mockGenerator.ExecuteInit();
+      mockGenerator.ExecuteUpdateView();
+
+      // Act
+      const outputs = getOutputs(mockGenerator);
+
+      // Assert
+      expect(outputs.isManuallyAdjusted).toBe(true);
+    });
+    it('should return the validation status when set', () => {
+      // Arrange
+      mockGenerator.context._SetCanvasItems({
+        validationStatus: 'Invalid',
+      });
+      mockGenerator.ExecuteInit();
+      mockGenerator.ExecuteUpdateView();
+
+      // Act
+      const outputs = getOutputs(mockGenerator);
+
+      // Assert
+      expect(outputs.validationStatus).toBe('Invalid');
+    });
   });
 
   describe('Input Properties', () => {
@@ -246,6 +306,318 @@ describe('AzureMapsAddressAutoComplete PCF Control', () => {
     });
   });
 
+  describe('Missing Coordinates', () => {
+    const mockFetch = jest.fn();
+    const originalFetch = global.fetch;
+
+    /**
+     * Sets the fields of a record saved before the control was added to the form.
+     */
+    const setLegacyRecord = (items: Record<string, unknown> = {}): void => {
+      mockGenerator.context._SetCanvasItems({
+        subscriptionKey: 'test-key',
+        additionalParameters: JSON.stringify({
+          AzureMapServiceConfigs: { GeocodeMissingCoordinates: { Enabled: true } },
+        }),
+        street: 'Bahnhofstrasse 1',
+        city: 'Zürich',
+        postalCode: '8001',
+        countryCodeISO2: 'CH',
+        ...items,
+      });
+    };
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      mockFetch.mockReset().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          results: [
+            {
+              type: 'Point Address',
+              id: 'structured-1',
+              score: 0.98,
+              address: { freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich', countryCode: 'CH' },
+              position: { lat: 47.3769, lon: 8.5417 },
+            },
+          ],
+        }),
+      });
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it('should geocode records that have an address but no coordinates', async () => {
+      setLegacyRecord();
+
+      mockGenerator.ExecuteInit();
+
+      await waitFor(() => expect(getOutputs(mockGenerator).latitude).toBe(47.3769));
+      const url = new URL(mockFetch.mock.calls[0][0] as string);
+      expect(url.pathname).toBe('/search/address/structured/json');
+      expect(url.searchParams.get('countryCode')).toBe('CH');
+      expect(url.searchParams.get('streetName')).toBe('Bahnhofstrasse');
+      expect(url.searchParams.get('streetNumber')).toBe('1');
+      expect(getOutputs(mockGenerator).longitude).toBe(8.5417);
+      expect(getOutputs(mockGenerator).resultScore).toBe(0.98);
+      expect(getOutputs(mockGenerator).street).toBe('Bahnhofstrasse 1');
+    });
+
+    it('should not geocode records that have coordinates', () => {
+      setLegacyRecord({ latitude: 47.37, longitude: 8.54 });
+
+      mockGenerator.ExecuteInit();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not geocode when turned off in the additional parameters', () => {
+      setLegacyRecord({
+        additionalParameters: JSON.stringify({
+          AzureMapServiceConfigs: { GeocodeMissingCoordinates: { Enabled: false } },
+          CountriesConfig: { Choices: [], Lookup: [] },
+        }),
+      });
+
+      mockGenerator.ExecuteInit();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not geocode unless turned on, so opening a record does not make the form dirty', () => {
+      setLegacyRecord({ additionalParameters: '' });
+
+      mockGenerator.ExecuteInit();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockGenerator.notifyOutputChanged.called).toBe(false);
+    });
+
+    it.each([
+      ['cleared', undefined],
+      [
+        'replaced by an address book entry without coordinates',
+        {
+          type: 'Address Book',
+          id: 'contoso_site:site-1',
+          address: { streetName: 'Limmatquai', streetNumber: '2', countryCode: 'CH', freeformAddress: 'Limmatquai 2, 8001 Zürich' },
+          addressBookRecord: { tableName: 'contoso_site', id: 'site-1' },
+        } as AzureMapsSearchResult,
+      ],
+    ])('should drop the coordinates of the record address when it was %s during the lookup', async (_, result) => {
+      let respond: (value: unknown) => void = () => undefined;
+      mockFetch.mockReset().mockReturnValue(new Promise((resolve) => (respond = resolve)));
+      setLegacyRecord();
+      mockGenerator.ExecuteInit();
+      await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+
+      getAppProps(mockGenerator).onSelect?.(result?.address.freeformAddress ?? '', result);
+      respond({
+        ok: true,
+        json: async () => ({
+          results: [{ type: 'Point Address', id: 'structured-1', score: 0.98, address: {}, position: { lat: 47.3769, lon: 8.5417 } }],
+        }),
+      });
+
+      await waitFor(() =>
+        expect(console.log).toHaveBeenCalledWith(
+          'geocodeMissingCoordinates: Address changed during the lookup, dropping the match'
+        )
+      );
+      expect(getOutputs(mockGenerator).latitude).toBeNull();
+      expect(getOutputs(mockGenerator).longitude).toBeNull();
+      expect(getOutputs(mockGenerator).resultScore).toBeNull();
+    });
+
+    it('should not geocode without a known country', () => {
+      setLegacyRecord({ countryCodeISO2: '', defaultCountries: 'CH,DE' });
+
+      mockGenerator.ExecuteInit();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Address Selection', () => {
+    const searchResult: AzureMapsSearchResult = {
+      type: 'Point Address',
+      id: 'search-1',
+      score: 0.98,
+      address: {
+        streetName: 'Bahnhofstrasse',
+        streetNumber: '1',
+        postalCode: '8001',
+        municipality: 'Zürich',
+        countryCode: 'CH',
+        freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich',
+      },
+      position: { lat: 47.3769, lon: 8.5417 },
+    };
+
+    const addressBookEntry: AzureMapsSearchResult = {
+      type: 'Address Book',
+      id: 'contoso_site:site-1',
+      address: {
+        streetName: 'Limmatquai',
+        streetNumber: '2',
+        postalCode: '8001',
+        municipality: 'Zürich',
+        countryCode: 'CH',
+        freeformAddress: 'Limmatquai 2, 8001 Zürich',
+      },
+      addressBookRecord: { tableName: 'contoso_site', id: 'site-1' },
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should clear the coordinates and score of the previous address for address book entries', async () => {
+      mockGenerator.context._SetCanvasItems({
+        additionalParameters: JSON.stringify({
+          ValidationConfig: { AllowedEntityTypes: ['Point Address'] },
+        }),
+      });
+      mockGenerator.ExecuteInit();
+
+      selectAddress(mockGenerator, searchResult);
+      await waitFor(() => expect(getOutputs(mockGenerator).resultScore).toBe(0.98));
+      selectAddress(mockGenerator, addressBookEntry);
+
+      await waitFor(() => expect(getOutputs(mockGenerator).street).toBe('Limmatquai 2'));
+      const outputs = getOutputs(mockGenerator);
+      expect(outputs.latitude).toBeNull();
+      expect(outputs.longitude).toBeNull();
+      expect(outputs.resultScore).toBeNull();
+      expect(outputs.validationStatus).toBe('Valid');
+    });
+
+    it('should keep the search text in the input when a multi-line value is written', async () => {
+      mockGenerator.context._SetCanvasItems({
+        additionalParameters: JSON.stringify({ AddressFormatConfig: { Layout: 'MultiLine' } }),
+      });
+      mockGenerator.ExecuteInit();
+
+      selectAddress(mockGenerator, {
+        ...searchResult,
+        address: { ...searchResult.address, freeformAddress: 'Bahnhofstrasse 1, Zürich' },
+      });
+      await waitFor(() =>
+        expect(getOutputs(mockGenerator).azureMapsAddressSearchAutoComplete).toBe('Bahnhofstrasse 1\n8001 Zürich')
+      );
+      // The framework passes the written value back
+      mockGenerator.context._SetCanvasItems({ azureMapsAddressSearchAutoComplete: 'Bahnhofstrasse 1\n8001 Zürich' });
+
+      expect(getAppProps(mockGenerator).value).toBe('Bahnhofstrasse 1, Zürich');
+      expect(getOutputs(mockGenerator).azureMapsAddressSearchAutoComplete).toBe('Bahnhofstrasse 1\n8001 Zürich');
+    });
+
+    it('should show a multi-line value loaded with the record on one line', () => {
+      mockGenerator.context._SetCanvasItems({ azureMapsAddressSearchAutoComplete: 'Limmatquai 2\n8001 ZÜRICH' });
+      mockGenerator.ExecuteInit();
+
+      expect(getAppProps(mockGenerator).value).toBe('Limmatquai 2, 8001 ZÜRICH');
+    });
+
+    it('should pass validation failures to the app when the host has no form notifications', async () => {
+      mockGenerator.context._SetCanvasItems({
+        additionalParameters: JSON.stringify({
+          ValidationConfig: { AllowedEntityTypes: ['Point Address'] },
+        }),
+      });
+      mockGenerator.ExecuteInit();
+
+      selectAddress(mockGenerator, { ...searchResult, type: 'Street' });
+      await waitFor(() => expect(getOutputs(mockGenerator).validationStatus).toBe('Invalid'));
+      expect(getAppProps(mockGenerator).validationMessage).toBe(
+        'Results of type "Street" are not accepted. Select a more precise address.'
+      );
+
+      selectAddress(mockGenerator, searchResult);
+      await waitFor(() => expect(getOutputs(mockGenerator).validationStatus).toBe('Valid'));
+      expect(getAppProps(mockGenerator).validationMessage).toBeUndefined();
+    });
+
+    it('should show validation failures as a form notification when the host supports them', async () => {
+      const setNotification = jest.fn().mockReturnValue(true);
+      Object.assign(mockGenerator.context.utils, { setNotification, clearNotification: jest.fn() });
+      mockGenerator.context._SetCanvasItems({
+        additionalParameters: JSON.stringify({
+          ValidationConfig: { AllowedEntityTypes: ['Point Address'] },
+        }),
+      });
+      mockGenerator.ExecuteInit();
+
+      selectAddress(mockGenerator, { ...searchResult, type: 'Street' });
+
+      await waitFor(() => expect(getOutputs(mockGenerator).validationStatus).toBe('Invalid'));
+      expect(setNotification).toHaveBeenCalledWith(
+        'Results of type "Street" are not accepted. Select a more precise address.',
+        expect.any(String)
+      );
+      expect(getAppProps(mockGenerator).validationMessage).toBeUndefined();
+    });
+  });
+
+  describe('OptionSet Country', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      // Options of a country choice column without external values and with German labels
+      jest.spyOn(PcfContextService.prototype, 'getOrFetchOptionSetMetadata').mockResolvedValue([]);
+      jest.spyOn(PcfContextService.prototype, 'getCachedOptionSetMetadata').mockReturnValue([
+        { Value: 100000001, Label: 'Schweiz', ExternalValue: '', Color: null },
+        { Value: 100000002, Label: 'Deutschland', ExternalValue: '', Color: null },
+      ]);
+      Object.assign(mockGenerator.context.parameters.country, { type: 'OptionSet' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should write the option matched by its label when the options have no external values', async () => {
+      mockGenerator.ExecuteInit();
+
+      getAppProps(mockGenerator).onSelect?.('Unter den Linden 77, 10117 Berlin', {
+        type: 'Point Address',
+        id: 'search-1',
+        address: {
+          streetName: 'Unter den Linden',
+          municipality: 'Berlin',
+          country: 'Germany',
+          countryCode: 'DE',
+          countryCodeISO3: 'DEU',
+          freeformAddress: 'Unter den Linden 77, 10117 Berlin',
+        },
+      });
+
+      await waitFor(() => expect(getOutputs(mockGenerator).country).toBe(100000002));
+    });
+  });
+
+  describe('Configuration Updates', () => {
+    it('should pass the service that receives additionalParameters changes to the app', () => {
+      mockGenerator.ExecuteInit();
+      const service = getAppProps(mockGenerator).pcfContextService;
+
+      mockGenerator.context._SetCanvasItems({
+        additionalParameters: JSON.stringify({ AddressFormatConfig: { Layout: 'MultiLine' } }),
+      });
+      const props = getAppProps(mockGenerator);
+
+      expect(props.pcfContextService).toBe(service);
+      expect(props.pcfContextService?.additionalParamsConfig?.AddressFormatConfig?.Layout).toBe('MultiLine');
+    });
+  });
+
   describe('Context Properties', () => {
     it('should have access to mode.trackContainerResize', () => {
       // Arrange & Act
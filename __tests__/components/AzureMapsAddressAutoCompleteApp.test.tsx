@@ -219,6 +219,24 @@ describe('AzureMapsAddressAutoCompleteApp', () => {
     });
   });
 
+  describe('Shared PcfContextService', () => {
+    it('should use the passed PcfContextService instead of creating one', async () => {
+      const sharedService = {
+        ...mockPcfContextServiceInstance,
+        initialize: jest.fn().mockResolvedValue(undefined),
+      } as unknown as PcfContextService;
+      (PcfContextService as unknown as jest.Mock).mockClear();
+
+      await act(async () => {
+        render(<AzureMapsAddressAutoCompleteApp {...defaultProps} pcfContextService={sharedService} />);
+      });
+
+      expect(PcfContextService).not.toHaveBeenCalled();
+      expect(sharedService.initialize).toHaveBeenCalled();
+      expect(screen.getByTestId('has-context')).toBeInTheDocument();
+    });
+  });
+
   describe('Visibility', () => {
     it('should return null when control is not visible', async () => {
       // Reset mock to return false for isVisible
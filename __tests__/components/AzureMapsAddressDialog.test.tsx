@@ -14,6 +14,7 @@ import {
   AzureMapsAddressDialog,
   IAzureMapsAddressDialogProps,
 } from '../../AzureMapsAddressAutoComplete/components/AzureMapsAddressDialog';
+import { GeolocationError } from '../../AzureMapsAddressAutoComplete/types';
 
 // Mock navigator.clipboard
 const mockClipboard = {
@@ -350,6 +351,24 @@ describe('AzureMapsAddressDialog', () => {
     });
   });
 
+  describe('GeolocationError Handling', () => {
+    it('should display the geolocation error code and location suggestions', () => {
+      renderWithProvider({
+        ...defaultProps,
+        title: 'Location Error',
+        error: new GeolocationError('Location access was denied', 'PermissionDenied'),
+      });
+
+      expect(screen.getByText('Location Error')).toBeInTheDocument();
+      expect(screen.getByText('PermissionDenied')).toBeInTheDocument();
+      expect(screen.getByText('Location access was denied')).toBeInTheDocument();
+      expect(screen.queryByText(/HTTP/)).not.toBeInTheDocument();
+      expect(
+        screen.getByText(/allow location access for this site/i)
+      ).toBeInTheDocument();
+    });
+  });
+
   describe('HTTP Status Descriptions', () => {
     const statusCases: Array<[number, string]> = [
       [400, 'Bad Request'],
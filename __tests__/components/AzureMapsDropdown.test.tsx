@@ -12,6 +12,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { FluentProvider, webLightTheme } from '@fluentui/react-components';
 import {
   AzureMapsDropdown,
+  getSuggestionOptionId,
   IAzureMapsDropdownProps,
 } from '../../AzureMapsAddressAutoComplete/components/AzureMapsDropdown';
 import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
@@ -28,6 +29,8 @@ jest.mock('../../AzureMapsAddressAutoComplete/services/PcfContext/PcfContext', (
     subscriptionKey: 'test-key',
     mapSize: 'medium',
     getString: (key: string, fallback: string) => fallback,
+    getCredential: () => undefined,
+    getSearchProvider: () => undefined,
   })),
 }));
 
@@ -121,7 +124,7 @@ describe('AzureMapsDropdown', () => {
     it('should render all suggestions', () => {
       renderWithProvider(defaultProps);
 
-      const options = screen.getAllByRole('listitem');
+      const options = screen.getAllByRole('option');
       expect(options).toHaveLength(3);
     });
 
@@ -169,11 +172,11 @@ describe('AzureMapsDropdown', () => {
 
       expect(screen.getByText(/Main Street/).closest('li')).toHaveAttribute(
         'id',
-        'suggestion-option-0'
+        'test-listbox-option-0'
       );
       expect(screen.getByText(/First Avenue/).closest('li')).toHaveAttribute(
         'id',
-        'suggestion-option-1'
+        'test-listbox-option-1'
       );
     });
 
@@ -210,42 +213,140 @@ describe('AzureMapsDropdown', () => {
   });
 
   describe('Keyboard Navigation', () => {
-    it('should call onSelect when Enter is pressed on suggestion', () => {
+    it('should not make suggestions tabbable, as focus stays in the input', () => {
       renderWithProvider(defaultProps);
 
-      const firstSuggestion = screen.getByText(/Main Street/).closest('li');
-      fireEvent.keyDown(firstSuggestion!, { key: 'Enter' });
+      const suggestions = screen.getAllByRole('option');
+      suggestions.forEach((suggestion) => {
+        expect(suggestion).toHaveAttribute('tabIndex', '-1');
+      });
+    });
 
-      expect(mockOnSelect).toHaveBeenCalledWith(mockSuggestions[0]);
+    it('should mark only the active option as selected', () => {
+      renderWithProvider({ ...defaultProps, activeIndex: 1 });
+
+      const suggestions = screen.getAllByRole('option');
+      expect(suggestions[0]).toHaveAttribute('aria-selected', 'false');
+      expect(suggestions[1]).toHaveAttribute('aria-selected', 'true');
+      expect(suggestions[2]).toHaveAttribute('aria-selected', 'false');
     });
 
-    it('should call onSelect when Space is pressed on suggestion', () => {
-      renderWithProvider(defaultProps);
+    it('should scroll the active option into view', () => {
+      // jsdom does not implement scrollIntoView
+      const originalScrollIntoView = Element.prototype.scrollIntoView;
+      const scrollIntoView = jest.fn();
+      Element.prototype.scrollIntoView = scrollIntoView;
 
-      const firstSuggestion = screen.getByText(/Main Street/).closest('li');
-      fireEvent.keyDown(firstSuggestion!, { key: ' ' });
+      try {
+        renderWithProvider({ ...defaultProps, activeIndex: 2 });
 
-      expect(mockOnSelect).toHaveBeenCalledWith(mockSuggestions[0]);
+        expect(scrollIntoView).toHaveBeenCalledWith({ block: 'nearest' });
+        expect(scrollIntoView.mock.instances[0]).toBe(screen.getAllByRole('option')[2]);
+      } finally {
+        Element.prototype.scrollIntoView = originalScrollIntoView;
+      }
     });
 
-    it('should not call onSelect for other keys', () => {
+    it('should report the option under the pointer as active', () => {
+      const onActiveIndexChange = jest.fn();
+      renderWithProvider({ ...defaultProps, onActiveIndexChange });
+
+      fireEvent.mouseEnter(screen.getByText(/Oak Lane/).closest('li')!);
+
+      expect(onActiveIndexChange).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('Match Highlighting', () => {
+    it('should bold the parts of both lines that match the query', () => {
+      const { container } = renderWithProvider({ ...defaultProps, highlightQuery: 'main seattle' });
+
+      const firstSuggestion = container.querySelectorAll('li')[0];
+      const matches = Array.from(firstSuggestion.querySelectorAll('strong')).map((match) => match.textContent);
+      expect(matches).toEqual(['Main', 'Seattle', 'Seattle']);
+    });
+
+    it('should ignore diacritics when highlighting', () => {
+      const zurich = createMockResult('4', 'Straße', 'Zürich', '8001');
+      const { container } = renderWithProvider({
+        ...defaultProps,
+        suggestions: [zurich],
+        highlightQuery: 'zurich str',
+      });
+
+      const primaryLine = container.querySelector('li span');
+      const matches = Array.from(primaryLine!.querySelectorAll('strong')).map((match) => match.textContent);
+      expect(matches).toEqual(['Str', 'Zürich']);
+    });
+
+    it('should render plain text without a query', () => {
+      const { container } = renderWithProvider(defaultProps);
+
+      expect(container.querySelector('strong')).not.toBeInTheDocument();
+      expect(screen.getByText(/Main Street/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Recent Section', () => {
+    it('should not show the heading for search results', () => {
       renderWithProvider(defaultProps);
 
-      const firstSuggestion = screen.getByText(/Main Street/).closest('li');
-      fireEvent.keyDown(firstSuggestion!, { key: 'Tab' });
-      fireEvent.keyDown(firstSuggestion!, { key: 'Escape' });
-      fireEvent.keyDown(firstSuggestion!, { key: 'a' });
+      expect(screen.queryByText('Recent')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Add to favorites' })).not.toBeInTheDocument();
+    });
+
+    it('should show stored addresses under a heading without affecting option IDs', () => {
+      renderWithProvider({ ...defaultProps, isRecent: true, onToggleFavorite: jest.fn() });
 
+      expect(screen.getByText('Recent')).toBeInTheDocument();
+      expect(screen.getAllByRole('option')[0]).toHaveAttribute('id', 'test-listbox-option-0');
+    });
+
+    it('should mark favorites and toggle them without selecting the address', () => {
+      const onToggleFavorite = jest.fn();
+      renderWithProvider({ ...defaultProps, isRecent: true, favoriteCount: 1, onToggleFavorite });
+
+      const removeButtons = screen.getAllByRole('button', { name: 'Remove from favorites' });
+      const addButtons = screen.getAllByRole('button', { name: 'Add to favorites' });
+      expect(removeButtons).toHaveLength(1);
+      expect(addButtons).toHaveLength(2);
+      expect(removeButtons[0]).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(addButtons[0]);
+
+      expect(onToggleFavorite).toHaveBeenCalledWith(mockSuggestions[1]);
       expect(mockOnSelect).not.toHaveBeenCalled();
     });
+  });
+
+  describe('Address Book Entries', () => {
+    const addressBookEntry: AzureMapsSearchResult = {
+      ...createMockResult('account:42', 'Harbor Road', 'Seattle', '98104'),
+      type: 'Address Book',
+      addressBookRecord: { tableName: 'account', id: '42', name: 'Contoso Ltd' },
+    };
+
+    it('should show the entry name with the address', () => {
+      renderWithProvider({ ...defaultProps, suggestions: [addressBookEntry, ...mockSuggestions] });
+
+      expect(screen.getAllByRole('option')[0]).toHaveTextContent('Contoso Ltd • Seattle');
+    });
 
-    it('should make suggestions focusable via tabIndex', () => {
-      renderWithProvider(defaultProps);
+    it('should use a distinct icon for address book entries', () => {
+      renderWithProvider({ ...defaultProps, suggestions: [addressBookEntry, ...mockSuggestions] });
 
-      const suggestions = screen.getAllByRole('listitem');
-      suggestions.forEach((suggestion) => {
-        expect(suggestion).toHaveAttribute('tabIndex', '0');
-      });
+      const [bookOption, searchOption] = screen.getAllByRole('option');
+      expect(bookOption.querySelector('svg')?.innerHTML).not.toBe(searchOption.querySelector('svg')?.innerHTML);
+    });
+  });
+
+  describe('getSuggestionOptionId', () => {
+    it('should combine the listbox ID and index', () => {
+      expect(getSuggestionOptionId('test-listbox', 3)).toBe('test-listbox-option-3');
+    });
+
+    it('should fall back to a default prefix without a listbox ID', () => {
+      expect(getSuggestionOptionId(undefined, 0)).toBe('suggestion-option-0');
     });
   });
 
@@ -265,7 +366,7 @@ describe('AzureMapsDropdown', () => {
 
       // When showMaps is true, each suggestion should have a panel trigger
       // The panel component renders globe buttons
-      const suggestions = screen.getAllByRole('listitem');
+      const suggestions = screen.getAllByRole('option');
       expect(suggestions.length).toBe(3);
     });
   });
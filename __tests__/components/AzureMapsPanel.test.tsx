@@ -8,23 +8,28 @@
 
 import '@testing-library/jest-dom';
 import * as React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { FluentProvider, webLightTheme } from '@fluentui/react-components';
 import {
   AzureMapsPanel,
   IAzureMapsPanelProps,
 } from '../../AzureMapsAddressAutoComplete/components/AzureMapsPanel';
 import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+import { useAzureMap } from '../../AzureMapsAddressAutoComplete/hooks/useAzureMap';
 
 // Mock the PcfContext
 const mockPcfContext: {
   subscriptionKey: string;
   mapSize: 'small' | 'medium' | 'large';
   getString: jest.Mock;
+  getCredential: jest.Mock;
+  getSearchProvider: jest.Mock;
 } = {
   subscriptionKey: 'test-subscription-key',
   mapSize: 'medium',
   getString: jest.fn((key: string, fallback: string) => fallback),
+  getCredential: jest.fn(() => undefined),
+  getSearchProvider: jest.fn(() => undefined),
 };
 
 jest.mock('../../AzureMapsAddressAutoComplete/services/PcfContext/PcfContext', () => ({
@@ -97,6 +102,7 @@ describe('AzureMapsPanel', () => {
     mockPcfContext.subscriptionKey = 'test-subscription-key';
     mockUseAzureMap.hasMapData = true;
     mockUseAzureMap.isLoading = false;
+    mockPcfContext.getSearchProvider.mockReturnValue(undefined);
   });
 
   describe('Trigger Button', () => {
@@ -296,6 +302,264 @@ describe('AzureMapsPanel', () => {
     });
   });
 
+  describe('Pick on Map', () => {
+    const pickedResult = createMockResult({
+      type: 'Geography',
+      id: 'reverse-47.7,-122.1',
+      address: {
+        freeformAddress: 'Woodinville, WA 98072',
+        municipality: 'Woodinville',
+        postalCode: '98072',
+        countryCode: 'US',
+        country: 'United States',
+      },
+      position: { lat: 47.7, lon: -122.1 },
+    });
+
+    /**
+     * Reports a location through the onPick callback passed to useAzureMap.
+     */
+    const pickLocation = async (position: { lat: number; lon: number }): Promise<void> => {
+      const calls = (useAzureMap as jest.Mock).mock.calls;
+      const options = calls[calls.length - 1][0] as {
+        onPick: (position: { lat: number; lon: number }) => void;
+      };
+      await act(async () => {
+        options.onPick(position);
+      });
+    };
+
+    it('should not offer pick mode when the provider cannot reverse geocode', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      expect(screen.queryByRole('button', { name: 'Pick on map' })).not.toBeInTheDocument();
+    });
+
+    it('should enable pick mode on the map when toggled', () => {
+      mockPcfContext.getSearchProvider.mockReturnValue({ reverseGeocode: jest.fn() });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Pick on map' }));
+
+      expect(useAzureMap).toHaveBeenLastCalledWith(expect.objectContaining({ pickEnabled: true }));
+      expect(screen.getByText('Click the map or drag the marker')).toBeInTheDocument();
+    });
+
+    it('should select the address found at the picked location', async () => {
+      const reverseGeocode = jest.fn().mockResolvedValue(pickedResult);
+      mockPcfContext.getSearchProvider.mockReturnValue({ reverseGeocode });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      await pickLocation({ lat: 47.7, lon: -122.1 });
+
+      expect(reverseGeocode).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: 47.7, lon: -122.1, language: 'en-US' })
+      );
+      expect(useAzureMap).toHaveBeenLastCalledWith(expect.objectContaining({ latitude: 47.7, longitude: -122.1 }));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(pickedResult);
+    });
+
+    it('should keep the result when no address is found', async () => {
+      mockPcfContext.getSearchProvider.mockReturnValue({ reverseGeocode: jest.fn().mockResolvedValue(undefined) });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      await pickLocation({ lat: 0, lon: 0 });
+
+      expect(screen.getByText('No address found at this location')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+      expect(mockOnSelect).toHaveBeenCalledWith(defaultProps.result);
+    });
+
+    it('should show a message when the lookup fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockPcfContext.getSearchProvider.mockReturnValue({
+        reverseGeocode: jest.fn().mockRejectedValue(new Error('HTTP 500')),
+      });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      await pickLocation({ lat: 47.7, lon: -122.1 });
+
+      expect(screen.getByText('The address at this location could not be looked up')).toBeInTheDocument();
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('Marker Dragging', () => {
+    /**
+     * Reports a dragged marker position through the onMarkerDragEnd callback passed to useAzureMap.
+     */
+    const dragMarker = (position: { lat: number; lon: number }): void => {
+      const calls = (useAzureMap as jest.Mock).mock.calls;
+      const options = calls[calls.length - 1][0] as {
+        onMarkerDragEnd: (position: { lat: number; lon: number }) => void;
+      };
+      act(() => {
+        options.onMarkerDragEnd(position);
+      });
+    };
+
+    it('should make the marker draggable', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      expect(useAzureMap).toHaveBeenLastCalledWith(expect.objectContaining({ markerDraggable: true }));
+    });
+
+    it('should update the coordinates but keep the address when the marker is dragged', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      dragMarker({ lat: 47.61, lon: -122.33 });
+
+      expect(screen.getByDisplayValue('47.61')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('-122.33')).toBeInTheDocument();
+      expect(screen.getByText('Position adjusted manually')).toBeInTheDocument();
+      expect(useAzureMap).toHaveBeenLastCalledWith(expect.objectContaining({ latitude: 47.61, longitude: -122.33 }));
+    });
+
+    it('should select the result with the adjusted position', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      dragMarker({ lat: 47.61, lon: -122.33 });
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith({
+        ...defaultProps.result,
+        position: { lat: 47.61, lon: -122.33 },
+        manuallyAdjusted: true,
+      });
+    });
+  });
+
+  describe('Manual Editing', () => {
+    /**
+     * Replaces the value of the input with the given label.
+     */
+    const typeInto = (label: string, value: string): void => {
+      fireEvent.change(screen.getByRole('textbox', { name: label }), { target: { value } });
+    };
+
+    it('should show editable inputs for every address part', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+
+      expect(screen.getByRole('textbox', { name: 'Street' })).toHaveValue('Main Street');
+      expect(screen.getByRole('textbox', { name: 'House Number' })).toHaveValue('123');
+      expect(screen.getByRole('textbox', { name: 'County' })).toHaveValue('');
+      expect(screen.getByRole('textbox', { name: 'State/Province' })).toHaveValue('Washington');
+      expect(screen.getByRole('textbox', { name: 'Street' })).not.toHaveAttribute('readonly');
+    });
+
+    it('should select the edited address', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      typeInto('House Number', '125');
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: expect.objectContaining({
+            streetNumber: '125',
+            freeformAddress: 'Main Street 125, 98101 Seattle, United States',
+          }),
+          position: { lat: 47.6062, lon: -122.3321 },
+          manuallyEdited: true,
+        })
+      );
+      // The score of the original address does not apply to the edited one
+      expect((mockOnSelect.mock.calls[0][0] as AzureMapsSearchResult).score).toBeUndefined();
+    });
+
+    it('should discard the edits when edit mode is turned off', () => {
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      typeInto('House Number', '125');
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(defaultProps.result);
+    });
+
+    it('should not offer updating coordinates without structured search', () => {
+      mockPcfContext.getSearchProvider.mockReturnValue({ reverseGeocode: jest.fn() });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+
+      expect(screen.queryByRole('button', { name: 'Update coordinates' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Pick on map' })).not.toBeInTheDocument();
+    });
+
+    it('should update the coordinates from the edited address', async () => {
+      const searchAddressStructured = jest.fn().mockResolvedValue([
+        createMockResult({ position: { lat: 47.6065, lon: -122.3325 }, score: 0.87 }),
+      ]);
+      mockPcfContext.getSearchProvider.mockReturnValue({ searchAddressStructured });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      typeInto('House Number', '125');
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Update coordinates' }));
+      });
+
+      expect(searchAddressStructured).toHaveBeenCalledWith(
+        expect.objectContaining({ countryCode: 'US', streetName: 'Main Street', streetNumber: '125', limit: 1 })
+      );
+      expect(screen.getByText('Coordinates updated')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('47.6065')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Select' }));
+
+      const selected = mockOnSelect.mock.calls[0][0] as AzureMapsSearchResult;
+      expect(selected.position).toEqual({ lat: 47.6065, lon: -122.3325 });
+      expect(selected.address.streetNumber).toBe('125');
+      expect(selected.score).toBe(0.87);
+      expect(selected.manuallyAdjusted).toBeUndefined();
+    });
+
+    it('should keep the coordinates when the edited address is not found', async () => {
+      mockPcfContext.getSearchProvider.mockReturnValue({ searchAddressStructured: jest.fn().mockResolvedValue([]) });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Update coordinates' }));
+      });
+
+      expect(screen.getByText('No location found for the edited address')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('47.6062')).toBeInTheDocument();
+    });
+
+    it('should disable updating coordinates when the edited country is unknown', () => {
+      mockPcfContext.getSearchProvider.mockReturnValue({ searchAddressStructured: jest.fn() });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      typeInto('Country', 'Atlantis');
+
+      expect(screen.getByRole('button', { name: 'Update coordinates' })).toBeDisabled();
+    });
+
+    it('should geocode an edited country with the codes resolved from its name', async () => {
+      const searchAddressStructured = jest.fn().mockResolvedValue([]);
+      mockPcfContext.getSearchProvider.mockReturnValue({ searchAddressStructured });
+      renderWithProvider({ ...defaultProps, open: true });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit manually' }));
+      typeInto('Country', 'Canada');
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: 'Update coordinates' }));
+      });
+
+      expect(searchAddressStructured).toHaveBeenCalledWith(expect.objectContaining({ countryCode: 'CA' }));
+    });
+  });
+
   describe('Action Buttons', () => {
     it('should render Cancel button', () => {
       renderWithProvider({
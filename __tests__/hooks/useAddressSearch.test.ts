@@ -9,16 +9,35 @@
 import { renderHook, act } from '@testing-library/react-hooks';
 import { useAddressSearch, UseAddressSearchOptions } from '../../AzureMapsAddressAutoComplete/hooks/useAddressSearch';
 import * as services from '../../AzureMapsAddressAutoComplete/services';
-import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+import type { AzureMapsSearchResult, AddressSearchProvider } from '../../AzureMapsAddressAutoComplete/services';
+import { RecentAddressService } from '../../AzureMapsAddressAutoComplete/services/RecentAddress/RecentAddressService';
+import type { AddressBookService } from '../../AzureMapsAddressAutoComplete/services/AddressBook/AddressBookService';
 
 // Mock the services module
-jest.mock('../../AzureMapsAddressAutoComplete/services', () => ({
-  searchAddress: jest.fn(),
-  searchMunicipalities: jest.fn(),
-  fetchPostalCodesForMunicipality: jest.fn(),
-  normalizeResults: jest.fn((results) => results),
-  createPostalCodeResult: jest.fn()
-}));
+jest.mock('../../AzureMapsAddressAutoComplete/services', () => {
+  const mockServices = {
+    searchAddress: jest.fn(),
+    searchMunicipalities: jest.fn(),
+    fetchPostalCodesForMunicipality: jest.fn(),
+    normalizeResults: jest.fn((results) => results),
+    createPostalCodeResult: jest.fn()
+  };
+  return {
+    ...mockServices,
+    // Default provider delegates to the mocked service functions
+    createAzureMapsSearchProvider: jest.fn(({ subscriptionKey }: { subscriptionKey: string }) =>
+      subscriptionKey
+        ? {
+            id: 'azure-maps-search-v1',
+            searchAddress: (request: object) => mockServices.searchAddress({ ...request, subscriptionKey }),
+            searchMunicipalities: (request: object) => mockServices.searchMunicipalities({ ...request, subscriptionKey }),
+            fetchPostalCodesForMunicipality: (name: string, countryCode: string, position: object, language?: string) =>
+              mockServices.fetchPostalCodesForMunicipality(subscriptionKey, name, countryCode, position, language)
+          }
+        : undefined
+    )
+  };
+});
 
 // Mock timers for debounce testing
 jest.useFakeTimers();
@@ -663,4 +682,902 @@ describe('useAddressSearch', () => {
       );
     });
   });
+  describe('Search Provider', () => {
+    const createFakeProvider = (results: AzureMapsSearchResult[]): AddressSearchProvider => ({
+      id: 'fake',
+      searchAddress: jest.fn().mockResolvedValue(results),
+      searchMunicipalities: jest.fn().mockResolvedValue([]),
+      fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue([])
+    });
+
+    it('should use an injected provider instead of the Azure Maps service', async () => {
+      const provider = createFakeProvider([mockSearchResult]);
+
+      const { result } = renderHook(() =>
+        useAddressSearch('', { ...defaultOptions, searchProvider: provider })
+      );
+
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'seattle' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'seattle' }
+        );
+      });
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(provider.searchAddress).toHaveBeenCalledWith(
+        expect.objectContaining({ query: '1 seattle', language: 'en-US', limit: 100 })
+      );
+      expect(services.searchAddress).not.toHaveBeenCalled();
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+    });
+
+    it('should search with an injected provider even without a subscription key', async () => {
+      const provider = createFakeProvider([mockSearchResult]);
+
+      const { result } = renderHook(() =>
+        useAddressSearch('', { language: 'en-US', searchProvider: provider })
+      );
+
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'seattle' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'seattle' }
+        );
+      });
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(provider.searchAddress).toHaveBeenCalled();
+    });
+
+    it('should fetch postal codes through the injected provider', async () => {
+      const provider = createFakeProvider([]);
+      (provider.fetchPostalCodesForMunicipality as jest.Mock).mockResolvedValue(['1011']);
+      (services.createPostalCodeResult as jest.Mock).mockReturnValue(mockSearchResult);
+
+      const { result } = renderHook(() =>
+        useAddressSearch('', { ...defaultOptions, searchProvider: provider })
+      );
+
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'PLZ: Budapest' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'PLZ: Budapest' }
+        );
+      });
+
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      await act(async () => {
+        await result.current.handleSelectAddress(mockMunicipalityResult);
+      });
+
+      expect(provider.fetchPostalCodesForMunicipality).toHaveBeenCalledWith(
+        'Budapest',
+        'HU',
+        mockMunicipalityResult.position,
+        'en-US',
+        expect.any(AbortSignal)
+      );
+    });
+  });
+
+  describe('Request Cancellation', () => {
+    beforeEach(() => {
+      // Earlier tests replace the pass-through normalizer with fixed results
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+    });
+
+    /**
+     * Creates a provider whose searchAddress calls resolve only when released.
+     */
+    const createDeferredProvider = () => {
+      const pending: { request: { signal?: AbortSignal }; resolve: (r: AzureMapsSearchResult[]) => void; reject: (e: Error) => void }[] = [];
+      const provider: AddressSearchProvider = {
+        id: 'deferred',
+        searchAddress: jest.fn((request: { signal?: AbortSignal }) =>
+          new Promise<AzureMapsSearchResult[]>((resolve, reject) => {
+            pending.push({ request, resolve, reject });
+          })
+        ),
+        searchMunicipalities: jest.fn().mockResolvedValue([]),
+        fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue([])
+      };
+      return { provider, pending };
+    };
+
+    const typeAndWait = async (
+      result: { current: ReturnType<typeof useAddressSearch> },
+      value: string
+    ): Promise<void> => {
+      act(() => {
+        result.current.handleChange(
+          { target: { value } } as React.ChangeEvent<HTMLInputElement>,
+          { value }
+        );
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+    };
+
+    const newerResult: AzureMapsSearchResult = {
+      ...mockSearchResult,
+      id: 'newer',
+      address: { ...mockSearchResult.address, freeformAddress: 'Bahnhofstrasse 1, Zürich' }
+    };
+
+    it('should abort the in-flight request when the input changes', async () => {
+      const { provider, pending } = createDeferredProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+      await typeAndWait(result, 'Bahnh');
+
+      expect(pending[0].request.signal?.aborted).toBe(false);
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'Bahnho' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Bahnho' }
+        );
+      });
+
+      expect(pending[0].request.signal?.aborted).toBe(true);
+    });
+
+    it('should drop responses that arrive after a newer search started', async () => {
+      const { provider, pending } = createDeferredProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+      await typeAndWait(result, 'Bahnh');
+      await typeAndWait(result, 'Bahnhofstrasse');
+
+      await act(async () => {
+        pending[1].resolve([newerResult]);
+      });
+      await act(async () => {
+        pending[0].resolve([mockSearchResult]);
+      });
+
+      expect(result.current.suggestions).toEqual([newerResult]);
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it('should not show an error dialog for superseded requests', async () => {
+      const { provider, pending } = createDeferredProvider();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+      await typeAndWait(result, 'Bahnh');
+      await typeAndWait(result, 'Bahnhofstrasse');
+
+      await act(async () => {
+        pending[0].reject(new Error('The operation was aborted.'));
+      });
+
+      expect(result.current.showErrorDialog).toBe(false);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should expose cancelSearch to cancel debounced and in-flight searches', async () => {
+      const { provider, pending } = createDeferredProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+      await typeAndWait(result, 'Bahnh');
+
+      expect(result.current.isLoading).toBe(true);
+
+      act(() => {
+        result.current.cancelSearch();
+      });
+
+      expect(pending[0].request.signal?.aborted).toBe(true);
+      expect(result.current.isLoading).toBe(false);
+
+      await act(async () => {
+        pending[0].resolve([mockSearchResult]);
+      });
+      expect(result.current.suggestions).toEqual([]);
+
+      // A debounced search that has not started yet is cancelled as well
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'Bahnho' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Bahnho' }
+        );
+        result.current.cancelSearch();
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(provider.searchAddress).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Searches municipalities with the postal code pattern so that selecting one looks up its postal codes.
+     */
+    const searchPostalCodes = async (provider: AddressSearchProvider) => {
+      (provider.searchMunicipalities as jest.Mock).mockResolvedValue([mockMunicipalityResult]);
+      const hook = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+      act(() => {
+        hook.result.current.handleFocus();
+      });
+      await typeAndWait(hook.result, 'PLZ: Budapest');
+      return hook;
+    };
+
+    it('should report postal code lookup errors of a selected municipality', async () => {
+      const { provider } = createDeferredProvider();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      (provider.fetchPostalCodesForMunicipality as jest.Mock).mockRejectedValue(new Error('Service unavailable'));
+      const { result } = await searchPostalCodes(provider);
+
+      await act(async () => {
+        await result.current.handleSelectAddress(mockMunicipalityResult);
+      });
+
+      expect(result.current.showErrorDialog).toBe(true);
+      expect(result.current.error?.message).toBe('Service unavailable');
+      expect(result.current.isLoading).toBe(false);
+      consoleSpy.mockRestore();
+    });
+
+    it('should drop the postal codes of a superseded municipality selection', async () => {
+      const { provider } = createDeferredProvider();
+      (services.createPostalCodeResult as jest.Mock).mockReturnValue(mockSearchResult);
+      const { result } = await searchPostalCodes(provider);
+      let resolvePostalCodes: (postalCodes: string[]) => void = () => undefined;
+      (provider.fetchPostalCodesForMunicipality as jest.Mock).mockImplementationOnce(
+        () => new Promise<string[]>((resolve) => {
+          resolvePostalCodes = resolve;
+        })
+      );
+      let selection: Promise<void> = Promise.resolve();
+
+      act(() => {
+        selection = result.current.handleSelectAddress(mockMunicipalityResult);
+      });
+      const calls = (provider.fetchPostalCodesForMunicipality as jest.Mock).mock.calls;
+      const signal = calls[calls.length - 1][4] as AbortSignal;
+      await typeAndWait(result, 'PLZ: Debrecen');
+
+      await act(async () => {
+        resolvePostalCodes(['1011']);
+        await selection;
+      });
+
+      expect(signal.aborted).toBe(true);
+      expect(result.current.suggestions).not.toContainEqual(mockSearchResult);
+      expect(result.current.isLoading).toBe(false);
+    });
+  });
+
+  describe('Retrying State', () => {
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+    });
+
+    /**
+     * Creates a provider that reports a retry and then waits to be released.
+     */
+    const createRetryingProvider = () => {
+      let release: (outcome: AzureMapsSearchResult[] | Error) => void = () => {};
+      const provider: AddressSearchProvider = {
+        id: 'retrying',
+        searchAddress: jest.fn((request: { onRetry?: (info: { attempt: number; maxAttempts: number; delayMs: number; status: number }) => void }) => {
+          request.onRetry?.({ attempt: 1, maxAttempts: 3, delayMs: 500, status: 429 });
+          return new Promise<AzureMapsSearchResult[]>((resolve, reject) => {
+            release = (outcome) => (outcome instanceof Error ? reject(outcome) : resolve(outcome));
+          });
+        }),
+        searchMunicipalities: jest.fn().mockResolvedValue([]),
+        fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue([])
+      };
+      return { provider, release: (outcome: AzureMapsSearchResult[] | Error) => release(outcome) };
+    };
+
+    const startSearch = async (result: { current: ReturnType<typeof useAddressSearch> }): Promise<void> => {
+      act(() => {
+        result.current.handleFocus();
+      });
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'Bahnh' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Bahnh' }
+        );
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+    };
+
+    it('should report retries without showing the error dialog', async () => {
+      const { provider, release } = createRetryingProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await startSearch(result);
+
+      expect(result.current.isRetrying).toBe(true);
+      expect(result.current.showErrorDialog).toBe(false);
+
+      await act(async () => {
+        release([mockSearchResult]);
+      });
+
+      expect(result.current.isRetrying).toBe(false);
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+    });
+
+    it('should show the error dialog once all attempts failed', async () => {
+      const { provider, release } = createRetryingProvider();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await startSearch(result);
+      await act(async () => {
+        release(new Error('Rate limit exceeded'));
+      });
+
+      expect(result.current.isRetrying).toBe(false);
+      expect(result.current.showErrorDialog).toBe(true);
+      consoleSpy.mockRestore();
+    });
+
+    it('should clear the retrying state when the search is cancelled', async () => {
+      const { provider } = createRetryingProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await startSearch(result);
+      act(() => {
+        result.current.cancelSearch();
+      });
+
+      expect(result.current.isRetrying).toBe(false);
+    });
+  });
+
+  describe('Current Location', () => {
+    const getCurrentPosition = jest.fn();
+
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+      Object.defineProperty(navigator, 'geolocation', {
+        value: { getCurrentPosition },
+        configurable: true
+      });
+      getCurrentPosition.mockImplementation((success: PositionCallback) =>
+        success({ coords: { latitude: 47.6062, longitude: -122.3321 } } as GeolocationPosition)
+      );
+    });
+
+    afterAll(() => {
+      Object.defineProperty(navigator, 'geolocation', { value: undefined, configurable: true });
+    });
+
+    const createProvider = (reverseGeocode = jest.fn().mockResolvedValue(mockSearchResult)): AddressSearchProvider => ({
+      id: 'reverse',
+      searchAddress: jest.fn().mockResolvedValue([]),
+      searchMunicipalities: jest.fn().mockResolvedValue([]),
+      fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue([]),
+      reverseGeocode
+    });
+
+    it('should only be available when the provider can reverse geocode', () => {
+      const { result: withReverse } = renderHook(() =>
+        useAddressSearch('', { ...defaultOptions, searchProvider: createProvider() })
+      );
+      const { result: withoutReverse } = renderHook(() => useAddressSearch('', defaultOptions));
+
+      expect(withReverse.current.canSearchNearCurrentLocation).toBe(true);
+      expect(withoutReverse.current.canSearchNearCurrentLocation).toBe(false);
+    });
+
+    it('should suggest the address at the current location', async () => {
+      const provider = createProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await act(async () => {
+        await result.current.searchNearCurrentLocation();
+      });
+
+      expect(provider.reverseGeocode).toHaveBeenCalledWith(
+        expect.objectContaining({ lat: 47.6062, lon: -122.3321, language: 'en-US' })
+      );
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+      expect(result.current.showDropdown).toBe(true);
+      expect(result.current.isLocating).toBe(false);
+    });
+
+    it('should suggest the addresses on the street nearest to the current location', async () => {
+      const nextDoor = {
+        ...mockSearchResult,
+        id: 'next-door',
+        address: { ...mockSearchResult.address, streetNumber: '125', freeformAddress: '125 Main Street, Seattle, WA 98101' },
+        position: { lat: 47.6063, lon: -122.3321 }
+      };
+      const acrossTown = {
+        ...nextDoor,
+        id: 'across-town',
+        address: { ...nextDoor.address, streetNumber: '9000', freeformAddress: '9000 Main Street, Seattle, WA 98101' },
+        position: { lat: 47.65, lon: -122.3321 }
+      };
+      const provider = createProvider();
+      (provider.searchAddress as jest.Mock).mockResolvedValue([acrossTown, mockSearchResult, nextDoor]);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await act(async () => {
+        await result.current.searchNearCurrentLocation();
+      });
+
+      expect(provider.searchAddress).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'Main Street, Seattle', countrySet: 'US', lat: 47.6062, lon: -122.3321, radius: 250 })
+      );
+      expect(result.current.suggestions).toEqual([mockSearchResult, nextDoor]);
+    });
+
+    it('should suggest the reverse geocoded address when the nearby search fails', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = createProvider();
+      (provider.searchAddress as jest.Mock).mockRejectedValue(new Error('Service unavailable'));
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await act(async () => {
+        await result.current.searchNearCurrentLocation();
+      });
+
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+      expect(result.current.showErrorDialog).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should report denied location access', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      getCurrentPosition.mockImplementation((_success: PositionCallback, error: PositionErrorCallback) =>
+        error({ code: 1, message: 'User denied Geolocation' } as GeolocationPositionError)
+      );
+      const provider = createProvider();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await act(async () => {
+        await result.current.searchNearCurrentLocation();
+      });
+
+      expect(provider.reverseGeocode).not.toHaveBeenCalled();
+      expect(result.current.showErrorDialog).toBe(true);
+      expect(result.current.error).toMatchObject({ name: 'GeolocationError', code: 'PermissionDenied' });
+      consoleSpy.mockRestore();
+    });
+
+    it('should report when no address is found at the current location', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = createProvider(jest.fn().mockResolvedValue(undefined));
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, searchProvider: provider }));
+
+      await act(async () => {
+        await result.current.searchNearCurrentLocation();
+      });
+
+      expect(result.current.suggestions).toEqual([]);
+      expect(result.current.error).toMatchObject({ code: 'NoAddressFound' });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Location Bias', () => {
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+    });
+
+    const search = async (
+      result: { current: ReturnType<typeof useAddressSearch> },
+      value: string
+    ): Promise<void> => {
+      act(() => {
+        result.current.handleFocus();
+      });
+      act(() => {
+        result.current.handleChange({ target: { value } } as React.ChangeEvent<HTMLInputElement>, { value });
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+    };
+
+    it('should bias address searches towards the reference point', async () => {
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() =>
+        useAddressSearch('', { ...defaultOptions, locationBias: { lat: 48.7758, lon: 9.1829, radius: 50000 } })
+      );
+
+      await search(result, 'Hauptstrasse 1');
+
+      expect(services.searchAddress).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'Hauptstrasse 1', lat: 48.7758, lon: 9.1829, radius: 50000 })
+      );
+    });
+
+    it('should not bias searches without a reference point', async () => {
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() => useAddressSearch('', defaultOptions));
+
+      await search(result, 'Hauptstrasse 1');
+
+      const request = (services.searchAddress as jest.Mock).mock.calls[0][0] as Record<string, unknown>;
+      expect(request).not.toHaveProperty('lat');
+      expect(request).not.toHaveProperty('lon');
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    const secondResult: AzureMapsSearchResult = {
+      ...mockSearchResult,
+      id: 'test-id-3',
+      address: { ...mockSearchResult.address, streetNumber: '456' }
+    };
+
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult, secondResult]);
+    });
+
+    const pressKey = (result: { current: ReturnType<typeof useAddressSearch> }, key: string) => {
+      const event = { key, preventDefault: jest.fn() } as unknown as React.KeyboardEvent<HTMLInputElement>;
+      act(() => {
+        result.current.handleKeyDown(event);
+      });
+      return event;
+    };
+
+    const renderWithSuggestions = async (options: UseAddressSearchOptions = defaultOptions) => {
+      const hook = renderHook(() => useAddressSearch('', options));
+      act(() => {
+        hook.result.current.handleFocus();
+      });
+      act(() => {
+        hook.result.current.handleChange(
+          { target: { value: 'Main Street' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Main Street' }
+        );
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+      return hook;
+    };
+
+    it('should start without an active option', async () => {
+      const { result } = await renderWithSuggestions();
+
+      expect(result.current.suggestions).toHaveLength(2);
+      expect(result.current.activeIndex).toBe(-1);
+    });
+
+    it('should move through the options with the arrow keys and wrap around', async () => {
+      const { result } = await renderWithSuggestions();
+
+      const event = pressKey(result, 'ArrowDown');
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(result.current.activeIndex).toBe(0);
+
+      pressKey(result, 'ArrowDown');
+      expect(result.current.activeIndex).toBe(1);
+
+      pressKey(result, 'ArrowDown');
+      expect(result.current.activeIndex).toBe(0);
+
+      pressKey(result, 'ArrowUp');
+      expect(result.current.activeIndex).toBe(1);
+    });
+
+    it('should jump to the first and last option with Home and End', async () => {
+      const { result } = await renderWithSuggestions();
+
+      pressKey(result, 'End');
+      expect(result.current.activeIndex).toBe(1);
+
+      pressKey(result, 'Home');
+      expect(result.current.activeIndex).toBe(0);
+    });
+
+    it('should select the active option with Enter', async () => {
+      const onSelect = jest.fn();
+      const { result } = await renderWithSuggestions({ ...defaultOptions, onSelect });
+
+      pressKey(result, 'ArrowDown');
+      pressKey(result, 'ArrowDown');
+      const event = pressKey(result, 'Enter');
+      await act(async () => {
+        await Promise.resolve();
+      });
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(onSelect).toHaveBeenCalledWith('123 Main Street, Seattle, WA 98101', secondResult);
+      expect(result.current.showDropdown).toBe(false);
+      expect(result.current.activeIndex).toBe(-1);
+    });
+
+    it('should leave Enter alone without an active option', async () => {
+      const { result } = await renderWithSuggestions();
+
+      const event = pressKey(result, 'Enter');
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(result.current.showDropdown).toBe(true);
+    });
+
+    it('should close the dropdown with Escape and reopen it with ArrowDown', async () => {
+      const { result } = await renderWithSuggestions();
+      pressKey(result, 'ArrowDown');
+
+      pressKey(result, 'Escape');
+      expect(result.current.showDropdown).toBe(false);
+      expect(result.current.activeIndex).toBe(-1);
+
+      pressKey(result, 'ArrowUp');
+      expect(result.current.showDropdown).toBe(true);
+      expect(result.current.activeIndex).toBe(1);
+    });
+
+    it('should reset the active option when the suggestions change', async () => {
+      const { result } = await renderWithSuggestions();
+      pressKey(result, 'ArrowDown');
+      (services.searchAddress as jest.Mock).mockResolvedValue([secondResult]);
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'Main Street 1' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Main Street 1' }
+        );
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(result.current.activeIndex).toBe(-1);
+    });
+
+    it('should ignore the arrow keys without suggestions', () => {
+      const { result } = renderHook(() => useAddressSearch('', defaultOptions));
+
+      const event = pressKey(result, 'ArrowDown');
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+      expect(result.current.showDropdown).toBe(false);
+    });
+  });
+
+  describe('Recent Addresses', () => {
+    let recentAddresses: RecentAddressService;
+
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+      localStorage.clear();
+      recentAddresses = new RecentAddressService({ userId: 'test-user' });
+    });
+
+    it('should suggest favorites and recent addresses when the empty input is focused', () => {
+      recentAddresses.addRecent(mockMunicipalityResult);
+      recentAddresses.addRecent(mockSearchResult);
+      recentAddresses.toggleFavorite(mockMunicipalityResult);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      expect(result.current.showDropdown).toBe(true);
+      expect(result.current.isShowingRecent).toBe(true);
+      expect(result.current.favoriteCount).toBe(1);
+      expect(result.current.suggestions).toEqual([mockMunicipalityResult, mockSearchResult]);
+    });
+
+    it('should not open the dropdown without stored addresses', () => {
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      expect(result.current.showDropdown).toBe(false);
+      expect(result.current.isShowingRecent).toBe(false);
+    });
+
+    it('should select a stored address without calling the API', async () => {
+      recentAddresses.addRecent(mockSearchResult);
+      const onSelect = jest.fn();
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses, onSelect }));
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      await act(async () => {
+        await result.current.handleSelectAddress(result.current.suggestions[0]);
+      });
+
+      expect(onSelect).toHaveBeenCalledWith(mockSearchResult.address.freeformAddress, mockSearchResult);
+      expect(services.searchAddress).not.toHaveBeenCalled();
+      expect(services.searchMunicipalities).not.toHaveBeenCalled();
+      expect(result.current.isShowingRecent).toBe(false);
+    });
+
+    it('should record selected search results', async () => {
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+
+      await act(async () => {
+        await result.current.handleSelectAddress(mockSearchResult);
+      });
+
+      expect(recentAddresses.getAddresses().recent).toEqual([mockSearchResult]);
+    });
+
+    it('should replace the recent section with search results while typing', async () => {
+      recentAddresses.addRecent(mockMunicipalityResult);
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      act(() => {
+        result.current.handleChange(
+          { target: { value: 'Main Street' } } as React.ChangeEvent<HTMLInputElement>,
+          { value: 'Main Street' }
+        );
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+
+      expect(result.current.isShowingRecent).toBe(false);
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+    });
+
+    it('should show the recent section again when the input is cleared', () => {
+      recentAddresses.addRecent(mockSearchResult);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+      act(() => {
+        result.current.handleFocus();
+      });
+      act(() => {
+        result.current.handleChange({ target: { value: 'Ma' } } as React.ChangeEvent<HTMLInputElement>, { value: 'Ma' });
+      });
+
+      act(() => {
+        result.current.handleChange({ target: { value: '' } } as React.ChangeEvent<HTMLInputElement>, { value: '' });
+      });
+
+      expect(result.current.isShowingRecent).toBe(true);
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+    });
+
+    it('should move a pinned address to the favorites', () => {
+      recentAddresses.addRecent(mockMunicipalityResult);
+      recentAddresses.addRecent(mockSearchResult);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, recentAddresses }));
+      act(() => {
+        result.current.handleFocus();
+      });
+
+      act(() => {
+        result.current.toggleFavorite(mockMunicipalityResult);
+      });
+
+      expect(recentAddresses.isFavorite(mockMunicipalityResult)).toBe(true);
+      expect(result.current.favoriteCount).toBe(1);
+      expect(result.current.suggestions).toEqual([mockMunicipalityResult, mockSearchResult]);
+    });
+  });
+  describe('Address Book', () => {
+    const addressBookEntry: AzureMapsSearchResult = {
+      type: 'Address Book',
+      id: 'account:42',
+      address: {
+        streetName: 'Main Street 1',
+        municipality: 'Seattle',
+        countryCode: 'US',
+        freeformAddress: 'Main Street 1, Seattle'
+      },
+      addressBookRecord: { tableName: 'account', id: '42', name: 'Contoso Ltd' }
+    };
+    let searchAddressBook: jest.Mock;
+    let addressBook: AddressBookService;
+
+    beforeEach(() => {
+      (services.normalizeResults as jest.Mock).mockImplementation((results: AzureMapsSearchResult[]) => results);
+      searchAddressBook = jest.fn().mockResolvedValue([addressBookEntry]);
+      addressBook = { search: searchAddressBook } as unknown as AddressBookService;
+    });
+
+    const search = async (
+      result: { current: ReturnType<typeof useAddressSearch> },
+      value: string
+    ): Promise<void> => {
+      act(() => {
+        result.current.handleFocus();
+      });
+      act(() => {
+        result.current.handleChange({ target: { value } } as React.ChangeEvent<HTMLInputElement>, { value });
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(300);
+      });
+    };
+
+    it('should list address book entries before the provider results', async () => {
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, addressBook }));
+
+      await search(result, 'Main Street');
+
+      expect(searchAddressBook).toHaveBeenCalledWith('Main Street');
+      expect(result.current.suggestions).toEqual([addressBookEntry, mockSearchResult]);
+    });
+
+    it('should show the provider results when the address book query fails', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      searchAddressBook.mockRejectedValue(new Error('Table not found'));
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, addressBook }));
+
+      await search(result, 'Main Street');
+
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+      expect(result.current.showErrorDialog).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should drop address book entries outside the searched countries', async () => {
+      (services.searchAddress as jest.Mock).mockResolvedValue([mockSearchResult]);
+      const { result } = renderHook(() =>
+        useAddressSearch('', { ...defaultOptions, countrySet: 'DE,AT', addressBook })
+      );
+
+      await search(result, 'Main Street');
+
+      expect(result.current.suggestions).toEqual([mockSearchResult]);
+    });
+
+    it('should not query the address book for postal code searches', async () => {
+      (services.searchMunicipalities as jest.Mock).mockResolvedValue([]);
+      const { result } = renderHook(() => useAddressSearch('', { ...defaultOptions, addressBook }));
+
+      await search(result, 'PLZ: Seattle');
+
+      expect(searchAddressBook).not.toHaveBeenCalled();
+    });
+  });
 });
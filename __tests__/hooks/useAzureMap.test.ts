@@ -9,6 +9,7 @@
 import { renderHook } from '@testing-library/react-hooks';
 import { useAzureMap, UseAzureMapOptions } from '../../AzureMapsAddressAutoComplete/hooks/useAzureMap';
 import * as sdkLoader from '../../AzureMapsAddressAutoComplete/utils/azureMapsSdkLoader';
+import { AzureMapsCredential } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsCredential';
 
 // Mock the SDK loader
 jest.mock('../../AzureMapsAddressAutoComplete/utils/azureMapsSdkLoader', () => ({
@@ -89,6 +90,15 @@ describe('useAzureMap', () => {
       expect(result.current.hasMapData).toBe(false);
     });
 
+    it('should indicate hasMapData is true with a credential and no subscriptionKey', () => {
+      const credential = new AzureMapsCredential({ authType: 'Sas', tokenProvider: jest.fn() });
+      const { result } = renderHook(() =>
+        useAzureMap({ ...defaultOptions, subscriptionKey: '', credential })
+      );
+
+      expect(result.current.hasMapData).toBe(true);
+    });
+
     it('should indicate hasMapData is true when all required data exists', () => {
       const { result } = renderHook(() => useAzureMap(defaultOptions));
 
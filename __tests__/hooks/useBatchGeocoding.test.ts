@@ -0,0 +1,124 @@
+/**
+ * Unit tests for useBatchGeocoding hook.
+ *
+ * @remarks
+ * Tests the bulk geocoding job: batching, progress, pause/resume,
+ * cancellation and failures.
+ */
+
+import { renderHook, act } from '@testing-library/react-hooks';
+import { useBatchGeocoding } from '../../AzureMapsAddressAutoComplete/hooks/useBatchGeocoding';
+import type {
+  BatchGeocodingService,
+  IBatchGeocodingOutcome,
+  IBatchGeocodingRow,
+} from '../../AzureMapsAddressAutoComplete/services';
+
+describe('useBatchGeocoding', () => {
+  const createRow = (id: string): IBatchGeocodingRow => ({
+    id,
+    fields: { street: `Street ${id}`, city: 'Zürich', postalCode: '8001', stateProvince: '', countryCodeISO2: 'CH' },
+  });
+  const rows = ['1', '2', '3'].map(createRow);
+
+  let loadRows: jest.Mock<Promise<IBatchGeocodingRow[]>, []>;
+  let geocodeBatch: jest.Mock<Promise<IBatchGeocodingOutcome>, [IBatchGeocodingRow[]]>;
+  let service: BatchGeocodingService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    loadRows = jest.fn().mockResolvedValue(rows);
+    geocodeBatch = jest.fn((batch: IBatchGeocodingRow[]) =>
+      Promise.resolve({ succeeded: batch.length, errors: [] })
+    );
+    service = { getBatchSize: () => 2, loadRows, geocodeBatch } as unknown as BatchGeocodingService;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should geocode the rows in batches and report the progress', async () => {
+    geocodeBatch.mockResolvedValueOnce({
+      succeeded: 1,
+      errors: [{ id: '2', address: 'Street 2, 8001 Zürich', reason: 'NoMatch' }],
+    });
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(result.current.state).toBe('completed'));
+
+    expect(geocodeBatch.mock.calls.map(([batch]) => batch.map((row) => row.id))).toEqual([['1', '2'], ['3']]);
+    expect(result.current.progress).toEqual({ total: 3, processed: 3, succeeded: 2, failed: 1 });
+    expect(result.current.errors).toEqual([{ id: '2', address: 'Street 2, 8001 Zürich', reason: 'NoMatch' }]);
+  });
+
+  it('should pause after the current batch and resume with the next one', async () => {
+    let finishBatch: (outcome: IBatchGeocodingOutcome) => void = () => undefined;
+    geocodeBatch.mockImplementationOnce(
+      () => new Promise<IBatchGeocodingOutcome>((resolve) => (finishBatch = resolve))
+    );
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(geocodeBatch).toHaveBeenCalledTimes(1));
+    act(() => result.current.pause());
+    await act(async () => finishBatch({ succeeded: 2, errors: [] }));
+    await waitFor(() => expect(result.current.state).toBe('paused'));
+
+    expect(result.current.progress.processed).toBe(2);
+    expect(geocodeBatch).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.resume());
+    await waitFor(() => expect(result.current.state).toBe('completed'));
+    expect(geocodeBatch).toHaveBeenLastCalledWith([rows[2]]);
+  });
+
+  it('should pause on a failed batch and retry it on resume', async () => {
+    geocodeBatch.mockRejectedValueOnce(new Error('Unauthorized'));
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(result.current.state).toBe('paused'));
+    expect(result.current.errorMessage).toBe('Unauthorized');
+    expect(result.current.progress.processed).toBe(0);
+
+    act(() => result.current.resume());
+    await waitFor(() => expect(result.current.state).toBe('completed'));
+    expect(result.current.errorMessage).toBeUndefined();
+    expect(geocodeBatch.mock.calls[1][0]).toEqual([rows[0], rows[1]]);
+    expect(result.current.progress.succeeded).toBe(3);
+  });
+
+  it('should cancel a paused job', async () => {
+    geocodeBatch.mockRejectedValueOnce(new Error('Unauthorized'));
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(result.current.state).toBe('paused'));
+    act(() => result.current.cancel());
+
+    expect(result.current.state).toBe('cancelled');
+  });
+
+  it('should fail when the rows cannot be loaded', async () => {
+    loadRows.mockRejectedValueOnce(new Error('Privilege check failed'));
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(result.current.state).toBe('failed'));
+
+    expect(result.current.errorMessage).toBe('Privilege check failed');
+    expect(geocodeBatch).not.toHaveBeenCalled();
+  });
+
+  it('should complete without rows', async () => {
+    loadRows.mockResolvedValueOnce([]);
+    const { result, waitFor } = renderHook(() => useBatchGeocoding(service));
+
+    act(() => result.current.start());
+    await waitFor(() => expect(result.current.state).toBe('completed'));
+
+    expect(result.current.progress.total).toBe(0);
+  });
+});
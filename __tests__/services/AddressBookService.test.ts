@@ -0,0 +1,153 @@
+/**
+ * Unit tests for AddressBookService
+ */
+import {
+  AddressBookService,
+  escapeODataString,
+  DEFAULT_MAX_ADDRESS_BOOK_RESULTS,
+} from '../../AzureMapsAddressAutoComplete/services/AddressBook/AddressBookService';
+import type { AddressBookConfig } from '../../AzureMapsAddressAutoComplete/types';
+import { IInputs } from '../../AzureMapsAddressAutoComplete/generated/ManifestTypes';
+
+describe('AddressBookService', () => {
+  let mockRetrieveMultipleRecords: jest.Mock;
+
+  const config: AddressBookConfig = {
+    TableName: 'account',
+    NameColumn: 'name',
+    SearchColumns: ['name', 'address1_city'],
+    Filter: 'statecode eq 0',
+    Columns: {
+      Street: 'address1_line1',
+      PostalCode: 'address1_postalcode',
+      City: 'address1_city',
+      Country: 'address1_country',
+      CountryISO2: 'aidevme_countryiso2',
+      Latitude: 'address1_latitude',
+      Longitude: 'address1_longitude',
+    },
+  };
+
+  const accountEntity = {
+    accountid: '42',
+    name: 'Contoso Ltd',
+    address1_line1: 'Bahnhofstrasse 1',
+    address1_postalcode: '8001',
+    address1_city: 'Zürich',
+    address1_country: 'Switzerland',
+    aidevme_countryiso2: 'ch',
+    address1_latitude: 47.3769,
+    address1_longitude: 8.5417,
+  };
+
+  const createService = (
+    serviceConfig: AddressBookConfig = config,
+    allocatedHeight = 200
+  ): AddressBookService =>
+    new AddressBookService({
+      context: {
+        mode: { allocatedHeight },
+        webAPI: { retrieveMultipleRecords: mockRetrieveMultipleRecords },
+      } as unknown as ComponentFramework.Context<IInputs>,
+      config: serviceConfig,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockRetrieveMultipleRecords = jest.fn().mockResolvedValue({ entities: [accountEntity] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('escapeODataString', () => {
+    it('should double single quotes', () => {
+      expect(escapeODataString("O'Brien's")).toBe("O''Brien''s");
+    });
+  });
+
+  describe('buildQuery', () => {
+    it('should require every word in one of the search columns', () => {
+      const query = createService().buildQuery('Contoso Zürich');
+
+      expect(query).toBe(
+        '?$select=accountid,name,address1_line1,address1_postalcode,address1_city,address1_country,aidevme_countryiso2,address1_latitude,address1_longitude' +
+          "&$filter=(contains(name,'Contoso') or contains(address1_city,'Contoso'))" +
+          " and (contains(name,'Z%C3%BCrich') or contains(address1_city,'Z%C3%BCrich'))" +
+          ' and (statecode eq 0)' +
+          `&$top=${DEFAULT_MAX_ADDRESS_BOOK_RESULTS}`
+      );
+    });
+
+    it('should escape quotes and URL-encode the words', () => {
+      const query = createService({ ...config, SearchColumns: ['name'], Filter: undefined }).buildQuery("O'Brien & Sons");
+
+      expect(query).toContain("$filter=(contains(name,'O''Brien')) and (contains(name,'%26')) and (contains(name,'Sons'))&");
+    });
+
+    it('should use the configured key column and maximum', () => {
+      const query = createService({ ...config, IdColumn: 'aidevme_siteid', MaxResults: 3 }).buildQuery('Contoso');
+
+      expect(query).toMatch(/^\?\$select=aidevme_siteid,name,/);
+      expect(query).toMatch(/&\$top=3$/);
+    });
+
+    it('should return undefined for a query without words', () => {
+      expect(createService().buildQuery(' , ')).toBeUndefined();
+    });
+  });
+
+  describe('search', () => {
+    it('should map the configured columns to search results', async () => {
+      const results = await createService().search('Contoso');
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenCalledWith('account', expect.stringContaining('$filter='));
+      expect(results).toEqual([
+        {
+          type: 'Address Book',
+          id: 'account:42',
+          address: {
+            streetName: 'Bahnhofstrasse 1',
+            streetNumber: undefined,
+            postalCode: '8001',
+            municipality: 'Zürich',
+            municipalitySubdivision: undefined,
+            countrySubdivisionName: undefined,
+            countrySubdivisionCode: undefined,
+            country: 'Switzerland',
+            countryCode: 'CH',
+            countryCodeISO3: undefined,
+            freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich, Switzerland',
+          },
+          position: { lat: 47.3769, lon: 8.5417 },
+          addressBookRecord: { tableName: 'account', id: '42', name: 'Contoso Ltd' },
+        },
+      ]);
+    });
+
+    it('should omit the position when coordinates are missing', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({
+        entities: [{ ...accountEntity, address1_latitude: null, address1_longitude: null }],
+      });
+
+      const [result] = await createService().search('Contoso');
+
+      expect(result.position).toBeUndefined();
+    });
+
+    it('should not query Dataverse in design mode', async () => {
+      const results = await createService(config, -1).search('Contoso');
+
+      expect(results).toEqual([]);
+      expect(mockRetrieveMultipleRecords).not.toHaveBeenCalled();
+    });
+
+    it('should propagate Web API errors', async () => {
+      mockRetrieveMultipleRecords.mockRejectedValue(new Error('Table not found'));
+
+      await expect(createService().search('Contoso')).rejects.toThrow('Table not found');
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Unit tests for BatchGeocodingService
+ */
+import { BatchGeocodingService } from '../../AzureMapsAddressAutoComplete/services/BatchGeocoding/BatchGeocodingService';
+import {
+  searchAddressBatch,
+  type AzureMapsSearchResult,
+} from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService';
+import type { BatchGeocodingConfig } from '../../AzureMapsAddressAutoComplete/types';
+import { IInputs } from '../../AzureMapsAddressAutoComplete/generated/ManifestTypes';
+
+jest.mock('../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService', () => ({
+  ...jest.requireActual('../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService'),
+  searchAddressBatch: jest.fn(),
+}));
+
+const mockSearchAddressBatch = searchAddressBatch as jest.MockedFunction<typeof searchAddressBatch>;
+
+describe('BatchGeocodingService', () => {
+  let mockRetrieveMultipleRecords: jest.Mock;
+  let mockUpdateRecord: jest.Mock;
+
+  const config: BatchGeocodingConfig = {
+    TableName: 'account',
+    NameColumn: 'name',
+    Columns: {
+      Street: 'address1_line1',
+      PostalCode: 'address1_postalcode',
+      City: 'address1_city',
+      Country: 'address1_country',
+      CountryISO2: 'aidevme_countryiso2',
+      Latitude: 'address1_latitude',
+      Longitude: 'address1_longitude',
+      ResultScore: 'aidevme_geocodingscore',
+    },
+  };
+
+  const accountEntity = {
+    accountid: '42',
+    name: 'Contoso Ltd',
+    address1_line1: 'Bahnhofstrasse 1',
+    address1_postalcode: '8001',
+    address1_city: 'Zürich',
+    address1_country: 'Switzerland',
+    aidevme_countryiso2: 'ch',
+    address1_latitude: null,
+    address1_longitude: null,
+  };
+
+  const match: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    score: 0.98,
+    address: { freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich', countryCode: 'CH' },
+    position: { lat: 47.3769, lon: 8.5417 },
+  };
+
+  const createService = (
+    serviceConfig: BatchGeocodingConfig = config,
+    allocatedHeight = 200,
+    defaultCountries = ''
+  ): BatchGeocodingService =>
+    new BatchGeocodingService({
+      context: {
+        mode: { allocatedHeight },
+        webAPI: { retrieveMultipleRecords: mockRetrieveMultipleRecords, updateRecord: mockUpdateRecord },
+      } as unknown as ComponentFramework.Context<IInputs>,
+      config: serviceConfig,
+      subscriptionKey: 'test-key',
+      defaultCountries,
+      language: 'de-CH',
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockRetrieveMultipleRecords = jest.fn().mockResolvedValue({ entities: [accountEntity] });
+    mockUpdateRecord = jest.fn().mockResolvedValue({ id: '42' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getBatchSize', () => {
+    it('should limit the batch size to the maximum of the Batch API', () => {
+      expect(createService().getBatchSize()).toBe(100);
+      expect(createService({ ...config, BatchSize: 25.5 }).getBatchSize()).toBe(25);
+      expect(createService({ ...config, BatchSize: 500 }).getBatchSize()).toBe(100);
+      expect(createService({ ...config, BatchSize: 0 }).getBatchSize()).toBe(100);
+    });
+  });
+
+  describe('buildQuery', () => {
+    it('should select the mapped columns of rows without coordinates', () => {
+      expect(createService().buildQuery()).toBe(
+        '?$select=accountid,name,address1_line1,address1_postalcode,address1_city,address1_country,' +
+          'aidevme_countryiso2,address1_latitude,address1_longitude,aidevme_geocodingscore' +
+          '&$filter=(address1_latitude eq null or address1_longitude eq null)'
+      );
+    });
+
+    it('should use the configured view', () => {
+      expect(createService({ ...config, ViewId: '00000000-0000-0000-0000-000000000001' }).buildQuery()).toBe(
+        '?savedQuery=00000000-0000-0000-0000-000000000001'
+      );
+    });
+  });
+
+  describe('loadRows', () => {
+    it('should follow the result pages and skip rows with coordinates', async () => {
+      mockRetrieveMultipleRecords
+        .mockResolvedValueOnce({
+          entities: [accountEntity],
+          nextLink: 'https://org.crm.dynamics.com/api/data/v9.2/accounts?$skiptoken=page2',
+        })
+        .mockResolvedValueOnce({
+          entities: [{ ...accountEntity, accountid: '43', address1_latitude: 1, address1_longitude: 2 }],
+        });
+
+      const rows = await createService().loadRows();
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenLastCalledWith('account', '?$skiptoken=page2');
+      expect(rows).toEqual([
+        {
+          id: '42',
+          name: 'Contoso Ltd',
+          fields: {
+            street: 'Bahnhofstrasse 1',
+            city: 'Zürich',
+            postalCode: '8001',
+            stateProvince: '',
+            countryCodeISO2: 'CH',
+          },
+        },
+      ]);
+    });
+
+    it('should retrieve the mapped columns of the rows of a view', async () => {
+      mockRetrieveMultipleRecords
+        .mockResolvedValueOnce({ entities: [{ accountid: '43' }, { accountid: '42' }, { accountid: '44' }] })
+        .mockResolvedValueOnce({
+          entities: [accountEntity, { ...accountEntity, accountid: '43', address1_latitude: 1, address1_longitude: 2 }],
+        });
+
+      const rows = await createService({ ...config, ViewId: 'view-1' }).loadRows();
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenNthCalledWith(1, 'account', '?savedQuery=view-1');
+      expect(mockRetrieveMultipleRecords).toHaveBeenNthCalledWith(
+        2,
+        'account',
+        expect.stringMatching(
+          /^\?\$select=accountid,name,address1_line1,.*&\$filter=\(accountid eq 43 or accountid eq 42 or accountid eq 44\)$/
+        )
+      );
+      expect(rows.map((row) => row.id)).toEqual(['42']);
+      expect(rows[0].fields.street).toBe('Bahnhofstrasse 1');
+    });
+
+    it('should skip rows whose coordinates were not returned', async () => {
+      const { address1_latitude: _latitude, address1_longitude: _longitude, ...withoutCoordinates } = accountEntity;
+      mockRetrieveMultipleRecords.mockResolvedValue({ entities: [withoutCoordinates] });
+
+      await expect(createService().loadRows()).resolves.toEqual([]);
+    });
+
+    it('should not query Dataverse in design mode', async () => {
+      await expect(createService(config, -1).loadRows()).resolves.toEqual([]);
+      expect(mockRetrieveMultipleRecords).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mapEntity', () => {
+    it('should resolve the country code from the ISO3 code', () => {
+      const service = createService({ ...config, Columns: { ...config.Columns, CountryISO2: undefined, CountryISO3: 'iso3' } });
+
+      expect(service.mapEntity({ ...accountEntity, iso3: 'aut' }).fields.countryCodeISO2).toBe('AT');
+    });
+
+    it('should resolve the country code from a localized country label', () => {
+      const service = createService({ ...config, Columns: { ...config.Columns, CountryISO2: undefined } });
+
+      expect(
+        service.mapEntity({
+          ...accountEntity,
+          address1_country: 1,
+          'address1_country@OData.Community.Display.V1.FormattedValue': 'schweiz',
+        }).fields.countryCodeISO2
+      ).toBe('CH');
+      expect(service.mapEntity({ ...accountEntity, address1_country: 'Atlantis' }).fields.countryCodeISO2).toBe('');
+    });
+  });
+
+  describe('geocodeBatch', () => {
+    const row = {
+      id: '42',
+      name: 'Contoso Ltd',
+      fields: { street: 'Bahnhofstrasse 1', city: 'Zürich', postalCode: '8001', stateProvince: '', countryCodeISO2: 'CH' },
+    };
+
+    it('should write the coordinates and score of the matches', async () => {
+      mockSearchAddressBatch.mockResolvedValueOnce([{ results: [match] }]);
+
+      const outcome = await createService().geocodeBatch([row]);
+
+      expect(mockSearchAddressBatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscriptionKey: 'test-key',
+          queries: [{ query: 'Bahnhofstrasse 1, 8001 Zürich', countrySet: 'CH', language: 'de-CH', limit: 1 }],
+        })
+      );
+      expect(mockUpdateRecord).toHaveBeenCalledWith('account', '42', {
+        address1_latitude: 47.3769,
+        address1_longitude: 8.5417,
+        aidevme_geocodingscore: 0.98,
+      });
+      expect(outcome).toEqual({ succeeded: 1, errors: [] });
+    });
+
+    it('should use a single default country for rows without a country', async () => {
+      mockSearchAddressBatch.mockResolvedValueOnce([{ results: [match] }]);
+
+      await createService(config, 200, 'CH').geocodeBatch([{ ...row, fields: { ...row.fields, countryCodeISO2: '' } }]);
+
+      expect(mockSearchAddressBatch.mock.calls[0][0].queries[0].countrySet).toBe('CH');
+    });
+
+    it('should report rows that cannot be geocoded', async () => {
+      mockSearchAddressBatch.mockResolvedValueOnce([
+        { results: [] },
+        { results: [], error: 'Invalid query' },
+        { results: [match] },
+      ]);
+      mockUpdateRecord.mockRejectedValueOnce(new Error('Access denied'));
+
+      const outcome = await createService().geocodeBatch([
+        { ...row, id: '1', fields: { ...row.fields, street: '', city: '', postalCode: '' } },
+        { ...row, id: '2', fields: { ...row.fields, countryCodeISO2: '' } },
+        { ...row, id: '3' },
+        { ...row, id: '4' },
+        { ...row, id: '5' },
+      ]);
+
+      expect(mockSearchAddressBatch.mock.calls[0][0].queries).toHaveLength(3);
+      expect(outcome.succeeded).toBe(0);
+      expect(outcome.errors).toEqual([
+        { id: '1', name: 'Contoso Ltd', address: '', reason: 'MissingAddress', message: undefined },
+        { id: '2', name: 'Contoso Ltd', address: 'Bahnhofstrasse 1, 8001 Zürich', reason: 'UnknownCountry', message: undefined },
+        { id: '3', name: 'Contoso Ltd', address: 'Bahnhofstrasse 1, 8001 Zürich', reason: 'NoMatch', message: undefined },
+        { id: '4', name: 'Contoso Ltd', address: 'Bahnhofstrasse 1, 8001 Zürich', reason: 'SearchFailed', message: 'Invalid query' },
+        { id: '5', name: 'Contoso Ltd', address: 'Bahnhofstrasse 1, 8001 Zürich', reason: 'UpdateFailed', message: 'Access denied' },
+      ]);
+    });
+
+    it('should not search when no row has an address', async () => {
+      const outcome = await createService().geocodeBatch([{ ...row, fields: { ...row.fields, street: '', city: '', postalCode: '' } }]);
+
+      expect(mockSearchAddressBatch).not.toHaveBeenCalled();
+      expect(outcome.errors[0].reason).toBe('MissingAddress');
+    });
+
+    it('should not update rows when the batch request fails', async () => {
+      mockSearchAddressBatch.mockRejectedValueOnce(new Error('Unauthorized'));
+
+      await expect(createService().geocodeBatch([row])).rejects.toThrow('Unauthorized');
+      expect(mockUpdateRecord).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for CountryService
+ */
+import { CountryService } from '../../AzureMapsAddressAutoComplete/services/Country/CountryService';
+import type { CountryTableConfig } from '../../AzureMapsAddressAutoComplete/types';
+import { IInputs } from '../../AzureMapsAddressAutoComplete/generated/ManifestTypes';
+
+describe('CountryService', () => {
+  let mockRetrieveMultipleRecords: jest.Mock;
+
+  const config: CountryTableConfig = {
+    TableName: 'contoso_land',
+    CountryNameField: 'contoso_bezeichnung',
+    CountryISO2Field: 'contoso_iso2',
+    CountryISO3Field: 'contoso_iso3',
+  };
+
+  const switzerland = {
+    contoso_landid: 'country-1',
+    contoso_bezeichnung: 'Schweiz',
+    contoso_iso2: 'CH',
+    contoso_iso3: 'CHE',
+  };
+  const austria = {
+    contoso_landid: 'country-2',
+    contoso_bezeichnung: 'Österreich',
+    contoso_iso2: 'at',
+    contoso_iso3: 'AUT',
+  };
+
+  const createService = (serviceConfig: CountryTableConfig = config, allocatedHeight = 200): CountryService =>
+    new CountryService({
+      context: {
+        mode: { allocatedHeight },
+        webAPI: { retrieveMultipleRecords: mockRetrieveMultipleRecords },
+      } as unknown as ComponentFramework.Context<IInputs>,
+      config: serviceConfig,
+    });
+
+  beforeEach(() => {
+    CountryService.clearCache();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockRetrieveMultipleRecords = jest.fn().mockResolvedValue({ entities: [switzerland, austria] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('buildQuery', () => {
+    it('should select the configured columns', () => {
+      expect(createService().buildQuery()).toBe('?$select=contoso_landid,contoso_bezeichnung,contoso_iso2,contoso_iso3');
+    });
+
+    it('should use the configured primary key column', () => {
+      expect(createService({ ...config, CountryIdField: 'contoso_countrykey' }).buildQuery()).toMatch(
+        /^\?\$select=contoso_countrykey,/
+      );
+    });
+  });
+
+  describe('loadCountries', () => {
+    it('should index the configured columns by ISO2, ISO3 and name', async () => {
+      const service = createService();
+
+      expect(service.isLoaded()).toBe(false);
+      expect(service.findCountryByIso2('CH')).toBeUndefined();
+      await service.loadCountries();
+
+      expect(service.isLoaded()).toBe(true);
+      expect(service.findCountryByIso2('ch')).toEqual({
+        Id: 'country-1',
+        Name: 'Schweiz',
+        CountryISO2: 'CH',
+        CountryISO3: 'CHE',
+      });
+      expect(service.findCountryByIso2('AT')?.Id).toBe('country-2');
+      expect(service.findCountryByIso3('aut')?.Id).toBe('country-2');
+      expect(service.findCountryByName(' österreich ')?.Id).toBe('country-2');
+      expect(service.findCountryByName('Austria')?.Id).toBe('country-2');
+      expect(service.findCountryByIso2('XX')).toBeUndefined();
+      expect(mockRetrieveMultipleRecords).toHaveBeenCalledWith('contoso_land', createService().buildQuery());
+    });
+
+    it('should follow the result pages', async () => {
+      mockRetrieveMultipleRecords
+        .mockResolvedValueOnce({
+          entities: [switzerland],
+          nextLink: 'https://org.crm.dynamics.com/api/data/v9.2/contoso_lands?$skiptoken=page2',
+        })
+        .mockResolvedValueOnce({ entities: [austria] });
+      const service = createService();
+
+      await service.loadCountries();
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenLastCalledWith('contoso_land', '?$skiptoken=page2');
+      expect(service.findCountryByIso2('AT')?.Id).toBe('country-2');
+    });
+
+    it('should load the table once for all instances and concurrent calls', async () => {
+      await Promise.all([createService().loadCountries(), createService().loadCountries()]);
+      await createService().loadCountries();
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenCalledTimes(1);
+      expect(createService().findCountryByIso2('CH')?.Id).toBe('country-1');
+    });
+
+    it('should load the table again after the cache expired or was cleared', async () => {
+      jest.useFakeTimers();
+      const service = createService();
+      await service.loadCountries();
+
+      jest.advanceTimersByTime(60 * 60 * 1000);
+      expect(service.isLoaded()).toBe(false);
+      await service.loadCountries();
+      CountryService.clearCache();
+      await service.loadCountries();
+
+      expect(mockRetrieveMultipleRecords).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cache each configured table separately', async () => {
+      await createService().loadCountries();
+
+      expect(createService({ ...config, CountryNameField: 'contoso_name' }).isLoaded()).toBe(false);
+    });
+
+    it('should not cache a failed load', async () => {
+      mockRetrieveMultipleRecords.mockRejectedValueOnce(new Error('Privilege check failed'));
+      const service = createService();
+
+      await expect(service.loadCountries()).rejects.toThrow('Privilege check failed');
+      await service.loadCountries();
+
+      expect(service.isLoaded()).toBe(true);
+    });
+
+    it('should load mock countries without querying Dataverse in design mode', async () => {
+      const service = createService(config, -1);
+
+      await service.loadCountries();
+
+      expect(service.findCountryByIso2('ch')).toEqual({
+        Id: '00000000-0000-0000-0000-000000000000',
+        Name: 'Switzerland',
+        CountryISO2: 'CH',
+        CountryISO3: 'CHE',
+      });
+      expect(service.findCountryByIso3('DEU')?.Name).toBe('Germany');
+      expect(mockRetrieveMultipleRecords).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCountryByIso2', () => {
+    it('should load the table and find the country', async () => {
+      await expect(createService().getCountryByIso2('CH')).resolves.toMatchObject({ Id: 'country-1' });
+      await expect(createService().getCountryByIso3('XXX')).resolves.toBeUndefined();
+      expect(mockRetrieveMultipleRecords).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for DuplicateAddressService
+ */
+import {
+  DuplicateAddressService,
+  buildRecordFormUrl,
+} from '../../AzureMapsAddressAutoComplete/services/DuplicateAddress/DuplicateAddressService';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+import type { DuplicateDetectionConfig } from '../../AzureMapsAddressAutoComplete/types';
+import { IInputs } from '../../AzureMapsAddressAutoComplete/generated/ManifestTypes';
+
+describe('DuplicateAddressService', () => {
+  let mockRetrieveMultipleRecords: jest.Mock;
+
+  const config: DuplicateDetectionConfig = {
+    TableName: 'account',
+    NameColumn: 'name',
+    RadiusMeters: 25,
+    Columns: {
+      Street: 'address1_line1',
+      PostalCode: 'address1_postalcode',
+      Country: 'address1_country',
+      Latitude: 'address1_latitude',
+      Longitude: 'address1_longitude',
+    },
+  };
+
+  const selectedResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    address: {
+      streetName: 'Bahnhofstrasse',
+      streetNumber: '1',
+      postalCode: '8001',
+      municipality: 'Zürich',
+      country: 'Switzerland',
+      countryCode: 'CH',
+      freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich',
+    },
+    position: { lat: 47.3769, lon: 8.5417 },
+  };
+
+  const createEntity = (overrides: Record<string, unknown>): ComponentFramework.WebApi.Entity => ({
+    accountid: 'account-1',
+    name: 'Contoso Ltd',
+    address1_line1: 'Bahnhofstr. 1',
+    address1_postalcode: '8001',
+    address1_country: 'Switzerland',
+    address1_latitude: null,
+    address1_longitude: null,
+    ...overrides,
+  });
+
+  const createService = (
+    serviceConfig: DuplicateDetectionConfig = config,
+    allocatedHeight = 200
+  ): DuplicateAddressService =>
+    new DuplicateAddressService({
+      context: {
+        mode: { allocatedHeight },
+        webAPI: { retrieveMultipleRecords: mockRetrieveMultipleRecords },
+      } as unknown as ComponentFramework.Context<IInputs>,
+      config: serviceConfig,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockRetrieveMultipleRecords = jest.fn().mockResolvedValue({ entities: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('buildRecordFormUrl', () => {
+    it('should build the URL of the main form', () => {
+      expect(buildRecordFormUrl('account', 'a1')).toBe('main.aspx?pagetype=entityrecord&etn=account&id=a1');
+    });
+  });
+
+  describe('buildQuery', () => {
+    it('should query rows with the same postal code or near the position', () => {
+      const query = createService().buildQuery(selectedResult);
+
+      expect(query).toMatch(
+        /^\?\$select=accountid,name,address1_line1,address1_postalcode,address1_country,address1_latitude,address1_longitude&\$filter=\(address1_postalcode eq '8001' or \(address1_latitude ge 47\.37\d+ and address1_latitude le 47\.37\d+ and address1_longitude ge 8\.54\d+ and address1_longitude le 8\.54\d+\)\)&\$top=50$/
+      );
+    });
+
+    it('should also query the postal code without spaces', () => {
+      const query = createService().buildQuery({
+        ...selectedResult,
+        address: { ...selectedResult.address, postalCode: 'SW1A 1AA' },
+        position: undefined,
+      });
+
+      expect(query).toContain("(address1_postalcode eq 'SW1A%201AA' or address1_postalcode eq 'SW1A1AA')");
+    });
+
+    it('should skip the current record and apply the configured filter', () => {
+      const query = createService({ ...config, Filter: 'statecode eq 0' }).buildQuery(selectedResult, {
+        entityType: 'account',
+        id: '{A1B2C3D4-0000-0000-0000-000000000001}',
+      });
+
+      expect(query).toContain(' and accountid ne A1B2C3D4-0000-0000-0000-000000000001 and (statecode eq 0)&');
+    });
+
+    it('should not skip records of other tables', () => {
+      const query = createService().buildQuery(selectedResult, { entityType: 'contact', id: 'contact-1' });
+
+      expect(query).not.toContain(' ne ');
+    });
+
+    it('should not check coordinates when the radius is 0', () => {
+      const query = createService({ ...config, RadiusMeters: 0 }).buildQuery(selectedResult);
+
+      expect(query).not.toContain('address1_latitude ge');
+    });
+
+    it('should return undefined without postal code and coordinates', () => {
+      const query = createService().buildQuery({
+        ...selectedResult,
+        address: { freeformAddress: 'Zürich' },
+        position: undefined,
+      });
+
+      expect(query).toBeUndefined();
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('should report rows with the same normalized address', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({ entities: [createEntity({})] });
+
+      const duplicates = await createService().findDuplicates(selectedResult);
+
+      expect(duplicates).toEqual([
+        {
+          tableName: 'account',
+          id: 'account-1',
+          name: 'Contoso Ltd',
+          street: 'Bahnhofstr. 1',
+          postalCode: '8001',
+          isSameAddress: true,
+          distance: undefined,
+        },
+      ]);
+    });
+
+    it('should report rows that store the house number before the street name', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({
+        entities: [createEntity({ address1_line1: '1 Microsoft Way', address1_postalcode: '98052', address1_country: 'United States' })],
+      });
+
+      const duplicates = await createService().findDuplicates({
+        ...selectedResult,
+        address: {
+          streetName: 'Microsoft Way',
+          streetNumber: '1',
+          postalCode: '98052',
+          country: 'United States',
+          countryCode: 'US',
+          freeformAddress: '1 Microsoft Way, Redmond, WA 98052',
+        },
+        position: undefined,
+      });
+
+      expect(duplicates).toEqual([expect.objectContaining({ street: '1 Microsoft Way', isSameAddress: true })]);
+    });
+
+    it('should ignore rows with another street or country', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({
+        entities: [
+          createEntity({ accountid: 'account-2', address1_line1: 'Bahnhofstrasse 11' }),
+          createEntity({ accountid: 'account-3', address1_country: 'Germany' }),
+        ],
+      });
+
+      const duplicates = await createService().findDuplicates(selectedResult);
+
+      expect(duplicates).toEqual([]);
+    });
+
+    it('should report rows within the radius, after rows with the same address', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({
+        entities: [
+          createEntity({
+            accountid: 'account-near',
+            address1_line1: 'Bahnhofplatz 2',
+            address1_latitude: 47.377,
+            address1_longitude: 8.5417,
+          }),
+          createEntity({
+            accountid: 'account-far',
+            address1_line1: 'Bahnhofplatz 9',
+            address1_latitude: 47.378,
+            address1_longitude: 8.5417,
+          }),
+          createEntity({ accountid: 'account-same' }),
+        ],
+      });
+
+      const duplicates = await createService().findDuplicates(selectedResult);
+
+      expect(duplicates.map((duplicate) => duplicate.id)).toEqual(['account-same', 'account-near']);
+      expect(duplicates[1].distance).toBeCloseTo(11.1, 0);
+    });
+
+    it('should limit the number of duplicates', async () => {
+      mockRetrieveMultipleRecords.mockResolvedValue({
+        entities: [createEntity({ accountid: 'a' }), createEntity({ accountid: 'b' }), createEntity({ accountid: 'c' })],
+      });
+
+      const duplicates = await createService({ ...config, MaxResults: 2 }).findDuplicates(selectedResult);
+
+      expect(duplicates).toHaveLength(2);
+    });
+
+    it('should not query Dataverse in design mode', async () => {
+      const duplicates = await createService(config, -1).findDuplicates(selectedResult);
+
+      expect(duplicates).toEqual([]);
+      expect(mockRetrieveMultipleRecords).not.toHaveBeenCalled();
+    });
+  });
+});
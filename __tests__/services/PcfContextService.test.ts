@@ -10,6 +10,7 @@ import {
   getAllCountries,
   Country,
 } from '../../AzureMapsAddressAutoComplete/services/PcfContext/PcfContextService';
+import { CountryService } from '../../AzureMapsAddressAutoComplete/services/Country/CountryService';
 import { IInputs } from '../../AzureMapsAddressAutoComplete/generated/ManifestTypes';
 import { DEFAULT_LOCALE } from '../../AzureMapsAddressAutoComplete/utils/localeUtils';
 
@@ -416,6 +417,341 @@ describe('PcfContextService', () => {
     });
   });
 
+  describe('getRecordPosition', () => {
+    it('should return the bound coordinates', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).latitude = { raw: 48.7758 };
+      (mockContext.parameters as any).longitude = { raw: 9.1829 };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getRecordPosition()).toEqual({ lat: 48.7758, lon: 9.1829 });
+    });
+
+    it('should return undefined values for empty fields', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).latitude = { raw: null };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getRecordPosition()).toEqual({ lat: undefined, lon: undefined });
+    });
+  });
+
+  describe('getRecentAddressService', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should store addresses per user', () => {
+      const service = new PcfContextService({
+        context: createMockContext(),
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      const recentAddresses = service.getRecentAddressService();
+      recentAddresses?.addRecent({
+        type: 'Point Address',
+        id: 'result-1',
+        address: { freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich' },
+        position: { lat: 47.37, lon: 8.54 },
+      });
+
+      expect(recentAddresses).toBe(service.getRecentAddressService());
+      expect(localStorage.getItem('AzureMapsAddressAutoComplete.recentAddresses.test-user-id')).toContain('result-1');
+    });
+
+    it('should return undefined when recent addresses are disabled', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({ AzureMapServiceConfigs: { RecentAddresses: { Enabled: false } } }),
+      };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getRecentAddressService()).toBeUndefined();
+    });
+  });
+
+  describe('getAddressBookService', () => {
+    const createService = (addressBookConfig?: object): PcfContextService => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({ AddressBookConfig: addressBookConfig }),
+      };
+      return new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+    };
+
+    it('should create the service once when an address book is configured', () => {
+      const service = createService({
+        TableName: 'account',
+        SearchColumns: ['name'],
+        Columns: { Street: 'address1_line1' },
+      });
+
+      const addressBook = service.getAddressBookService();
+
+      expect(addressBook).toBeDefined();
+      expect(service.getAddressBookService()).toBe(addressBook);
+    });
+
+    it('should return undefined when no address book is configured', () => {
+      expect(createService().getAddressBookService()).toBeUndefined();
+    });
+
+    it('should return undefined when the address book is disabled or incomplete', () => {
+      expect(
+        createService({ Enabled: false, TableName: 'account', SearchColumns: ['name'], Columns: {} }).getAddressBookService()
+      ).toBeUndefined();
+      expect(createService({ TableName: 'account', SearchColumns: [], Columns: {} }).getAddressBookService()).toBeUndefined();
+    });
+  });
+
+  describe('getDuplicateAddressService', () => {
+    it('should create the service when duplicate detection is configured', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({
+          DuplicateDetectionConfig: { TableName: 'account', Columns: { Street: 'address1_line1' } },
+        }),
+      };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getDuplicateAddressService()).toBeDefined();
+      expect(service.getDuplicateAddressService()).toBe(service.getDuplicateAddressService());
+    });
+
+    it('should return undefined when duplicate detection is not configured', () => {
+      const service = new PcfContextService({
+        context: createMockContext(),
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getDuplicateAddressService()).toBeUndefined();
+    });
+  });
+
+  describe('getBatchGeocodingService', () => {
+    it('should create the service when bulk geocoding is configured', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({
+          BatchGeocodingConfig: {
+            TableName: 'account',
+            Columns: { Street: 'address1_line1', Latitude: 'address1_latitude', Longitude: 'address1_longitude' },
+          },
+        }),
+      };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getBatchGeocodingService()).toBeDefined();
+      expect(service.getBatchGeocodingService()).toBe(service.getBatchGeocodingService());
+    });
+
+    it('should return undefined without the coordinate columns or when disabled', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({
+          BatchGeocodingConfig: { TableName: 'account', Columns: { Street: 'address1_line1' } },
+        }),
+      };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      const disabledContext = createMockContext();
+      (disabledContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({
+          BatchGeocodingConfig: {
+            Enabled: false,
+            TableName: 'account',
+            Columns: { Street: 'address1_line1', Latitude: 'address1_latitude', Longitude: 'address1_longitude' },
+          },
+        }),
+      };
+      const disabledService = new PcfContextService({
+        context: disabledContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getBatchGeocodingService()).toBeUndefined();
+      expect(disabledService.getBatchGeocodingService()).toBeUndefined();
+    });
+  });
+
+  describe('getCountryService', () => {
+    it('should create the service when a country table is configured', () => {
+      const mockContext = createMockContext();
+      (mockContext.parameters as any).additionalParameters = {
+        raw: JSON.stringify({
+          CountriesConfig: {
+            Choices: [],
+            Lookup: [],
+            CountryTable: {
+              TableName: 'msdyn_country',
+              CountryNameField: 'msdyn_name',
+              CountryISO2Field: 'msdyn_iso2',
+              CountryISO3Field: 'msdyn_iso3',
+            },
+          },
+        }),
+      };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getCountryService()?.getIdField()).toBe('msdyn_countryid');
+      expect(service.getCountryService()).toBe(service.getCountryService());
+    });
+
+    it('should return undefined without a country table', async () => {
+      const service = new PcfContextService({
+        context: createMockContext(),
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getCountryService()).toBeUndefined();
+      await expect(service.getCountryByIso2('CH')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('setAdditionalParameters', () => {
+    it('should apply a changed configuration and clear the country cache', () => {
+      const clearCache = jest.spyOn(CountryService, 'clearCache');
+      const service = new PcfContextService({
+        context: createMockContext(),
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+      const additionalParameters = JSON.stringify({
+        CountriesConfig: {
+          Choices: [],
+          Lookup: [],
+          CountryTable: {
+            TableName: 'aidevme_country',
+            CountryNameField: 'aidevme_name',
+            CountryISO2Field: 'aidevme_countryiso2code',
+            CountryISO3Field: 'aidevme_countryiso3code',
+          },
+        },
+      });
+
+      expect(service.getCountryService()).toBeUndefined();
+      expect(service.setAdditionalParameters(additionalParameters)).toBe(true);
+      expect(service.getCountryService()).toBeDefined();
+      expect(clearCache).toHaveBeenCalledTimes(1);
+
+      expect(service.setAdditionalParameters(additionalParameters)).toBe(false);
+      expect(clearCache).toHaveBeenCalledTimes(1);
+      clearCache.mockRestore();
+    });
+  });
+
+  describe('getCurrentRecord', () => {
+    it('should return the table and ID of the record', () => {
+      const mockContext = createMockContext();
+      (mockContext.mode as any).contextInfo = { entityTypeName: 'account', entityId: 'account-1' };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getCurrentRecord()).toEqual({ entityType: 'account', id: 'account-1' });
+    });
+
+    it('should return undefined for unsaved records', () => {
+      const mockContext = createMockContext();
+      (mockContext.mode as any).contextInfo = { entityTypeName: 'account', entityId: '' };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.getCurrentRecord()).toBeUndefined();
+    });
+  });
+
+  describe('openRecord', () => {
+    it('should open the form in a new window', () => {
+      const mockContext = createMockContext();
+      const openForm = jest.fn().mockResolvedValue({});
+      (mockContext as any).navigation = { openForm };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      service.openRecord('account', 'account-1');
+
+      expect(openForm).toHaveBeenCalledWith({ entityName: 'account', entityId: 'account-1', openInNewWindow: true });
+    });
+  });
+
+  describe('setNotification', () => {
+    it('should show the notification through context.utils', () => {
+      const mockContext = createMockContext();
+      const setNotification = jest.fn().mockReturnValue(true);
+      const clearNotification = jest.fn().mockReturnValue(true);
+      (mockContext as any).utils = { ...mockContext.utils, setNotification, clearNotification };
+      const service = new PcfContextService({
+        context: mockContext,
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.canSetNotification()).toBe(true);
+      expect(service.setNotification('Invalid address', 'validation')).toBe(true);
+      service.clearNotification('validation');
+
+      expect(setNotification).toHaveBeenCalledWith('Invalid address', 'validation');
+      expect(clearNotification).toHaveBeenCalledWith('validation');
+    });
+
+    it('should return false when the host has no notifications', () => {
+      const service = new PcfContextService({
+        context: createMockContext(),
+        instanceid: 'test-instance',
+        onSelectedValueChange: jest.fn(),
+      });
+
+      expect(service.canSetNotification()).toBe(false);
+      expect(service.setNotification('Invalid address', 'validation')).toBe(false);
+      expect(() => service.clearNotification('validation')).not.toThrow();
+    });
+  });
+
   describe('isControlDisabled', () => {
     it('should return true when control is disabled', () => {
       const mockContext = createMockContext({ isControlDisabled: true });
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for RecentAddressService
+ */
+import {
+  RecentAddressService,
+  getRecentAddressKey,
+} from '../../AzureMapsAddressAutoComplete/services/RecentAddress/RecentAddressService';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService';
+
+describe('RecentAddressService', () => {
+  const createResult = (id: string, freeformAddress: string): AzureMapsSearchResult => ({
+    type: 'Point Address',
+    id,
+    address: { freeformAddress, countryCode: 'CH' },
+    position: { lat: 47.37, lon: 8.54 },
+  });
+
+  const office = createResult('office', 'Bahnhofstrasse 1, 8001 Zürich');
+  const warehouse = createResult('warehouse', 'Hardturmstrasse 11, 8005 Zürich');
+  const branch = createResult('branch', 'Marktgasse 5, 3011 Bern');
+
+  let service: RecentAddressService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new RecentAddressService({ userId: 'user-1', maxItems: 2 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getRecentAddressKey', () => {
+    it('should use the result ID', () => {
+      expect(getRecentAddressKey(office)).toBe('office');
+    });
+
+    it('should fall back to the freeform address', () => {
+      expect(getRecentAddressKey({ ...office, id: '' })).toBe('Bahnhofstrasse 1, 8001 Zürich');
+    });
+  });
+
+  describe('addRecent', () => {
+    it('should list the most recent address first', () => {
+      service.addRecent(office);
+      service.addRecent(warehouse);
+
+      expect(service.getAddresses()).toEqual({ favorites: [], recent: [warehouse, office] });
+    });
+
+    it('should move a selected address to the top instead of duplicating it', () => {
+      service.addRecent(office);
+      service.addRecent(warehouse);
+      service.addRecent(office);
+
+      expect(service.getAddresses().recent).toEqual([office, warehouse]);
+    });
+
+    it('should keep at most the configured number of addresses', () => {
+      service.addRecent(office);
+      service.addRecent(warehouse);
+      service.addRecent(branch);
+
+      expect(service.getAddresses().recent).toEqual([branch, warehouse]);
+    });
+
+    it('should not store addresses when the maximum is 0', () => {
+      const disabled = new RecentAddressService({ userId: 'user-1', maxItems: 0 });
+
+      disabled.addRecent(office);
+
+      expect(disabled.getAddresses().recent).toEqual([]);
+    });
+  });
+
+  describe('toggleFavorite', () => {
+    it('should pin and unpin an address', () => {
+      expect(service.toggleFavorite(office)).toBe(true);
+      expect(service.isFavorite(office)).toBe(true);
+
+      expect(service.toggleFavorite(office)).toBe(false);
+      expect(service.isFavorite(office)).toBe(false);
+    });
+
+    it('should list favorites separately from recent addresses', () => {
+      service.addRecent(office);
+      service.addRecent(warehouse);
+      service.toggleFavorite(office);
+
+      expect(service.getAddresses()).toEqual({ favorites: [office], recent: [warehouse] });
+    });
+
+    it('should not limit the number of favorites', () => {
+      service.toggleFavorite(office);
+      service.toggleFavorite(warehouse);
+      service.toggleFavorite(branch);
+
+      expect(service.getAddresses().favorites).toEqual([office, warehouse, branch]);
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep the addresses of each user separate', () => {
+      service.addRecent(office);
+
+      const otherUser = new RecentAddressService({ userId: 'user-2' });
+
+      expect(otherUser.getAddresses().recent).toEqual([]);
+      expect(new RecentAddressService({ userId: 'user-1' }).getAddresses().recent).toEqual([office]);
+    });
+
+    it('should remove all addresses of the user on clear', () => {
+      service.addRecent(office);
+      service.toggleFavorite(warehouse);
+
+      service.clear();
+
+      expect(service.getAddresses()).toEqual({ favorites: [], recent: [] });
+    });
+
+    it('should ignore corrupt stored data', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem('AzureMapsAddressAutoComplete.recentAddresses.user-1', '{not json');
+
+      expect(service.getAddresses()).toEqual({ favorites: [], recent: [] });
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should keep working when localStorage is full', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(() => service.addRecent(office)).not.toThrow();
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for SearchCacheService
+ */
+import {
+  SearchCacheService,
+  withSearchCache,
+} from '../../AzureMapsAddressAutoComplete/services/SearchCache/SearchCacheService';
+import type { AddressSearchProvider } from '../../AzureMapsAddressAutoComplete/services/SearchProvider/SearchProvider';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService';
+
+describe('SearchCacheService', () => {
+  const mockResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    address: { freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich', countryCode: 'CH' },
+    position: { lat: 47.37, lon: 8.54 },
+  };
+
+  let cache: SearchCacheService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    SearchCacheService.clearCache();
+    SearchCacheService.resetStats();
+    sessionStorage.clear();
+    cache = new SearchCacheService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('buildKey (static)', () => {
+    it('should combine kind, provider, normalized query, countrySet, language and limit', () => {
+      expect(
+        SearchCacheService.buildKey('address', {
+          providerId: 'azure-maps-search-v1',
+          query: ' Bahnhofstrasse ',
+          countrySet: 'ch',
+          language: 'de-CH',
+          limit: 10,
+        })
+      ).toBe('address|azure-maps-search-v1|bahnhofstrasse|CH|de-CH||10');
+    });
+
+    it('should distinguish search kinds, providers, positions and limits', () => {
+      const address = SearchCacheService.buildKey('address', { query: 'Zurich' });
+      const municipality = SearchCacheService.buildKey('municipality', { query: 'Zurich' });
+      const nearby = SearchCacheService.buildKey('address', { query: 'Zurich', lat: 47.37, lon: 8.54, radius: 500 });
+      const otherProvider = SearchCacheService.buildKey('address', { providerId: 'azure-maps-geocoding-v2', query: 'Zurich' });
+      const limited = SearchCacheService.buildKey('address', { query: 'Zurich', limit: 5 });
+
+      expect(new Set([address, municipality, nearby, otherProvider, limited]).size).toBe(5);
+    });
+  });
+
+  describe('getOrFetch', () => {
+    it('should fetch on a miss and answer repeated searches from the cache', async () => {
+      const fetcher = jest.fn().mockResolvedValue([mockResult]);
+
+      const first = await cache.getOrFetch('address', { query: 'Bahnhofstrasse' }, fetcher);
+      const second = await cache.getOrFetch('address', { query: 'bahnhofstrasse' }, fetcher);
+
+      expect(first).toEqual([mockResult]);
+      expect(second).toEqual([mockResult]);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(SearchCacheService.getStats()).toEqual({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('should fetch again after the entry expires', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const fetcher = jest.fn().mockResolvedValue([mockResult]);
+
+      await cache.getOrFetch('address', { query: 'Zurich' }, fetcher);
+      jest.setSystemTime(Date.now() + 5 * 60 * 1000);
+      await cache.getOrFetch('address', { query: 'Zurich' }, fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed searches', async () => {
+      const fetcher = jest.fn()
+        .mockRejectedValueOnce(new Error('HTTP 503'))
+        .mockResolvedValueOnce([mockResult]);
+
+      await expect(cache.getOrFetch('address', { query: 'Zurich' }, fetcher)).rejects.toThrow('HTTP 503');
+      await expect(cache.getOrFetch('address', { query: 'Zurich' }, fetcher)).resolves.toEqual([mockResult]);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache results of aborted searches', async () => {
+      const controller = new AbortController();
+      const fetcher = jest.fn(async () => {
+        controller.abort();
+        return [];
+      });
+
+      await cache.getOrFetch('postalcodes', { query: 'Zurich' }, fetcher, controller.signal);
+
+      expect(SearchCacheService.getStats().size).toBe(0);
+    });
+
+    it('should evict the least recently used entry at max capacity', async () => {
+      const fetcher = jest.fn().mockResolvedValue([]);
+
+      for (let i = 0; i < 100; i++) {
+        await cache.getOrFetch('address', { query: `query ${i}` }, fetcher);
+      }
+      // Touch the oldest entry so that 'query 1' becomes least recently used
+      await cache.getOrFetch('address', { query: 'query 0' }, fetcher);
+      await cache.getOrFetch('address', { query: 'query 100' }, fetcher);
+
+      expect(SearchCacheService.getStats().size).toBe(100);
+      fetcher.mockClear();
+      await cache.getOrFetch('address', { query: 'query 0' }, fetcher);
+      expect(fetcher).not.toHaveBeenCalled();
+      await cache.getOrFetch('address', { query: 'query 1' }, fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sessionStorage persistence', () => {
+    it('should not write to sessionStorage by default', async () => {
+      await cache.getOrFetch('address', { query: 'Zurich' }, jest.fn().mockResolvedValue([mockResult]));
+
+      expect(sessionStorage.length).toBe(0);
+    });
+
+    it('should share persisted results with later instances', async () => {
+      const persistent = new SearchCacheService({ persistInSessionStorage: true });
+      await persistent.getOrFetch('address', { query: 'Zurich' }, jest.fn().mockResolvedValue([mockResult]));
+
+      // Simulate another form in the same session with a fresh in-memory cache
+      const stored = sessionStorage.getItem('AzureMapsAddressAutoComplete.searchCache');
+      SearchCacheService.clearCache();
+      sessionStorage.setItem('AzureMapsAddressAutoComplete.searchCache', stored ?? '');
+
+      const fetcher = jest.fn();
+      const otherForm = new SearchCacheService({ persistInSessionStorage: true });
+      const results = await otherForm.getOrFetch('address', { query: 'Zurich' }, fetcher);
+
+      expect(results).toEqual([mockResult]);
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('should ignore corrupt persisted data', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      sessionStorage.setItem('AzureMapsAddressAutoComplete.searchCache', '{not json');
+
+      expect(() => new SearchCacheService({ persistInSessionStorage: true })).not.toThrow();
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('withSearchCache', () => {
+    const createProvider = (): AddressSearchProvider => ({
+      id: 'azure-maps-search-v1',
+      searchAddress: jest.fn().mockResolvedValue([mockResult]),
+      searchMunicipalities: jest.fn().mockResolvedValue([mockResult]),
+      fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue(['8001', '8002']),
+    });
+
+    it('should keep the provider ID', () => {
+      expect(withSearchCache(createProvider(), cache).id).toBe('azure-maps-search-v1');
+    });
+
+    it('should cache each search function separately', async () => {
+      const provider = createProvider();
+      const cached = withSearchCache(provider, cache);
+      const request = { query: 'Zurich', countrySet: 'CH', language: 'de-CH' };
+
+      await cached.searchAddress(request);
+      await cached.searchAddress(request);
+      await cached.searchMunicipalities(request);
+      await cached.fetchPostalCodesForMunicipality('Zurich', 'CH', { lat: 47.37, lon: 8.54 }, 'de-CH');
+      await cached.fetchPostalCodesForMunicipality('Zurich', 'CH', { lat: 47.37, lon: 8.54 }, 'de-CH');
+
+      expect(provider.searchAddress).toHaveBeenCalledTimes(1);
+      expect(provider.searchMunicipalities).toHaveBeenCalledTimes(1);
+      expect(provider.fetchPostalCodesForMunicipality).toHaveBeenCalledTimes(1);
+      expect(SearchCacheService.getStats()).toEqual({ hits: 2, misses: 3, size: 3 });
+    });
+
+    it('should cache reverse geocoding only when the provider supports it', async () => {
+      const provider = { ...createProvider(), reverseGeocode: jest.fn().mockResolvedValue(mockResult) };
+      const cached = withSearchCache(provider, cache);
+
+      await cached.reverseGeocode?.({ lat: 47.37, lon: 8.54 });
+      await cached.reverseGeocode?.({ lat: 47.37, lon: 8.54 });
+
+      expect(provider.reverseGeocode).toHaveBeenCalledTimes(1);
+      expect(withSearchCache(createProvider(), cache).reverseGeocode).toBeUndefined();
+    });
+
+    it('should pass structured searches through without caching', async () => {
+      const provider = { ...createProvider(), searchAddressStructured: jest.fn().mockResolvedValue([mockResult]) };
+      const cached = withSearchCache(provider, cache);
+
+      await cached.searchAddressStructured?.({ countryCode: 'CH', postalCode: '8001' });
+      const results = await cached.searchAddressStructured?.({ countryCode: 'CH', postalCode: '8001' });
+
+      expect(results).toEqual([mockResult]);
+      expect(provider.searchAddressStructured).toHaveBeenCalledTimes(2);
+      expect(withSearchCache(createProvider(), cache).searchAddressStructured).toBeUndefined();
+    });
+
+    it('should not share results between providers', async () => {
+      const v1 = createProvider();
+      const v2 = { ...createProvider(), id: 'azure-maps-geocoding-v2' };
+      const v2Result = { ...mockResult, id: 'v2-result' };
+      (v2.searchAddress as jest.Mock).mockResolvedValue([v2Result]);
+
+      await withSearchCache(v1, cache).searchAddress({ query: 'Zurich', countrySet: 'CH' });
+      const results = await withSearchCache(v2, cache).searchAddress({ query: 'Zurich', countrySet: 'CH' });
+
+      expect(results).toEqual([v2Result]);
+      expect(v2.searchAddress).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share results between limits', async () => {
+      const provider = createProvider();
+      const cached = withSearchCache(provider, cache);
+
+      await cached.searchAddress({ query: 'Zurich', limit: 5 });
+      await cached.searchAddress({ query: 'Zurich', limit: 20 });
+
+      expect(provider.searchAddress).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share results between languages', async () => {
+      const provider = createProvider();
+      const cached = withSearchCache(provider, cache);
+
+      await cached.searchAddress({ query: 'Zurich', language: 'de-CH' });
+      await cached.searchAddress({ query: 'Zurich', language: 'fr-FR' });
+
+      expect(provider.searchAddress).toHaveBeenCalledTimes(2);
+    });
+  });
+});
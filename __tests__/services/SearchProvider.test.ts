@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the search provider registry and the Azure Maps providers.
+ */
+import {
+  registerSearchProvider,
+  unregisterSearchProvider,
+  getSearchProviderIds,
+  createSearchProvider,
+  DEFAULT_SEARCH_PROVIDER_ID,
+  AddressSearchProvider,
+} from '../../AzureMapsAddressAutoComplete/services/SearchProvider/SearchProvider';
+import * as azureMapsService from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService';
+import * as azureMapsGeocodingService from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsGeocodingService';
+import { AzureMapsCredential } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsCredential';
+import { AZURE_MAPS_GEOCODING_V2_PROVIDER_ID } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsSearchProvider';
+
+jest.mock('../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService', () => ({
+  searchAddress: jest.fn(),
+  searchMunicipalities: jest.fn(),
+  fetchPostalCodesForMunicipality: jest.fn(),
+  reverseGeocode: jest.fn(),
+  searchAddressStructured: jest.fn(),
+}));
+
+jest.mock('../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsGeocodingService', () => ({
+  geocodeAutocomplete: jest.fn(),
+  geocodeMunicipalities: jest.fn(),
+  geocodePostalCodesForMunicipality: jest.fn(),
+  geocodeReverse: jest.fn(),
+}));
+
+describe('SearchProvider registry', () => {
+  const fakeProvider: AddressSearchProvider = {
+    id: 'gazetteer',
+    searchAddress: jest.fn().mockResolvedValue([]),
+    searchMunicipalities: jest.fn().mockResolvedValue([]),
+    fetchPostalCodesForMunicipality: jest.fn().mockResolvedValue([]),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregisterSearchProvider('gazetteer');
+    jest.restoreAllMocks();
+  });
+
+  it('should register the Azure Maps v1 provider by default', () => {
+    expect(getSearchProviderIds()).toContain(DEFAULT_SEARCH_PROVIDER_ID);
+    expect(DEFAULT_SEARCH_PROVIDER_ID).toBe('azure-maps-search-v1');
+  });
+
+  it('should create the default provider when no ID is given', () => {
+    const provider = createSearchProvider(undefined, { subscriptionKey: 'key' });
+
+    expect(provider?.id).toBe(DEFAULT_SEARCH_PROVIDER_ID);
+  });
+
+  it('should fall back to the default provider for unknown IDs', () => {
+    const provider = createSearchProvider('does-not-exist', { subscriptionKey: 'key' });
+
+    expect(provider?.id).toBe(DEFAULT_SEARCH_PROVIDER_ID);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should create a registered custom provider with its settings', () => {
+    const factory = jest.fn(() => fakeProvider);
+    registerSearchProvider('gazetteer', factory);
+
+    const provider = createSearchProvider('gazetteer', {
+      subscriptionKey: '',
+      settings: { url: '/gazetteer.json' },
+    });
+
+    expect(provider).toBe(fakeProvider);
+    expect(factory).toHaveBeenCalledWith({
+      subscriptionKey: '',
+      settings: { url: '/gazetteer.json' },
+    });
+  });
+
+  it('should unregister custom providers but not the default provider', () => {
+    registerSearchProvider('gazetteer', () => fakeProvider);
+
+    expect(unregisterSearchProvider('gazetteer')).toBe(true);
+    expect(getSearchProviderIds()).not.toContain('gazetteer');
+    expect(unregisterSearchProvider(DEFAULT_SEARCH_PROVIDER_ID)).toBe(false);
+    expect(getSearchProviderIds()).toContain(DEFAULT_SEARCH_PROVIDER_ID);
+  });
+
+  describe('Azure Maps v1 provider', () => {
+    it('should not be created without a subscription key', () => {
+      expect(createSearchProvider(DEFAULT_SEARCH_PROVIDER_ID, { subscriptionKey: '' })).toBeUndefined();
+    });
+
+    it('should pass the credential to the search functions', async () => {
+      const credential = new AzureMapsCredential({
+        authType: 'EntraId',
+        clientId: 'client-id',
+        tokenProvider: jest.fn(),
+      });
+      const provider = createSearchProvider(DEFAULT_SEARCH_PROVIDER_ID, { subscriptionKey: '', credential });
+
+      await provider?.searchAddress({ query: 'Bahnhofstrasse 1' });
+
+      expect(azureMapsService.searchAddress).toHaveBeenCalledWith({
+        query: 'Bahnhofstrasse 1',
+        subscriptionKey: '',
+        credential,
+      });
+    });
+
+    it('should pass the subscription key to the search functions', async () => {
+      const provider = createSearchProvider(DEFAULT_SEARCH_PROVIDER_ID, { subscriptionKey: 'key' });
+
+      await provider?.searchAddress({ query: 'Bahnhofstrasse 1', countrySet: 'CH' });
+      await provider?.searchMunicipalities({ query: 'Zurich' });
+      await provider?.fetchPostalCodesForMunicipality('Zurich', 'CH', { lat: 47.37, lon: 8.54 }, 'de-DE');
+
+      expect(azureMapsService.searchAddress).toHaveBeenCalledWith({
+        query: 'Bahnhofstrasse 1',
+        countrySet: 'CH',
+        subscriptionKey: 'key',
+      });
+      expect(azureMapsService.searchMunicipalities).toHaveBeenCalledWith({
+        query: 'Zurich',
+        subscriptionKey: 'key',
+      });
+      expect(azureMapsService.fetchPostalCodesForMunicipality).toHaveBeenCalledWith(
+        'key',
+        'Zurich',
+        'CH',
+        { lat: 47.37, lon: 8.54 },
+        'de-DE',
+        {}
+      );
+    });
+  });
+
+  describe('Azure Maps Search v1 structured search', () => {
+    it('should delegate to the structured search function', async () => {
+      const provider = createSearchProvider(DEFAULT_SEARCH_PROVIDER_ID, { subscriptionKey: 'key' });
+
+      await provider?.searchAddressStructured?.({ countryCode: 'CH', streetName: 'Bahnhofstrasse', limit: 1 });
+
+      expect(azureMapsService.searchAddressStructured).toHaveBeenCalledWith({
+        countryCode: 'CH',
+        streetName: 'Bahnhofstrasse',
+        limit: 1,
+        subscriptionKey: 'key',
+      });
+    });
+
+    it('should not be offered by the Geocoding v2 provider', () => {
+      const provider = createSearchProvider(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID, { subscriptionKey: 'key' });
+
+      expect(provider?.searchAddressStructured).toBeUndefined();
+    });
+  });
+
+  describe('Azure Maps Geocoding v2 provider', () => {
+    it('should be registered', () => {
+      expect(getSearchProviderIds()).toContain(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID);
+      expect(createSearchProvider(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID, { subscriptionKey: '' })).toBeUndefined();
+    });
+
+    it('should delegate to the Geocoding API functions', async () => {
+      const provider = createSearchProvider(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID, { subscriptionKey: 'key' });
+
+      await provider?.searchAddress({ query: 'Bahnhofstrasse 1', countrySet: 'CH', radius: 500 });
+      await provider?.searchMunicipalities({ query: 'Zurich' });
+      await provider?.fetchPostalCodesForMunicipality('Zurich', 'CH', { lat: 47.37, lon: 8.54 }, 'de-DE');
+
+      expect(provider?.id).toBe(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID);
+      expect(azureMapsGeocodingService.geocodeAutocomplete).toHaveBeenCalledWith({
+        query: 'Bahnhofstrasse 1',
+        countrySet: 'CH',
+        subscriptionKey: 'key',
+      });
+      expect(azureMapsGeocodingService.geocodeMunicipalities).toHaveBeenCalledWith({
+        query: 'Zurich',
+        subscriptionKey: 'key',
+      });
+      expect(azureMapsGeocodingService.geocodePostalCodesForMunicipality).toHaveBeenCalledWith(
+        'key',
+        'Zurich',
+        'CH',
+        { lat: 47.37, lon: 8.54 },
+        'de-DE',
+        {}
+      );
+    });
+
+    it('should reverse geocode with the Geocoding API', async () => {
+      const provider = createSearchProvider(AZURE_MAPS_GEOCODING_V2_PROVIDER_ID, { subscriptionKey: 'key' });
+
+      await provider?.reverseGeocode?.({ lat: 47.37, lon: 8.54, language: 'de-CH' });
+
+      expect(azureMapsGeocodingService.geocodeReverse).toHaveBeenCalledWith({
+        lat: 47.37,
+        lon: 8.54,
+        language: 'de-CH',
+        subscriptionKey: 'key',
+      });
+      expect(azureMapsService.reverseGeocode).not.toHaveBeenCalled();
+    });
+  });
+});
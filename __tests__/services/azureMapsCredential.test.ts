@@ -0,0 +1,280 @@
+/**
+ * Unit tests for Azure Maps Credential
+ */
+import {
+  AzureMapsCredential,
+  createAzureMapsCredential,
+  createDataverseTokenProvider,
+  setAzureMapsTokenProvider,
+  fetchWithCredential,
+  getJwtExpiry,
+} from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsCredential';
+import { DataverseApiError } from '../../AzureMapsAddressAutoComplete/types';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+/**
+ * Builds an unsigned JWT with the given expiry (epoch seconds).
+ */
+const createJwt = (exp: number): string =>
+  `eyJhbGciOiJub25lIn0.${btoa(JSON.stringify({ exp })).replace(/=+$/, '')}.signature`;
+
+describe('azureMapsCredential', () => {
+  const mockContext = {
+    page: { getClientUrl: () => 'https://org.crm.dynamics.com' },
+  } as unknown as ComponentFramework.Context<unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setAzureMapsTokenProvider(undefined);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('getJwtExpiry', () => {
+    it('should read the exp claim in milliseconds', () => {
+      expect(getJwtExpiry(createJwt(1700000000))).toBe(1700000000000);
+    });
+
+    it('should return undefined for non-JWT tokens', () => {
+      expect(getJwtExpiry('opaque-token')).toBeUndefined();
+      expect(getJwtExpiry('a.not-base64!.c')).toBeUndefined();
+    });
+  });
+
+  describe('AzureMapsCredential', () => {
+    it('should send the subscription key as a header', async () => {
+      const credential = new AzureMapsCredential({ authType: 'SubscriptionKey', subscriptionKey: 'key' });
+
+      expect(credential.isTokenBased).toBe(false);
+      expect(await credential.getAuthHeaders()).toEqual({ 'subscription-key': 'key' });
+    });
+
+    it('should send a bearer token and client ID for Entra ID', async () => {
+      const credential = new AzureMapsCredential({
+        authType: 'EntraId',
+        clientId: 'client-id',
+        tokenProvider: jest.fn().mockResolvedValue({ token: 'aad-token' }),
+      });
+
+      expect(await credential.getAuthHeaders()).toEqual({
+        Authorization: 'Bearer aad-token',
+        'x-ms-client-id': 'client-id',
+      });
+    });
+
+    it('should send a jwt-sas authorization header for SAS tokens', async () => {
+      const credential = new AzureMapsCredential({
+        authType: 'Sas',
+        tokenProvider: jest.fn().mockResolvedValue({ token: 'sas-token' }),
+      });
+
+      expect(await credential.getAuthHeaders()).toEqual({ Authorization: 'jwt-sas sas-token' });
+    });
+
+    it('should cache tokens until shortly before they expire', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const tokenProvider = jest
+        .fn()
+        .mockResolvedValueOnce({ token: 'first', expiresOn: Date.now() + 10 * 60 * 1000 })
+        .mockResolvedValueOnce({ token: 'second', expiresOn: Date.now() + 20 * 60 * 1000 });
+      const credential = new AzureMapsCredential({ authType: 'EntraId', tokenProvider });
+
+      expect(await credential.getToken()).toBe('first');
+      jest.setSystemTime(Date.now() + 7 * 60 * 1000);
+      expect(await credential.getToken()).toBe('first');
+      jest.setSystemTime(Date.now() + 2 * 60 * 1000);
+      expect(await credential.getToken()).toBe('second');
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the JWT expiry when the provider returns none', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const expiredJwt = createJwt(Math.floor(Date.now() / 1000) + 60);
+      const tokenProvider = jest.fn().mockResolvedValue({ token: expiredJwt });
+      const credential = new AzureMapsCredential({ authType: 'Sas', tokenProvider });
+
+      await credential.getToken();
+      await credential.getToken();
+
+      // Token expires within the refresh margin, so each call acquires a new one
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one pending acquisition between concurrent callers', async () => {
+      const tokenProvider = jest.fn().mockResolvedValue({ token: 'token', expiresOn: Date.now() + 3600000 });
+      const credential = new AzureMapsCredential({ authType: 'EntraId', tokenProvider });
+
+      const tokens = await Promise.all([credential.getToken(), credential.getToken()]);
+
+      expect(tokens).toEqual(['token', 'token']);
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build Atlas auth options for each mode', () => {
+      const authenticationType = { subscriptionKey: 'subscriptionKey', anonymous: 'anonymous', sas: 'sas' };
+      const tokenProvider = jest.fn();
+
+      expect(
+        new AzureMapsCredential({ authType: 'SubscriptionKey', subscriptionKey: 'key' })
+          .getAtlasAuthOptions(authenticationType)
+      ).toEqual({ authType: 'subscriptionKey', subscriptionKey: 'key' });
+      expect(
+        new AzureMapsCredential({ authType: 'EntraId', clientId: 'client-id', tokenProvider })
+          .getAtlasAuthOptions(authenticationType)
+      ).toEqual({ authType: 'anonymous', clientId: 'client-id', getToken: expect.any(Function) });
+      expect(
+        new AzureMapsCredential({ authType: 'Sas', tokenProvider }).getAtlasAuthOptions(authenticationType)
+      ).toEqual({ authType: 'sas', getToken: expect.any(Function) });
+    });
+
+    it('should resolve the Atlas getToken callback with the token', async () => {
+      const credential = new AzureMapsCredential({
+        authType: 'EntraId',
+        tokenProvider: jest.fn().mockResolvedValue({ token: 'aad-token' }),
+      });
+      const options = credential.getAtlasAuthOptions({ subscriptionKey: 's', anonymous: 'a', sas: 'x' }) as {
+        getToken: (resolve: (token: string) => void, reject: (error: unknown) => void) => void;
+      };
+
+      const token = await new Promise((resolve, reject) => options.getToken(resolve, reject));
+
+      expect(token).toBe('aad-token');
+    });
+  });
+
+  describe('createAzureMapsCredential', () => {
+    it('should use the subscription key when no authentication is configured', () => {
+      const credential = createAzureMapsCredential(undefined, 'key');
+
+      expect(credential?.authType).toBe('SubscriptionKey');
+      expect(createAzureMapsCredential(undefined, '')).toBeUndefined();
+    });
+
+    it('should prefer the registered token provider', async () => {
+      setAzureMapsTokenProvider(jest.fn().mockResolvedValue({ token: 'registered' }));
+
+      const credential = createAzureMapsCredential(
+        { Type: 'EntraId', ClientId: 'client-id', TokenCustomApi: 'aidevme_GetAzureMapsToken' },
+        '',
+        mockContext
+      );
+
+      expect(credential?.authType).toBe('EntraId');
+      expect(await credential?.getToken()).toBe('registered');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use the custom API when no provider is registered', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ Token: 'sas-token' }) });
+
+      const credential = createAzureMapsCredential(
+        { Type: 'Sas', TokenCustomApi: 'aidevme_GetAzureMapsSasToken' },
+        '',
+        mockContext
+      );
+
+      expect(await credential?.getToken()).toBe('sas-token');
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://org.crm.dynamics.com/api/data/v9.2/aidevme_GetAzureMapsSasToken'
+      );
+    });
+
+    it('should fall back to the subscription key without a token source', () => {
+      const credential = createAzureMapsCredential({ Type: 'EntraId' }, 'key');
+
+      expect(credential?.authType).toBe('SubscriptionKey');
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('createDataverseTokenProvider', () => {
+    it('should parse Token and ExpiresOn', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ Token: 'token', ExpiresOn: '2026-01-01T01:00:00Z' }),
+      });
+
+      const result = await createDataverseTokenProvider(mockContext, 'aidevme_GetAzureMapsToken')();
+
+      expect(result).toEqual({ token: 'token', expiresOn: Date.parse('2026-01-01T01:00:00Z') });
+      expect(mockFetch.mock.calls[0][1]).toEqual(expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('should throw DataverseApiError when the custom API fails', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ error: { code: '0x80040217', message: 'Custom API not found' } }),
+      });
+
+      await expect(createDataverseTokenProvider(mockContext, 'missing_api')()).rejects.toThrow(
+        DataverseApiError
+      );
+    });
+
+    it('should throw DataverseApiError when no token is returned', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+      await expect(createDataverseTokenProvider(mockContext, 'aidevme_GetAzureMapsToken')()).rejects.toThrow(
+        "did not return a Token"
+      );
+    });
+  });
+
+  describe('fetchWithCredential', () => {
+    it('should call fetch with the URL only when no credential is given', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await fetchWithCredential('https://atlas.microsoft.com/search', undefined);
+
+      expect(mockFetch).toHaveBeenCalledWith('https://atlas.microsoft.com/search');
+    });
+
+    it('should merge authentication headers into the request', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+      const credential = new AzureMapsCredential({ authType: 'SubscriptionKey', subscriptionKey: 'key' });
+
+      await fetchWithCredential('https://atlas.microsoft.com/geocode', credential, {
+        headers: { 'Accept-Language': 'de-DE' },
+      });
+
+      expect(mockFetch.mock.calls[0][1]).toEqual({
+        headers: { 'Accept-Language': 'de-DE', 'subscription-key': 'key' },
+      });
+    });
+
+    it('should retry once with a new token on HTTP 401', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+      const tokenProvider = jest
+        .fn()
+        .mockResolvedValueOnce({ token: 'stale', expiresOn: Date.now() + 3600000 })
+        .mockResolvedValueOnce({ token: 'fresh', expiresOn: Date.now() + 3600000 });
+      const credential = new AzureMapsCredential({ authType: 'EntraId', clientId: 'id', tokenProvider });
+
+      const response = await fetchWithCredential('https://atlas.microsoft.com/search', credential);
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh');
+    });
+
+    it('should not retry subscription key requests on HTTP 401', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401 });
+      const credential = new AzureMapsCredential({ authType: 'SubscriptionKey', subscriptionKey: 'bad' });
+
+      const response = await fetchWithCredential('https://atlas.microsoft.com/search', credential);
+
+      expect(response.status).toBe(401);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
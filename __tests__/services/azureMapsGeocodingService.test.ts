@@ -0,0 +1,275 @@
+/**
+ * Unit tests for Azure Maps Geocoding Service (Search v2)
+ */
+import {
+  geocode,
+  geocodeAutocomplete,
+  geocodeMunicipalities,
+  geocodePostalCodesForMunicipality,
+  geocodeReverse,
+  mapGeocodingFeatureToSearchResult,
+} from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsGeocodingService';
+import { AzureMapsApiError } from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsService';
+import type { AzureMapsGeocodingFeature } from '../../AzureMapsAddressAutoComplete/types';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('azureMapsGeocodingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const addressFeature: AzureMapsGeocodingFeature = {
+    type: 'Feature',
+    properties: {
+      type: 'Address',
+      confidence: 'High',
+      address: {
+        formattedAddress: 'Bahnhofstrasse 1, 8001 Zürich',
+        addressLine: 'Bahnhofstrasse 1',
+        streetName: 'Bahnhofstrasse',
+        streetNumber: '1',
+        locality: 'Zürich',
+        postalCode: '8001',
+        adminDistricts: [{ name: 'Zürich', shortName: 'ZH' }, { name: 'Bezirk Zürich' }],
+        countryRegion: { ISO: 'CH', name: 'Schweiz' },
+      },
+    },
+    geometry: { type: 'Point', coordinates: [8.5391, 47.3686] },
+  };
+
+  const cityFeature: AzureMapsGeocodingFeature = {
+    type: 'Feature',
+    properties: {
+      type: 'PopulatedPlace',
+      confidence: 'Medium',
+      address: {
+        formattedAddress: 'Vienna, Austria',
+        locality: 'Vienna',
+        countryRegion: { ISO: 'AT', name: 'Austria' },
+      },
+    },
+    geometry: { type: 'Point', coordinates: [16.3725, 48.2083] },
+  };
+
+  const okResponse = (features: unknown[]) => ({
+    ok: true,
+    json: async () => ({ type: 'FeatureCollection', features }),
+  });
+
+  describe('mapGeocodingFeatureToSearchResult', () => {
+    it('should map an address feature to a search result', () => {
+      const result = mapGeocodingFeatureToSearchResult(addressFeature);
+
+      expect(result.type).toBe('Point Address');
+      expect(result.entityType).toBeUndefined();
+      expect(result.score).toBe(1);
+      expect(result.position).toEqual({ lat: 47.3686, lon: 8.5391 });
+      expect(result.address).toEqual(
+        expect.objectContaining({
+          freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich',
+          streetName: 'Bahnhofstrasse',
+          streetNumber: '1',
+          municipality: 'Zürich',
+          postalCode: '8001',
+          countrySecondarySubdivision: 'Bezirk Zürich',
+          countrySubdivision: 'ZH',
+          countrySubdivisionName: 'Zürich',
+          country: 'Schweiz',
+          countryCode: 'CH',
+          countryCodeISO3: 'CHE',
+        })
+      );
+    });
+
+    it('should map place types to Search v1 entity types', () => {
+      const result = mapGeocodingFeatureToSearchResult(cityFeature);
+
+      expect(result.type).toBe('Geography');
+      expect(result.entityType).toBe('Municipality');
+      expect(result.score).toBe(0.5);
+      expect(result.address.countryCodeISO3).toBe('AUT');
+    });
+
+    it('should build the freeform address when no formatted address is returned', () => {
+      const result = mapGeocodingFeatureToSearchResult({
+        ...addressFeature,
+        properties: {
+          type: 'Address',
+          address: { addressLine: 'Main St 5', postalCode: '1010', locality: 'Vienna' },
+        },
+      });
+
+      expect(result.address.freeformAddress).toBe('Main St 5 1010 Vienna');
+      expect(result.score).toBeUndefined();
+      expect(result.id).toBe('Address-47.3686,8.5391');
+    });
+  });
+
+  describe('geocode', () => {
+    it('should call the Geocoding API with v2 query parameters', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([addressFeature]));
+
+      await geocode({
+        subscriptionKey: 'test-key',
+        query: 'Bahnhofstrasse 1',
+        language: 'de-CH',
+        countrySet: 'CH',
+        limit: 100,
+        lat: 47.37,
+        lon: 8.54,
+      });
+
+      const [calledUrl, init] = mockFetch.mock.calls[0];
+      expect(calledUrl).toContain('atlas.microsoft.com/geocode?');
+      expect(calledUrl).toContain('api-version=2025-01-01');
+      expect(calledUrl).toContain('subscription-key=test-key');
+      expect(calledUrl).toContain('countryRegion=CH');
+      expect(calledUrl).toContain('top=20');
+      expect(calledUrl).toContain('coordinates=8.54%2C47.37');
+      expect(init).toEqual({ headers: { 'Accept-Language': 'de-CH' } });
+    });
+
+    it('should filter by country on the client when several countries are set', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([addressFeature, cityFeature]));
+
+      const results = await geocode({
+        subscriptionKey: 'test-key',
+        query: 'Main',
+        countrySet: 'DE,AT',
+      });
+
+      const calledUrl = mockFetch.mock.calls[0][0];
+      expect(calledUrl).not.toContain('countryRegion');
+      expect(results).toHaveLength(1);
+      expect(results[0].address.countryCode).toBe('AT');
+    });
+
+    it('should return empty array for unexpected response format', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ results: [] }) });
+
+      const results = await geocode({ subscriptionKey: 'test-key', query: 'Zurich' });
+
+      expect(results).toEqual([]);
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should throw AzureMapsApiError on API error', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: { code: 'Unauthorized', message: 'Invalid key' } }),
+      });
+
+      await expect(geocode({ subscriptionKey: 'bad', query: 'Zurich' })).rejects.toThrow(
+        AzureMapsApiError
+      );
+    });
+  });
+
+  describe('geocodeAutocomplete', () => {
+    it('should call the Autocomplete API', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([addressFeature]));
+
+      const results = await geocodeAutocomplete({ subscriptionKey: 'test-key', query: 'Bahnhofstr' });
+
+      const [calledUrl, init] = mockFetch.mock.calls[0];
+      expect(calledUrl).toContain('atlas.microsoft.com/geocode:autocomplete?');
+      expect(calledUrl).toContain('api-version=2025-06-01-preview');
+      expect(init).toBeUndefined();
+      expect(results).toHaveLength(1);
+    });
+
+    it('should request populated places for municipality searches', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([cityFeature]));
+
+      const results = await geocodeMunicipalities({ subscriptionKey: 'test-key', query: 'Vienna' });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('resultTypes=PopulatedPlace');
+      expect(results[0].entityType).toBe('Municipality');
+    });
+  });
+
+  describe('geocodePostalCodesForMunicipality', () => {
+    const postcodeFeature = (postalCode: string, locality?: string): AzureMapsGeocodingFeature => ({
+      type: 'Feature',
+      properties: {
+        type: 'Postcode1',
+        address: { postalCode, locality, countryRegion: { ISO: 'CH' } },
+      },
+      geometry: { type: 'Point', coordinates: [8.54, 47.37] },
+    });
+
+    it('should return sorted unique postal codes of the municipality', async () => {
+      mockFetch.mockResolvedValueOnce(
+        okResponse([
+          postcodeFeature('8004', 'Zürich'),
+          postcodeFeature('8001', 'Zürich'),
+          postcodeFeature('8001', 'Zürich'),
+          postcodeFeature('8400', 'Winterthur'),
+        ])
+      );
+
+      const codes = await geocodePostalCodesForMunicipality(
+        'test-key',
+        'Zürich',
+        'CH',
+        { lat: 47.37, lon: 8.54 }
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toContain('resultTypes=Postcode1');
+      expect(codes).toEqual(['8001', '8004']);
+    });
+
+    it('should return empty array without subscription key', async () => {
+      const codes = await geocodePostalCodesForMunicipality('', 'Zürich', 'CH', { lat: 0, lon: 0 });
+
+      expect(codes).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return empty array on API error', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const codes = await geocodePostalCodesForMunicipality(
+        'test-key',
+        'Zürich',
+        'CH',
+        { lat: 47.37, lon: 8.54 }
+      );
+
+      expect(codes).toEqual([]);
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('geocodeReverse', () => {
+    it('should request the address at the coordinates in longitude, latitude order', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([addressFeature]));
+
+      const result = await geocodeReverse({ subscriptionKey: 'test-key', lat: 47.3687, lon: 8.5392, language: 'de-CH' });
+
+      const [calledUrl, init] = mockFetch.mock.calls[0];
+      expect(calledUrl).toContain('https://atlas.microsoft.com/reverseGeocode?');
+      expect(calledUrl).toContain('coordinates=8.5392%2C47.3687');
+      expect(init.headers).toEqual({ 'Accept-Language': 'de-CH' });
+      expect(result?.address.freeformAddress).toBe('Bahnhofstrasse 1, 8001 Zürich');
+      // The picked location is kept rather than the address position
+      expect(result?.position).toEqual({ lat: 47.3687, lon: 8.5392 });
+    });
+
+    it('should return undefined when no address is found', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse([]));
+
+      await expect(geocodeReverse({ subscriptionKey: 'test-key', lat: 0, lon: 0 })).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the Azure Maps retry policy
+ */
+import {
+  createRetryPolicy,
+  fetchWithRetry,
+  getRetryDelay,
+  parseRetryAfter,
+  DEFAULT_RETRY_POLICY,
+  type AzureMapsRetryPolicy,
+} from '../../AzureMapsAddressAutoComplete/services/AzureMap/azureMapsRetry';
+
+/**
+ * Creates a minimal fetch response with the given status and headers.
+ */
+const createResponse = (status: number, headers: Record<string, string> = {}): Response =>
+  ({ ok: status >= 200 && status < 300, status, headers: new Headers(headers) }) as Response;
+
+describe('azureMapsRetry', () => {
+  const policy: AzureMapsRetryPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createRetryPolicy', () => {
+    it('should use the defaults when nothing is configured', () => {
+      expect(createRetryPolicy(undefined)).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should apply configured values and ignore invalid ones', () => {
+      expect(createRetryPolicy({ MaxAttempts: 5, BaseDelayMs: -1, MaxDelayMs: 2000 })).toEqual({
+        maxAttempts: 5,
+        baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+        maxDelayMs: 2000,
+      });
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay-seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse an HTTP date relative to now', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:03 GMT', now)).toBe(3000);
+      expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should honor the Retry-After header', () => {
+      expect(getRetryDelay(createResponse(429, { 'Retry-After': '1' }), 1, policy)).toBe(1000);
+    });
+
+    it('should back off exponentially with jitter', () => {
+      const response = createResponse(503);
+
+      expect(getRetryDelay(response, 1, policy, () => 0)).toBe(50);
+      expect(getRetryDelay(response, 1, policy, () => 0.999)).toBe(100);
+      expect(getRetryDelay(response, 3, policy, () => 0.999)).toBe(400);
+      // Capped at maxDelayMs
+      expect(getRetryDelay(response, 10, policy, () => 0.999)).toBe(1000);
+    });
+  });
+
+  describe('fetchWithRetry', () => {
+    it('should send the request once without a policy', async () => {
+      const send = jest.fn().mockResolvedValue(createResponse(503));
+
+      const response = await fetchWithRetry(send);
+
+      expect(response.status).toBe(503);
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable statuses until the request succeeds', async () => {
+      jest.useFakeTimers();
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(createResponse(503))
+        .mockResolvedValueOnce(createResponse(504))
+        .mockResolvedValueOnce(createResponse(200));
+      const onRetry = jest.fn();
+
+      const promise = fetchWithRetry(send, { retry: policy, onRetry });
+      await jest.runAllTimersAsync();
+      const response = await promise;
+
+      expect(response.status).toBe(200);
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toEqual(expect.objectContaining({ attempt: 2, maxAttempts: 3, status: 504 }));
+    });
+
+    it('should return the last response once attempts are exhausted', async () => {
+      jest.useFakeTimers();
+      const send = jest.fn().mockResolvedValue(createResponse(429, { 'Retry-After': '0' }));
+
+      const promise = fetchWithRetry(send, { retry: policy });
+      await jest.runAllTimersAsync();
+      const response = await promise;
+
+      expect(response.status).toBe(429);
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry other errors', async () => {
+      const send = jest.fn().mockResolvedValue(createResponse(400));
+
+      await fetchWithRetry(send, { retry: policy });
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      const send = jest.fn().mockResolvedValue(createResponse(429, { 'Retry-After': '60' }));
+      const onRetry = jest.fn();
+
+      const response = await fetchWithRetry(send, { retry: policy, onRetry });
+
+      expect(response.status).toBe(429);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting when the signal aborts', async () => {
+      jest.useFakeTimers();
+      const controller = new AbortController();
+      const send = jest.fn().mockResolvedValue(createResponse(503));
+
+      const promise = fetchWithRetry(send, { retry: policy, signal: controller.signal });
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
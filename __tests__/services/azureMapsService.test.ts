@@ -7,6 +7,10 @@ import {
   searchMunicipalities,
   searchNearby,
   fetchPostalCodesForMunicipality,
+  reverseGeocode,
+  searchAddressStructured,
+  searchAddressBatch,
+  MAX_BATCH_QUERIES,
   normalizeResults,
   createPostalCodeResult,
   AzureMapsApiError,
@@ -18,6 +22,12 @@ jest.mock('../../AzureMapsAddressAutoComplete/types', () => ({
   isAzureMapsSearchResponse: jest.fn((data) => {
     return data && typeof data === 'object' && 'results' in data && Array.isArray(data.results);
   }),
+  isAzureMapsReverseGeocodeResponse: jest.fn((data) => {
+    return data && typeof data === 'object' && 'addresses' in data && Array.isArray(data.addresses);
+  }),
+  isAzureMapsBatchResponse: jest.fn((data) => {
+    return data && typeof data === 'object' && 'batchItems' in data && Array.isArray(data.batchItems);
+  }),
   extractValidResults: jest.fn((data) => data.results || []),
 }));
 
@@ -153,6 +163,36 @@ describe('azureMapsService', () => {
       expect(calledUrl).toContain('limit=10');
     });
 
+    it('should pass the abort signal to fetch', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ results: [] }),
+      });
+      const controller = new AbortController();
+
+      await searchAddress({ subscriptionKey: 'test-key', query: 'Seattle', signal: controller.signal });
+
+      expect(mockFetch.mock.calls[0][1]).toEqual({ signal: controller.signal });
+    });
+
+    it('should retry throttled requests when a retry policy is given', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '0' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ results: [mockSearchResult] }) });
+      const onRetry = jest.fn();
+
+      const results = await searchAddress({
+        subscriptionKey: 'test-key',
+        query: 'Seattle',
+        retry: { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 100 },
+        onRetry,
+      });
+
+      expect(results).toEqual([mockSearchResult]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith({ attempt: 1, maxAttempts: 3, delayMs: 0, status: 429 });
+    });
+
     it('should return search results on success', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -381,6 +421,190 @@ describe('azureMapsService', () => {
     });
   });
 
+  describe('reverseGeocode', () => {
+    it('should request the address at the coordinates', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          addresses: [{ address: mockSearchResult.address, position: '47.606200,-122.332100' }],
+        }),
+      });
+
+      const result = await reverseGeocode({ subscriptionKey: 'test-key', lat: 47.6063, lon: -122.3322, language: 'en-US' });
+
+      const calledUrl = mockFetch.mock.calls[0][0];
+      expect(calledUrl).toContain('https://atlas.microsoft.com/search/address/reverse/json?');
+      expect(calledUrl).toContain('query=47.6063%2C-122.3322');
+      expect(calledUrl).toContain('language=en-US');
+      expect(result).toEqual({
+        type: 'Point Address',
+        id: 'reverse-47.6063,-122.3322',
+        address: mockSearchResult.address,
+        position: { lat: 47.6063, lon: -122.3322 },
+      });
+    });
+
+    it('should return a geography result for locations without a street', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          addresses: [{ address: { freeformAddress: 'Woodinville, WA 98072', municipality: 'Woodinville' }, position: '47.7,-122.1' }],
+        }),
+      });
+
+      const result = await reverseGeocode({ subscriptionKey: 'test-key', lat: 47.7, lon: -122.1 });
+
+      expect(result?.type).toBe('Geography');
+    });
+
+    it('should return undefined when no address is found', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ addresses: [] }) });
+
+      await expect(reverseGeocode({ subscriptionKey: 'test-key', lat: 0, lon: 0 })).resolves.toBeUndefined();
+    });
+
+    it('should throw AzureMapsApiError on API error', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) });
+
+      await expect(reverseGeocode({ subscriptionKey: 'bad-key', lat: 0, lon: 0 })).rejects.toThrow(AzureMapsApiError);
+    });
+  });
+
+  describe('searchAddressStructured', () => {
+    it('should send the address parts to the structured search endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ results: [mockSearchResult] }) });
+
+      const results = await searchAddressStructured({
+        subscriptionKey: 'test-key',
+        countryCode: 'US',
+        streetNumber: '123',
+        streetName: 'Main St',
+        municipality: 'Seattle',
+        postalCode: '98101',
+        language: 'en-US',
+        limit: 1,
+      });
+
+      const calledUrl = new URL(mockFetch.mock.calls[0][0]);
+      expect(`${calledUrl.origin}${calledUrl.pathname}`).toBe(
+        'https://atlas.microsoft.com/search/address/structured/json'
+      );
+      expect(Object.fromEntries(calledUrl.searchParams)).toEqual({
+        'subscription-key': 'test-key',
+        'api-version': '1.0',
+        countryCode: 'US',
+        streetNumber: '123',
+        streetName: 'Main St',
+        municipality: 'Seattle',
+        postalCode: '98101',
+        language: 'en-US',
+        limit: '1',
+      });
+      expect(results).toEqual([mockSearchResult]);
+    });
+
+    it('should leave out empty address parts', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ results: [] }) });
+
+      await searchAddressStructured({ subscriptionKey: 'test-key', countryCode: 'CH', streetName: ' ', postalCode: '8001' });
+
+      const calledUrl: string = mockFetch.mock.calls[0][0];
+      expect(calledUrl).toContain('postalCode=8001');
+      expect(calledUrl).not.toContain('streetName');
+    });
+
+    it('should throw AzureMapsApiError on API error', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, json: async () => ({}) });
+
+      await expect(searchAddressStructured({ subscriptionKey: 'test-key', countryCode: 'XX' })).rejects.toThrow(
+        AzureMapsApiError
+      );
+    });
+  });
+
+  describe('searchAddressBatch', () => {
+    it('should post one query per address to the batch endpoint', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          batchItems: [
+            { statusCode: 200, response: { results: [mockSearchResult] } },
+            { statusCode: 200, response: { results: [] } },
+          ],
+        }),
+      });
+
+      const outcomes = await searchAddressBatch({
+        subscriptionKey: 'test-key',
+        queries: [
+          { query: '123 Main St, Seattle', countrySet: 'US', language: 'en-US', limit: 1 },
+          { query: 'Bahnhofstrasse 1 & 2', countrySet: 'CH' },
+        ],
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      const calledUrl = new URL(url);
+      expect(`${calledUrl.origin}${calledUrl.pathname}`).toBe(
+        'https://atlas.microsoft.com/search/address/batch/sync/json'
+      );
+      expect(Object.fromEntries(calledUrl.searchParams)).toEqual({
+        'subscription-key': 'test-key',
+        'api-version': '1.0',
+      });
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({
+        batchItems: [
+          { query: '?query=123%20Main%20St%2C%20Seattle&countrySet=US&language=en-US&limit=1' },
+          { query: '?query=Bahnhofstrasse%201%20%26%202&countrySet=CH' },
+        ],
+      });
+      expect(outcomes).toEqual([{ results: [mockSearchResult] }, { results: [] }]);
+    });
+
+    it('should report failed queries without failing the batch', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          batchItems: [
+            { statusCode: 400, response: { error: { code: '400 BadRequest', message: 'Invalid query' } } },
+            { statusCode: 500, response: {} },
+          ],
+        }),
+      });
+
+      const outcomes = await searchAddressBatch({
+        subscriptionKey: 'test-key',
+        queries: [{ query: '' }, { query: 'Seattle' }, { query: 'Redmond' }],
+      });
+
+      expect(outcomes).toEqual([
+        { results: [], error: 'Invalid query' },
+        { results: [], error: 'HTTP 500' },
+        { results: [], error: 'Missing response' },
+      ]);
+    });
+
+    it('should not send a request without queries', async () => {
+      await expect(searchAddressBatch({ subscriptionKey: 'test-key', queries: [] })).resolves.toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject more queries than a batch supports', async () => {
+      const queries = Array.from({ length: MAX_BATCH_QUERIES + 1 }, () => ({ query: 'Seattle' }));
+
+      await expect(searchAddressBatch({ subscriptionKey: 'test-key', queries })).rejects.toThrow(RangeError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw AzureMapsApiError when the batch request fails', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) });
+
+      await expect(searchAddressBatch({ subscriptionKey: 'bad-key', queries: [{ query: 'Seattle' }] })).rejects.toThrow(
+        AzureMapsApiError
+      );
+    });
+  });
+
   describe('searchNearby', () => {
     it('should call searchFuzzy with location parameters', async () => {
       mockFetch.mockResolvedValueOnce({
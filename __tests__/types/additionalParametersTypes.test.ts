@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the country helpers of the additionalParameters configuration.
+ * @module __tests__/types/additionalParametersTypes.test
+ */
+
+import {
+  findCountryChoiceByName,
+  findCountryLookupByName,
+  type AdditionalParameters,
+} from '../../AzureMapsAddressAutoComplete/types/additionalParametersTypes';
+
+describe('additionalParametersTypes', () => {
+  const config = {
+    CountriesConfig: {
+      Choices: [
+        { Value: 100000001, Label: 'Schweiz' },
+        { Value: 100000002, Label: 'Österreich' },
+        { Value: 100000003, Label: 'Germany' },
+      ],
+      Lookup: [{ Id: 'country-1', Name: 'Suisse', CountryISO2: 'CH', CountryISO3: 'CHE' }],
+      CountryTable: {
+        TableName: 'aidevme_country',
+        CountryNameField: 'aidevme_name',
+        CountryISO2Field: 'aidevme_countryiso2code',
+        CountryISO3Field: 'aidevme_countryiso3code',
+      },
+    },
+  } as AdditionalParameters;
+
+  describe('findCountryChoiceByName', () => {
+    it('should match labels equal to the name first', () => {
+      expect(findCountryChoiceByName(config, 'germany', 'AT')?.Value).toBe(100000003);
+    });
+
+    it('should match localized labels by the country code', () => {
+      expect(findCountryChoiceByName(config, 'Switzerland', 'CH')?.Value).toBe(100000001);
+      expect(findCountryChoiceByName(config, 'Autriche', 'AUT')?.Value).toBe(100000002);
+    });
+
+    it('should match localized labels by the name in any known language', () => {
+      expect(findCountryChoiceByName(config, 'Austria')?.Value).toBe(100000002);
+      expect(findCountryChoiceByName(config, 'Svizzera', '')?.Value).toBe(100000001);
+    });
+
+    it('should return undefined for unknown countries or without configuration', () => {
+      expect(findCountryChoiceByName(config, 'France', 'FR')).toBeUndefined();
+      expect(findCountryChoiceByName(config, 'Atlantis')).toBeUndefined();
+      expect(findCountryChoiceByName(undefined, 'Switzerland', 'CH')).toBeUndefined();
+    });
+  });
+
+  describe('findCountryLookupByName', () => {
+    it('should match the configured lookups by the name in any known language', () => {
+      expect(findCountryLookupByName(config, 'suisse')?.Id).toBe('country-1');
+      expect(findCountryLookupByName(config, 'Schweiz')?.Id).toBe('country-1');
+      expect(findCountryLookupByName(config, 'Austria')).toBeUndefined();
+    });
+  });
+});
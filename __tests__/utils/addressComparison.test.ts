@@ -0,0 +1,88 @@
+/**
+ * Unit tests for address comparison utility functions.
+ * @module __tests__/utils/addressComparison.test
+ */
+
+import {
+  getDistanceInMeters,
+  isSameStreet,
+  normalizeAddressPart,
+  normalizeStreet,
+} from '../../AzureMapsAddressAutoComplete/utils/addressComparison';
+
+describe('addressComparison', () => {
+  describe('normalizeAddressPart', () => {
+    it('should ignore case, whitespace and punctuation', () => {
+      expect(normalizeAddressPart('SW1A 1AA')).toBe(normalizeAddressPart('sw1a1aa'));
+      expect(normalizeAddressPart('A-1010')).toBe('a1010');
+    });
+
+    it('should ignore diacritics', () => {
+      expect(normalizeAddressPart('Österreich')).toBe('osterreich');
+    });
+
+    it('should return an empty string for missing values', () => {
+      expect(normalizeAddressPart(undefined)).toBe('');
+      expect(normalizeAddressPart(null)).toBe('');
+    });
+  });
+
+  describe('normalizeStreet', () => {
+    it('should treat street type abbreviations as equal', () => {
+      expect(normalizeStreet('Bahnhofstraße 1')).toBe(normalizeStreet('Bahnhofstr. 1'));
+      expect(normalizeStreet('123 Main Street')).toBe(normalizeStreet('123 main st'));
+      expect(normalizeStreet('Fifth Avenue 5')).toBe(normalizeStreet('Fifth Ave. 5'));
+    });
+
+    it('should keep different streets and house numbers apart', () => {
+      expect(normalizeStreet('Bahnhofstrasse 1')).not.toBe(normalizeStreet('Bahnhofstrasse 11'));
+      expect(normalizeStreet('Hauptstrasse 1')).not.toBe(normalizeStreet('Bahnhofstrasse 1'));
+    });
+
+    it('should return an empty string for missing values', () => {
+      expect(normalizeStreet(undefined)).toBe('');
+      expect(normalizeStreet('  ')).toBe('');
+    });
+  });
+
+  describe('isSameStreet', () => {
+    it('should match the house number before or after the street name', () => {
+      expect(isSameStreet('1 Microsoft Way', 'Microsoft Way 1')).toBe(true);
+      expect(isSameStreet('123 Main Street', 'main st 123')).toBe(true);
+      expect(isSameStreet('12 E Main St', 'E Main St 12')).toBe(true);
+    });
+
+    it('should treat a trailing house number suffix as part of the number', () => {
+      expect(isSameStreet('Bahnhofstrasse 12 a', 'Bahnhofstr. 12a')).toBe(true);
+      expect(isSameStreet('Bahnhofstrasse 12 a', 'Bahnhofstrasse 12')).toBe(false);
+    });
+
+    it('should keep different streets and house numbers apart', () => {
+      expect(isSameStreet('1 Microsoft Way', 'Microsoft Way 11')).toBe(false);
+      expect(isSameStreet('Hauptstrasse 1', 'Bahnhofstrasse 1')).toBe(false);
+    });
+
+    it('should not match missing streets', () => {
+      expect(isSameStreet(undefined, undefined)).toBe(false);
+      expect(isSameStreet(' ', ' ')).toBe(false);
+    });
+  });
+
+  describe('getDistanceInMeters', () => {
+    it('should return 0 for the same coordinate', () => {
+      expect(getDistanceInMeters({ lat: 47.3769, lon: 8.5417 }, { lat: 47.3769, lon: 8.5417 })).toBe(0);
+    });
+
+    it('should calculate short distances', () => {
+      // 0.0001° latitude is about 11 m
+      expect(getDistanceInMeters({ lat: 47.3769, lon: 8.5417 }, { lat: 47.377, lon: 8.5417 })).toBeCloseTo(11.1, 0);
+    });
+
+    it('should calculate long distances', () => {
+      // Zürich to Berlin is about 670 km
+      const distance = getDistanceInMeters({ lat: 47.3769, lon: 8.5417 }, { lat: 52.52, lon: 13.405 });
+      expect(distance).toBeGreaterThan(660000);
+      expect(distance).toBeLessThan(680000);
+    });
+  });
+});
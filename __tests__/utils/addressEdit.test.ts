@@ -0,0 +1,167 @@
+/**
+ * Unit tests for manual address edit utility functions.
+ * @module __tests__/utils/addressEdit.test
+ */
+
+import {
+  applyAddressEdits,
+  toEditableAddress,
+  toStructuredAddressRequest,
+} from '../../AzureMapsAddressAutoComplete/utils/addressEdit';
+import { mapAddressOutputs } from '../../AzureMapsAddressAutoComplete/utils/fieldMapping';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+
+describe('addressEdit', () => {
+  const result: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    score: 0.9,
+    address: {
+      streetName: 'Bahnhofstrasse',
+      streetNumber: '1',
+      postalCode: '8001',
+      municipality: 'Zürich',
+      municipalitySubdivision: 'Altstadt',
+      countrySubdivision: 'ZH',
+      countrySubdivisionName: 'Zürich',
+      countrySubdivisionCode: 'ZH',
+      country: 'Schweiz',
+      countryCode: 'CH',
+      countryCodeISO3: 'CHE',
+      freeformAddress: 'Bahnhofstrasse 1, 8001 Zürich',
+    },
+    position: { lat: 47.3769, lon: 8.5417 },
+  };
+
+  describe('toEditableAddress', () => {
+    it('should read the parts used for the bound outputs', () => {
+      expect(toEditableAddress(result)).toEqual({
+        streetName: 'Bahnhofstrasse',
+        streetNumber: '1',
+        city: 'Zürich',
+        postalCode: '8001',
+        county: 'Altstadt',
+        stateProvince: 'Zürich',
+        country: 'Schweiz',
+      });
+    });
+
+    it('should use empty strings for missing parts', () => {
+      expect(toEditableAddress({ ...result, address: { freeformAddress: 'Zürich', localName: 'Zürich' } })).toEqual({
+        streetName: '',
+        streetNumber: '',
+        city: 'Zürich',
+        postalCode: '',
+        county: '',
+        stateProvince: '',
+        country: '',
+      });
+    });
+  });
+
+  describe('applyAddressEdits', () => {
+    it('should return the result unchanged when nothing was edited', () => {
+      expect(applyAddressEdits(result, { ...toEditableAddress(result), city: ' Zürich ' })).toBe(result);
+    });
+
+    it('should apply the edited parts and rebuild the address line', () => {
+      const edited = applyAddressEdits(result, { ...toEditableAddress(result), streetNumber: ' 1a ' });
+
+      expect(edited).toEqual({
+        ...result,
+        score: undefined,
+        address: {
+          ...result.address,
+          streetNumber: '1a',
+          freeformAddress: 'Bahnhofstrasse 1a, 8001 Zürich, Schweiz',
+        },
+        manuallyEdited: true,
+      });
+    });
+
+    it('should drop codes that no longer match the edited parts', () => {
+      const edited = applyAddressEdits(result, {
+        ...toEditableAddress(result),
+        stateProvince: 'Zug',
+        country: 'Atlantis',
+      });
+
+      expect(edited.address.countrySubdivisionCode).toBeUndefined();
+      expect(edited.address.countryCode).toBeUndefined();
+      expect(edited.address.countryCodeISO3).toBeUndefined();
+      expect(edited.position).toEqual(result.position);
+      expect(edited.score).toBeUndefined();
+    });
+
+    it('should resolve the country codes from the edited country name', () => {
+      const edited = applyAddressEdits(result, { ...toEditableAddress(result), country: 'Liechtenstein' });
+
+      expect(edited.address.countryCode).toBe('LI');
+      expect(edited.address.countryCodeISO3).toBe('LIE');
+    });
+
+    it('should keep a cleared county empty instead of falling back to the neighbourhood', () => {
+      const withFallbacks: AzureMapsSearchResult = {
+        ...result,
+        address: { ...result.address, neighbourhood: 'Lindenhof', countrySecondarySubdivision: 'Bezirk Zürich' },
+      };
+
+      const edited = applyAddressEdits(withFallbacks, { ...toEditableAddress(withFallbacks), county: '' });
+
+      expect(toEditableAddress(edited).county).toBe('');
+      expect(mapAddressOutputs(edited, undefined).County).toBe('');
+      expect(edited.address.neighbourhood).toBeUndefined();
+      expect(edited.address.countrySecondarySubdivision).toBeUndefined();
+    });
+
+    it('should keep a cleared city and state empty instead of falling back to the local name and state code', () => {
+      const withFallbacks: AzureMapsSearchResult = {
+        ...result,
+        address: { ...result.address, localName: 'Zürich' },
+      };
+
+      const edited = applyAddressEdits(withFallbacks, {
+        ...toEditableAddress(withFallbacks),
+        city: '',
+        stateProvince: '',
+      });
+
+      expect(mapAddressOutputs(edited, undefined).City).toBe('');
+      expect(mapAddressOutputs(edited, undefined).StateProvince).toBe('');
+    });
+  });
+
+  describe('toStructuredAddressRequest', () => {
+    it('should build the request from the address parts', () => {
+      const edited = applyAddressEdits(result, { ...toEditableAddress(result), streetNumber: '', postalCode: '8002' });
+
+      expect(toStructuredAddressRequest(edited, 'de-CH')).toEqual({
+        countryCode: 'CH',
+        streetName: 'Bahnhofstrasse',
+        streetNumber: '',
+        municipality: 'Zürich',
+        postalCode: '8002',
+        countrySubdivision: 'Zürich',
+        language: 'de-CH',
+        limit: 1,
+      });
+    });
+
+    it('should return undefined without a country code', () => {
+      const edited = applyAddressEdits(result, { ...toEditableAddress(result), country: 'Atlantis' });
+
+      expect(toStructuredAddressRequest(edited)).toBeUndefined();
+    });
+
+    it('should return undefined without street, city and postal code', () => {
+      const edited = applyAddressEdits(result, {
+        ...toEditableAddress(result),
+        streetName: '',
+        city: '',
+        postalCode: '',
+      });
+
+      expect(toStructuredAddressRequest(edited)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for address format utility functions.
+ * @module __tests__/utils/addressFormat.test
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ADDRESS_FORMATS,
+  DEFAULT_ADDRESS_FORMAT,
+  formatAddressLines,
+  formatAddressValue,
+  getAddressFormat,
+  toSingleLineAddress,
+} from '../../AzureMapsAddressAutoComplete/utils/addressFormat';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+
+/**
+ * ISO 3166-1 alpha-2 codes listed in statics/countries.csv.
+ */
+const csvCountryCodes = fs
+  .readFileSync(path.join(__dirname, '../../AzureMapsAddressAutoComplete/statics/countries.csv'), 'utf-8')
+  .split(/\r?\n/)
+  .slice(1)
+  .filter(Boolean)
+  .map((line) => line.split(',')[0].replace(/"/g, ''));
+
+describe('addressFormat', () => {
+  const usResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    address: {
+      streetNumber: '1',
+      streetName: 'Microsoft Way',
+      municipality: 'Redmond',
+      countrySubdivision: 'WA',
+      countrySubdivisionName: 'Washington',
+      countrySubdivisionCode: 'WA',
+      postalCode: '98052',
+      country: 'United States',
+      countryCode: 'US',
+      freeformAddress: '1 Microsoft Way, Redmond, WA 98052',
+    },
+  };
+
+  const frResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-2',
+    address: {
+      streetNumber: '8',
+      streetName: 'Rue de la Paix',
+      municipality: 'Paris',
+      postalCode: '75002',
+      country: 'France',
+      countryCode: 'FR',
+      freeformAddress: '8 Rue de la Paix, 75002 Paris',
+    },
+  };
+
+  const deResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-3',
+    address: {
+      streetNumber: '77',
+      streetName: 'Unter den Linden',
+      municipality: 'Berlin',
+      postalCode: '10117',
+      country: 'Deutschland',
+      countryCode: 'DE',
+      freeformAddress: 'Unter den Linden 77, 10117 Berlin',
+    },
+  };
+
+  describe('getAddressFormat', () => {
+    it('should prefer configured formats over built-in formats', () => {
+      const formats = { US: { Format: '%A%n%Z %C' }, '*': { Format: '%A%n%C' } };
+
+      expect(getAddressFormat('us', formats)).toBe(formats.US);
+      expect(getAddressFormat('FR', formats)).toBe(ADDRESS_FORMATS.FR);
+      expect(getAddressFormat('DE', formats)).toBe(formats['*']);
+      expect(getAddressFormat(undefined)).toBe(DEFAULT_ADDRESS_FORMAT);
+    });
+
+    it('should only have built-in formats for countries of the country list', () => {
+      expect(Object.keys(ADDRESS_FORMATS).filter((code) => !csvCountryCodes.includes(code))).toEqual([]);
+    });
+  });
+
+  describe('formatAddressLines', () => {
+    it('should use the state code and capitals for US addresses', () => {
+      expect(formatAddressLines(usResult)).toEqual(['1 Microsoft Way', 'REDMOND, WA 98052']);
+    });
+
+    it('should write the city in capitals after the postal code for FR addresses', () => {
+      expect(formatAddressLines(frResult)).toEqual(['8 Rue de la Paix', '75002 PARIS']);
+    });
+
+    it('should use the default format for countries without a format of their own', () => {
+      expect(formatAddressLines(deResult)).toEqual(['Unter den Linden 77', '10117 Berlin']);
+    });
+
+    it('should remove separators and lines of empty fields', () => {
+      const result = { ...usResult, address: { ...usResult.address, municipality: undefined, streetNumber: undefined } };
+
+      expect(formatAddressLines(result)).toEqual(['Microsoft Way', 'WA 98052']);
+      expect(
+        formatAddressLines({ ...deResult, address: { freeformAddress: 'Berlin', countryCode: 'DE' } })
+      ).toEqual([]);
+    });
+
+    it('should format an address of every country in the country list', () => {
+      for (const countryCode of csvCountryCodes) {
+        const lines = formatAddressLines({ ...deResult, address: { ...deResult.address, countryCode } });
+
+        expect(lines.length).toBeGreaterThan(0);
+        expect(lines.join(' ')).toMatch(/Unter den Linden|UNTER DEN LINDEN/);
+      }
+    });
+  });
+
+  describe('formatAddressValue', () => {
+    it('should not format without configuration', () => {
+      expect(formatAddressValue(usResult, undefined)).toBeUndefined();
+      expect(formatAddressValue(usResult, { Enabled: false })).toBeUndefined();
+    });
+
+    it('should join the lines in a single line by default', () => {
+      expect(formatAddressValue(usResult, {})).toBe('1 Microsoft Way, REDMOND, WA 98052');
+    });
+
+    it('should write multiple lines with the country in capitals', () => {
+      expect(formatAddressValue(frResult, { Layout: 'MultiLine', IncludeCountry: true })).toBe(
+        '8 Rue de la Paix\n75002 PARIS\nFRANCE'
+      );
+    });
+
+    it('should use configured formats', () => {
+      expect(
+        formatAddressValue(deResult, { Formats: { DE: { Format: '%A%n%Z %C', Uppercase: 'C' } } })
+      ).toBe('Unter den Linden 77, 10117 BERLIN');
+    });
+
+    it('should return undefined for results without address parts', () => {
+      expect(formatAddressValue({ ...usResult, address: { freeformAddress: 'Somewhere' } }, {})).toBeUndefined();
+    });
+  });
+
+  describe('toSingleLineAddress', () => {
+    it('should join the lines of a multi-line value', () => {
+      expect(toSingleLineAddress('1 Microsoft Way\r\nREDMOND, WA 98052\n\nUNITED STATES ')).toBe(
+        '1 Microsoft Way, REDMOND, WA 98052, UNITED STATES'
+      );
+      expect(toSingleLineAddress('1 Microsoft Way, Redmond')).toBe('1 Microsoft Way, Redmond');
+    });
+  });
+});
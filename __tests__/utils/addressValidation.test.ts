@@ -0,0 +1,162 @@
+/**
+ * Unit tests for address validation utility functions.
+ * @module __tests__/utils/addressValidation.test
+ */
+
+import {
+  getValidationMessage,
+  validateAddress,
+} from '../../AzureMapsAddressAutoComplete/utils/addressValidation';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+
+/**
+ * Returns the fallback text, like getString without localized resources.
+ */
+const getFallback = (_key: string, fallback: string): string => fallback;
+
+describe('addressValidation', () => {
+  const pointAddress: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    score: 0.9,
+    address: {
+      streetName: 'Unter den Linden',
+      streetNumber: '77',
+      postalCode: '10117',
+      municipality: 'Berlin',
+      country: 'Deutschland',
+      countryCode: 'DE',
+      freeformAddress: 'Unter den Linden 77, 10117 Berlin',
+    },
+    position: { lat: 52.5163, lon: 13.3777 },
+  };
+
+  const municipality: AzureMapsSearchResult = {
+    type: 'Geography',
+    id: 'result-2',
+    score: 0.95,
+    entityType: 'Municipality',
+    address: {
+      municipality: 'Berlin',
+      country: 'Deutschland',
+      countryCode: 'DE',
+      freeformAddress: 'Berlin',
+    },
+    position: { lat: 52.52, lon: 13.405 },
+  };
+
+  describe('validateAddress', () => {
+    it('should not validate without configuration', () => {
+      expect(validateAddress(pointAddress, undefined)).toBeUndefined();
+      expect(validateAddress(pointAddress, { Enabled: false, MinScore: 1 })).toBeUndefined();
+    });
+
+    it('should accept addresses that meet all rules', () => {
+      expect(
+        validateAddress(pointAddress, {
+          MinScore: 0.5,
+          AllowedEntityTypes: ['Point Address'],
+          RequiredComponents: { DE: ['Street', 'StreetNumber', 'PostalCode'] },
+        })
+      ).toEqual({ status: 'Valid', failures: [] });
+    });
+
+    it('should reject scores below the minimum', () => {
+      expect(validateAddress({ ...pointAddress, score: 0.3 }, { MinScore: 0.5 })).toEqual({
+        status: 'Invalid',
+        failures: [{ code: 'ScoreBelowMinimum', score: 0.3, minScore: 0.5 }],
+      });
+    });
+
+    it('should accept results without a score', () => {
+      expect(validateAddress({ ...pointAddress, score: undefined }, { MinScore: 0.5 })?.status).toBe('Valid');
+    });
+
+    it('should reject entity types outside the allowlist', () => {
+      expect(
+        validateAddress(municipality, { AllowedEntityTypes: ['Point Address', 'Address Range'] })?.failures
+      ).toEqual([{ code: 'EntityTypeNotAllowed', entityType: 'Municipality' }]);
+    });
+
+    it('should match entity types case-insensitively', () => {
+      expect(validateAddress(pointAddress, { AllowedEntityTypes: ['point address'] })?.status).toBe('Valid');
+    });
+
+    it('should accept address book entries of any type', () => {
+      const entry: AzureMapsSearchResult = {
+        ...pointAddress,
+        type: 'Address Book',
+        score: undefined,
+        addressBookRecord: { tableName: 'contoso_site', id: 'site-1' },
+      };
+
+      expect(validateAddress(entry, { AllowedEntityTypes: ['Point Address'], MinScore: 0.5 })?.status).toBe('Valid');
+      expect(
+        validateAddress({ ...entry, address: { ...entry.address, postalCode: undefined } }, {
+          AllowedEntityTypes: ['Point Address'],
+          RequiredComponents: { '*': ['PostalCode'] },
+        })?.failures
+      ).toEqual([{ code: 'MissingComponent', component: 'PostalCode' }]);
+    });
+
+    it('should require the components of the result country', () => {
+      const result = { ...pointAddress, address: { ...pointAddress.address, streetNumber: undefined } };
+
+      expect(
+        validateAddress(result, { RequiredComponents: { DE: ['StreetNumber'], GB: ['PostalCode'] } })?.failures
+      ).toEqual([{ code: 'MissingComponent', component: 'StreetNumber' }]);
+    });
+
+    it('should fall back to the components required for all countries', () => {
+      const result = {
+        ...pointAddress,
+        address: { ...pointAddress.address, countryCode: 'GB', postalCode: ' ' },
+      };
+
+      expect(
+        validateAddress(result, { RequiredComponents: { '*': ['PostalCode', 'City'], DE: ['StreetNumber'] } })
+          ?.failures
+      ).toEqual([{ code: 'MissingComponent', component: 'PostalCode' }]);
+    });
+  });
+
+  describe('getValidationMessage', () => {
+    it('should describe each failed rule', () => {
+      const message = getValidationMessage(
+        [
+          { code: 'ScoreBelowMinimum', score: 0.333, minScore: 0.5 },
+          { code: 'EntityTypeNotAllowed', entityType: 'Municipality' },
+        ],
+        getFallback
+      );
+
+      expect(message).toBe(
+        'The address match score (0.33) is below the required minimum (0.5). ' +
+          'Results of type "Municipality" are not accepted. Select a more precise address.'
+      );
+    });
+
+    it('should combine missing components in one sentence', () => {
+      const message = getValidationMessage(
+        [
+          { code: 'MissingComponent', component: 'StreetNumber' },
+          { code: 'MissingComponent', component: 'PostalCode' },
+        ],
+        getFallback
+      );
+
+      expect(message).toBe('The address is missing required information: House Number, ZIP/Postal Code.');
+    });
+
+    it('should use localized strings', () => {
+      const getString = jest.fn((key: string, fallback: string) =>
+        key === 'azure-maps-address-auto-complete-validation-missing' ? 'Es fehlt: {0}.' : fallback
+      );
+
+      expect(getValidationMessage([{ code: 'MissingComponent', component: 'City' }], getString)).toBe(
+        'Es fehlt: City.'
+      );
+      expect(getString).toHaveBeenCalledWith('city_Display_Key', 'City');
+    });
+  });
+});
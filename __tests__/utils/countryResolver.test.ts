@@ -0,0 +1,120 @@
+/**
+ * Unit tests for country resolver utility functions.
+ * @module __tests__/utils/countryResolver.test
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  formatCountryText,
+  getLocalizedCountryName,
+  isSameCountry,
+  resolveCountry,
+} from '../../AzureMapsAddressAutoComplete/utils/countryResolver';
+
+/**
+ * Rows of statics/countries.csv: ISO2, ISO3, English, German, French, Italian.
+ */
+const csvRows = fs
+  .readFileSync(path.join(__dirname, '../../AzureMapsAddressAutoComplete/statics/countries.csv'), 'utf-8')
+  .split(/\r?\n/)
+  .slice(1)
+  .filter(Boolean)
+  .map((line) => line.split('","').map((value) => value.replace(/"/g, '')));
+
+describe('countryResolver', () => {
+  describe('resolveCountry', () => {
+    it('should resolve ISO codes', () => {
+      expect(resolveCountry('ch')?.CountryISO2).toBe('CH');
+      expect(resolveCountry(' DEU ')?.CountryISO2).toBe('DE');
+    });
+
+    it('should resolve names in any known language', () => {
+      expect(resolveCountry('Switzerland')?.CountryISO2).toBe('CH');
+      expect(resolveCountry('Schweiz')?.CountryISO2).toBe('CH');
+      expect(resolveCountry('Suisse')?.CountryISO2).toBe('CH');
+      expect(resolveCountry('Svizzera')?.CountryISO2).toBe('CH');
+      expect(resolveCountry('Alemanha')?.CountryISO2).toBe('DE');
+    });
+
+    it('should ignore case, diacritics and punctuation', () => {
+      expect(resolveCountry('OSTERREICH')?.CountryISO2).toBe('AT');
+      expect(resolveCountry('cote divoire')?.CountryISO2).toBe('CI');
+      expect(resolveCountry('Österreich')?.CountryISO2).toBe('AT');
+    });
+
+    it('should return undefined for empty or unknown values', () => {
+      expect(resolveCountry(undefined)).toBeUndefined();
+      expect(resolveCountry('  ')).toBeUndefined();
+      expect(resolveCountry('Atlantis')).toBeUndefined();
+      expect(resolveCountry('XX')).toBeUndefined();
+    });
+
+    it('should resolve the codes and names of every country in the country list', () => {
+      expect(csvRows.length).toBeGreaterThan(0);
+      for (const [iso2, iso3, ...names] of csvRows) {
+        expect([iso3, ...names].map((value) => resolveCountry(value)?.CountryISO2)).toEqual(
+          new Array(names.length + 1).fill(iso2)
+        );
+      }
+    });
+  });
+
+  describe('isSameCountry', () => {
+    it('should compare a name or code with an ISO2 code', () => {
+      expect(isSameCountry('Allemagne', 'de')).toBe(true);
+      expect(isSameCountry('Germany', 'AT')).toBe(false);
+      expect(isSameCountry('Germany', '')).toBe(false);
+      expect(isSameCountry(undefined, 'DE')).toBe(false);
+    });
+  });
+
+  describe('getLocalizedCountryName', () => {
+    const germany = resolveCountry('DE')!;
+
+    it('should return the name in the language', () => {
+      expect(getLocalizedCountryName(germany, 1031)).toBe('Deutschland');
+      expect(getLocalizedCountryName(germany, 1036)).toBe('Allemagne');
+    });
+
+    it('should use another variant of the language', () => {
+      // German (Switzerland) and Portuguese (Brazil)
+      expect(getLocalizedCountryName(germany, 1046)).toBe(getLocalizedCountryName(germany, 2070));
+      expect(getLocalizedCountryName(resolveCountry('CH')!, 2055)).toBe('Schweiz');
+    });
+
+    it('should fall back to the English name', () => {
+      expect(getLocalizedCountryName(germany, 1041)).toBe('Germany');
+      expect(getLocalizedCountryName(germany, undefined)).toBe('Germany');
+    });
+  });
+
+  describe('formatCountryText', () => {
+    const germany = { name: 'Germany', countryCodeISO2: 'DE', countryCodeISO3: '' };
+
+    it('should write the name by default', () => {
+      expect(formatCountryText(undefined, germany)).toBe('Germany');
+      expect(formatCountryText('Name', germany, 1031)).toBe('Germany');
+    });
+
+    it('should write the ISO codes', () => {
+      expect(formatCountryText('ISO2', { ...germany, countryCodeISO2: '' })).toBe('DE');
+      expect(formatCountryText('ISO3', germany)).toBe('DEU');
+    });
+
+    it('should write the name in the user language', () => {
+      expect(formatCountryText('LocalizedName', germany, 1031)).toBe('Deutschland');
+      expect(formatCountryText('LocalizedName', { ...germany, countryCodeISO2: '', name: 'Allemagne' }, 1040)).toBe(
+        'Germania'
+      );
+    });
+
+    it('should write the received values of countries missing from the country list', () => {
+      const territory = { name: 'Atlantis', countryCodeISO2: 'xa', countryCodeISO3: '' };
+
+      expect(formatCountryText('ISO2', territory)).toBe('XA');
+      expect(formatCountryText('ISO3', territory)).toBe('Atlantis');
+      expect(formatCountryText('LocalizedName', territory, 1031)).toBe('Atlantis');
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Unit tests for CSV utility functions.
+ * @module __tests__/utils/csv.test
+ */
+
+import { toCsv } from '../../AzureMapsAddressAutoComplete/utils/csv';
+
+describe('csv', () => {
+  describe('toCsv', () => {
+    it('should join cells with commas and rows with CRLF', () => {
+      expect(toCsv([['Id', 'Reason'], ['1', 'NoMatch']])).toBe('Id,Reason\r\n1,NoMatch');
+    });
+
+    it('should quote cells with commas, quotes and line breaks', () => {
+      expect(toCsv([['Bahnhofstrasse 1, 8001 Zürich', 'Say "hi"', 'a\nb']])).toBe(
+        '"Bahnhofstrasse 1, 8001 Zürich","Say ""hi""","a\nb"'
+      );
+    });
+
+    it('should return an empty string without rows', () => {
+      expect(toCsv([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for field mapping utility functions.
+ * @module __tests__/utils/fieldMapping.test
+ */
+
+import {
+  formatOutputTemplate,
+  mapAddressOutputs,
+} from '../../AzureMapsAddressAutoComplete/utils/fieldMapping';
+import type { AzureMapsSearchResult } from '../../AzureMapsAddressAutoComplete/services';
+import type { FieldMappingConfig } from '../../AzureMapsAddressAutoComplete/types';
+
+describe('fieldMapping', () => {
+  const usResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-1',
+    address: {
+      streetNumber: '1',
+      streetName: 'Microsoft Way',
+      municipality: 'Redmond',
+      countrySecondarySubdivision: 'King',
+      countrySubdivision: 'WA',
+      countrySubdivisionName: 'Washington',
+      countrySubdivisionCode: 'WA',
+      postalCode: '98052',
+      country: 'United States',
+      countryCode: 'US',
+      freeformAddress: '1 Microsoft Way, Redmond, WA 98052',
+    },
+  };
+
+  const deResult: AzureMapsSearchResult = {
+    type: 'Point Address',
+    id: 'result-2',
+    address: {
+      streetNumber: '77',
+      streetName: 'Unter den Linden',
+      municipality: 'Berlin',
+      municipalitySubdivision: 'Mitte',
+      countrySubdivisionName: 'Berlin',
+      postalCode: '10117',
+      country: 'Deutschland',
+      countryCode: 'DE',
+      freeformAddress: 'Unter den Linden 77, 10117 Berlin',
+    },
+  };
+
+  const config: FieldMappingConfig = {
+    Templates: {
+      '*': { Street: '{streetName} {streetNumber}' },
+      US: { Street: '{streetNumber} {streetName}', County: ['{countrySecondarySubdivision} County', '{municipalitySubdivision}'] },
+    },
+  };
+
+  describe('formatOutputTemplate', () => {
+    it('should fill in the address parts', () => {
+      expect(formatOutputTemplate('{postalCode} {municipality}', deResult.address)).toBe('10117 Berlin');
+    });
+
+    it('should remove whitespace and separators left by empty parts', () => {
+      expect(formatOutputTemplate('{streetNumber}  {streetName}', { ...deResult.address, streetNumber: undefined })).toBe(
+        'Unter den Linden'
+      );
+      expect(formatOutputTemplate('{neighbourhood}, {municipality}, {postalCode}', { ...deResult.address, postalCode: ' ' })).toBe(
+        'Berlin'
+      );
+    });
+
+    it('should return undefined when every address part is empty', () => {
+      expect(formatOutputTemplate('{neighbourhood} District', deResult.address)).toBeUndefined();
+      expect(formatOutputTemplate('{unknownPart}', deResult.address)).toBeUndefined();
+    });
+
+    it('should return templates without address parts as is', () => {
+      expect(formatOutputTemplate('n/a', deResult.address)).toBe('n/a');
+    });
+  });
+
+  describe('mapAddressOutputs', () => {
+    it('should use the built-in templates without configuration', () => {
+      expect(mapAddressOutputs(usResult, undefined)).toEqual({
+        Street: 'Microsoft Way 1',
+        City: 'Redmond',
+        PostalCode: '98052',
+        County: '',
+        StateProvince: 'Washington',
+        StateProvinceCode: 'WA',
+        Country: 'United States',
+      });
+    });
+
+    it('should use the templates of the result country', () => {
+      const outputs = mapAddressOutputs(usResult, config);
+
+      expect(outputs.Street).toBe('1 Microsoft Way');
+      expect(outputs.County).toBe('King County');
+      expect(outputs.City).toBe('Redmond');
+    });
+
+    it('should fall back to the next template and to the * entry', () => {
+      const outputs = mapAddressOutputs(
+        { ...usResult, address: { ...usResult.address, countrySecondarySubdivision: undefined, municipalitySubdivision: 'Overlake' } },
+        config
+      );
+
+      expect(outputs.County).toBe('Overlake');
+      expect(mapAddressOutputs(deResult, config).Street).toBe('Unter den Linden 77');
+    });
+
+    it('should fall back to the built-in templates for outputs without an entry', () => {
+      expect(mapAddressOutputs(deResult, config).County).toBe('Mitte');
+      expect(mapAddressOutputs({ ...deResult, address: { freeformAddress: 'Berlin', localName: 'Berlin' } }, config).City).toBe(
+        'Berlin'
+      );
+    });
+
+    it('should ignore disabled configuration', () => {
+      expect(mapAddressOutputs(usResult, { ...config, Enabled: false }).Street).toBe('Microsoft Way 1');
+    });
+  });
+});
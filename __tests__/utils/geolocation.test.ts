@@ -0,0 +1,69 @@
+/**
+ * Unit tests for geolocation utilities
+ */
+import {
+  getCurrentPosition,
+  isGeolocationSupported,
+} from '../../AzureMapsAddressAutoComplete/utils/geolocation';
+import { GeolocationError } from '../../AzureMapsAddressAutoComplete/types';
+
+describe('geolocation', () => {
+  const mockGetCurrentPosition = jest.fn();
+
+  const setGeolocation = (value: unknown): void => {
+    Object.defineProperty(navigator, 'geolocation', { value, configurable: true });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setGeolocation({ getCurrentPosition: mockGetCurrentPosition });
+  });
+
+  afterAll(() => {
+    setGeolocation(undefined);
+  });
+
+  describe('isGeolocationSupported', () => {
+    it('should return true when navigator.geolocation exists', () => {
+      expect(isGeolocationSupported()).toBe(true);
+    });
+
+    it('should return false when navigator.geolocation is missing', () => {
+      setGeolocation(undefined);
+
+      expect(isGeolocationSupported()).toBe(false);
+    });
+  });
+
+  describe('getCurrentPosition', () => {
+    it('should resolve with the latitude and longitude', async () => {
+      mockGetCurrentPosition.mockImplementation((success: PositionCallback) =>
+        success({ coords: { latitude: 48.1374, longitude: 11.5755 } } as GeolocationPosition)
+      );
+
+      await expect(getCurrentPosition({ timeout: 5000 })).resolves.toEqual({ lat: 48.1374, lon: 11.5755 });
+      expect(mockGetCurrentPosition).toHaveBeenCalledWith(expect.any(Function), expect.any(Function), { timeout: 5000 });
+    });
+
+    it.each([
+      [1, 'PermissionDenied'],
+      [2, 'PositionUnavailable'],
+      [3, 'Timeout'],
+    ])('should map position error code %i to %s', async (code, expected) => {
+      mockGetCurrentPosition.mockImplementation((_success: PositionCallback, error: PositionErrorCallback) =>
+        error({ code, message: 'failed' } as GeolocationPositionError)
+      );
+
+      const promise = getCurrentPosition();
+
+      await expect(promise).rejects.toBeInstanceOf(GeolocationError);
+      await expect(promise).rejects.toMatchObject({ code: expected });
+    });
+
+    it('should reject when geolocation is unsupported', async () => {
+      setGeolocation(undefined);
+
+      await expect(getCurrentPosition()).rejects.toMatchObject({ code: 'Unsupported' });
+    });
+  });
+});
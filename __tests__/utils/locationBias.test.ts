@@ -0,0 +1,59 @@
+/**
+ * Unit tests for location bias resolution
+ */
+import { resolveLocationBias } from '../../AzureMapsAddressAutoComplete/utils/locationBias';
+import { GeolocationError } from '../../AzureMapsAddressAutoComplete/types';
+
+describe('resolveLocationBias', () => {
+  const noRecord = { lat: undefined, lon: undefined };
+  const record = { lat: 52.52, lon: 13.405 };
+  const fixedPoint = { Latitude: 48.7758, Longitude: 9.1829 };
+
+  it('should not bias searches without configuration or when disabled', async () => {
+    await expect(resolveLocationBias(undefined, record)).resolves.toBeUndefined();
+    await expect(resolveLocationBias({ Enabled: false, ...fixedPoint }, record)).resolves.toBeUndefined();
+  });
+
+  it('should prefer the record coordinates by default', async () => {
+    await expect(resolveLocationBias({ ...fixedPoint }, record)).resolves.toEqual({
+      lat: 52.52,
+      lon: 13.405,
+      radius: undefined,
+    });
+  });
+
+  it('should fall back to the fixed point when the record has no coordinates', async () => {
+    await expect(resolveLocationBias({ ...fixedPoint, Radius: 50000 }, noRecord)).resolves.toEqual({
+      lat: 48.7758,
+      lon: 9.1829,
+      radius: 50000,
+    });
+  });
+
+  it('should ignore out-of-range coordinates', async () => {
+    await expect(
+      resolveLocationBias({ Sources: ['Record'] }, { lat: 120, lon: 13.405 })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should only use the browser location when configured', async () => {
+    const getUserPosition = jest.fn().mockResolvedValue({ lat: 47.37, lon: 8.54 });
+
+    await resolveLocationBias({ ...fixedPoint }, noRecord, getUserPosition);
+    expect(getUserPosition).not.toHaveBeenCalled();
+
+    await expect(
+      resolveLocationBias({ Sources: ['UserLocation', 'FixedPoint'], ...fixedPoint }, record, getUserPosition)
+    ).resolves.toEqual({ lat: 47.37, lon: 8.54, radius: undefined });
+  });
+
+  it('should try the next source when the browser location is denied', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const getUserPosition = jest.fn().mockRejectedValue(new GeolocationError('denied', 'PermissionDenied'));
+
+    await expect(
+      resolveLocationBias({ Sources: ['UserLocation', 'FixedPoint'], ...fixedPoint }, noRecord, getUserPosition)
+    ).resolves.toEqual({ lat: 48.7758, lon: 9.1829, radius: undefined });
+    (console.warn as jest.Mock).mockRestore();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for missing coordinates utility functions.
+ * @module __tests__/utils/missingCoordinates.test
+ */
+
+import {
+  resolveCountryCode,
+  splitStreet,
+  toMissingCoordinatesRequest,
+} from '../../AzureMapsAddressAutoComplete/utils/missingCoordinates';
+
+describe('missingCoordinates', () => {
+  describe('splitStreet', () => {
+    it('should split a house number after the street name', () => {
+      expect(splitStreet('Bahnhofstrasse 1')).toEqual({ streetName: 'Bahnhofstrasse', streetNumber: '1' });
+      expect(splitStreet('Rue de la Paix 12b')).toEqual({ streetName: 'Rue de la Paix', streetNumber: '12b' });
+      expect(splitStreet('Hauptstraße 3-5')).toEqual({ streetName: 'Hauptstraße', streetNumber: '3-5' });
+    });
+
+    it('should split a house number before the street name', () => {
+      expect(splitStreet('1 Microsoft Way')).toEqual({ streetName: 'Microsoft Way', streetNumber: '1' });
+    });
+
+    it('should keep streets without a house number', () => {
+      expect(splitStreet(' Bahnhofplatz ')).toEqual({ streetName: 'Bahnhofplatz' });
+      expect(splitStreet('')).toEqual({ streetName: '' });
+    });
+  });
+
+  describe('resolveCountryCode', () => {
+    it('should prefer the country code of the record', () => {
+      expect(resolveCountryCode(' de ', 'CH')).toBe('DE');
+    });
+
+    it('should fall back to a single default country', () => {
+      expect(resolveCountryCode('', ' ch ')).toBe('CH');
+      expect(resolveCountryCode('', 'CH,LI')).toBeUndefined();
+      expect(resolveCountryCode('', '')).toBeUndefined();
+    });
+  });
+
+  describe('toMissingCoordinatesRequest', () => {
+    const fields = {
+      street: 'Bahnhofstrasse 1',
+      city: 'Zürich',
+      postalCode: '8001',
+      stateProvince: '',
+      countryCodeISO2: 'ch',
+    };
+
+    it('should build the request from the bound fields', () => {
+      expect(toMissingCoordinatesRequest(fields, '', 'de-CH')).toEqual({
+        countryCode: 'CH',
+        streetName: 'Bahnhofstrasse',
+        streetNumber: '1',
+        municipality: 'Zürich',
+        postalCode: '8001',
+        countrySubdivision: '',
+        language: 'de-CH',
+        limit: 1,
+      });
+    });
+
+    it('should fall back to a single default country', () => {
+      expect(toMissingCoordinatesRequest({ ...fields, countryCodeISO2: '' }, ' de ')?.countryCode).toBe('DE');
+      expect(toMissingCoordinatesRequest({ ...fields, countryCodeISO2: '' }, 'DE,AT')).toBeUndefined();
+    });
+
+    it('should return undefined without street, city and postal code', () => {
+      expect(
+        toMissingCoordinatesRequest({ ...fields, street: '', city: ' ', postalCode: '' }, 'CH')
+      ).toBeUndefined();
+    });
+  });
+});
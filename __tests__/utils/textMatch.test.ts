@@ -0,0 +1,105 @@
+/**
+ * Unit tests for text matching utility functions.
+ * @module __tests__/utils/textMatch.test
+ */
+
+import {
+  findMatchRanges,
+  tokenizeQuery,
+} from '../../AzureMapsAddressAutoComplete/utils/textMatch';
+import type { MatchRange } from '../../AzureMapsAddressAutoComplete/utils/textMatch';
+
+/**
+ * Returns the matched parts of a text.
+ */
+const matchedParts = (text: string, ranges: MatchRange[]): string[] =>
+  ranges.map((range) => text.slice(range.start, range.end));
+
+describe('textMatch', () => {
+  describe('tokenizeQuery', () => {
+    it('should split on whitespace and punctuation', () => {
+      expect(tokenizeQuery('Main St, 8001 Zürich')).toEqual(['main', 'st', '8001', 'zurich']);
+    });
+
+    it('should remove duplicate tokens', () => {
+      expect(tokenizeQuery('Bern bern BERN')).toEqual(['bern']);
+    });
+
+    it('should return no tokens for an empty query', () => {
+      expect(tokenizeQuery('  , ')).toEqual([]);
+    });
+  });
+
+  describe('findMatchRanges', () => {
+    it('should ignore diacritics', () => {
+      const text = '[CH] 8001 - Bahnhofstrasse 1, 8001 Zürich';
+
+      expect(matchedParts(text, findMatchRanges(text, 'zurich'))).toEqual(['Zürich']);
+    });
+
+    it('should match diacritics in the query against plain text', () => {
+      const text = 'Zurich, Switzerland';
+
+      expect(matchedParts(text, findMatchRanges(text, 'Zürich'))).toEqual(['Zurich']);
+    });
+
+    it('should match letters that expand when folded', () => {
+      const text = 'Hauptstraße 5, Berlin';
+
+      expect(matchedParts('Straße 5', findMatchRanges('Straße 5', 'str'))).toEqual(['Str']);
+      expect(matchedParts(text, findMatchRanges(text, 'hauptstrasse'))).toEqual(['Hauptstraße']);
+      expect(matchedParts(text, findMatchRanges(text, 'hauptstras'))).toEqual(['Hauptstraß']);
+    });
+
+    it('should match each token at word starts', () => {
+      const text = 'Main Street, Seattle, WA';
+      const ranges = findMatchRanges(text, 'sea main');
+
+      expect(ranges).toEqual([
+        { start: 0, end: 4 },
+        { start: 13, end: 16 },
+      ]);
+    });
+
+    it('should not match short tokens inside words', () => {
+      expect(findMatchRanges('Seattle', 'at')).toEqual([]);
+    });
+
+    it('should match longer tokens inside words when no word starts with them', () => {
+      const text = 'Bahnhofstrasse 1, Zürich';
+
+      expect(matchedParts(text, findMatchRanges(text, 'strasse'))).toEqual(['strasse']);
+    });
+
+    it('should prefer word starts over matches inside words', () => {
+      const text = 'Hauptstrasse, Strasse';
+
+      expect(matchedParts(text, findMatchRanges(text, 'strasse'))).toEqual(['Strasse']);
+    });
+
+    it('should merge overlapping and adjacent ranges', () => {
+      expect(findMatchRanges('Main Street', 'main mai street')).toEqual([
+        { start: 0, end: 4 },
+        { start: 5, end: 11 },
+      ]);
+      expect(findMatchRanges('Bahnhofstrasse', 'bahnhof strasse')).toEqual([{ start: 0, end: 14 }]);
+    });
+
+    it('should find every occurrence of a token', () => {
+      const text = '[CH] 8001 - Bahnhofstrasse 1, 8001 Zürich';
+
+      expect(matchedParts(text, findMatchRanges(text, '8001'))).toEqual(['8001', '8001']);
+    });
+
+    it('should return no ranges for an empty query or text', () => {
+      expect(findMatchRanges('Main Street', '')).toEqual([]);
+      expect(findMatchRanges('', 'main')).toEqual([]);
+    });
+
+    it('should keep positions of characters outside the basic plane', () => {
+      const text = '🏠 Main Street';
+
+      expect(matchedParts(text, findMatchRanges(text, 'main'))).toEqual(['Main']);
+    });
+  });
+});